@@ -1,8 +1,58 @@
+const path = require("path");
+
+const JWT_SECRET = process.env.JWT_SECRET || "koko_SaaS_app_secret_key_123!@#";
+
 // Centralized configuration for secrets and token expiry
 module.exports = {
-  JWT_SECRET: process.env.JWT_SECRET || "koko_SaaS_app_secret_key_123!@#",
+  JWT_SECRET,
   REFRESH_TOKEN_SECRET: process.env.REFRESH_TOKEN_SECRET || "koko_SaaS_refresh_key_456$%^",
   ACCESS_TOKEN_EXPIRY_ADMIN: process.env.ACCESS_TOKEN_EXPIRY_ADMIN || "24h",
   ACCESS_TOKEN_EXPIRY_USER: process.env.ACCESS_TOKEN_EXPIRY_USER || "1h",
   REFRESH_TOKEN_EXPIRY: process.env.REFRESH_TOKEN_EXPIRY || "7d",
+  // TTF used for Burmese text in server-rendered PDFs
+  MYANMAR_FONT_PATH:
+    process.env.MYANMAR_FONT_PATH ||
+    path.join(__dirname, "..", "public", "fonts", "NotoSansMyanmar-Regular.ttf"),
+  // Exchange-rate source for POST /api/exchange-rates/sync and the file it reads when set to "file"
+  RATE_PROVIDER: process.env.RATE_PROVIDER || "file",
+  RATE_FILE_PATH: process.env.RATE_FILE_PATH || path.join(__dirname, "data", "exchange-rates.json"),
+  // Outgoing mail: "smtp", "file" (one JSON file per message in MAIL_FILE_DIR) or "console"
+  MAIL_TRANSPORT: process.env.MAIL_TRANSPORT || "console",
+  MAIL_FROM: process.env.MAIL_FROM || "Invoice Generator <no-reply@localhost>",
+  MAIL_FILE_DIR: process.env.MAIL_FILE_DIR || path.join(__dirname, "data", "mail"),
+  SMTP_HOST: process.env.SMTP_HOST || "localhost",
+  SMTP_PORT: Number(process.env.SMTP_PORT || 587),
+  SMTP_SECURE: process.env.SMTP_SECURE === "true",
+  SMTP_USER: process.env.SMTP_USER || "",
+  SMTP_PASS: process.env.SMTP_PASS || "",
+  // Frontend address used for links in emails
+  APP_URL: process.env.APP_URL || "http://localhost:8080",
+  PASSWORD_RESET_TTL_MINUTES: Number(process.env.PASSWORD_RESET_TTL_MINUTES || 60),
+  // Self-service sign-up via POST /api/auth/register. New accounts confirm their email, then
+  // wait for admin approval, or start a trial of SIGNUP_TRIAL_DAYS days when that is above 0
+  SIGNUP_ENABLED: process.env.SIGNUP_ENABLED !== "false",
+  SIGNUP_TRIAL_DAYS: Number(process.env.SIGNUP_TRIAL_DAYS || 0),
+  EMAIL_VERIFICATION_TTL_HOURS: Number(process.env.EMAIL_VERIFICATION_TTL_HOURS || 48),
+  // Renewal reminders are emailed this many days before subscription_end_date (comma-separated).
+  // After expiry the account is read-only; once SUBSCRIPTION_GRACE_DAYS have passed the job marks it 'expired'
+  SUBSCRIPTION_REMINDER_DAYS: (process.env.SUBSCRIPTION_REMINDER_DAYS || "7,1")
+    .split(",")
+    .map((days) => Number(days.trim()))
+    .filter((days) => Number.isInteger(days) && days > 0)
+    .sort((a, b) => b - a),
+  SUBSCRIPTION_GRACE_DAYS: Number(process.env.SUBSCRIPTION_GRACE_DAYS || 7),
+  // How often the server runs the reminder and expiry job; 0 turns the schedule off
+  SUBSCRIPTION_JOB_INTERVAL_MINUTES: Number(process.env.SUBSCRIPTION_JOB_INTERVAL_MINUTES || 60),
+  // How long an emailed workspace invitation can be accepted
+  WORKSPACE_INVITATION_TTL_DAYS: Number(process.env.WORKSPACE_INVITATION_TTL_DAYS || 7),
+  // Signs the short-lived token between the password and the 2FA code step; kept apart from
+  // JWT_SECRET so it can never pass as an access token
+  TWO_FACTOR_CHALLENGE_SECRET: process.env.TWO_FACTOR_CHALLENGE_SECRET || `${JWT_SECRET}:two-factor`,
+  TWO_FACTOR_CHALLENGE_EXPIRY: process.env.TWO_FACTOR_CHALLENGE_EXPIRY || "5m",
+  // Wrong codes allowed at the login step before it is locked for TWO_FACTOR_LOCKOUT_MINUTES
+  TWO_FACTOR_MAX_ATTEMPTS: Number(process.env.TWO_FACTOR_MAX_ATTEMPTS || 5),
+  TWO_FACTOR_LOCKOUT_MINUTES: Number(process.env.TWO_FACTOR_LOCKOUT_MINUTES || 15),
+  // Encrypts stored TOTP secrets (AES-256-GCM with a SHA-256 of this value as the key)
+  TWO_FACTOR_ENCRYPTION_KEY: process.env.TWO_FACTOR_ENCRYPTION_KEY || JWT_SECRET,
+  TWO_FACTOR_ISSUER: process.env.TWO_FACTOR_ISSUER || "Invoice Generator",
 };
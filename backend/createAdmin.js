@@ -1,6 +1,7 @@
 require('dotenv').config();
 const bcrypt = require("bcryptjs");
 const { query, pool } = require("./db");
+const { createWorkspace } = require("./services/workspaces");
 
 const EMAIL = "admin@example.com";
 const PASSWORD = "admin123";
@@ -29,6 +30,8 @@ async function main() {
       expiryDate,
     ]);
 
+    await createWorkspace({ query }, rows[0]);
+
     console.log("Admin user created:");
     console.table(rows);
   } catch (error) {
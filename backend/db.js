@@ -1,4 +1,5 @@
 const { Pool } = require("pg");
+const Cursor = require("pg-cursor");
 
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
@@ -15,7 +16,43 @@ pool.on("error", (err) => {
 
 const query = (text, params) => pool.query(text, params);
 
+// Run callback(client) inside BEGIN/COMMIT on a dedicated connection,
+// rolling back if it throws.
+const withTransaction = async (callback) => {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const result = await callback(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// Yield the rows of a query in batches through a server-side cursor so large result sets
+// never sit in memory at once. Stopping the iteration early closes the cursor.
+const streamQuery = async function* (text, params, batchSize = 500) {
+  const client = await pool.connect();
+  const cursor = client.query(new Cursor(text, params));
+  try {
+    while (true) {
+      const rows = await cursor.read(batchSize);
+      if (rows.length === 0) break;
+      yield* rows;
+    }
+  } finally {
+    await cursor.close().catch(() => {});
+    client.release();
+  }
+};
+
 module.exports = {
   pool,
   query,
+  withTransaction,
+  streamQuery,
 };
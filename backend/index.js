@@ -1,9 +1,10 @@
 require('dotenv').config();
 const express = require("express");
-const { pool } = require("./db");
+const { pool, query } = require("./db");
 const authRouter = require("./routes/auth");
 const clientsRouter = require("./routes/clients");
 const adminRouter = require("./routes/admin");
+const { scheduleSubscriptionJob } = require("./services/subscriptionLifecycle");
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -14,6 +15,15 @@ app.use("/api/clients", clientsRouter);
 app.use("/api/admin", adminRouter);
 app.use('/api/transactions', require('./routes/transactions'));
 app.use('/api/invoices', require('./routes/invoices'));
+app.use('/api/credit-notes', require('./routes/creditNotes'));
+app.use('/api/settings', require('./routes/settings'));
+app.use('/api/exchange-rates', require('./routes/exchangeRates'));
+app.use('/api/fee-rules', require('./routes/feeRules'));
+app.use('/api/commission-rules', require('./routes/commissionRules'));
+app.use('/api/payout-batches', require('./routes/payoutBatches'));
+app.use('/api/reports', require('./routes/reports'));
+app.use('/api/workspaces', require('./routes/workspaces'));
+app.use('/api/audit', require('./routes/audit'));
 
 app.get("/health", async (_req, res) => {
   try {
@@ -27,4 +37,6 @@ app.get("/health", async (_req, res) => {
 
 app.listen(PORT, () => {
   console.log(`Server listening on port ${PORT}`);
+  // Renewal reminders and suspension after the grace period
+  scheduleSubscriptionJob({ query });
 });
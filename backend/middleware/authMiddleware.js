@@ -1,9 +1,22 @@
 const jwt = require("jsonwebtoken");
 const { query } = require("../db");
 const config = require("../config");
+const { isTwoFactorRequired } = require("../services/twoFactor");
+const { isSessionActive } = require("../services/sessions");
+const { accountBlock, accountReadOnly } = require("../services/accountStatus");
+const { resolveWorkspace, hasPermission } = require("../services/workspaces");
 
 const JWT_SECRET = config.JWT_SECRET;
 
+// Requests a read-only account may still make: reads, its own sign-in and security settings,
+// and previews that save nothing
+const READ_ONLY_METHODS = ["GET", "HEAD", "OPTIONS"];
+const READ_ONLY_ALLOWED = [/^\/api\/auth\//, /\/preview$/];
+
+const allowedWhileReadOnly = (req) =>
+  READ_ONLY_METHODS.includes(req.method) ||
+  READ_ONLY_ALLOWED.some((pattern) => pattern.test(req.originalUrl.split("?")[0]));
+
 const protect = async (req, res, next) => {
   try {
     const authHeader = req.headers.authorization;
@@ -24,7 +37,7 @@ const protect = async (req, res, next) => {
     }
 
     const { rows } = await query(
-      "SELECT id, email, role, subscription_status, subscription_end_date FROM users WHERE id = $1",
+      "SELECT id, email, role, subscription_status, subscription_end_date, email_verified_at, totp_enabled FROM users WHERE id = $1",
       [payload.id]
     );
 
@@ -33,21 +46,56 @@ const protect = async (req, res, next) => {
       return res.status(401).json({ message: "User not found." });
     }
 
-    // Skip subscription check for admin users
-    if (user.role !== 'admin') {
-      const subscriptionExpired =
-        user.subscription_end_date !== null &&
-        new Date(user.subscription_end_date) <= new Date();
-
-      if (user.subscription_status !== "active" || subscriptionExpired) {
-        return res
-          .status(403)
-          .json({ message: "Your account is suspended or has expired." });
-      }
+    // Signed-out sessions (see /api/auth/sessions) end their access tokens too
+    if (payload.sid && !(await isSessionActive({ query }, user.id, payload.sid))) {
+      return res.status(401).json({ message: "Your session has been signed out." });
+    }
+
+    // Tokens issued before 2FA became mandatory for the role stop working
+    if (isTwoFactorRequired(user) && !user.totp_enabled) {
+      return res.status(401).json({ message: "Two-factor authentication must be set up. Sign in again." });
+    }
+
+    // Same account checks as login (admins skip them)
+    const block = accountBlock(user);
+    if (block) {
+      return res.status(403).json(block);
+    }
+
+    // The workspace whose data the request reads and writes (X-Workspace-Id, else the user's own).
+    // requirePermission rejects requests without one, so auth and sign-in routes still work
+    const requestedWorkspace = req.headers["x-workspace-id"] || null;
+    const workspace = await resolveWorkspace({ query }, user.id, requestedWorkspace);
+    if (!workspace && requestedWorkspace) {
+      req.workspaceError = { status: 403, code: "workspace_forbidden", message: "You are not a member of this workspace." };
+    }
+
+    // Lapsed subscriptions and trials keep reading and exporting but change nothing until renewed;
+    // in a team workspace the owner's subscription decides
+    const readOnly = accountReadOnly(workspace ? workspace.owner : user);
+    if (readOnly && !allowedWhileReadOnly(req)) {
+      return res.status(403).json({
+        code: "account_read_only",
+        reason: readOnly.code,
+        message: readOnly.message,
+        ...(readOnly.grace_ends_at ? { grace_ends_at: readOnly.grace_ends_at } : {}),
+      });
     }
 
     req.userId = user.id;
     req.userRole = user.role;
+    req.sessionId = payload.sid || null;
+    req.workspace = workspace
+      ? {
+          id: workspace.id,
+          name: workspace.name,
+          role: workspace.role,
+          ownerId: workspace.owner.id,
+          ownerBlocked: workspace.owner.id !== user.id && Boolean(accountBlock(workspace.owner)),
+        }
+      : null;
+    // Data routes scope every query to the workspace owner's rows
+    req.ownerId = workspace ? workspace.owner.id : user.id;
     return next();
   } catch (error) {
     console.error("Auth middleware error:", error);
@@ -83,4 +131,28 @@ const adminOnly = async (req, res, next) => {
   }
 };
 
-module.exports = { protect, adminOnly };
+// Runs after protect: the workspace role must grant `permission` (see services/workspaces)
+const requirePermission = (permission) => (req, res, next) => {
+  if (req.workspaceError) {
+    const { status, ...body } = req.workspaceError;
+    return res.status(status).json(body);
+  }
+  if (!req.workspace) {
+    return res.status(403).json({ code: "no_workspace", message: "You are not a member of any workspace." });
+  }
+  if (req.workspace.ownerBlocked) {
+    return res.status(403).json({
+      code: "workspace_unavailable",
+      message: "This workspace is unavailable. Ask its owner to check their account.",
+    });
+  }
+  if (!hasPermission(req.workspace.role, permission)) {
+    return res.status(403).json({
+      code: "permission_denied",
+      message: "Your role in this workspace does not allow this action.",
+    });
+  }
+  return next();
+};
+
+module.exports = { protect, adminOnly, requirePermission };
@@ -1,14 +1,49 @@
 const express = require("express");
 const bcrypt = require("bcryptjs");
-const { query } = require("../db");
+const { query, withTransaction } = require("../db");
 const { protect, adminOnly } = require("../middleware/authMiddleware");
+const { sendApprovalEmail } = require("../services/emailVerification");
+const { validatePlan, mapPlan } = require("../services/plans");
+const { isValidDate } = require("../services/exchangeRates");
+const { runSubscriptionJob } = require("../services/subscriptionLifecycle");
+const { createWorkspace } = require("../services/workspaces");
+const { recordAudit } = require("../services/audit");
 
 const router = express.Router();
 
 router.use(protect, adminOnly);
 
+// Account fields kept in the audit log when an admin changes a user
+const AUDITED_USER_COLUMNS =
+  "id, email, role, subscription_status, subscription_end_date, plan_id, email_verified_at, approved_at, approved_by";
+
+// Run `change` on one user with a before/after audit event; null when the user does not exist
+// or `change` matched no row
+const changeUser = (req, id, action, change) =>
+  withTransaction(async (client) => {
+    const { rows: before } = await client.query(
+      `SELECT ${AUDITED_USER_COLUMNS} FROM users WHERE id = $1 FOR UPDATE`,
+      [id]
+    );
+    if (before.length === 0) return null;
+
+    const { rowCount } = await change(client);
+    if (rowCount === 0) return null;
+
+    const { rows: after } = await client.query(`SELECT ${AUDITED_USER_COLUMNS} FROM users WHERE id = $1`, [id]);
+    await recordAudit(client, req, {
+      entityType: "user",
+      entityId: id,
+      entityLabel: before[0].email,
+      action,
+      before: before[0],
+      after: after[0] || null,
+    });
+    return after[0] || before[0];
+  });
+
 router.post("/users", async (req, res) => {
-  const { email, password, role = 'user', subscription_days = 30 } = req.body;
+  const { email, password, role = 'user', subscription_days = 30, plan_id = null } = req.body;
 
   if (!email || !password) {
     return res
@@ -32,20 +67,35 @@ router.post("/users", async (req, res) => {
   try {
     const passwordHash = await bcrypt.hash(password, 10);
 
-    const { rows } = await query(
-      `
-        INSERT INTO users (email, password_hash, role, subscription_status, subscription_end_date)
-        VALUES ($1, $2, $3, 'active', now() + ($4 || ' days')::interval)
-        RETURNING id, email, role, subscription_status, subscription_end_date
-      `,
-      [email, passwordHash, role, duration]
-    );
+    const user = await withTransaction(async (client) => {
+      const { rows } = await client.query(
+        `
+          INSERT INTO users (email, password_hash, role, subscription_status, subscription_end_date,
+                             email_verified_at, approved_at, approved_by, plan_id)
+          VALUES ($1, $2, $3, 'active', now() + ($4 || ' days')::interval, now(), now(), $5, $6)
+          RETURNING id, email, role, subscription_status, subscription_end_date, plan_id
+        `,
+        [email, passwordHash, role, duration, req.userId, plan_id || null]
+      );
+      await createWorkspace(client, rows[0]);
+      await recordAudit(client, req, {
+        entityType: "user",
+        entityId: rows[0].id,
+        entityLabel: rows[0].email,
+        action: "create",
+        after: rows[0],
+      });
+      return rows[0];
+    });
 
-    return res.status(201).json(rows[0]);
+    return res.status(201).json(user);
   } catch (error) {
     if (error.code === "23505") {
       return res.status(409).json({ message: "Email already exists." });
     }
+    if (error.code === "23503" || error.code === "22P02") {
+      return res.status(400).json({ message: "Plan not found." });
+    }
     console.error("Create user error:", error);
     return res.status(500).json({ message: "Internal server error." });
   }
@@ -55,16 +105,18 @@ router.put("/users/:id/suspend", async (req, res) => {
   const { id } = req.params;
 
   try {
-    const { rowCount } = await query(
-      `
-        UPDATE users
-        SET subscription_status = 'suspended'
-        WHERE id = $1
-      `,
-      [id]
+    const user = await changeUser(req, id, "suspend", (client) =>
+      client.query(
+        `
+          UPDATE users
+          SET subscription_status = 'suspended'
+          WHERE id = $1
+        `,
+        [id]
+      )
     );
 
-    if (rowCount === 0) {
+    if (!user) {
       return res.status(404).json({ message: "User not found." });
     }
 
@@ -87,17 +139,19 @@ router.put("/users/:id/reactivate", async (req, res) => {
   }
 
   try {
-    const { rowCount } = await query(
-      `
-        UPDATE users
-        SET subscription_status = 'active',
-            subscription_end_date = now() + ($2 || ' days')::interval
-        WHERE id = $1
-      `,
-      [id, duration]
+    const user = await changeUser(req, id, "reactivate", (client) =>
+      client.query(
+        `
+          UPDATE users
+          SET subscription_status = 'active',
+              subscription_end_date = now() + ($2 || ' days')::interval
+          WHERE id = $1
+        `,
+        [id, duration]
+      )
     );
 
-    if (rowCount === 0) {
+    if (!user) {
       return res.status(404).json({ message: "User not found." });
     }
 
@@ -108,13 +162,84 @@ router.put("/users/:id/reactivate", async (req, res) => {
   }
 });
 
+// Approve a self-service sign-up (pending, or converting a trial) for subscription_days
+router.put("/users/:id/approve", async (req, res) => {
+  const { id } = req.params;
+  const { subscription_days = 30, plan_id } = req.body;
+
+  const duration = Number(subscription_days);
+  if (Number.isNaN(duration) || duration <= 0) {
+    return res
+      .status(400)
+      .json({ message: "subscription_days must be a positive number." });
+  }
+
+  try {
+    // plan_id is optional; without it the user keeps their current plan
+    const user = await changeUser(req, id, "approve", (client) =>
+      client.query(
+        `
+          UPDATE users
+          SET subscription_status = 'active',
+              subscription_end_date = now() + ($2 || ' days')::interval,
+              approved_at = now(),
+              approved_by = $3,
+              plan_id = CASE WHEN $5 THEN $4::uuid ELSE plan_id END
+          WHERE id = $1 AND subscription_status IN ('pending', 'trial')
+        `,
+        [id, duration, req.userId, plan_id || null, plan_id !== undefined]
+      )
+    );
+
+    if (!user) {
+      return res.status(404).json({ message: "No pending sign-up or trial for this user." });
+    }
+
+    try {
+      await sendApprovalEmail(user);
+    } catch (error) {
+      console.error("Approval email error:", error);
+    }
+
+    return res.json({ message: "User approved." });
+  } catch (error) {
+    if (error.code === "23503" || error.code === "22P02") {
+      return res.status(400).json({ message: "Plan not found." });
+    }
+    console.error("Approve user error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Reject a pending sign-up; the account is deleted so the email can sign up again
+router.delete("/users/:id", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const user = await changeUser(req, id, "reject", (client) =>
+      client.query("DELETE FROM users WHERE id = $1 AND subscription_status = 'pending'", [id])
+    );
+
+    if (!user) {
+      return res.status(404).json({ message: "No pending sign-up for this user. Suspend active accounts instead." });
+    }
+
+    return res.json({ message: "Sign-up rejected." });
+  } catch (error) {
+    console.error("Reject user error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
 router.get("/users", async (_req, res) => {
   try {
     const { rows } = await query(
       `
-        SELECT id, email, role, subscription_status, subscription_end_date, created_at
-        FROM users
-        ORDER BY created_at DESC
+        SELECT u.id, u.email, u.role, u.subscription_status, u.subscription_end_date, u.email_verified_at,
+               u.approved_at, u.created_at, u.plan_id, p.name AS plan_name
+        FROM users u
+        LEFT JOIN plans p ON p.id = u.plan_id
+        ORDER BY u.created_at DESC
       `
     );
     return res.json(rows);
@@ -124,6 +249,384 @@ router.get("/users", async (_req, res) => {
   }
 });
 
+// Move a user to an active plan (plan_id null removes the plan and its limits)
+router.put("/users/:id/plan", async (req, res) => {
+  const { id } = req.params;
+  const { plan_id = null } = req.body;
+
+  try {
+    if (plan_id) {
+      const { rows: plans } = await query("SELECT is_active FROM plans WHERE id = $1", [plan_id]);
+      if (plans.length === 0) {
+        return res.status(400).json({ message: "Plan not found." });
+      }
+      if (!plans[0].is_active) {
+        return res.status(409).json({ message: "This plan is no longer offered. Activate it first." });
+      }
+    }
+
+    const user = await changeUser(req, id, "change_plan", (client) =>
+      client.query("UPDATE users SET plan_id = $2 WHERE id = $1", [id, plan_id || null])
+    );
+
+    if (!user) {
+      return res.status(404).json({ message: "User not found." });
+    }
+
+    return res.json({ message: plan_id ? "Plan assigned." : "Plan removed." });
+  } catch (error) {
+    if (error.code === "23503") {
+      return res.status(400).json({ message: "Plan not found." });
+    }
+    if (error.code === "22P02") {
+      return res.status(404).json({ message: "User or plan not found." });
+    }
+    console.error("Assign plan error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// GET /api/admin/plans - every plan with the number of users on it
+router.get("/plans", async (_req, res) => {
+  try {
+    const { rows } = await query(
+      `
+        SELECT p.*, (SELECT COUNT(*) FROM users u WHERE u.plan_id = p.id) AS user_count
+        FROM plans p
+        ORDER BY p.is_active DESC, p.price ASC, p.name ASC
+      `
+    );
+    return res.json(rows.map(mapPlan));
+  } catch (error) {
+    console.error("List plans error:", error);
+    if (error && error.code === '42P01') {
+      return res.json([]);
+    }
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+router.post("/plans", async (req, res) => {
+  const { values, error: validationError } = validatePlan(req.body || {});
+  if (validationError) {
+    return res.status(400).json({ message: validationError });
+  }
+
+  try {
+    const { rows } = await query(
+      `
+        INSERT INTO plans (name, price, currency, billing_period, max_clients, max_invoices_per_month, features, is_active)
+        VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8)
+        RETURNING *
+      `,
+      [
+        values.name,
+        values.price,
+        values.currency,
+        values.billing_period,
+        values.max_clients,
+        values.max_invoices_per_month,
+        JSON.stringify(values.features),
+        values.is_active,
+      ]
+    );
+    return res.status(201).json(mapPlan(rows[0]));
+  } catch (error) {
+    if (error.code === "23505") {
+      return res.status(409).json({ message: "A plan with this name already exists." });
+    }
+    console.error("Create plan error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Changed limits apply to the plan's users from their next create
+router.put("/plans/:id", async (req, res) => {
+  const { values, error: validationError } = validatePlan(req.body || {});
+  if (validationError) {
+    return res.status(400).json({ message: validationError });
+  }
+
+  try {
+    const { rows } = await query(
+      `
+        UPDATE plans
+        SET name = $1,
+            price = $2,
+            currency = $3,
+            billing_period = $4,
+            max_clients = $5,
+            max_invoices_per_month = $6,
+            features = $7::jsonb,
+            is_active = $8,
+            updated_at = now()
+        WHERE id = $9
+        RETURNING *
+      `,
+      [
+        values.name,
+        values.price,
+        values.currency,
+        values.billing_period,
+        values.max_clients,
+        values.max_invoices_per_month,
+        JSON.stringify(values.features),
+        values.is_active,
+        req.params.id,
+      ]
+    );
+
+    if (rows.length === 0) {
+      return res.status(404).json({ message: "Plan not found." });
+    }
+
+    return res.json(mapPlan(rows[0]));
+  } catch (error) {
+    if (error.code === "23505") {
+      return res.status(409).json({ message: "A plan with this name already exists." });
+    }
+    if (error.code === "22P02") {
+      return res.status(404).json({ message: "Plan not found." });
+    }
+    console.error("Update plan error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Plans with users cannot be deleted; deactivate them instead so nobody new is put on them
+router.delete("/plans/:id", async (req, res) => {
+  try {
+    const { rows } = await query(
+      `
+        DELETE FROM plans p
+        WHERE p.id = $1
+          AND NOT EXISTS (SELECT 1 FROM users u WHERE u.plan_id = p.id)
+        RETURNING id
+      `,
+      [req.params.id]
+    );
+
+    if (rows.length === 0) {
+      const { rows: existing } = await query("SELECT 1 FROM plans WHERE id = $1", [req.params.id]);
+      if (existing.length > 0) {
+        return res.status(409).json({ message: "Users are on this plan. Move them or deactivate the plan instead." });
+      }
+      return res.status(404).json({ message: "Plan not found." });
+    }
+
+    return res.json({ message: "Plan deleted." });
+  } catch (error) {
+    if (error.code === "22P02") {
+      return res.status(404).json({ message: "Plan not found." });
+    }
+    console.error("Delete plan error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+const PAYMENT_STATUSES = ["completed", "pending", "failed", "refunded"];
+
+/**
+ * GET /api/admin/subscription-payments?from=&to=&user_id=
+ * Subscription payments received, newest first, with totals of completed payments per currency.
+ */
+router.get("/subscription-payments", async (req, res) => {
+  const { from, to, user_id: userId } = req.query;
+
+  if ((from && !isValidDate(from)) || (to && !isValidDate(to))) {
+    return res.status(400).json({ message: "from and to must be dates in YYYY-MM-DD format." });
+  }
+
+  try {
+    const { rows } = await query(
+      `
+        SELECT sp.id, sp.amount, sp.currency, sp.payment_date, sp.payment_method, sp.status,
+               sp.payment_reference, sp.description, sp.created_at,
+               u.id AS user_id, u.email AS user_email,
+               p.id AS plan_id, p.name AS plan_name
+        FROM subscription_payments sp
+        JOIN users u ON u.id = sp.user_id
+        LEFT JOIN plans p ON p.id = sp.plan_id
+        WHERE ($1::date IS NULL OR sp.payment_date >= $1::date)
+          AND ($2::date IS NULL OR sp.payment_date < $2::date + 1)
+          AND ($3::uuid IS NULL OR sp.user_id = $3)
+        ORDER BY sp.payment_date DESC, sp.created_at DESC
+        LIMIT 500
+      `,
+      [from || null, to || null, userId || null]
+    );
+
+    const payments = rows.map((r) => ({
+      id: r.id,
+      amount: Number(r.amount),
+      currency: r.currency,
+      payment_date: r.payment_date,
+      payment_method: r.payment_method,
+      status: r.status,
+      payment_reference: r.payment_reference,
+      description: r.description,
+      user: { id: r.user_id, email: r.user_email },
+      plan: r.plan_id ? { id: r.plan_id, name: r.plan_name } : null,
+      created_at: r.created_at,
+    }));
+
+    const totals = {};
+    payments
+      .filter((payment) => payment.status === "completed")
+      .forEach((payment) => {
+        const total = totals[payment.currency] || { currency: payment.currency, amount: 0, count: 0 };
+        total.amount = Math.round((total.amount + payment.amount) * 100) / 100;
+        total.count += 1;
+        totals[payment.currency] = total;
+      });
+
+    return res.json({ payments, totals: Object.values(totals) });
+  } catch (error) {
+    console.error("Subscription payments error:", error);
+    if (error && error.code === '22P02') {
+      return res.status(400).json({ message: "user_id is not a valid id." });
+    }
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+/**
+ * POST /api/admin/subscription-payments
+ * Record a payment received from a subscriber. A completed payment extends their subscription
+ * by the plan's billing period and moves them onto the plan (database trigger). plan_id
+ * defaults to the user's current plan.
+ */
+router.post("/subscription-payments", async (req, res) => {
+  const {
+    user_id: userId,
+    plan_id: planId,
+    amount,
+    currency,
+    payment_date: paymentDate,
+    payment_method: paymentMethod = null,
+    payment_reference: paymentReference = null,
+    description = null,
+    status = "completed",
+  } = req.body || {};
+
+  const value = amount == null || amount === "" ? NaN : Number(amount);
+  if (!userId || !Number.isFinite(value) || value <= 0) {
+    return res.status(400).json({ message: "user_id and a positive amount are required." });
+  }
+  if (paymentDate && !isValidDate(paymentDate)) {
+    return res.status(400).json({ message: "payment_date must be a date in YYYY-MM-DD format." });
+  }
+  if (!PAYMENT_STATUSES.includes(status)) {
+    return res.status(400).json({ message: `status must be one of: ${PAYMENT_STATUSES.join(", ")}.` });
+  }
+
+  try {
+    const { rows: users } = await query(
+      `
+        SELECT u.id, u.plan_id, p.currency AS plan_currency
+        FROM users u
+        LEFT JOIN plans p ON p.id = COALESCE($2::uuid, u.plan_id)
+        WHERE u.id = $1
+      `,
+      [userId, planId || null]
+    );
+    const user = users[0];
+    if (!user) {
+      return res.status(404).json({ message: "User not found." });
+    }
+
+    const { rows } = await query(
+      `
+        INSERT INTO subscription_payments
+          (user_id, plan_id, amount, currency, payment_date, payment_method, payment_reference, description, status, recorded_by)
+        VALUES ($1, $2, $3, $4, COALESCE($5::date::timestamptz, now()), $6, $7, $8, $9, $10)
+        RETURNING *
+      `,
+      [
+        userId,
+        planId || user.plan_id,
+        value,
+        (currency || user.plan_currency || "USD").toUpperCase(),
+        paymentDate || null,
+        paymentMethod,
+        paymentReference,
+        description,
+        status,
+        req.userId,
+      ]
+    );
+
+    return res.status(201).json({ ...rows[0], amount: Number(rows[0].amount) });
+  } catch (error) {
+    if (error.code === "23503" || error.code === "22P02") {
+      return res.status(400).json({ message: "User or plan not found." });
+    }
+    console.error("Record subscription payment error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+const SUBSCRIPTION_EVENTS = ["renewal_reminder", "expired"];
+
+/**
+ * GET /api/admin/subscription-events?event=&user_id=
+ * Renewal reminders sent and accounts the job moved to read-only 'expired', newest first.
+ */
+router.get("/subscription-events", async (req, res) => {
+  const { event, user_id: userId } = req.query;
+
+  if (event && !SUBSCRIPTION_EVENTS.includes(event)) {
+    return res.status(400).json({ message: `event must be one of: ${SUBSCRIPTION_EVENTS.join(", ")}.` });
+  }
+
+  try {
+    const { rows } = await query(
+      `
+        SELECT se.id, se.event, se.subscription_end_date, se.days_before, se.details, se.created_at,
+               u.id AS user_id, u.email AS user_email, u.subscription_status
+        FROM subscription_events se
+        JOIN users u ON u.id = se.user_id
+        WHERE ($1::text IS NULL OR se.event = $1)
+          AND ($2::uuid IS NULL OR se.user_id = $2)
+        ORDER BY se.created_at DESC
+        LIMIT 500
+      `,
+      [event || null, userId || null]
+    );
+
+    return res.json(
+      rows.map((r) => ({
+        id: r.id,
+        event: r.event,
+        subscription_end_date: r.subscription_end_date,
+        days_before: r.days_before,
+        details: r.details,
+        user: { id: r.user_id, email: r.user_email, subscription_status: r.subscription_status },
+        created_at: r.created_at,
+      }))
+    );
+  } catch (error) {
+    console.error("Subscription events error:", error);
+    if (error && error.code === '22P02') {
+      return res.status(400).json({ message: "user_id is not a valid id." });
+    }
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+/**
+ * POST /api/admin/subscription-job/run
+ * Run the renewal reminder and expiry job now instead of waiting for the schedule.
+ */
+router.post("/subscription-job/run", async (_req, res) => {
+  try {
+    return res.json(await runSubscriptionJob({ query }));
+  } catch (error) {
+    console.error("Subscription job error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
 // GET /api/admin/payments - return recent payment/transaction summaries
 router.get("/payments", async (_req, res) => {
   try {
@@ -0,0 +1,46 @@
+const express = require("express");
+const { protect, requirePermission } = require("../middleware/authMiddleware");
+const { query } = require("../db");
+const { parseAuditFilters, listAuditEvents } = require("../services/audit");
+
+const router = express.Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Admins read the whole log; everyone else needs the audit permission in their workspace
+const auditAccess = (req, res, next) =>
+  req.userRole === "admin" ? next() : requirePermission("audit")(req, res, next);
+
+/**
+ * GET /api/audit
+ * Activity log, newest first: { events, total }. Query: entity_type (client, transaction,
+ * invoice, user, auth), entity_id, action, actor_id, from / to (YYYY-MM-DD), limit, offset.
+ * Workspace owners and accountants see their workspace; admins see every event, or one
+ * workspace's with organization_id.
+ */
+router.get("/", protect, auditAccess, async (req, res) => {
+  const { values, error } = parseAuditFilters(req.query);
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+
+  let organizationId = req.workspace ? req.workspace.id : null;
+  if (req.userRole === "admin") {
+    organizationId = req.query.organization_id || null;
+    if (organizationId && !UUID_PATTERN.test(organizationId)) {
+      return res.status(400).json({ message: "organization_id must be a valid id." });
+    }
+  }
+
+  try {
+    res.json(await listAuditEvents({ query }, organizationId, values));
+  } catch (error) {
+    console.error("Failed to load audit events:", error);
+    if (error && error.code === '42P01') {
+      return res.json({ events: [], total: 0 });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+module.exports = router;
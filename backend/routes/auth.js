@@ -1,8 +1,39 @@
 const express = require("express");
 const bcrypt = require("bcryptjs");
 const jwt = require("jsonwebtoken");
-const { query } = require("../db");
+const { query, withTransaction } = require("../db");
 const config = require("../config");
+const { protect } = require("../middleware/authMiddleware");
+const { MIN_PASSWORD_LENGTH, issueResetToken, sendResetEmail, resetPassword } = require("../services/passwordReset");
+const { issueVerificationToken, sendVerificationEmail, verifyEmail } = require("../services/emailVerification");
+const { accountBlock, accountReadOnly, subscriptionNotice } = require("../services/accountStatus");
+const { ROLE_PERMISSIONS, createWorkspace, resolveWorkspace } = require("../services/workspaces");
+const { recordAudit } = require("../services/audit");
+const {
+  generateSecret,
+  encryptSecret,
+  otpauthUrl,
+  qrCodeDataUrl,
+  replaceRecoveryCodes,
+  remainingRecoveryCodes,
+  verifyTotpCode,
+  verifySecondFactor,
+  startLoginAttempt,
+  finishLoginAttempt,
+  isTwoFactorRequired,
+  createChallenge,
+  readChallenge,
+} = require("../services/twoFactor");
+const {
+  clientDetails,
+  createSession,
+  rotateSession,
+  isTokenReuse,
+  revokeFamily,
+  revokeAllSessions,
+  isSessionActive,
+  listSessions,
+} = require("../services/sessions");
 
 const router = express.Router();
 const JWT_SECRET = config.JWT_SECRET;
@@ -19,7 +50,7 @@ router.get("/session", async (req, res) => {
   try {
     const decoded = jwt.verify(token, JWT_SECRET);
     const { rows } = await query(
-      `SELECT id, email, role, subscription_status, subscription_end_date 
+      `SELECT id, email, role, subscription_status, subscription_end_date, totp_enabled
        FROM users WHERE id = $1`,
       [decoded.id]
     );
@@ -28,14 +59,37 @@ router.get("/session", async (req, res) => {
       return res.status(401).json({ message: "User not found" });
     }
 
+    // Signed-out sessions end their access tokens here too, as in the protect middleware
+    if (decoded.sid && !(await isSessionActive({ query }, decoded.id, decoded.sid))) {
+      return res.status(401).json({ message: "Your session has been signed out." });
+    }
+
     const user = rows[0];
+    const workspace = await resolveWorkspace({ query }, user.id, req.headers["x-workspace-id"] || null);
+    // A team workspace runs on its owner's subscription
+    const subscriber = workspace ? workspace.owner : user;
     res.json({
       id: user.id,
       email: user.email,
       role: user.role,
+      twoFactor: {
+        enabled: user.totp_enabled,
+        required: isTwoFactorRequired(user)
+      },
       subscription: {
         status: user.subscription_status,
-        expiryDate: user.subscription_end_date
+        expiryDate: user.subscription_end_date,
+        // After expiry only reads and exports are allowed
+        readOnly: Boolean(accountReadOnly(subscriber)),
+        // Banner to show: expiring soon, or why the account is read-only; null otherwise
+        notice: subscriptionNotice(subscriber)
+      },
+      // The workspace requests act in, or null when the user belongs to none
+      workspace: workspace && {
+        id: workspace.id,
+        name: workspace.name,
+        role: workspace.role,
+        permissions: ROLE_PERMISSIONS[workspace.role]
       }
     });
   } catch (error) {
@@ -47,6 +101,71 @@ router.get("/session", async (req, res) => {
   }
 });
 
+// Access token for a user in a session (sid is the refresh token family)
+const signAccessToken = (user, sessionId) =>
+  jwt.sign(
+    {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+    },
+    JWT_SECRET,
+    { expiresIn: user.role === 'admin' ? "24h" : "1h" }  // Longer token expiry for admin
+  );
+
+// Sign-in and account security events for the audit log, done by `user` ({ id, email? }) themselves
+const auditAuth = (db, req, user, action, details = null) =>
+  recordAudit(db, req, {
+    entityType: "auth",
+    entityId: user.id,
+    entityLabel: user.email || null,
+    actorId: user.id,
+    action,
+    after: details,
+  });
+
+// A refused sign-in: nobody is signed in, so there is no actor
+const auditLoginFailure = (req, user, email, reason) =>
+  recordAudit({ query }, req, {
+    entityType: "auth",
+    entityId: user ? user.id : null,
+    entityLabel: user ? user.email : email,
+    actorId: null,
+    action: "login_failed",
+    after: { reason },
+  });
+
+// Start a session for a user who has passed every login step: an access token and a stored
+// refresh token recording the device and IP of the request
+const issueSession = async (user, req) => {
+  const isAdmin = user.role === 'admin';
+  const { refreshToken, familyId } = await createSession({ query }, user.id, clientDetails(req));
+  const token = signAccessToken(user, familyId);
+  await auditAuth({ query }, req, user, "login", { session_id: familyId });
+
+  // Admin users don't need subscription check
+  const subscription = isAdmin
+    ? { status: 'active', endDate: user.subscription_end_date }
+    : { status: user.subscription_status, expiryDate: user.subscription_end_date };
+
+  return {
+    token,
+    refreshToken,
+    user: {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      ...(isAdmin ? { isAdmin: true } : {}),
+      twoFactorEnabled: Boolean(user.totp_enabled),
+      subscription,
+    },
+  };
+};
+
+const USER_COLUMNS =
+  "id, email, role, subscription_status, subscription_end_date, email_verified_at, totp_secret, totp_enabled, totp_last_step";
+
 router.post("/login", async (req, res) => {
   const { email, password } = req.body;
 
@@ -56,117 +175,241 @@ router.post("/login", async (req, res) => {
 
   try {
     const { rows } = await query(
-      `SELECT id, email, password_hash, role, subscription_status, subscription_end_date 
-       FROM users WHERE email = $1`,
+      `SELECT ${USER_COLUMNS}, password_hash FROM users WHERE email = $1`,
       [email]
     );
 
     const user = rows[0];
     if (!user) {
+      await auditLoginFailure(req, null, String(email), "unknown_email");
       return res.status(401).json({ message: "Invalid credentials." });
     }
 
     const passwordMatches = await bcrypt.compare(password, user.password_hash);
     if (!passwordMatches) {
+      await auditLoginFailure(req, user, email, "wrong_password");
       return res.status(401).json({ message: "Invalid credentials." });
     }
 
-    // Admin users don't need subscription check
-    if (user.role === 'admin') {
-      const token = jwt.sign(
-        {
-          id: user.id,
-          email: user.email,
-          role: user.role,
-        },
-        JWT_SECRET,
-        { expiresIn: "24h" }  // Increase token expiry for admin
-      );
+    // Regular users need a confirmed email and an approved account; expired ones sign in read-only
+    const block = accountBlock(user);
+    if (block) {
+      await auditLoginFailure(req, user, email, block.code);
+      return res.status(403).json(block);
+    }
 
-      // Generate refresh token
-      const refreshToken = jwt.sign(
-        { id: user.id },
-        REFRESH_TOKEN_SECRET,
-        { expiresIn: '7d' }
-      );
+    // Second step: the code from the authenticator app, or enrollment when 2FA is mandatory
+    if (user.totp_enabled) {
+      return res.json({ twoFactorRequired: true, challengeToken: createChallenge(user, "login") });
+    }
+    if (isTwoFactorRequired(user)) {
+      return res.json({ twoFactorSetupRequired: true, challengeToken: createChallenge(user, "setup") });
+    }
 
-      // Store refresh token in database
-      await query(
-        `INSERT INTO refresh_tokens (user_id, token, expires_at) 
-         VALUES ($1, $2, NOW() + INTERVAL '7 days')`,
-        [user.id, refreshToken]
-      );
+    return res.json(await issueSession(user, req));
+  } catch (error) {
+    console.error("Login error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
 
-      return res.json({
-        token,
-        refreshToken,
-        user: {
-          id: user.id,
-          email: user.email,
-          role: user.role,
-          isAdmin: true,
-          subscription: {
-            status: 'active',
-            endDate: user.subscription_end_date
-          }
-        }
-      });
+// Wrong codes count towards one lockout, whichever route checks them (see startLoginAttempt)
+const twoFactorLocked = (res) =>
+  res.status(429).json({
+    message: `Too many wrong codes. Try again in ${config.TWO_FACTOR_LOCKOUT_MINUTES} minutes.`,
+    code: "two_factor_locked",
+  });
+
+// Second login step: exchange the challenge token and a TOTP or recovery code for a session
+router.post("/login/2fa", async (req, res) => {
+  const { challengeToken, code, recoveryCode } = req.body;
+
+  if (!challengeToken || (!code && !recoveryCode)) {
+    return res.status(400).json({ message: "Challenge token and an authentication or recovery code are required." });
+  }
+
+  const userId = readChallenge(challengeToken, "login");
+  if (!userId) {
+    return res.status(401).json({ message: "Your sign-in has expired. Enter your password again." });
+  }
+
+  try {
+    const { rows } = await query(`SELECT ${USER_COLUMNS} FROM users WHERE id = $1`, [userId]);
+    const user = rows[0];
+    if (!user || !user.totp_enabled) {
+      return res.status(401).json({ message: "Your sign-in has expired. Enter your password again." });
     }
 
-    // Regular users need subscription check
-    const isActive = user.subscription_status === "active";
-    const expiryDate = user.subscription_end_date
-      ? new Date(user.subscription_end_date)
-      : null;
-    const isExpired = expiryDate !== null && expiryDate <= new Date();
+    if (!(await startLoginAttempt({ query }, user.id))) {
+      await auditLoginFailure(req, user, user.email, "two_factor_locked");
+      return twoFactorLocked(res);
+    }
 
-    if (!isActive || isExpired) {
-      return res
-        .status(403)
-        .json({ message: "Your account is suspended or has expired." });
+    const verified = await verifySecondFactor({ query }, user, { code, recoveryCode });
+    await finishLoginAttempt({ query }, user.id, Boolean(verified));
+    if (!verified) {
+      await auditLoginFailure(req, user, user.email, code ? "invalid_code" : "invalid_recovery_code");
+      return res.status(401).json({ message: code ? "Invalid authentication code." : "Invalid recovery code." });
     }
 
-    const token = jwt.sign(
-      {
-        id: user.id,
-        email: user.email,
-        role: user.role,
-      },
-      JWT_SECRET,
-      { expiresIn: "1h" }
-    );
+    const session = await issueSession(user, req);
+    if (verified.method === "recovery_code") {
+      session.recoveryCodesRemaining = await remainingRecoveryCodes({ query }, user.id);
+    }
+    return res.json(session);
+  } catch (error) {
+    console.error("Two-factor login error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
 
-    // Generate refresh token for regular users too
-    const refreshToken = jwt.sign(
-      { id: user.id },
-      REFRESH_TOKEN_SECRET,
-      { expiresIn: '7d' }
-    );
+// Enrollment is open to a signed-in user, or to a user whose login asked for setup (challengeToken)
+const enrollingUser = (req, res, next) => {
+  if (!req.body.challengeToken) {
+    return protect(req, res, next);
+  }
+  const userId = readChallenge(req.body.challengeToken, "setup");
+  if (!userId) {
+    return res.status(401).json({ message: "Your sign-in has expired. Enter your password again." });
+  }
+  req.userId = userId;
+  req.viaChallenge = true;
+  return next();
+};
 
-    // Store refresh token
-    await query(
-      `INSERT INTO refresh_tokens (user_id, token, expires_at) 
-       VALUES ($1, $2, NOW() + INTERVAL '7 days')`,
-      [user.id, refreshToken]
-    );
+// Start 2FA enrollment: a new secret with its QR code; 2FA is only on once /2fa/enable confirms a code
+router.post("/2fa/setup", enrollingUser, async (req, res) => {
+  try {
+    const { rows } = await query("SELECT id, email, totp_enabled FROM users WHERE id = $1", [req.userId]);
+    const user = rows[0];
+    if (!user) {
+      return res.status(401).json({ message: "User not found" });
+    }
+    if (user.totp_enabled) {
+      return res.status(409).json({ message: "Two-factor authentication is already enabled." });
+    }
 
-    // Include user info in response
-    return res.json({
-      token,
-      refreshToken,
-      user: {
-        id: user.id,
-        email: user.email,
-        role: user.role,
-        subscription: {
-          status: user.subscription_status,
-          expiryDate: user.subscription_end_date
-        }
+    const secret = generateSecret();
+    await query("UPDATE users SET totp_secret = $1, totp_last_step = NULL WHERE id = $2", [encryptSecret(secret), user.id]);
+
+    const url = otpauthUrl(user.email, secret);
+    res.json({ secret, otpauthUrl: url, qrCode: await qrCodeDataUrl(url) });
+  } catch (error) {
+    console.error("Two-factor setup error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Confirm enrollment with a code from the app; returns the recovery codes (shown once) and,
+// when enrolling during login, the session
+router.post("/2fa/enable", enrollingUser, async (req, res) => {
+  const { code } = req.body;
+
+  if (!code) {
+    return res.status(400).json({ message: "Authentication code is required" });
+  }
+
+  try {
+    const result = await withTransaction(async (client) => {
+      const { rows } = await client.query(`SELECT ${USER_COLUMNS} FROM users WHERE id = $1 FOR UPDATE`, [req.userId]);
+      const user = rows[0];
+      if (!user || !user.totp_secret || user.totp_enabled) {
+        return { status: 409, message: "Start two-factor setup first." };
       }
+      if (!(await verifyTotpCode(client, user, code))) {
+        return { status: 400, message: "Invalid authentication code. Check the time on your phone and try again." };
+      }
+
+      await client.query("UPDATE users SET totp_enabled = TRUE, totp_enabled_at = NOW() WHERE id = $1", [user.id]);
+      const recoveryCodes = await replaceRecoveryCodes(client, user.id);
+      await auditAuth(client, req, user, "two_factor_enabled");
+      return { user: { ...user, totp_enabled: true }, recoveryCodes };
     });
+
+    if (result.status) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    const session = req.viaChallenge ? await issueSession(result.user, req) : {};
+    res.json({ ...session, recoveryCodes: result.recoveryCodes, message: "Two-factor authentication enabled" });
   } catch (error) {
-    console.error("Login error:", error);
-    return res.status(500).json({ message: "Internal server error." });
+    console.error("Two-factor enable error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Turn 2FA off with the password and a current code; not allowed where 2FA is mandatory
+router.post("/2fa/disable", protect, async (req, res) => {
+  const { password, code, recoveryCode } = req.body;
+
+  if (!password || (!code && !recoveryCode)) {
+    return res.status(400).json({ message: "Password and an authentication or recovery code are required" });
+  }
+
+  try {
+    const { rows } = await query(`SELECT ${USER_COLUMNS}, password_hash FROM users WHERE id = $1`, [req.userId]);
+    const user = rows[0];
+    if (!user.totp_enabled) {
+      return res.status(409).json({ message: "Two-factor authentication is not enabled." });
+    }
+    if (isTwoFactorRequired(user)) {
+      return res.status(403).json({ message: "Two-factor authentication is required for admin accounts." });
+    }
+    if (!(await bcrypt.compare(password, user.password_hash))) {
+      return res.status(401).json({ message: "Password is incorrect" });
+    }
+    if (!(await verifySecondFactor({ query }, user, { code, recoveryCode }))) {
+      return res.status(401).json({ message: "Invalid authentication code." });
+    }
+
+    await withTransaction(async (client) => {
+      await client.query(
+        "UPDATE users SET totp_enabled = FALSE, totp_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL WHERE id = $1",
+        [user.id]
+      );
+      await client.query("DELETE FROM user_recovery_codes WHERE user_id = $1", [user.id]);
+      await auditAuth(client, req, user, "two_factor_disabled");
+    });
+    res.json({ message: "Two-factor authentication disabled" });
+  } catch (error) {
+    console.error("Two-factor disable error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Replace the recovery codes (the old ones stop working) after checking a current code
+router.post("/2fa/recovery-codes", protect, async (req, res) => {
+  const { code } = req.body;
+
+  if (!code) {
+    return res.status(400).json({ message: "Authentication code is required" });
+  }
+
+  try {
+    const { rows } = await query(`SELECT ${USER_COLUMNS} FROM users WHERE id = $1`, [req.userId]);
+    const user = rows[0];
+    if (!user.totp_enabled) {
+      return res.status(409).json({ message: "Two-factor authentication is not enabled." });
+    }
+    if (!(await startLoginAttempt({ query }, user.id))) {
+      await auditAuth({ query }, req, user, "two_factor_locked");
+      return twoFactorLocked(res);
+    }
+    const verified = await verifyTotpCode({ query }, user, code);
+    await finishLoginAttempt({ query }, user.id, verified);
+    if (!verified) {
+      return res.status(401).json({ message: "Invalid authentication code." });
+    }
+
+    const recoveryCodes = await withTransaction(async (client) => {
+      const codes = await replaceRecoveryCodes(client, user.id);
+      await auditAuth(client, req, user, "recovery_codes_replaced");
+      return codes;
+    });
+    res.json({ recoveryCodes });
+  } catch (error) {
+    console.error("Recovery codes error:", error);
+    res.status(500).json({ message: "Internal server error" });
   }
 });
 
@@ -186,7 +429,7 @@ router.post("/change-password", async (req, res) => {
   try {
     const decoded = jwt.verify(token, JWT_SECRET);
     const { rows } = await query(
-      "SELECT id, password_hash FROM users WHERE id = $1",
+      "SELECT id, email, password_hash FROM users WHERE id = $1",
       [decoded.id]
     );
 
@@ -194,6 +437,10 @@ router.post("/change-password", async (req, res) => {
       return res.status(401).json({ message: "User not found" });
     }
 
+    if (decoded.sid && !(await isSessionActive({ query }, decoded.id, decoded.sid))) {
+      return res.status(401).json({ message: "Your session has been signed out." });
+    }
+
     const user = rows[0];
     const passwordMatches = await bcrypt.compare(currentPassword, user.password_hash);
     
@@ -204,10 +451,13 @@ router.post("/change-password", async (req, res) => {
     const salt = await bcrypt.genSalt(10);
     const hashedPassword = await bcrypt.hash(newPassword, salt);
 
-    await query(
-      "UPDATE users SET password_hash = $1 WHERE id = $2",
-      [hashedPassword, user.id]
-    );
+    await withTransaction(async (client) => {
+      await client.query(
+        "UPDATE users SET password_hash = $1 WHERE id = $2",
+        [hashedPassword, user.id]
+      );
+      await auditAuth(client, req, user, "password_changed");
+    });
 
     res.json({ message: "Password updated successfully" });
   } catch (error) {
@@ -229,14 +479,13 @@ router.post("/refresh", async (req, res) => {
 
   try {
     // Verify refresh token
-    const decoded = jwt.verify(refreshToken, REFRESH_TOKEN_SECRET);
+    jwt.verify(refreshToken, REFRESH_TOKEN_SECRET);
 
-    // Check if token exists and is not revoked
     const { rows } = await query(
-      `SELECT rt.*, u.email, u.role, u.subscription_status, u.subscription_end_date 
+      `SELECT rt.*, u.email, u.role, u.subscription_status, u.subscription_end_date, u.totp_enabled
        FROM refresh_tokens rt
        JOIN users u ON u.id = rt.user_id
-       WHERE rt.token = $1 AND rt.revoked = FALSE`,
+       WHERE rt.token = $1`,
       [refreshToken]
     );
 
@@ -246,46 +495,44 @@ router.post("/refresh", async (req, res) => {
 
     const tokenData = rows[0];
 
+    if (tokenData.revoked) {
+      // A rotated token used again was copied: end the whole session for both holders
+      if (isTokenReuse(tokenData)) {
+        await revokeFamily({ query }, tokenData.user_id, tokenData.family_id, "reuse_detected");
+        await recordAudit({ query }, req, {
+          entityType: "auth",
+          entityId: tokenData.user_id,
+          entityLabel: tokenData.email,
+          actorId: null,
+          action: "token_reuse_detected",
+          after: { session_id: tokenData.family_id },
+        });
+        console.warn(`Refresh token reuse detected for user ${tokenData.user_id}; session ${tokenData.family_id} revoked`);
+      }
+      return res.status(401).json({ message: "Invalid refresh token" });
+    }
+
     // Check if token is expired
     if (new Date(tokenData.expires_at) <= new Date()) {
-      // Revoke expired token
-      await query(
-        "UPDATE refresh_tokens SET revoked = TRUE WHERE token = $1",
-        [refreshToken]
-      );
+      await revokeFamily({ query }, tokenData.user_id, tokenData.family_id, "expired");
       return res.status(401).json({ message: "Refresh token expired" });
     }
 
-    // Generate new access token
-    const newToken = jwt.sign(
-      {
-        id: tokenData.user_id,
-        email: tokenData.email,
-        role: tokenData.role,
-      },
-      JWT_SECRET,
-      { expiresIn: tokenData.role === 'admin' ? '24h' : '1h' }
-    );
-
-    // Generate new refresh token
-    const newRefreshToken = jwt.sign(
-      { id: tokenData.user_id },
-      REFRESH_TOKEN_SECRET,
-      { expiresIn: '7d' }
-    );
+    // Sessions from before 2FA became mandatory end here; the next login asks for enrollment
+    if (isTwoFactorRequired(tokenData) && !tokenData.totp_enabled) {
+      await revokeFamily({ query }, tokenData.user_id, tokenData.family_id, "two_factor_required");
+      return res.status(401).json({ message: "Two-factor authentication must be set up. Sign in again." });
+    }
 
-    // Revoke old refresh token
-    await query(
-      "UPDATE refresh_tokens SET revoked = TRUE WHERE token = $1",
-      [refreshToken]
-    );
+    // Lost the race to a concurrent refresh with the same token: within the grace window that
+    // is not reuse, but only the first request gets the rotated token
+    const newRefreshToken = await withTransaction((client) => rotateSession(client, tokenData, clientDetails(req)));
+    if (!newRefreshToken) {
+      return res.status(401).json({ message: "Invalid refresh token" });
+    }
 
-    // Store new refresh token
-    await query(
-      `INSERT INTO refresh_tokens (user_id, token, expires_at) 
-       VALUES ($1, $2, NOW() + INTERVAL '7 days')`,
-      [tokenData.user_id, newRefreshToken]
-    );
+    const user = { id: tokenData.user_id, email: tokenData.email, role: tokenData.role };
+    const newToken = signAccessToken(user, tokenData.family_id);
 
     // Return new tokens
     return res.json({
@@ -303,7 +550,7 @@ router.post("/refresh", async (req, res) => {
       }
     });
   } catch (error) {
-    if (error.name === "JsonWebTokenError") {
+    if (error.name === "JsonWebTokenError" || error.name === "TokenExpiredError") {
       return res.status(401).json({ message: "Invalid refresh token" });
     }
     console.error("Refresh token error:", error);
@@ -320,11 +567,20 @@ router.post("/logout", async (req, res) => {
   }
 
   try {
-    // Revoke refresh token
-    await query(
-      "UPDATE refresh_tokens SET revoked = TRUE WHERE token = $1",
+    // End the session the refresh token belongs to
+    const { rows } = await query(
+      `SELECT rt.user_id, rt.family_id, u.email
+         FROM refresh_tokens rt
+         JOIN users u ON u.id = rt.user_id
+        WHERE rt.token = $1`,
       [refreshToken]
     );
+    if (rows.length > 0) {
+      await revokeFamily({ query }, rows[0].user_id, rows[0].family_id, "logout");
+      await auditAuth({ query }, req, { id: rows[0].user_id, email: rows[0].email }, "logout", {
+        session_id: rows[0].family_id,
+      });
+    }
 
     res.json({ message: "Logged out successfully" });
   } catch (error) {
@@ -333,4 +589,248 @@ router.post("/logout", async (req, res) => {
   }
 });
 
+// Signed-in sessions (one per sign-in, across token rotations) with device, IP and last use
+router.get("/sessions", protect, async (req, res) => {
+  try {
+    res.json(await listSessions({ query }, req.userId, req.sessionId));
+  } catch (error) {
+    console.error("List sessions error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Sign out everywhere: every session, including this one unless ?keep_current=true
+router.delete("/sessions", protect, async (req, res) => {
+  const keepCurrent = req.query.keep_current === "true" && req.sessionId;
+
+  try {
+    await revokeAllSessions({ query }, req.userId, "signed_out_everywhere", keepCurrent ? req.sessionId : null);
+    await auditAuth({ query }, req, { id: req.userId }, "signed_out_everywhere", { kept_current: Boolean(keepCurrent) });
+    res.json({ message: keepCurrent ? "Signed out of all other sessions" : "Signed out everywhere" });
+  } catch (error) {
+    console.error("Sign out everywhere error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Sign one session out; its access token stops working too
+router.delete("/sessions/:id", protect, async (req, res) => {
+  if (!/^[0-9a-f-]{36}$/i.test(req.params.id)) {
+    return res.status(404).json({ message: "Session not found" });
+  }
+
+  try {
+    const revoked = await revokeFamily({ query }, req.userId, req.params.id, "signed_out");
+    if (revoked === 0) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+    await auditAuth({ query }, req, { id: req.userId }, "session_signed_out", { session_id: req.params.id });
+    res.json({ message: "Session signed out" });
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Forgot password: email a single-use reset link. The response is the same whether or not the
+// email has an account, so the form cannot be used to find out who is registered.
+router.post("/forgot-password", async (req, res) => {
+  const email = typeof req.body.email === "string" ? req.body.email.trim() : "";
+
+  if (!email) {
+    return res.status(400).json({ message: "Email is required." });
+  }
+
+  const response = { message: "If an account exists for that email, a reset link has been sent." };
+
+  try {
+    const { rows } = await query("SELECT id, email FROM users WHERE email = $1", [email]);
+    if (rows.length === 0) {
+      return res.json(response);
+    }
+
+    const resetToken = await issueResetToken({ query }, rows[0], req.ip);
+    if (resetToken) {
+      await auditAuth({ query }, req, rows[0], "password_reset_requested");
+      try {
+        await sendResetEmail(rows[0], resetToken);
+      } catch (error) {
+        // Mail delivery failed: log it for the operator without telling the requester
+        console.error("Password reset email error:", error);
+      }
+    }
+    res.json(response);
+  } catch (error) {
+    if (error && error.code === '42P01') {
+      return res.status(500).json({ message: "Database not initialized: password_reset_tokens table missing. Run migrations." });
+    }
+    console.error("Forgot password error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Reset password with the token from the emailed link; signs the user out everywhere
+router.post("/reset-password", async (req, res) => {
+  const { token, newPassword } = req.body;
+
+  if (!token || typeof token !== "string" || !newPassword) {
+    return res.status(400).json({ message: "Reset token and new password are required" });
+  }
+  if (typeof newPassword !== "string" || newPassword.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+
+  try {
+    const result = await withTransaction(async (client) => {
+      const reset = await resetPassword(client, token, newPassword);
+      if (reset.userId) {
+        await auditAuth(client, req, { id: reset.userId }, "password_reset");
+      }
+      return reset;
+    });
+    if (result.error) {
+      return res.status(400).json({ message: result.error });
+    }
+    res.json({ message: "Password has been reset. You can sign in with your new password." });
+  } catch (error) {
+    console.error("Reset password error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Self-service sign-up: the account starts pending and unverified; a confirmation link is emailed
+router.post("/register", async (req, res) => {
+  if (!config.SIGNUP_ENABLED) {
+    return res.status(403).json({ message: "Sign-up is closed. Contact an admin for an account." });
+  }
+
+  const email = typeof req.body.email === "string" ? req.body.email.trim() : "";
+  const { password } = req.body;
+
+  if (!email || !password) {
+    return res.status(400).json({ message: "Email and password are required." });
+  }
+  if (!EMAIL_PATTERN.test(email)) {
+    return res.status(400).json({ message: "Enter a valid email address." });
+  }
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+
+  try {
+    const passwordHash = await bcrypt.hash(password, 10);
+    const { user, verificationToken } = await withTransaction(async (client) => {
+      const { rows } = await client.query(
+        `INSERT INTO users (email, password_hash, role, subscription_status)
+         VALUES ($1, $2, 'user', 'pending')
+         RETURNING id, email, subscription_status`,
+        [email, passwordHash]
+      );
+      await createWorkspace(client, rows[0]);
+      await recordAudit(client, req, {
+        entityType: "user",
+        entityId: rows[0].id,
+        entityLabel: rows[0].email,
+        actorId: rows[0].id,
+        action: "register",
+        after: rows[0],
+      });
+      return { user: rows[0], verificationToken: await issueVerificationToken(client, rows[0]) };
+    });
+
+    try {
+      await sendVerificationEmail(user, verificationToken);
+    } catch (error) {
+      // The account exists; the user can ask for the link again
+      console.error("Verification email error:", error);
+    }
+
+    res.status(201).json({
+      message: "Account created. Check your email for a link to confirm your address.",
+      user: { id: user.id, email: user.email, subscription: { status: user.subscription_status } },
+    });
+  } catch (error) {
+    if (error && error.code === "23505") {
+      return res.status(409).json({ message: "An account with this email already exists." });
+    }
+    console.error("Register error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Confirm the email address from the emailed link; starts the trial when trials are enabled
+router.post("/verify-email", async (req, res) => {
+  const { token } = req.body;
+
+  if (!token || typeof token !== "string") {
+    return res.status(400).json({ message: "Confirmation token is required" });
+  }
+
+  try {
+    const result = await withTransaction(async (client) => {
+      const verified = await verifyEmail(client, token);
+      if (verified.user) {
+        await auditAuth(client, req, verified.user, "email_verified", {
+          subscription_status: verified.user.subscription_status,
+        });
+      }
+      return verified;
+    });
+    if (result.error) {
+      return res.status(400).json({ message: result.error });
+    }
+
+    const { user } = result;
+    let message = "Email confirmed. You can sign in now.";
+    if (user.subscription_status === "pending") {
+      message = "Email confirmed. An admin will review your account; we will email you once it is approved.";
+    } else if (user.subscription_status === "trial") {
+      message = `Email confirmed. Your ${config.SIGNUP_TRIAL_DAYS}-day free trial has started; you can sign in now.`;
+    }
+    res.json({
+      message,
+      subscription: { status: user.subscription_status, expiryDate: user.subscription_end_date },
+    });
+  } catch (error) {
+    console.error("Verify email error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Send the confirmation link again; answers the same whether or not the account exists
+router.post("/resend-verification", async (req, res) => {
+  const email = typeof req.body.email === "string" ? req.body.email.trim() : "";
+
+  if (!email) {
+    return res.status(400).json({ message: "Email is required." });
+  }
+
+  const response = { message: "If that account still needs confirming, a new link has been sent." };
+
+  try {
+    const { rows } = await query(
+      "SELECT id, email FROM users WHERE email = $1 AND email_verified_at IS NULL",
+      [email]
+    );
+    if (rows.length === 0) {
+      return res.json(response);
+    }
+
+    const verificationToken = await issueVerificationToken({ query }, rows[0]);
+    if (verificationToken) {
+      try {
+        await sendVerificationEmail(rows[0], verificationToken);
+      } catch (error) {
+        console.error("Verification email error:", error);
+      }
+    }
+    res.json(response);
+  } catch (error) {
+    console.error("Resend verification error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
 module.exports = router;
@@ -1,6 +1,13 @@
 const express = require("express");
-const { protect } = require("../middleware/authMiddleware");
-const { query } = require("../db");
+const { protect, requirePermission } = require("../middleware/authMiddleware");
+const { query, streamQuery, withTransaction } = require("../db");
+const { round2 } = require("../services/calculations");
+const { parseExportFilters, formatBankAccounts, streamExport } = require("../services/dataExport");
+const { parseStatementRange, loadStatement } = require("../services/clientStatement");
+const { renderStatementPdf } = require("../services/statementPdf");
+const { loadBrandingProfile } = require("../services/businessProfile");
+const { checkPlanLimit } = require("../services/plans");
+const { recordAudit } = require("../services/audit");
 
 const router = express.Router();
 
@@ -8,14 +15,14 @@ const router = express.Router();
  * GET /api/clients
  * Return all clients for the authenticated user.
  */
-router.get("/", protect, async (req, res) => {
+router.get("/", protect, requirePermission("view"), async (req, res) => {
   try {
     const { rows } = await query(
       `SELECT *
          FROM clients
         WHERE user_id = $1
         ORDER BY created_at DESC`,
-      [req.userId]
+      [req.ownerId]
     );
     res.json(rows);
   } catch (error) {
@@ -28,11 +35,100 @@ router.get("/", protect, async (req, res) => {
   }
 });
 
+const EXPORT_COLUMNS = [
+  { key: "name", header: "Name", width: 24 },
+  { key: "phone", header: "Phone" },
+  { key: "bank_account", header: "Bank Account", width: 40 },
+  { key: "platforms", header: "Platforms", width: 32 },
+  { key: "commission_percentage", header: "Commission %" },
+  { key: "preferred_payout_currency", header: "Currency", width: 10 },
+  { key: "transaction_count", header: "Transactions" },
+  { key: "incoming_amount_thb", header: "Incoming (THB)" },
+  { key: "commission_amount", header: "Commission (THB)" },
+  { key: "fees", header: "Fees (THB)" },
+  { key: "net_amount", header: "Net (THB)" },
+];
+
+const formatPlatforms = (value) => {
+  const platforms = value && typeof value === "string" ? JSON.parse(value) : value;
+  return (Array.isArray(platforms) ? platforms : [])
+    .map((platform) => (platform.payout_id ? `${platform.platform_name}: ${platform.payout_id}` : platform.platform_name))
+    .join("; ");
+};
+
+const exportRows = async function* (rows) {
+  for await (const r of rows) {
+    const incoming = Number(r.incoming_amount_thb);
+    const commission = Number(r.commission_amount);
+    const fees = Number(r.fees);
+    yield {
+      id: r.id,
+      name: r.name,
+      phone: r.phone,
+      bank_account: formatBankAccounts(r.bank_account),
+      platforms: formatPlatforms(r.platform_details),
+      commission_percentage: Number(r.commission_percentage),
+      preferred_payout_currency: r.preferred_payout_currency,
+      transaction_count: Number(r.transaction_count),
+      incoming_amount_thb: incoming,
+      commission_amount: commission,
+      fees,
+      net_amount: round2(incoming - commission - fees),
+    };
+  }
+};
+
+/**
+ * GET /api/clients/export
+ * Stream the user's clients as CSV, XLSX or JSON, with transaction totals per client.
+ * Query: format (csv|xlsx|json, default csv), from / to (YYYY-MM-DD; limits the transactions
+ * that are totalled, inclusive), client_id.
+ */
+router.get("/export", protect, requirePermission("view"), async (req, res) => {
+  const filters = parseExportFilters(req.query);
+  if (filters.error) {
+    return res.status(400).json({ message: filters.error });
+  }
+
+  try {
+    const rows = streamQuery(
+      `SELECT c.*,
+              COUNT(t.id) AS transaction_count,
+              COALESCE(SUM(t.incoming_amount_thb), 0) AS incoming_amount_thb,
+              COALESCE(SUM(t.commission_amount), 0) AS commission_amount,
+              COALESCE(SUM(t.fees), 0) AS fees
+         FROM clients c
+         LEFT JOIN transactions t
+           ON t.client_id = c.id
+          AND t.user_id = $1
+          AND ($2::date IS NULL OR t.transaction_date >= $2::date)
+          AND ($3::date IS NULL OR t.transaction_date < $3::date + 1)
+        WHERE c.user_id = $1
+          AND ($4::uuid IS NULL OR c.id = $4)
+        GROUP BY c.id
+        ORDER BY c.created_at DESC`,
+      [req.ownerId, filters.from, filters.to, filters.clientId]
+    );
+
+    await streamExport(res, { format: filters.format, name: "clients", columns: EXPORT_COLUMNS, rows: exportRows(rows) });
+  } catch (error) {
+    console.error("Failed to export clients:", error);
+    // Headers already sent: cut the download short rather than append an error to the file
+    if (res.headersSent) {
+      return res.destroy(error);
+    }
+    if (error && error.code === '42P01') {
+      return res.status(500).json({ message: "Database not initialized: clients table missing. Run migrations." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
 /**
  * POST /api/clients
  * Insert a new client belonging to the authenticated user.
  */
-router.post("/", protect, async (req, res) => {
+router.post("/", protect, requirePermission("clients"), async (req, res) => {
   const {
     name,
     phone = null,
@@ -55,30 +151,44 @@ router.post("/", protect, async (req, res) => {
       return res.status(400).json({ message: "commission_percentage must be a valid number." });
     }
 
-    const { rows } = await query(
-      `INSERT INTO clients (
-         user_id,
-         name,
-         phone,
-         commission_percentage,
-         preferred_payout_currency,
-         bank_account,
-         platform_details
-       )
-       VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7::jsonb)
-       RETURNING *`,
-      [
-        req.userId,
-        name,
-        phone,
-        commissionValue,
-        preferred_payout_currency,
-        bank_account == null ? null : JSON.stringify(bank_account),
-        platform_details == null ? null : JSON.stringify(platform_details),
-      ]
-    );
+    const result = await withTransaction(async (client) => {
+      // 402 when the user's plan has no room for another client
+      const overLimit = await checkPlanLimit(client, req.ownerId, "clients");
+      if (overLimit) return overLimit;
+
+      const { rows } = await client.query(
+        `INSERT INTO clients (
+           user_id,
+           name,
+           phone,
+           commission_percentage,
+           preferred_payout_currency,
+           bank_account,
+           platform_details
+         )
+         VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7::jsonb)
+         RETURNING *`,
+        [
+          req.ownerId,
+          name,
+          phone,
+          commissionValue,
+          preferred_payout_currency,
+          bank_account == null ? null : JSON.stringify(bank_account),
+          platform_details == null ? null : JSON.stringify(platform_details),
+        ]
+      );
+      await recordAudit(client, req, {
+        entityType: "client",
+        entityId: rows[0].id,
+        entityLabel: rows[0].name,
+        action: "create",
+        after: rows[0],
+      });
+      return { status: 201, body: rows[0] };
+    });
 
-    res.status(201).json(rows[0]);
+    res.status(result.status).json(result.body);
   } catch (error) {
     console.error("Failed to create client:", error);
     if (error && error.code === '42P01') {
@@ -88,11 +198,78 @@ router.post("/", protect, async (req, res) => {
   }
 });
 
+// Statement for the client in req.params.id, or { status, message } when it cannot be built
+const statementFor = async (req) => {
+  const range = parseStatementRange(req.query);
+  if (range.error) {
+    return { status: 400, message: range.error };
+  }
+
+  const { rows } = await query("SELECT * FROM clients WHERE id = $1 AND user_id = $2", [req.params.id, req.ownerId]);
+  if (rows.length === 0) {
+    return { status: 404, message: "Client not found or user not authorized." };
+  }
+
+  return { statement: await loadStatement({ query }, req.ownerId, rows[0], range) };
+};
+
+/**
+ * GET /api/clients/:id/statement
+ * Statement of account for ?from&to (YYYY-MM-DD, inclusive; to defaults to today): opening
+ * balance, the period's transactions, invoices, credit notes and payouts sent, and the closing
+ * balance, per payout currency.
+ */
+router.get("/:id/statement", protect, requirePermission("view"), async (req, res) => {
+  try {
+    const result = await statementFor(req);
+    if (!result.statement) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.json(result.statement);
+  } catch (error) {
+    console.error("Failed to build client statement:", error);
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Client not found or user not authorized." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * GET /api/clients/:id/statement/pdf
+ * The same statement as a printable PDF, branded with the business profile.
+ */
+router.get("/:id/statement/pdf", protect, requirePermission("view"), async (req, res) => {
+  try {
+    const result = await statementFor(req);
+    if (!result.statement) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    const { statement } = result;
+    const pdf = await renderStatementPdf(statement, await loadBrandingProfile({ query }, req.ownerId));
+    const slug = statement.client.name.replace(/[^A-Za-z0-9]+/g, "-").replace(/^-|-$/g, "") || "client";
+
+    res.set({
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="statement-${slug}-${statement.to}.pdf"`,
+      "Content-Length": pdf.length,
+    });
+    res.send(pdf);
+  } catch (error) {
+    console.error("Failed to render client statement PDF:", error);
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Client not found or user not authorized." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
 /**
  * PUT /api/clients/:id
  * Update a client, ensuring it belongs to the authenticated user.
  */
-router.put("/:id", protect, async (req, res) => {
+router.put("/:id", protect, requirePermission("clients"), async (req, res) => {
   const { id } = req.params;
   const {
     name,
@@ -108,34 +285,51 @@ router.put("/:id", protect, async (req, res) => {
       ? commission_percentage
       : parseFloat(commission_percentage);
 
-    const { rows } = await query(
-      `UPDATE clients
-          SET name = $1,
-              phone = $2,
-              commission_percentage = $3,
-              preferred_payout_currency = $4,
-              bank_account = $5::jsonb,
-              platform_details = $6::jsonb
-        WHERE id = $7
-          AND user_id = $8
-        RETURNING *`,
-      [
-        name,
-        phone,
-        Number.isFinite(commissionValue) ? commissionValue : 0,
-        preferred_payout_currency,
-        bank_account == null ? null : JSON.stringify(bank_account),
-        platform_details == null ? null : JSON.stringify(platform_details),
-        id,
-        req.userId,
-      ]
-    );
+    const updated = await withTransaction(async (client) => {
+      const { rows: existing } = await client.query(
+        "SELECT * FROM clients WHERE id = $1 AND user_id = $2 FOR UPDATE",
+        [id, req.ownerId]
+      );
+      if (existing.length === 0) return null;
+
+      const { rows } = await client.query(
+        `UPDATE clients
+            SET name = $1,
+                phone = $2,
+                commission_percentage = $3,
+                preferred_payout_currency = $4,
+                bank_account = $5::jsonb,
+                platform_details = $6::jsonb
+          WHERE id = $7
+            AND user_id = $8
+          RETURNING *`,
+        [
+          name,
+          phone,
+          Number.isFinite(commissionValue) ? commissionValue : 0,
+          preferred_payout_currency,
+          bank_account == null ? null : JSON.stringify(bank_account),
+          platform_details == null ? null : JSON.stringify(platform_details),
+          id,
+          req.ownerId,
+        ]
+      );
+      await recordAudit(client, req, {
+        entityType: "client",
+        entityId: id,
+        entityLabel: rows[0].name,
+        action: "update",
+        before: existing[0],
+        after: rows[0],
+      });
+      return rows[0];
+    });
 
-    if (rows.length === 0) {
+    if (!updated) {
       return res.status(404).json({ message: "Client not found or user not authorized." });
     }
 
-    res.json(rows[0]);
+    res.json(updated);
   } catch (error) {
     console.error("Failed to update client:", error);
     res.status(500).json({ message: "Server Error" });
@@ -146,16 +340,27 @@ router.put("/:id", protect, async (req, res) => {
  * DELETE /api/clients/:id
  * Remove a client that belongs to the authenticated user.
  */
-router.delete("/:id", protect, async (req, res) => {
+router.delete("/:id", protect, requirePermission("clients"), async (req, res) => {
   const { id } = req.params;
 
   try {
-    const result = await query(
-      "DELETE FROM clients WHERE id = $1 AND user_id = $2",
-      [id, req.userId]
-    );
+    const removed = await withTransaction(async (client) => {
+      const { rows } = await client.query(
+        "DELETE FROM clients WHERE id = $1 AND user_id = $2 RETURNING *",
+        [id, req.ownerId]
+      );
+      if (rows.length === 0) return null;
+      await recordAudit(client, req, {
+        entityType: "client",
+        entityId: id,
+        entityLabel: rows[0].name,
+        action: "delete",
+        before: rows[0],
+      });
+      return rows[0];
+    });
 
-    if (result.rowCount === 0) {
+    if (!removed) {
       return res.status(404).json({ message: "Client not found or user not authorized." });
     }
 
@@ -0,0 +1,184 @@
+const express = require("express");
+const { protect, requirePermission } = require("../middleware/authMiddleware");
+const { query } = require("../db");
+const { validateCommissionRule, mapCommissionRule } = require("../services/commissionRules");
+
+const router = express.Router();
+
+const DUPLICATE_MESSAGE = "This client already has a rule for that platform and volume tier starting on that date.";
+
+const loadOwnedClient = async (userId, clientId) => {
+  const { rows } = await query(
+    "SELECT id, platform_details FROM clients WHERE id = $1 AND user_id = $2",
+    [clientId, userId]
+  );
+  return rows[0] || null;
+};
+
+/**
+ * GET /api/commission-rules
+ * List commission rules, optionally for one client (?client_id=), ordered by platform,
+ * tier and effective date.
+ */
+router.get("/", protect, requirePermission("view"), async (req, res) => {
+  try {
+    const { rows } = await query(
+      `SELECT *
+         FROM commission_rules
+        WHERE user_id = $1
+          AND ($2::uuid IS NULL OR client_id = $2)
+        ORDER BY client_id, source_platform NULLS FIRST, min_monthly_volume, effective_from DESC`,
+      [req.ownerId, req.query.client_id || null]
+    );
+    res.json(rows.map(mapCommissionRule));
+  } catch (error) {
+    console.error("Failed to load commission rules:", error);
+    if (error && error.code === '42P01') {
+      return res.json([]);
+    }
+    if (error && error.code === '22P02') {
+      return res.status(400).json({ message: "client_id must be a valid id." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * POST /api/commission-rules
+ * Add a rule for a client: commission_percentage, optional source_platform (one of the client's
+ * platform_details) and min_monthly_volume (THB), effective_from and optional effective_to.
+ * A new effective_from for an existing platform and tier changes the rate from that date.
+ */
+router.post("/", protect, requirePermission("rules"), async (req, res) => {
+  const body = req.body || {};
+  if (!body.client_id) {
+    return res.status(400).json({ message: "client_id is required." });
+  }
+
+  try {
+    const client = await loadOwnedClient(req.ownerId, body.client_id);
+    if (!client) {
+      return res.status(404).json({ message: "Client not found or not owned by user." });
+    }
+
+    const { values, error: validationError } = validateCommissionRule(body, client);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const { rows } = await query(
+      `INSERT INTO commission_rules
+         (user_id, client_id, source_platform, min_monthly_volume, commission_percentage, effective_from, effective_to, notes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        req.ownerId,
+        client.id,
+        values.source_platform,
+        values.min_monthly_volume,
+        values.commission_percentage,
+        values.effective_from,
+        values.effective_to,
+        values.notes,
+      ]
+    );
+
+    res.status(201).json(mapCommissionRule(rows[0]));
+  } catch (error) {
+    console.error("Failed to create commission rule:", error);
+    if (error && error.code === '23505') {
+      return res.status(409).json({ message: DUPLICATE_MESSAGE });
+    }
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Client not found or not owned by user." });
+    }
+    if (error && error.code === '42P01') {
+      return res.status(500).json({ message: "Database not initialized: commission_rules table missing. Run migrations." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * PUT /api/commission-rules/:id
+ * Update a rule. Saved transactions keep the rate they were charged until they are edited.
+ */
+router.put("/:id", protect, requirePermission("rules"), async (req, res) => {
+  try {
+    const { rows: existing } = await query(
+      `SELECT r.id, c.id AS client_id, c.platform_details
+         FROM commission_rules r
+         JOIN clients c ON c.id = r.client_id
+        WHERE r.id = $1
+          AND r.user_id = $2`,
+      [req.params.id, req.ownerId]
+    );
+    if (existing.length === 0) {
+      return res.status(404).json({ message: "Commission rule not found." });
+    }
+
+    const { values, error: validationError } = validateCommissionRule(req.body || {}, existing[0]);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const { rows } = await query(
+      `UPDATE commission_rules
+          SET source_platform = $1,
+              min_monthly_volume = $2,
+              commission_percentage = $3,
+              effective_from = $4,
+              effective_to = $5,
+              notes = $6,
+              updated_at = now()
+        WHERE id = $7
+          AND user_id = $8
+        RETURNING *`,
+      [
+        values.source_platform,
+        values.min_monthly_volume,
+        values.commission_percentage,
+        values.effective_from,
+        values.effective_to,
+        values.notes,
+        req.params.id,
+        req.ownerId,
+      ]
+    );
+
+    res.json(mapCommissionRule(rows[0]));
+  } catch (error) {
+    console.error("Failed to update commission rule:", error);
+    if (error && error.code === '23505') {
+      return res.status(409).json({ message: DUPLICATE_MESSAGE });
+    }
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Commission rule not found." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * DELETE /api/commission-rules/:id
+ * Transactions charged under the rule keep their rate and its label.
+ */
+router.delete("/:id", protect, requirePermission("rules"), async (req, res) => {
+  try {
+    const { rowCount } = await query("DELETE FROM commission_rules WHERE id = $1 AND user_id = $2", [req.params.id, req.ownerId]);
+
+    if (rowCount === 0) {
+      return res.status(404).json({ message: "Commission rule not found." });
+    }
+
+    res.json({ message: "Commission rule deleted." });
+  } catch (error) {
+    console.error("Failed to delete commission rule:", error);
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Commission rule not found." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,49 @@
+const express = require("express");
+const { protect, requirePermission } = require("../middleware/authMiddleware");
+const { query } = require("../db");
+
+const router = express.Router();
+
+/**
+ * GET /api/credit-notes
+ * Return all credit notes for the authenticated user with their original invoice number.
+ * Credit notes are created from POST /api/invoices/:id/credit-notes.
+ */
+router.get("/", protect, requirePermission("view"), async (req, res) => {
+  try {
+    const { rows } = await query(
+      `SELECT cn.*, i.invoice_number, i.client_snapshot->>'name' AS client_name
+         FROM credit_notes cn
+         JOIN invoices i ON i.id = cn.invoice_id
+        WHERE cn.user_id = $1
+        ORDER BY cn.issued_at DESC`,
+      [req.ownerId]
+    );
+
+    res.json(
+      rows.map((r) => ({
+        id: r.id,
+        invoice_id: r.invoice_id,
+        invoice_number: r.invoice_number,
+        client_name: r.client_name,
+        credit_note_number: r.credit_note_number,
+        reason: r.reason,
+        total_amount: Number(r.total_amount),
+        commission_amount: Number(r.commission_amount),
+        fees: Number(r.fees),
+        net_amount: Number(r.net_amount),
+        payout_currency: r.payout_currency,
+        payout_amount: Number(r.payout_amount),
+        issued_at: r.issued_at,
+      }))
+    );
+  } catch (error) {
+    console.error("Failed to load credit notes:", error);
+    if (error && error.code === '42P01') {
+      return res.json([]);
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,229 @@
+const express = require("express");
+const { protect, requirePermission } = require("../middleware/authMiddleware");
+const { query } = require("../db");
+const {
+  CURRENCY_PAIRS,
+  isValidDate,
+  mapRate,
+  validateRate,
+  findEffectiveRates,
+  saveProviderRates,
+} = require("../services/exchangeRates");
+const { getRateProvider } = require("../services/rateProviders");
+
+const router = express.Router();
+
+const duplicateRateMessage = (values) =>
+  `A ${values.base_currency}/${values.quote_currency} rate for ${values.effective_date} already exists.`;
+
+/**
+ * GET /api/exchange-rates
+ * List the user's rates, newest effective_date first.
+ * Optional filters: base_currency, quote_currency, from, to (YYYY-MM-DD, inclusive).
+ */
+router.get("/", protect, requirePermission("view"), async (req, res) => {
+  const { base_currency = null, quote_currency = null, from = null, to = null } = req.query;
+  if ((from && !isValidDate(from)) || (to && !isValidDate(to))) {
+    return res.status(400).json({ message: "from and to must be dates in YYYY-MM-DD format." });
+  }
+
+  try {
+    const { rows } = await query(
+      `SELECT *
+         FROM exchange_rates
+        WHERE user_id = $1
+          AND ($2::text IS NULL OR base_currency = upper($2))
+          AND ($3::text IS NULL OR quote_currency = upper($3))
+          AND ($4::date IS NULL OR effective_date >= $4::date)
+          AND ($5::date IS NULL OR effective_date <= $5::date)
+        ORDER BY effective_date DESC, base_currency, quote_currency`,
+      [req.ownerId, base_currency, quote_currency, from, to]
+    );
+    res.json(rows.map(mapRate));
+  } catch (error) {
+    console.error("Failed to load exchange rates:", error);
+    if (error && error.code === '42P01') {
+      return res.json([]);
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * GET /api/exchange-rates/effective?date=YYYY-MM-DD
+ * The rate in force on the date (the latest one on or before it) for each pair:
+ * { date, thb_mmk, usd_thb } where a pair with no rate yet is null. Defaults to today.
+ */
+router.get("/effective", protect, requirePermission("view"), async (req, res) => {
+  const date = req.query.date || new Date().toISOString().slice(0, 10);
+  if (!isValidDate(date)) {
+    return res.status(400).json({ message: "date must be in YYYY-MM-DD format." });
+  }
+
+  try {
+    const rates = await findEffectiveRates({ query }, req.ownerId, date);
+    res.json({ date, ...rates });
+  } catch (error) {
+    console.error("Failed to load effective exchange rates:", error);
+    if (error && error.code === '42P01') {
+      return res.json({ date, ...Object.fromEntries(CURRENCY_PAIRS.map((pair) => [pair.key, null])) });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * POST /api/exchange-rates
+ * Add a rate: base_currency, quote_currency, rate, effective_date, notes?
+ */
+router.post("/", protect, requirePermission("rules"), async (req, res) => {
+  const { values, error: validationError } = validateRate(req.body || {});
+  if (validationError) {
+    return res.status(400).json({ message: validationError });
+  }
+
+  try {
+    const { rows } = await query(
+      `INSERT INTO exchange_rates (user_id, base_currency, quote_currency, rate, effective_date, notes)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [req.ownerId, values.base_currency, values.quote_currency, values.rate, values.effective_date, values.notes]
+    );
+    res.status(201).json(mapRate(rows[0]));
+  } catch (error) {
+    console.error("Failed to create exchange rate:", error);
+    if (error && error.code === '23505') {
+      return res.status(409).json({ message: duplicateRateMessage(values) });
+    }
+    if (error && error.code === '42P01') {
+      return res.status(500).json({ message: "Database not initialized: exchange_rates table missing. Run migrations." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * PUT /api/exchange-rates/:id
+ * Replace a rate's pair, value, date and notes. Edited rates count as manual entries.
+ */
+router.put("/:id", protect, requirePermission("rules"), async (req, res) => {
+  const { values, error: validationError } = validateRate(req.body || {});
+  if (validationError) {
+    return res.status(400).json({ message: validationError });
+  }
+
+  try {
+    const { rows } = await query(
+      `UPDATE exchange_rates
+          SET base_currency = $1,
+              quote_currency = $2,
+              rate = $3,
+              effective_date = $4,
+              notes = $5,
+              source = 'manual',
+              updated_at = now()
+        WHERE id = $6
+          AND user_id = $7
+        RETURNING *`,
+      [values.base_currency, values.quote_currency, values.rate, values.effective_date, values.notes, req.params.id, req.ownerId]
+    );
+
+    if (rows.length === 0) {
+      return res.status(404).json({ message: "Exchange rate not found." });
+    }
+
+    res.json(mapRate(rows[0]));
+  } catch (error) {
+    console.error("Failed to update exchange rate:", error);
+    if (error && error.code === '23505') {
+      return res.status(409).json({ message: duplicateRateMessage(values) });
+    }
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Exchange rate not found." });
+    }
+    if (error && error.code === '42P01') {
+      return res.status(500).json({ message: "Database not initialized: exchange_rates table missing. Run migrations." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * DELETE /api/exchange-rates/:id
+ * Transactions keep the rate they were saved with.
+ */
+router.delete("/:id", protect, requirePermission("rules"), async (req, res) => {
+  try {
+    const { rowCount } = await query(
+      "DELETE FROM exchange_rates WHERE id = $1 AND user_id = $2",
+      [req.params.id, req.ownerId]
+    );
+
+    if (rowCount === 0) {
+      return res.status(404).json({ message: "Exchange rate not found." });
+    }
+
+    res.json({ message: "Exchange rate deleted." });
+  } catch (error) {
+    console.error("Failed to delete exchange rate:", error);
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Exchange rate not found." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * POST /api/exchange-rates/sync
+ * Pull rates from the configured provider (RATE_PROVIDER, default the local rate file) for the
+ * optional { from, to } range. Rates already entered by hand for the same pair and date are kept.
+ */
+router.post("/sync", protect, requirePermission("rules"), async (req, res) => {
+  const { from = null, to = null } = req.body || {};
+  if ((from && !isValidDate(from)) || (to && !isValidDate(to))) {
+    return res.status(400).json({ message: "from and to must be dates in YYYY-MM-DD format." });
+  }
+
+  const provider = getRateProvider();
+  if (!provider) {
+    return res.status(500).json({ message: "No exchange rate provider is configured." });
+  }
+
+  let fetched;
+  try {
+    fetched = await provider.fetchRates({ from, to });
+  } catch (error) {
+    console.error(`Failed to fetch rates from the ${provider.name} provider:`, error);
+    return res.status(502).json({ message: `Could not load rates from the ${provider.name} provider: ${error.message}` });
+  }
+
+  const valid = [];
+  const rejected = [];
+  fetched.forEach((rate, idx) => {
+    const { values, error } = validateRate(rate || {});
+    if (error) {
+      rejected.push({ index: idx, message: error });
+    } else {
+      valid.push(values);
+    }
+  });
+
+  try {
+    const saved = await saveProviderRates({ query }, req.ownerId, valid, provider.name);
+    res.json({
+      provider: provider.name,
+      fetched: fetched.length,
+      saved,
+      kept_manual: valid.length - saved,
+      rejected,
+    });
+  } catch (error) {
+    console.error("Failed to save synced exchange rates:", error);
+    if (error && error.code === '42P01') {
+      return res.status(500).json({ message: "Database not initialized: exchange_rates table missing. Run migrations." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,181 @@
+const express = require("express");
+const { protect, requirePermission } = require("../middleware/authMiddleware");
+const { query } = require("../db");
+const { validateFeeRule, mapFeeRule } = require("../services/fees");
+
+const router = express.Router();
+
+// A rule scoped to a client must use one of the user's clients
+const clientIsOwned = async (userId, clientId) => {
+  if (!clientId) return true;
+  const { rows } = await query("SELECT 1 FROM clients WHERE id = $1 AND user_id = $2", [clientId, userId]);
+  return rows.length > 0;
+};
+
+const loadRule = async (userId, id) => {
+  const { rows } = await query(
+    `SELECT r.*, c.name AS client_name
+       FROM fee_rules r
+       LEFT JOIN clients c ON c.id = r.client_id
+      WHERE r.id = $1
+        AND r.user_id = $2`,
+    [id, userId]
+  );
+  return rows[0] ? mapFeeRule(rows[0]) : null;
+};
+
+/**
+ * GET /api/fee-rules
+ * List the user's fee rules with the scoped client's name.
+ */
+router.get("/", protect, requirePermission("view"), async (req, res) => {
+  try {
+    const { rows } = await query(
+      `SELECT r.*, c.name AS client_name
+         FROM fee_rules r
+         LEFT JOIN clients c ON c.id = r.client_id
+        WHERE r.user_id = $1
+        ORDER BY r.fee_type, r.created_at`,
+      [req.ownerId]
+    );
+    res.json(rows.map(mapFeeRule));
+  } catch (error) {
+    console.error("Failed to load fee rules:", error);
+    if (error && error.code === '42P01') {
+      return res.json([]);
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * POST /api/fee-rules
+ * Create a rule: name, fee_type, calculation (flat|percentage|tiered), amount or tiers,
+ * optional client_id and source_platform scope, active.
+ */
+router.post("/", protect, requirePermission("rules"), async (req, res) => {
+  const { values, error: validationError } = validateFeeRule(req.body || {});
+  if (validationError) {
+    return res.status(400).json({ message: validationError });
+  }
+
+  try {
+    if (!(await clientIsOwned(req.ownerId, values.client_id))) {
+      return res.status(404).json({ message: "Client not found or not owned by user." });
+    }
+
+    const { rows } = await query(
+      `INSERT INTO fee_rules (user_id, name, fee_type, calculation, amount, tiers, client_id, source_platform, active, absorbed)
+       VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7, $8, $9, $10)
+       RETURNING id`,
+      [
+        req.ownerId,
+        values.name,
+        values.fee_type,
+        values.calculation,
+        values.amount,
+        values.tiers == null ? null : JSON.stringify(values.tiers),
+        values.client_id,
+        values.source_platform,
+        values.active,
+        values.absorbed,
+      ]
+    );
+
+    res.status(201).json(await loadRule(req.ownerId, rows[0].id));
+  } catch (error) {
+    console.error("Failed to create fee rule:", error);
+    if (error && error.code === '22P02') {
+      return res.status(400).json({ message: "client_id must be a valid id." });
+    }
+    if (error && error.code === '42P01') {
+      return res.status(500).json({ message: "Database not initialized: fee_rules table missing. Run migrations." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * PUT /api/fee-rules/:id
+ * Replace a rule. Saved transactions keep their fees until they are next edited.
+ */
+router.put("/:id", protect, requirePermission("rules"), async (req, res) => {
+  const { values, error: validationError } = validateFeeRule(req.body || {});
+  if (validationError) {
+    return res.status(400).json({ message: validationError });
+  }
+
+  try {
+    if (!(await clientIsOwned(req.ownerId, values.client_id))) {
+      return res.status(404).json({ message: "Client not found or not owned by user." });
+    }
+
+    const { rowCount } = await query(
+      `UPDATE fee_rules
+          SET name = $1,
+              fee_type = $2,
+              calculation = $3,
+              amount = $4,
+              tiers = $5::jsonb,
+              client_id = $6,
+              source_platform = $7,
+              active = $8,
+              absorbed = $9,
+              updated_at = now()
+        WHERE id = $10
+          AND user_id = $11`,
+      [
+        values.name,
+        values.fee_type,
+        values.calculation,
+        values.amount,
+        values.tiers == null ? null : JSON.stringify(values.tiers),
+        values.client_id,
+        values.source_platform,
+        values.active,
+        values.absorbed,
+        req.params.id,
+        req.ownerId,
+      ]
+    );
+
+    if (rowCount === 0) {
+      return res.status(404).json({ message: "Fee rule not found." });
+    }
+
+    res.json(await loadRule(req.ownerId, req.params.id));
+  } catch (error) {
+    console.error("Failed to update fee rule:", error);
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Fee rule not found." });
+    }
+    if (error && error.code === '42P01') {
+      return res.status(500).json({ message: "Database not initialized: fee_rules table missing. Run migrations." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * DELETE /api/fee-rules/:id
+ * Fees already charged by the rule stay on their transactions.
+ */
+router.delete("/:id", protect, requirePermission("rules"), async (req, res) => {
+  try {
+    const { rowCount } = await query("DELETE FROM fee_rules WHERE id = $1 AND user_id = $2", [req.params.id, req.ownerId]);
+
+    if (rowCount === 0) {
+      return res.status(404).json({ message: "Fee rule not found." });
+    }
+
+    res.json({ message: "Fee rule deleted." });
+  } catch (error) {
+    console.error("Failed to delete fee rule:", error);
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Fee rule not found." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+module.exports = router;
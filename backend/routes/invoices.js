@@ -1,66 +1,349 @@
 const express = require("express");
-const { protect } = require("../middleware/authMiddleware");
-const { query } = require("../db");
+const { protect, requirePermission } = require("../middleware/authMiddleware");
+const { query, withTransaction, streamQuery } = require("../db");
+const {
+  isValidStatus,
+  canTransition,
+  transitionError,
+} = require("../services/invoiceStatus");
+const { calculatePayout, findMismatch, round2 } = require("../services/calculations");
+const { renderInvoicePdf } = require("../services/invoicePdf");
+const { loadBrandingProfile } = require("../services/businessProfile");
+const {
+  allocateInvoiceNumber,
+  allocateCreditNoteNumber,
+  draftInvoiceNumber,
+} = require("../services/invoiceNumbering");
+const { buildCreditLines, sumCreditsByItem } = require("../services/creditNotes");
+const { parseExportFilters, streamExport } = require("../services/dataExport");
+const { mapFeeItem, summarizeFees } = require("../services/fees");
+const { checkPlanLimit } = require("../services/plans");
+const { invoicePaymentDestination } = require("../services/payoutBatches");
+const { recordAudit } = require("../services/audit");
 
 const router = express.Router();
 
+const parseJson = (value) => (value && typeof value === "string" ? JSON.parse(value) : value);
+
+const mapItem = (r) => ({
+  id: r.id,
+  transaction_id: r.transaction_id,
+  position: r.position,
+  transaction_date: r.transaction_date,
+  source_platform: r.source_platform,
+  source_platform_payout_id: r.source_platform_payout_id,
+  incoming_amount_thb: Number(r.incoming_amount_thb),
+  commission_amount: Number(r.commission_amount),
+  commission_percentage: r.commission_percentage == null ? null : Number(r.commission_percentage),
+  commission_rule_label: r.commission_rule_label || null,
+  fees: Number(r.fees),
+  fee_items: (parseJson(r.fee_items) || []).map(mapFeeItem),
+  net_amount: Number(r.net_amount),
+  exchange_rate_mmk: Number(r.exchange_rate_mmk),
+  payout_currency: r.payout_currency,
+  payout_amount: Number(r.payout_amount),
+  payment_destination: parseJson(r.payment_destination) || null,
+});
+
+// Client details frozen onto the invoice when it is issued
+const snapshotClient = (r) => ({
+  id: r.client_id,
+  name: r.client_name,
+  phone: r.client_phone,
+  bank_account: parseJson(r.client_bank_account),
+  commission_percentage: Number(r.commission_percentage),
+  preferred_payout_currency: r.preferred_payout_currency,
+  platform_details: parseJson(r.platform_details) || null,
+});
+
+// The commission rate shared by every line, or null when lines were charged different rates
+const uniformRate = (lines) => {
+  const rates = new Set(lines.map((line) => line.commission_percentage).filter((rate) => rate != null));
+  return rates.size === 1 ? [...rates][0] : null;
+};
+
+// The payment_destination every line shares, or null when they differ or one has none
+const uniformDestination = (lines) => {
+  const destinations = new Set(lines.map((line) => JSON.stringify(line.payment_destination ?? null)));
+  return lines.length > 0 && destinations.size === 1 ? lines[0].payment_destination ?? null : null;
+};
+
 /**
- * GET /api/invoices
+ * Load and price the transactions that will become invoice lines.
+ * All transactions must belong to the user, share one client and payout currency,
+ * and not already sit on a non-void invoice other than `excludeInvoiceId`.
+ * Pass lock = true inside a DB transaction.
+ * Returns { status, message } on failure or { clientId, client, lines, totals } on success.
  */
-router.get("/", protect, async (req, res) => {
-  try {
-    // Join invoices -> clients -> transactions to return nested clients and transactions
-    const { rows } = await query(
-      `SELECT i.*, c.id AS client_id, c.name AS client_name, c.phone AS client_phone, c.bank_account AS client_bank_account, c.commission_percentage, c.preferred_payout_currency, c.platform_details,
-              t.incoming_amount_thb, t.original_amount_usd, t.fees, t.transaction_date, t.exchange_rate_mmk, t.payout_currency, t.payout_amount, t.source_platform, t.source_platform_payout_id, t.payment_destination
-         FROM invoices i
-         JOIN clients c ON c.id = i.client_id
-         JOIN transactions t ON t.id = i.transaction_id
-        WHERE c.user_id = $1
-          AND i.user_id = $1
-          AND t.user_id = $1
-        ORDER BY i.created_at DESC`,
-      [req.userId]
-    );
+const buildInvoiceLines = async (db, userId, transactionIds, { lock = false, excludeInvoiceId = null } = {}) => {
+  const { rows } = await db.query(
+    `SELECT t.id, t.client_id, t.transaction_date, t.source_platform, t.source_platform_payout_id,
+            t.incoming_amount_thb, t.fees, t.payout_currency, t.exchange_rate_mmk, t.payment_destination,
+            t.commission_percentage AS applied_commission_percentage, t.commission_rule_id, t.commission_rule_label,
+            c.name AS client_name, c.phone AS client_phone, c.bank_account AS client_bank_account,
+            c.commission_percentage, c.preferred_payout_currency, c.platform_details
+       FROM transactions t
+       JOIN clients c ON c.id = t.client_id
+      WHERE t.id = ANY($1::uuid[])
+        AND t.user_id = $2
+        AND c.user_id = $2
+      ORDER BY t.transaction_date ASC, t.created_at ASC
+      ${lock ? "FOR UPDATE OF t" : ""}`,
+    [transactionIds, userId]
+  );
+
+  if (rows.length !== transactionIds.length) {
+    return { status: 404, message: "Transaction not found or not owned by user." };
+  }
+
+  const clientIds = new Set(rows.map((r) => r.client_id));
+  if (clientIds.size > 1) {
+    return { status: 400, message: "All transactions on an invoice must belong to the same client." };
+  }
+
+  const currencies = new Set(rows.map((r) => r.payout_currency || "THB"));
+  if (currencies.size > 1) {
+    return { status: 400, message: "All transactions on an invoice must share one payout currency." };
+  }
+
+  const { rows: invoicedRows } = await db.query(
+    `SELECT ii.transaction_id, i.invoice_number
+       FROM invoice_items ii
+       JOIN invoices i ON i.id = ii.invoice_id
+      WHERE ii.transaction_id = ANY($1::uuid[])
+        AND i.user_id = $2
+        AND i.status <> 'void'
+        AND ($3::uuid IS NULL OR i.id <> $3)`,
+    [transactionIds, userId, excludeInvoiceId]
+  );
+
+  if (invoicedRows.length > 0) {
+    return {
+      status: 409,
+      message: `Transaction is already on invoice ${invoicedRows[0].invoice_number}.`,
+    };
+  }
+
+  const { rows: feeRows } = await db.query(
+    `SELECT transaction_id, fee_type, description, amount, source, absorbed
+       FROM transaction_fees
+      WHERE transaction_id = ANY($1::uuid[])
+      ORDER BY created_at ASC`,
+    [transactionIds]
+  );
+  const feesByTransaction = new Map();
+  for (const fee of feeRows) {
+    if (!feesByTransaction.has(fee.transaction_id)) feesByTransaction.set(fee.transaction_id, []);
+    feesByTransaction.get(fee.transaction_id).push(mapFeeItem(fee));
+  }
+
+  const lines = [];
+  for (const [position, r] of rows.entries()) {
+    // The rate recorded on the transaction by its commission rule; the client's rate for older rows
+    const commissionPercentage =
+      r.applied_commission_percentage == null ? r.commission_percentage : r.applied_commission_percentage;
+    const calculated = calculatePayout({ ...r, commission_percentage: commissionPercentage });
+    if (calculated.error) {
+      return { status: 400, message: calculated.error };
+    }
+    lines.push({
+      transaction_id: r.id,
+      position,
+      transaction_date: r.transaction_date,
+      source_platform: r.source_platform,
+      source_platform_payout_id: r.source_platform_payout_id,
+      payment_destination: parseJson(r.payment_destination),
+      incoming_amount_thb: calculated.total_amount,
+      commission_amount: calculated.commission_amount,
+      commission_percentage: calculated.commission_percentage,
+      commission_rule_id: r.commission_rule_id,
+      commission_rule_label: r.commission_rule_label || null,
+      fees: calculated.fees,
+      fee_items: feesByTransaction.get(r.id) || [],
+      net_amount: calculated.net_amount,
+      exchange_rate_mmk: calculated.exchange_rate_mmk,
+      payout_currency: calculated.payout_currency,
+      payout_amount: calculated.payout_amount,
+    });
+  }
+
+  const sum = (field) => round2(lines.reduce((acc, line) => acc + line[field], 0));
+
+  return {
+    clientId: rows[0].client_id,
+    client: snapshotClient(rows[0]),
+    lines,
+    totals: {
+      total_amount: sum("incoming_amount_thb"),
+      commission_amount: sum("commission_amount"),
+      fees: sum("fees"),
+      fee_breakdown: summarizeFees(lines),
+      commission_percentage: uniformRate(lines),
+      net_amount: sum("net_amount"),
+      payout_currency: lines[0].payout_currency,
+      payout_amount: sum("payout_amount"),
+    },
+  };
+};
+
+const mapCreditNote = (r) => ({
+  id: r.id,
+  invoice_id: r.invoice_id,
+  credit_note_number: r.credit_note_number,
+  reason: r.reason,
+  total_amount: Number(r.total_amount),
+  commission_amount: Number(r.commission_amount),
+  fees: Number(r.fees),
+  net_amount: Number(r.net_amount),
+  payout_currency: r.payout_currency,
+  payout_amount: Number(r.payout_amount),
+  issued_at: r.issued_at,
+});
+
+// Accept the multi-line `transaction_ids` or the legacy single `transaction_id`
+const readTransactionIds = (body) => {
+  const ids = Array.isArray(body.transaction_ids)
+    ? body.transaction_ids
+    : body.transaction_id
+      ? [body.transaction_id]
+      : [];
+  return [...new Set(ids.filter(Boolean))];
+};
+
+/**
+ * Load the user's invoices with nested client, line items, credit notes and latest payment.
+ * Client details and line items come from the snapshot frozen at issuance, so later edits
+ * to the client or its transactions do not change an issued invoice.
+ * Filters: status, id.
+ */
+const loadInvoices = async (userId, { status = null, id = null } = {}) => {
+  const { rows } = await query(
+    `SELECT i.*, c.name AS client_name, c.phone AS client_phone, c.bank_account AS client_bank_account, c.commission_percentage, c.preferred_payout_currency, c.platform_details,
+            r.invoice_number AS revises_invoice_number,
+            p.id AS payment_id, p.amount AS payment_amount, p.currency AS payment_currency, p.paid_at AS payment_paid_at, p.method AS payment_method, p.reference AS payment_reference, p.notes AS payment_notes
+       FROM invoices i
+       JOIN clients c ON c.id = i.client_id
+       LEFT JOIN invoices r ON r.id = i.revises_invoice_id
+       LEFT JOIN LATERAL (
+         SELECT * FROM invoice_payments ip
+          WHERE ip.invoice_id = i.id
+          ORDER BY ip.created_at DESC
+          LIMIT 1
+       ) p ON TRUE
+      WHERE c.user_id = $1
+        AND i.user_id = $1
+        AND ($2::text IS NULL OR i.status = $2)
+        AND ($3::uuid IS NULL OR i.id = $3)
+      ORDER BY i.created_at DESC`,
+    [userId, status, id]
+  );
+
+  const { rows: itemRows } = await query(
+    `SELECT *
+       FROM invoice_items
+      WHERE invoice_id = ANY($1::uuid[])
+        AND user_id = $2
+      ORDER BY position ASC`,
+    [rows.map((r) => r.id), userId]
+  );
+
+  const { rows: creditRows } = await query(
+    `SELECT *
+       FROM credit_notes
+      WHERE invoice_id = ANY($1::uuid[])
+        AND user_id = $2
+      ORDER BY issued_at ASC`,
+    [rows.map((r) => r.id), userId]
+  );
+
+  const itemsByInvoice = new Map();
+  for (const item of itemRows) {
+    if (!itemsByInvoice.has(item.invoice_id)) itemsByInvoice.set(item.invoice_id, []);
+    itemsByInvoice.get(item.invoice_id).push(mapItem(item));
+  }
 
-    const mapped = rows.map((r) => ({
+  const creditsByInvoice = new Map();
+  for (const credit of creditRows) {
+    if (!creditsByInvoice.has(credit.invoice_id)) creditsByInvoice.set(credit.invoice_id, []);
+    creditsByInvoice.get(credit.invoice_id).push(mapCreditNote(credit));
+  }
+
+  return rows.map((r) => {
+    const items = itemsByInvoice.get(r.id) || [];
+    const creditNotes = creditsByInvoice.get(r.id) || [];
+    const first = items[0] || null;
+    const rates = new Set(items.map((item) => item.exchange_rate_mmk));
+    const payoutAmount = r.payout_amount == null ? 0 : Number(r.payout_amount);
+    const creditedPayout = round2(creditNotes.reduce((acc, credit) => acc + credit.payout_amount, 0));
+
+    return {
       id: r.id,
       invoice_number: r.invoice_number,
       transaction_id: r.transaction_id,
+      transaction_ids: items.map((item) => item.transaction_id),
       total_amount: Number(r.total_amount),
       commission_amount: Number(r.commission_amount),
       net_amount: Number(r.net_amount),
+      status: r.status,
+      issued_at: r.issued_at,
+      paid_at: r.paid_at,
+      voided_at: r.voided_at,
+      void_reason: r.void_reason,
+      revises_invoice_id: r.revises_invoice_id,
+      revises_invoice_number: r.revises_invoice_number,
       created_at: r.created_at,
-      clients: {
-        id: r.client_id,
-        name: r.client_name,
-        phone: r.client_phone,
-        bank_account:
-          r.client_bank_account && typeof r.client_bank_account === "string"
-            ? JSON.parse(r.client_bank_account)
-            : r.client_bank_account,
-        commission_percentage: Number(r.commission_percentage),
-        preferred_payout_currency: r.preferred_payout_currency,
-        platform_details:
-          r.platform_details && typeof r.platform_details === "string"
-            ? JSON.parse(r.platform_details)
-            : r.platform_details || null,
-      },
+      payment: r.payment_id
+        ? {
+            id: r.payment_id,
+            amount: Number(r.payment_amount),
+            currency: r.payment_currency,
+            paid_at: r.payment_paid_at,
+            method: r.payment_method,
+            reference: r.payment_reference,
+            notes: r.payment_notes,
+          }
+        : null,
+      clients: parseJson(r.client_snapshot) || snapshotClient(r),
+      items,
+      credit_notes: creditNotes,
+      fee_breakdown: summarizeFees(items),
+      // Lines from before commission schedules carry no rate; they were charged the client's
+      commission_percentage:
+        items.length > 0 && items.every((item) => item.commission_percentage == null)
+          ? Number(r.commission_percentage)
+          : uniformRate(items),
+      credited_payout_amount: creditedPayout,
+      outstanding_payout_amount: round2(payoutAmount - creditedPayout),
+      // Invoice-level payout summary across all line items
       transactions: {
-        incoming_amount_thb: r.incoming_amount_thb == null ? 0 : Number(r.incoming_amount_thb),
-        original_amount_usd: r.original_amount_usd == null ? null : Number(r.original_amount_usd),
+        incoming_amount_thb: Number(r.total_amount),
         fees: r.fees == null ? 0 : Number(r.fees),
-        transaction_date: r.transaction_date,
-        exchange_rate_mmk: r.exchange_rate_mmk == null ? 0 : Number(r.exchange_rate_mmk),
+        transaction_date: first ? first.transaction_date : null,
+        exchange_rate_mmk: rates.size === 1 && first ? first.exchange_rate_mmk : 0,
         payout_currency: r.payout_currency,
-        payout_amount: r.payout_amount == null ? 0 : Number(r.payout_amount),
-        source_platform: r.source_platform,
-        source_platform_payout_id: r.source_platform_payout_id,
-        payment_destination: (r.payment_destination && typeof r.payment_destination === 'string') ? JSON.parse(r.payment_destination) : r.payment_destination,
+        payout_amount: payoutAmount,
+        source_platform: first ? first.source_platform : null,
+        source_platform_payout_id: first ? first.source_platform_payout_id : null,
+        payment_destination: uniformDestination(items),
       },
-    }));
+    };
+  });
+};
+
+/**
+ * GET /api/invoices
+ * Optional ?status=draft|issued|paid|void filter.
+ */
+router.get("/", protect, requirePermission("view"), async (req, res) => {
+  const { status } = req.query;
 
-    res.json(mapped);
+  if (status && !isValidStatus(status)) {
+    return res.status(400).json({ message: "status must be one of draft, issued, paid, void." });
+  }
+
+  try {
+    const invoices = await loadInvoices(req.ownerId, { status: status || null });
+    res.json(invoices);
   } catch (error) {
     console.error("Failed to load invoices:", error);
     if (error && error.code === '42P01') {
@@ -70,85 +353,838 @@ router.get("/", protect, async (req, res) => {
   }
 });
 
+const EXPORT_COLUMNS = [
+  { key: "invoice_number", header: "Invoice", width: 20 },
+  { key: "client_name", header: "Client", width: 24 },
+  { key: "status", header: "Status", width: 10 },
+  { key: "invoice_date", header: "Date", width: 12 },
+  { key: "total_amount", header: "Total (THB)" },
+  { key: "commission_percentage", header: "Commission %" },
+  { key: "commission_amount", header: "Commission (THB)" },
+  { key: "fees", header: "Fees (THB)" },
+  { key: "net_amount", header: "Net (THB)" },
+  { key: "payout_currency", header: "Payout Currency" },
+  { key: "payout_amount", header: "Payout Amount" },
+  { key: "credited_payout_amount", header: "Credited Payout" },
+  { key: "outstanding_payout_amount", header: "Outstanding Payout" },
+  { key: "paid_at", header: "Paid At", width: 12 },
+  { key: "revises_invoice_number", header: "Revises", width: 20 },
+];
+
+const exportRows = async function* (rows) {
+  for await (const r of rows) {
+    const client = parseJson(r.client_snapshot) || {};
+    const payoutAmount = r.payout_amount == null ? 0 : Number(r.payout_amount);
+    const credited = Number(r.credited_payout_amount || 0);
+    yield {
+      id: r.id,
+      invoice_number: r.invoice_number,
+      client_id: r.client_id,
+      client_name: client.name || r.client_name,
+      status: r.status,
+      invoice_date: r.issued_at || r.created_at,
+      total_amount: Number(r.total_amount),
+      // The rate the lines were charged; blank when they differ. Lines from before commission
+      // schedules carry none and were charged the client's rate
+      commission_percentage:
+        Number(r.rated_lines) === 0
+          ? Number(client.commission_percentage == null ? r.commission_percentage : client.commission_percentage)
+          : r.line_commission_percentage == null
+            ? null
+            : Number(r.line_commission_percentage),
+      commission_amount: Number(r.commission_amount),
+      fees: r.fees == null ? 0 : Number(r.fees),
+      net_amount: Number(r.net_amount),
+      payout_currency: r.payout_currency,
+      payout_amount: payoutAmount,
+      credited_payout_amount: credited,
+      outstanding_payout_amount: round2(payoutAmount - credited),
+      paid_at: r.paid_at,
+      revises_invoice_number: r.revises_invoice_number,
+    };
+  }
+};
+
+/**
+ * GET /api/invoices/export
+ * Stream the user's invoices as CSV, XLSX or JSON.
+ * Query: format (csv|xlsx|json, default csv), from / to (YYYY-MM-DD on the issue date, or the
+ * creation date for drafts; inclusive), client_id.
+ */
+router.get("/export", protect, requirePermission("view"), async (req, res) => {
+  const filters = parseExportFilters(req.query);
+  if (filters.error) {
+    return res.status(400).json({ message: filters.error });
+  }
+
+  try {
+    const rows = streamQuery(
+      `SELECT i.*, c.name AS client_name, c.commission_percentage,
+              r.invoice_number AS revises_invoice_number,
+              COALESCE((SELECT SUM(cn.payout_amount) FROM credit_notes cn WHERE cn.invoice_id = i.id), 0) AS credited_payout_amount,
+              rates.rated_lines, rates.line_commission_percentage
+         FROM invoices i
+         JOIN clients c ON c.id = i.client_id
+         LEFT JOIN invoices r ON r.id = i.revises_invoice_id
+         LEFT JOIN LATERAL (
+           SELECT COUNT(ii.commission_percentage) AS rated_lines,
+                  CASE WHEN COUNT(DISTINCT ii.commission_percentage) = 1 THEN MIN(ii.commission_percentage) END AS line_commission_percentage
+             FROM invoice_items ii
+            WHERE ii.invoice_id = i.id
+         ) rates ON TRUE
+        WHERE c.user_id = $1
+          AND i.user_id = $1
+          AND ($2::date IS NULL OR COALESCE(i.issued_at, i.created_at) >= $2::date)
+          AND ($3::date IS NULL OR COALESCE(i.issued_at, i.created_at) < $3::date + 1)
+          AND ($4::uuid IS NULL OR i.client_id = $4)
+        ORDER BY i.created_at DESC`,
+      [req.ownerId, filters.from, filters.to, filters.clientId]
+    );
+
+    await streamExport(res, { format: filters.format, name: "invoices", columns: EXPORT_COLUMNS, rows: exportRows(rows) });
+  } catch (error) {
+    console.error("Failed to export invoices:", error);
+    // Headers already sent: cut the download short rather than append an error to the file
+    if (res.headersSent) {
+      return res.destroy(error);
+    }
+    if (error && error.code === '42P01') {
+      return res.status(500).json({ message: "Database not initialized: invoices table missing. Run migrations." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * GET /api/invoices/:id/pdf
+ * Server-rendered PDF with the Myanmar font embedded, identical across browsers.
+ */
+router.get("/:id/pdf", protect, requirePermission("view"), async (req, res) => {
+  try {
+    const [invoice] = await loadInvoices(req.ownerId, { id: req.params.id });
+    if (!invoice) {
+      return res.status(404).json({ message: "Invoice not found or user not authorized." });
+    }
+
+    const pdf = await renderInvoicePdf(invoice, await loadBrandingProfile({ query }, req.ownerId));
+
+    res.set({
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${invoice.invoice_number}.pdf"`,
+      "Content-Length": pdf.length,
+    });
+    res.send(pdf);
+  } catch (error) {
+    console.error("Failed to render invoice PDF:", error);
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Invoice not found or user not authorized." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * POST /api/invoices/preview
+ * Price a set of transactions as invoice lines without saving.
+ */
+router.post("/preview", protect, requirePermission("invoices"), async (req, res) => {
+  const transactionIds = readTransactionIds(req.body);
+
+  if (transactionIds.length === 0) {
+    return res.status(400).json({ message: "transaction_ids must contain at least one transaction." });
+  }
+
+  try {
+    const built = await buildInvoiceLines({ query }, req.ownerId, transactionIds);
+    if (built.status) {
+      return res.status(built.status).json({ message: built.message });
+    }
+
+    res.json({ client_id: built.clientId, ...built.totals, items: built.lines });
+  } catch (error) {
+    console.error("Failed to preview invoice:", error);
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+// A unique violation on the number index means the numbering settings produced a number that is
+// already taken (e.g. after switching back to an older format)
+const duplicateInvoiceMessage = (error) =>
+  error.constraint === "idx_invoices_user_invoice_number_unique"
+    ? "The next invoice number is already in use. Adjust the invoice numbering settings."
+    : "Invoice already exists for this transaction.";
+
+/**
+ * Insert the priced lines of an invoice. Each line keeps a copy of the transaction figures,
+ * fee breakdown and payment destination so the invoice no longer depends on the live transaction.
+ */
+const insertInvoiceItems = async (client, invoiceId, userId, lines) => {
+  for (const line of lines) {
+    await client.query(
+      `INSERT INTO invoice_items (
+         invoice_id, transaction_id, user_id, position, transaction_date, source_platform,
+         source_platform_payout_id, incoming_amount_thb, commission_amount, fees, net_amount,
+         exchange_rate_mmk, payout_currency, payout_amount, payment_destination, fee_items,
+         commission_percentage, commission_rule_id, commission_rule_label
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15::jsonb, $16::jsonb, $17, $18, $19)`,
+      [
+        invoiceId,
+        line.transaction_id,
+        userId,
+        line.position,
+        line.transaction_date,
+        line.source_platform,
+        line.source_platform_payout_id,
+        line.incoming_amount_thb,
+        line.commission_amount,
+        line.fees,
+        line.net_amount,
+        line.exchange_rate_mmk,
+        line.payout_currency,
+        line.payout_amount,
+        line.payment_destination == null ? null : JSON.stringify(line.payment_destination),
+        JSON.stringify(line.fee_items || []),
+        line.commission_percentage,
+        line.commission_rule_id,
+        line.commission_rule_label,
+      ]
+    );
+  }
+};
+
+/**
+ * Save a priced invoice (from buildInvoiceLines) with its line items and client snapshot.
+ * Issued invoices take the next invoice number; drafts get a DRAFT- placeholder.
+ */
+const createInvoice = async (client, userId, built, { status, revisesInvoiceId = null }) => {
+  const { totals, lines } = built;
+  const invoiceNumber = status === "issued" ? await allocateInvoiceNumber(client, userId) : draftInvoiceNumber();
+
+  const { rows } = await client.query(
+    `INSERT INTO invoices (
+       user_id,
+       invoice_number,
+       client_id,
+       transaction_id,
+       total_amount,
+       commission_amount,
+       fees,
+       net_amount,
+       payout_currency,
+       payout_amount,
+       status,
+       issued_at,
+       client_snapshot,
+       revises_invoice_id
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, CASE WHEN $11 = 'issued' THEN now() ELSE NULL END, $12::jsonb, $13)
+     RETURNING *`,
+    [
+      userId,
+      invoiceNumber,
+      built.clientId,
+      lines[0].transaction_id,
+      totals.total_amount,
+      totals.commission_amount,
+      totals.fees,
+      totals.net_amount,
+      totals.payout_currency,
+      totals.payout_amount,
+      status,
+      JSON.stringify(built.client),
+      revisesInvoiceId,
+    ]
+  );
+
+  const invoice = rows[0];
+  await insertInvoiceItems(client, invoice.id, userId, lines);
+  return { ...invoice, items: lines };
+};
+
 /**
  * POST /api/invoices
+ * Creates one invoice for one or more transactions of the same client (`transaction_ids`,
+ * or the legacy `transaction_id`). Amounts are derived from each transaction and the
+ * commission rate recorded on it; posted totals are optional and rejected if they disagree.
  */
-router.post("/", protect, async (req, res) => {
-  const {
-    transaction_id,
-    total_amount,
-    commission_amount,
-    net_amount,
-  } = req.body;
+router.post("/", protect, requirePermission("invoices"), async (req, res) => {
+  const { status = "issued" } = req.body;
+  const transactionIds = readTransactionIds(req.body);
+
+  if (transactionIds.length === 0) {
+    return res.status(400).json({ message: "transaction_ids must contain at least one transaction." });
+  }
+
+  if (status !== "draft" && status !== "issued") {
+    return res.status(400).json({ message: "New invoices must be created as 'draft' or 'issued'." });
+  }
 
   try {
-    const insertSql = `
-      WITH permitted_transaction AS (
-        SELECT t.client_id, t.id
-        FROM transactions t
-        WHERE t.id = $2
-          AND t.user_id = $1
-      )
-      INSERT INTO invoices (
-        user_id,
-        client_id,
-        transaction_id,
-        total_amount,
-        commission_amount,
-        net_amount
-      )
-      SELECT
-        $1,
-        pt.client_id,
-        pt.id,
-        $3,
-        $4,
-        $5
-      FROM permitted_transaction pt
-      RETURNING *`;
-
-    const { rows } = await query(insertSql, [
-      req.userId,
-      transaction_id,
-      total_amount,
-      commission_amount,
-      net_amount,
-    ]);
-
-    if (rows.length === 0) {
-      return res.status(404).json({ message: "Transaction not found or not owned by user." });
-    }
-
-    res.status(201).json(rows[0]);
+    const result = await withTransaction(async (client) => {
+      // 402 when the user's plan has no invoices left this month
+      const overLimit = await checkPlanLimit(client, req.ownerId, "invoices");
+      if (overLimit) return overLimit;
+
+      const built = await buildInvoiceLines(client, req.ownerId, transactionIds, { lock: true });
+      if (built.status) {
+        return { status: built.status, body: { message: built.message } };
+      }
+
+      const mismatch = findMismatch(req.body, built.totals, ["total_amount", "commission_amount", "net_amount"]);
+      if (mismatch) {
+        return {
+          status: 400,
+          body: { message: `${mismatch} does not match the calculated value (${built.totals[mismatch].toFixed(2)}).` },
+        };
+      }
+
+      const invoice = await createInvoice(client, req.ownerId, built, { status });
+      await auditInvoice(client, req, "create", { after: invoice });
+      return { status: 201, body: invoice };
+    });
+
+    res.status(result.status).json(result.body);
   } catch (error) {
     console.error("Failed to create invoice:", error);
     if (error && error.code === '42P01') {
       return res.status(500).json({ message: "Database not initialized: invoices table missing. Run migrations." });
     }
     if (error && error.code === '23505') {
-      return res.status(409).json({ message: "Invoice already exists for this transaction." });
+      return res.status(409).json({ message: duplicateInvoiceMessage(error) });
     }
     res.status(500).json({ message: "Server Error" });
   }
 });
 
+// Audit log entry for an invoice, named by its number (DRAFT-... before issue)
+const auditInvoice = (client, req, action, { before = null, after = null }) => {
+  const invoice = after || before;
+  return recordAudit(client, req, {
+    entityType: "invoice",
+    entityId: invoice.id,
+    entityLabel: invoice.invoice_number,
+    action,
+    before,
+    after,
+  });
+};
+
 /**
- * DELETE /api/invoices/:id
+ * Lock an invoice owned by the user and apply a status transition.
+ * Returns { status, body } for the route to send.
  */
-router.delete("/:id", protect, async (req, res) => {
-  const { id } = req.params;
+const transitionInvoice = (userId, id, nextStatus, applyChange) =>
+  withTransaction(async (client) => {
+    const { rows } = await client.query(
+      "SELECT * FROM invoices WHERE id = $1 AND user_id = $2 FOR UPDATE",
+      [id, userId]
+    );
+
+    const invoice = rows[0];
+    if (!invoice) {
+      return { status: 404, body: { message: "Invoice not found or user not authorized." } };
+    }
+
+    if (!canTransition(invoice.status, nextStatus)) {
+      return { status: 409, body: { message: transitionError(invoice.status, nextStatus) } };
+    }
+
+    return applyChange(client, invoice);
+  });
+
+const countCreditNotes = async (client, invoiceId) => {
+  const { rows } = await client.query("SELECT COUNT(*)::int AS count FROM credit_notes WHERE invoice_id = $1", [
+    invoiceId,
+  ]);
+  return rows[0].count;
+};
+
+/**
+ * POST /api/invoices/:id/issue
+ * Move a draft invoice to issued, replacing its DRAFT- placeholder with the next invoice number.
+ * The lines and client details are re-read and frozen at this point.
+ */
+router.post("/:id/issue", protect, requirePermission("invoices"), async (req, res) => {
+  try {
+    const result = await transitionInvoice(req.ownerId, req.params.id, "issued", async (client, invoice) => {
+      const { rows: itemRows } = await client.query(
+        "SELECT transaction_id FROM invoice_items WHERE invoice_id = $1 ORDER BY position ASC",
+        [invoice.id]
+      );
+      const built = await buildInvoiceLines(
+        client,
+        req.ownerId,
+        itemRows.map((r) => r.transaction_id),
+        { lock: true, excludeInvoiceId: invoice.id }
+      );
+      if (built.status) {
+        return { status: built.status, body: { message: built.message } };
+      }
+
+      const { totals, lines } = built;
+      const invoiceNumber = await allocateInvoiceNumber(client, req.ownerId);
+      const { rows } = await client.query(
+        `UPDATE invoices
+            SET status = 'issued',
+                invoice_number = $2,
+                issued_at = now(),
+                total_amount = $3,
+                commission_amount = $4,
+                fees = $5,
+                net_amount = $6,
+                payout_currency = $7,
+                payout_amount = $8,
+                client_snapshot = $9::jsonb
+          WHERE id = $1
+          RETURNING *`,
+        [
+          invoice.id,
+          invoiceNumber,
+          totals.total_amount,
+          totals.commission_amount,
+          totals.fees,
+          totals.net_amount,
+          totals.payout_currency,
+          totals.payout_amount,
+          JSON.stringify(built.client),
+        ]
+      );
+
+      await client.query("DELETE FROM invoice_items WHERE invoice_id = $1", [invoice.id]);
+      await insertInvoiceItems(client, invoice.id, req.ownerId, lines);
+      await auditInvoice(client, req, "issue", { before: invoice, after: rows[0] });
+
+      return { status: 200, body: { ...rows[0], items: lines } };
+    });
+
+    res.status(result.status).json(result.body);
+  } catch (error) {
+    console.error("Failed to issue invoice:", error);
+    if (error && error.code === '23505') {
+      return res.status(409).json({ message: duplicateInvoiceMessage(error) });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * POST /api/invoices/:id/void
+ * Void a draft or issued invoice. The invoice number is kept.
+ */
+router.post("/:id/void", protect, requirePermission("invoices"), async (req, res) => {
+  const { reason = null } = req.body || {};
+
+  try {
+    const result = await transitionInvoice(req.ownerId, req.params.id, "void", async (client, invoice) => {
+      if ((await countCreditNotes(client, invoice.id)) > 0) {
+        return {
+          status: 409,
+          body: { message: "Invoices with credit notes cannot be voided. Credit the remaining lines instead." },
+        };
+      }
+
+      const { rows } = await client.query(
+        `UPDATE invoices
+            SET status = 'void',
+                voided_at = now(),
+                void_reason = $2
+          WHERE id = $1
+          RETURNING *`,
+        [invoice.id, reason]
+      );
+      await auditInvoice(client, req, "void", { before: invoice, after: rows[0] });
+      return { status: 200, body: rows[0] };
+    });
+
+    res.status(result.status).json(result.body);
+  } catch (error) {
+    console.error("Failed to void invoice:", error);
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * POST /api/invoices/:id/revise
+ * Void an issued invoice and issue a corrected replacement from the current transaction data.
+ * Body: { transaction_ids? (defaults to the original lines), reason? }.
+ */
+router.post("/:id/revise", protect, requirePermission("invoices"), async (req, res) => {
+  const { reason = null } = req.body || {};
+  const requestedIds = readTransactionIds(req.body || {});
 
   try {
-    const result = await query(
-      "DELETE FROM invoices WHERE id = $1 AND user_id = $2",
-      [id, req.userId]
+    const result = await transitionInvoice(req.ownerId, req.params.id, "void", async (client, invoice) => {
+      if (invoice.status !== "issued") {
+        return { status: 409, body: { message: "Only issued invoices can be revised. Edit drafts before issuing them." } };
+      }
+      if ((await countCreditNotes(client, invoice.id)) > 0) {
+        return { status: 409, body: { message: "Invoices with credit notes cannot be revised." } };
+      }
+
+      let transactionIds = requestedIds;
+      if (transactionIds.length === 0) {
+        const { rows: itemRows } = await client.query(
+          "SELECT transaction_id FROM invoice_items WHERE invoice_id = $1 ORDER BY position ASC",
+          [invoice.id]
+        );
+        transactionIds = itemRows.map((r) => r.transaction_id);
+      }
+
+      const built = await buildInvoiceLines(client, req.ownerId, transactionIds, {
+        lock: true,
+        excludeInvoiceId: invoice.id,
+      });
+      if (built.status) {
+        return { status: built.status, body: { message: built.message } };
+      }
+      if (built.clientId !== invoice.client_id) {
+        return { status: 400, body: { message: "A revision must bill the same client as the original invoice." } };
+      }
+
+      const revision = await createInvoice(client, req.ownerId, built, {
+        status: "issued",
+        revisesInvoiceId: invoice.id,
+      });
+
+      const { rows: voided } = await client.query(
+        `UPDATE invoices
+            SET status = 'void',
+                voided_at = now(),
+                void_reason = $2
+          WHERE id = $1
+          RETURNING *`,
+        [invoice.id, reason || `Revised by ${revision.invoice_number}`]
+      );
+      await auditInvoice(client, req, "revise", { before: invoice, after: voided[0] });
+      await auditInvoice(client, req, "create", { after: revision });
+
+      return { status: 201, body: revision };
+    });
+
+    res.status(result.status).json(result.body);
+  } catch (error) {
+    console.error("Failed to revise invoice:", error);
+    if (error && error.code === '23505') {
+      return res.status(409).json({ message: duplicateInvoiceMessage(error) });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * GET /api/invoices/:id/credit-notes
+ */
+router.get("/:id/credit-notes", protect, requirePermission("view"), async (req, res) => {
+  try {
+    const { rows } = await query(
+      `SELECT *
+         FROM credit_notes
+        WHERE invoice_id = $1
+          AND user_id = $2
+        ORDER BY issued_at ASC`,
+      [req.params.id, req.ownerId]
     );
 
-    if (result.rowCount === 0) {
-      return res.status(404).json({ message: "Invoice not found or user not authorized." });
+    res.json(rows.map(mapCreditNote));
+  } catch (error) {
+    console.error("Failed to load credit notes:", error);
+    if (error && error.code === '42P01') {
+      return res.json([]);
     }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * POST /api/invoices/:id/credit-notes
+ * Issue a credit note against an issued or paid invoice.
+ * Body: { reason, items?: [{ invoice_item_id, incoming_amount_thb? }] }; without items every
+ * line still open is credited in full.
+ */
+router.post("/:id/credit-notes", protect, requirePermission("invoices"), async (req, res) => {
+  const { reason, items = null } = req.body || {};
+
+  if (!reason || !String(reason).trim()) {
+    return res.status(400).json({ message: "reason is required." });
+  }
+  if (items != null && (!Array.isArray(items) || items.length === 0)) {
+    return res.status(400).json({ message: "items must be a non-empty array when provided." });
+  }
+
+  try {
+    const result = await withTransaction(async (client) => {
+      const { rows } = await client.query(
+        "SELECT * FROM invoices WHERE id = $1 AND user_id = $2 FOR UPDATE",
+        [req.params.id, req.ownerId]
+      );
+
+      const invoice = rows[0];
+      if (!invoice) {
+        return { status: 404, body: { message: "Invoice not found or user not authorized." } };
+      }
+      if (invoice.status !== "issued" && invoice.status !== "paid") {
+        return { status: 409, body: { message: "Credit notes can only be issued against issued or paid invoices." } };
+      }
+
+      const { rows: itemRows } = await client.query(
+        "SELECT * FROM invoice_items WHERE invoice_id = $1 ORDER BY position ASC",
+        [invoice.id]
+      );
+      const { rows: creditedRows } = await client.query(
+        `SELECT cni.*
+           FROM credit_note_items cni
+           JOIN credit_notes cn ON cn.id = cni.credit_note_id
+          WHERE cn.invoice_id = $1`,
+        [invoice.id]
+      );
+
+      const credit = buildCreditLines(itemRows.map(mapItem), sumCreditsByItem(creditedRows), items);
+      if (credit.error) {
+        return { status: 400, body: { message: credit.error } };
+      }
+
+      const creditNoteNumber = await allocateCreditNoteNumber(client, req.ownerId);
+      const { rows: noteRows } = await client.query(
+        `INSERT INTO credit_notes (
+           user_id,
+           invoice_id,
+           client_id,
+           credit_note_number,
+           reason,
+           total_amount,
+           commission_amount,
+           fees,
+           net_amount,
+           payout_currency,
+           payout_amount
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         RETURNING *`,
+        [
+          req.ownerId,
+          invoice.id,
+          invoice.client_id,
+          creditNoteNumber,
+          String(reason).trim(),
+          credit.totals.total_amount,
+          credit.totals.commission_amount,
+          credit.totals.fees,
+          credit.totals.net_amount,
+          credit.totals.payout_currency,
+          credit.totals.payout_amount,
+        ]
+      );
+
+      const note = noteRows[0];
+      for (const line of credit.lines) {
+        await client.query(
+          `INSERT INTO credit_note_items (
+             credit_note_id, invoice_item_id, transaction_id, user_id, incoming_amount_thb,
+             commission_amount, fees, net_amount, exchange_rate_mmk, payout_currency, payout_amount
+           )
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+          [
+            note.id,
+            line.invoice_item_id,
+            line.transaction_id,
+            req.ownerId,
+            line.incoming_amount_thb,
+            line.commission_amount,
+            line.fees,
+            line.net_amount,
+            line.exchange_rate_mmk,
+            line.payout_currency,
+            line.payout_amount,
+          ]
+        );
+      }
+
+      await recordAudit(client, req, {
+        entityType: "invoice",
+        entityId: invoice.id,
+        entityLabel: invoice.invoice_number,
+        action: "credit_note",
+        after: { ...mapCreditNote(note), items: credit.lines },
+      });
+
+      return { status: 201, body: { ...mapCreditNote(note), items: credit.lines } };
+    });
+
+    res.status(result.status).json(result.body);
+  } catch (error) {
+    console.error("Failed to create credit note:", error);
+    if (error && error.code === '42P01') {
+      return res.status(500).json({ message: "Database not initialized: credit_notes table missing. Run migrations." });
+    }
+    if (error && error.code === '23505') {
+      return res.status(409).json({ message: "The next credit note number is already in use. Adjust the credit note numbering settings." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * GET /api/invoices/:id/payments
+ */
+router.get("/:id/payments", protect, requirePermission("view"), async (req, res) => {
+  try {
+    const { rows } = await query(
+      `SELECT ip.*
+         FROM invoice_payments ip
+         JOIN invoices i ON i.id = ip.invoice_id
+        WHERE ip.invoice_id = $1
+          AND i.user_id = $2
+        ORDER BY ip.created_at DESC`,
+      [req.params.id, req.ownerId]
+    );
+
+    res.json(rows.map((r) => ({ ...r, amount: Number(r.amount) })));
+  } catch (error) {
+    console.error("Failed to load invoice payments:", error);
+    if (error && error.code === '42P01') {
+      return res.json([]);
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+const sumCreditedPayout = async (client, invoiceId) => {
+  const { rows } = await client.query(
+    "SELECT COALESCE(SUM(payout_amount), 0) AS total FROM credit_notes WHERE invoice_id = $1",
+    [invoiceId]
+  );
+  return Number(rows[0].total);
+};
+
+/**
+ * POST /api/invoices/:id/payments
+ * Record the payout sent to the client's payment_destination and mark the invoice paid.
+ * The recorded amount is the invoice payout less any credit notes.
+ */
+router.post("/:id/payments", protect, requirePermission("invoices"), async (req, res) => {
+  const {
+    paid_at = null,
+    method,
+    reference = null,
+    notes = null,
+  } = req.body;
+
+  if (!method) {
+    return res.status(400).json({ message: "method is required." });
+  }
+
+  if (paid_at != null && Number.isNaN(new Date(paid_at).getTime())) {
+    return res.status(400).json({ message: "paid_at must be a valid date." });
+  }
+
+  try {
+    const result = await transitionInvoice(req.ownerId, req.params.id, "paid", async (client, invoice) => {
+      const destination = await invoicePaymentDestination(client, invoice.id);
+      const { rows: paymentRows } = await client.query(
+        `INSERT INTO invoice_payments (
+           invoice_id,
+           user_id,
+           amount,
+           currency,
+           paid_at,
+           method,
+           reference,
+           payment_destination,
+           notes
+         )
+         VALUES (
+           $1,
+           $2,
+           $3,
+           $4,
+           COALESCE($5::date, CURRENT_DATE),
+           $6,
+           $7,
+           $8::jsonb,
+           $9
+         )
+         RETURNING *`,
+        [
+          invoice.id,
+          invoice.user_id,
+          round2(Number(invoice.payout_amount) - (await sumCreditedPayout(client, invoice.id))),
+          invoice.payout_currency,
+          paid_at,
+          method,
+          reference,
+          destination == null ? null : JSON.stringify(destination),
+          notes,
+        ]
+      );
+
+      const payment = paymentRows[0];
+
+      const { rows: paid } = await client.query(
+        `UPDATE invoices
+            SET status = 'paid',
+                paid_at = $2
+          WHERE id = $1
+          RETURNING *`,
+        [invoice.id, payment.paid_at]
+      );
+      await auditInvoice(client, req, "payment", { before: invoice, after: { ...paid[0], payment } });
+
+      // The invoice's transactions are paid too, so they no longer show up for payout batches
+      await client.query(
+        `UPDATE transactions t
+            SET paid_at = $2
+           FROM invoice_items ii
+          WHERE ii.invoice_id = $1
+            AND ii.transaction_id = t.id
+            AND t.paid_at IS NULL`,
+        [invoice.id, payment.paid_at]
+      );
+
+      return { status: 201, body: { ...payment, amount: Number(payment.amount) } };
+    });
+
+    res.status(result.status).json(result.body);
+  } catch (error) {
+    console.error("Failed to record invoice payment:", error);
+    if (error && error.code === '42P01') {
+      return res.status(500).json({ message: "Database not initialized: invoice_payments table missing. Run migrations." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * DELETE /api/invoices/:id
+ * Only drafts can be deleted; issued invoices must be voided so their number is kept.
+ */
+router.delete("/:id", protect, requirePermission("invoices"), async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const result = await withTransaction(async (client) => {
+      const { rows } = await client.query(
+        "SELECT * FROM invoices WHERE id = $1 AND user_id = $2 FOR UPDATE",
+        [id, req.ownerId]
+      );
+
+      if (rows.length === 0) {
+        return { status: 404, body: { message: "Invoice not found or user not authorized." } };
+      }
+
+      if (rows[0].status !== "draft") {
+        return { status: 409, body: { message: "Only draft invoices can be deleted. Void the invoice instead." } };
+      }
+
+      await client.query(
+        "DELETE FROM invoices WHERE id = $1 AND user_id = $2 AND status = 'draft'",
+        [id, req.ownerId]
+      );
+      await auditInvoice(client, req, "delete", { before: rows[0] });
+      return { status: 200, body: { message: "Invoice removed" } };
+    });
 
-    res.json({ message: "Invoice removed" });
+    res.status(result.status).json(result.body);
   } catch (error) {
     console.error("Failed to delete invoice:", error);
     res.status(500).json({ message: "Server Error" });
@@ -0,0 +1,375 @@
+const express = require("express");
+const { protect, requirePermission } = require("../middleware/authMiddleware");
+const { query, withTransaction } = require("../db");
+const { allocatePayoutBatchNumber } = require("../services/invoiceNumbering");
+const { isValidDate } = require("../services/exchangeRates");
+const { parseExportFilters, streamExport } = require("../services/dataExport");
+const {
+  bankCodeFor,
+  findBankFormat,
+  payoutProblem,
+  buildBatchItem,
+  mapBatchItem,
+  mapBatch,
+  bankFile,
+  settleInvoices,
+} = require("../services/payoutBatches");
+
+const router = express.Router();
+
+// Transactions still owed to the client: not marked paid, not in a payout batch and not on a paid invoice
+const UNPAID_CONDITIONS = `
+  t.paid_at IS NULL
+  AND NOT EXISTS (SELECT 1 FROM payout_batch_items pbi WHERE pbi.transaction_id = t.id)
+  AND NOT EXISTS (
+    SELECT 1
+      FROM invoice_items ii
+      JOIN invoices i ON i.id = ii.invoice_id
+     WHERE ii.transaction_id = t.id
+       AND i.status = 'paid'
+  )`;
+
+const loadBatch = async (db, userId, id) => {
+  const { rows } = await db.query("SELECT * FROM payout_batches WHERE id = $1 AND user_id = $2", [id, userId]);
+  if (rows.length === 0) return null;
+
+  const { rows: itemRows } = await db.query(
+    `SELECT *
+       FROM payout_batch_items
+      WHERE batch_id = $1
+      ORDER BY bank_code, client_name, transaction_date`,
+    [id]
+  );
+  return mapBatch(rows[0], itemRows.map(mapBatchItem));
+};
+
+/**
+ * GET /api/payout-batches
+ * List payout batches, newest first, with totals per bank.
+ */
+router.get("/", protect, requirePermission("view"), async (req, res) => {
+  try {
+    const { rows } = await query(
+      "SELECT * FROM payout_batches WHERE user_id = $1 ORDER BY created_at DESC",
+      [req.ownerId]
+    );
+    const { rows: itemRows } = await query(
+      `SELECT *
+         FROM payout_batch_items
+        WHERE batch_id = ANY($1::uuid[])
+        ORDER BY bank_code, client_name, transaction_date`,
+      [rows.map((r) => r.id)]
+    );
+
+    const itemsByBatch = new Map();
+    for (const item of itemRows) {
+      if (!itemsByBatch.has(item.batch_id)) itemsByBatch.set(item.batch_id, []);
+      itemsByBatch.get(item.batch_id).push(mapBatchItem(item));
+    }
+
+    res.json(rows.map((r) => mapBatch(r, itemsByBatch.get(r.id) || [])));
+  } catch (error) {
+    console.error("Failed to load payout batches:", error);
+    if (error && error.code === '42P01') {
+      return res.json([]);
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * GET /api/payout-batches/candidates
+ * Unpaid transactions that can go into a batch, invoiced or not. Optional client_id and
+ * from / to (YYYY-MM-DD on transaction_date). Rows that cannot be paid out carry a `problem`.
+ */
+router.get("/candidates", protect, requirePermission("view"), async (req, res) => {
+  const filters = parseExportFilters(req.query);
+  if (filters.error) {
+    return res.status(400).json({ message: filters.error });
+  }
+
+  try {
+    const { rows } = await query(
+      `SELECT t.id, t.client_id, t.transaction_date, t.source_platform, t.payout_currency, t.payout_amount,
+              t.payment_destination, c.name AS client_name, inv.invoice_number
+         FROM transactions t
+         JOIN clients c ON c.id = t.client_id
+         LEFT JOIN LATERAL (
+           SELECT i.invoice_number
+             FROM invoice_items ii
+             JOIN invoices i ON i.id = ii.invoice_id
+            WHERE ii.transaction_id = t.id
+              AND i.status <> 'void'
+            ORDER BY i.created_at DESC
+            LIMIT 1
+         ) inv ON TRUE
+        WHERE t.user_id = $1
+          AND c.user_id = $1
+          AND ${UNPAID_CONDITIONS}
+          AND ($2::date IS NULL OR t.transaction_date >= $2::date)
+          AND ($3::date IS NULL OR t.transaction_date <= $3::date)
+          AND ($4::uuid IS NULL OR t.client_id = $4)
+        ORDER BY t.transaction_date ASC, t.created_at ASC`,
+      [req.ownerId, filters.from, filters.to, filters.clientId]
+    );
+
+    res.json(
+      rows.map((r) => {
+        const item = buildBatchItem(r);
+        return {
+          ...item,
+          id: r.id,
+          source_platform: r.source_platform,
+          invoice_number: r.invoice_number || null,
+          bank_code: bankCodeFor(item.bank_name),
+          problem: payoutProblem(r),
+        };
+      })
+    );
+  } catch (error) {
+    console.error("Failed to load payout candidates:", error);
+    if (error && error.code === '42P01') {
+      return res.json([]);
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * GET /api/payout-batches/:id
+ */
+router.get("/:id", protect, requirePermission("view"), async (req, res) => {
+  try {
+    const batch = await loadBatch({ query }, req.ownerId, req.params.id);
+    if (!batch) {
+      return res.status(404).json({ message: "Payout batch not found." });
+    }
+    res.json(batch);
+  } catch (error) {
+    console.error("Failed to load payout batch:", error);
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Payout batch not found." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * POST /api/payout-batches
+ * Create a draft batch from `transaction_ids` (optional `notes`). Every transaction must be
+ * unpaid, outside other batches and have a payment_destination; the batch number comes from
+ * the payout_batch numbering sequence.
+ */
+router.post("/", protect, requirePermission("payouts"), async (req, res) => {
+  const ids = Array.isArray(req.body.transaction_ids) ? [...new Set(req.body.transaction_ids.filter(Boolean))] : [];
+  if (ids.length === 0) {
+    return res.status(400).json({ message: "transaction_ids must list at least one transaction." });
+  }
+
+  try {
+    const result = await withTransaction(async (client) => {
+      const { rows } = await client.query(
+        `SELECT t.*, c.name AS client_name
+           FROM transactions t
+           JOIN clients c ON c.id = t.client_id
+          WHERE t.id = ANY($1::uuid[])
+            AND t.user_id = $2
+            AND c.user_id = $2
+            AND ${UNPAID_CONDITIONS}
+          ORDER BY t.transaction_date ASC
+          FOR UPDATE OF t`,
+        [ids, req.ownerId]
+      );
+
+      if (rows.length !== ids.length) {
+        return { status: 409, body: { message: "Some transactions were not found, are already paid or are in another payout batch." } };
+      }
+
+      for (const row of rows) {
+        const problem = payoutProblem(row);
+        if (problem) {
+          return { status: 400, body: { message: `Transaction for ${row.client_name} on ${buildBatchItem(row).transaction_date} ${problem}.` } };
+        }
+      }
+
+      const batchNumber = await allocatePayoutBatchNumber(client, req.ownerId);
+      const { rows: batchRows } = await client.query(
+        `INSERT INTO payout_batches (user_id, batch_number, notes)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [req.ownerId, batchNumber, req.body.notes || null]
+      );
+      const batch = batchRows[0];
+
+      for (const item of rows.map(buildBatchItem)) {
+        await client.query(
+          `INSERT INTO payout_batch_items (
+             batch_id, transaction_id, user_id, client_id, client_name, bank_code, bank_name,
+             account_number, account_name, payout_currency, payout_amount, transaction_date
+           )
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+          [
+            batch.id,
+            item.transaction_id,
+            req.ownerId,
+            item.client_id,
+            item.client_name,
+            item.bank_code,
+            item.bank_name,
+            item.account_number,
+            item.account_name,
+            item.payout_currency,
+            item.payout_amount,
+            item.transaction_date,
+          ]
+        );
+      }
+
+      return { status: 201, body: await loadBatch(client, req.ownerId, batch.id) };
+    });
+
+    res.status(result.status).json(result.body);
+  } catch (error) {
+    console.error("Failed to create payout batch:", error);
+    if (error && error.code === '23505') {
+      return res.status(409).json({ message: "Some transactions are already in another payout batch." });
+    }
+    if (error && error.code === '22P02') {
+      return res.status(400).json({ message: "transaction_ids must be valid ids." });
+    }
+    if (error && error.code === '42P01') {
+      return res.status(500).json({ message: "Database not initialized: payout_batches table missing. Run migrations." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * GET /api/payout-batches/:id/files/:bank
+ * Download the bulk-transfer CSV for one bank of the batch (KBZ, AYA, CB, SCB or OTHER).
+ */
+router.get("/:id/files/:bank", protect, requirePermission("view"), async (req, res) => {
+  const format = findBankFormat(req.params.bank);
+  if (!format) {
+    return res.status(400).json({ message: "Unknown bank code." });
+  }
+
+  try {
+    const batch = await loadBatch({ query }, req.ownerId, req.params.id);
+    if (!batch) {
+      return res.status(404).json({ message: "Payout batch not found." });
+    }
+
+    const file = bankFile(format, batch, batch.items);
+    if (file.rows.length === 0) {
+      return res.status(404).json({ message: `No payouts to ${format.label} in this batch.` });
+    }
+
+    const rows = (async function* () {
+      yield* file.rows;
+    })();
+    await streamExport(res, {
+      format: "csv",
+      name: `${batch.batch_number}-${format.code}`,
+      columns: file.columns,
+      rows,
+      bom: false,
+    });
+  } catch (error) {
+    console.error("Failed to export payout batch file:", error);
+    if (res.headersSent) {
+      return res.destroy(error);
+    }
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Payout batch not found." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * POST /api/payout-batches/:id/confirm
+ * Confirm a draft batch as sent (`paid_at` YYYY-MM-DD, default today; optional `reference`).
+ * Every transaction in it is marked paid, and issued invoices whose transactions are now all
+ * paid are marked paid with a payout_batch payment.
+ */
+router.post("/:id/confirm", protect, requirePermission("payouts"), async (req, res) => {
+  const { paid_at = null, reference = null } = req.body;
+  if (paid_at != null && !isValidDate(paid_at)) {
+    return res.status(400).json({ message: "paid_at must be a date in YYYY-MM-DD format." });
+  }
+
+  try {
+    const result = await withTransaction(async (client) => {
+      const { rows } = await client.query(
+        `UPDATE payout_batches
+            SET status = 'confirmed',
+                paid_at = COALESCE($3::date, CURRENT_DATE),
+                reference = $4,
+                confirmed_at = now(),
+                updated_at = now()
+          WHERE id = $1
+            AND user_id = $2
+            AND status = 'draft'
+          RETURNING *`,
+        [req.params.id, req.ownerId, paid_at, reference]
+      );
+
+      if (rows.length === 0) {
+        const existing = await loadBatch(client, req.ownerId, req.params.id);
+        return existing
+          ? { status: 409, body: { message: "Payout batch is already confirmed." } }
+          : { status: 404, body: { message: "Payout batch not found." } };
+      }
+
+      const batch = rows[0];
+      await client.query(
+        `UPDATE transactions t
+            SET paid_at = $2,
+                payout_batch_id = $1
+           FROM payout_batch_items pbi
+          WHERE pbi.batch_id = $1
+            AND pbi.transaction_id = t.id`,
+        [batch.id, batch.paid_at]
+      );
+      const settled = await settleInvoices(client, req.ownerId, batch);
+
+      return { status: 200, body: { ...(await loadBatch(client, req.ownerId, batch.id)), settled_invoices: settled } };
+    });
+
+    res.status(result.status).json(result.body);
+  } catch (error) {
+    console.error("Failed to confirm payout batch:", error);
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Payout batch not found." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * DELETE /api/payout-batches/:id
+ * Delete a draft batch and release its transactions; confirmed batches are kept.
+ */
+router.delete("/:id", protect, requirePermission("payouts"), async (req, res) => {
+  try {
+    const { rows } = await query("SELECT status FROM payout_batches WHERE id = $1 AND user_id = $2", [req.params.id, req.ownerId]);
+    if (rows.length === 0) {
+      return res.status(404).json({ message: "Payout batch not found." });
+    }
+    if (rows[0].status !== "draft") {
+      return res.status(409).json({ message: "Confirmed payout batches cannot be deleted." });
+    }
+
+    await query("DELETE FROM payout_batches WHERE id = $1 AND user_id = $2 AND status = 'draft'", [req.params.id, req.ownerId]);
+    res.json({ message: "Payout batch deleted." });
+  } catch (error) {
+    console.error("Failed to delete payout batch:", error);
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Payout batch not found." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+module.exports = router;
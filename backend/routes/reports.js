@@ -0,0 +1,98 @@
+const express = require("express");
+const { protect, requirePermission } = require("../middleware/authMiddleware");
+const { query } = require("../db");
+const { parseSummaryParams, buildSummary, buildProfitReport } = require("../services/reports");
+const { parseExportFilters, streamExport } = require("../services/dataExport");
+
+const router = express.Router();
+
+/**
+ * GET /api/reports/summary
+ * Transaction totals for ?from&to (YYYY-MM-DD on transaction_date, default the last twelve
+ * months) grouped by ?group_by=month|client|platform, with the previous period for comparison.
+ */
+router.get("/summary", protect, requirePermission("view"), async (req, res) => {
+  const params = parseSummaryParams(req.query);
+  if (params.error) {
+    return res.status(400).json({ message: params.error });
+  }
+
+  try {
+    res.json(await buildSummary({ query }, req.ownerId, params));
+  } catch (error) {
+    console.error("Failed to build report summary:", error);
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * GET /api/reports/profit
+ * Commission income for ?from&to (as for the summary) grouped by ?group_by=month|client|platform:
+ * commission less credit notes and absorbed fees, split into realized (paid) and pending.
+ */
+router.get("/profit", protect, requirePermission("view"), async (req, res) => {
+  const params = parseSummaryParams(req.query);
+  if (params.error) {
+    return res.status(400).json({ message: params.error });
+  }
+
+  try {
+    res.json(await buildProfitReport({ query }, req.ownerId, params));
+  } catch (error) {
+    console.error("Failed to build profit report:", error);
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+const PROFIT_EXPORT_COLUMNS = [
+  { key: "label", header: "Group", width: 24 },
+  { key: "transaction_count", header: "Transactions" },
+  { key: "commission_amount", header: "Commission (THB)" },
+  { key: "credited_commission", header: "Credited Commission (THB)" },
+  { key: "absorbed_fees", header: "Absorbed Fees (THB)" },
+  { key: "profit", header: "Profit (THB)" },
+  { key: "realized_commission", header: "Realized (THB)" },
+  { key: "pending_commission", header: "Pending (THB)" },
+  { key: "uninvoiced_commission", header: "Not Invoiced (THB)" },
+];
+
+const profitRows = async function* (report) {
+  for (const group of report.groups) {
+    yield { ...group, from: report.from, to: report.to };
+  }
+  yield { ...report.totals, key: null, label: "Total", from: report.from, to: report.to };
+};
+
+/**
+ * GET /api/reports/profit/export
+ * The profit report as a download, one row per group and a total row.
+ * Query: format (csv|xlsx|json, default csv), from, to, group_by.
+ */
+router.get("/profit/export", protect, requirePermission("view"), async (req, res) => {
+  const filters = parseExportFilters({ format: req.query.format });
+  if (filters.error) {
+    return res.status(400).json({ message: filters.error });
+  }
+  const params = parseSummaryParams(req.query);
+  if (params.error) {
+    return res.status(400).json({ message: params.error });
+  }
+
+  try {
+    const report = await buildProfitReport({ query }, req.ownerId, params);
+    await streamExport(res, {
+      format: filters.format,
+      name: `profit-by-${params.groupBy}`,
+      columns: PROFIT_EXPORT_COLUMNS,
+      rows: profitRows(report),
+    });
+  } catch (error) {
+    console.error("Failed to export profit report:", error);
+    if (res.headersSent) {
+      return res.destroy(error);
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,244 @@
+const express = require("express");
+const { protect, requirePermission } = require("../middleware/authMiddleware");
+const { query } = require("../db");
+const {
+  LOGO_MIME_TYPES,
+  MAX_LOGO_BYTES,
+  emptyProfile,
+  mapProfile,
+  validateProfile,
+  loadProfileRow,
+} = require("../services/businessProfile");
+const { DOCUMENT_TYPES, mapNumbering, validateNumbering } = require("../services/invoiceNumbering");
+const { planUsage } = require("../services/plans");
+
+const router = express.Router();
+
+/**
+ * GET /api/settings/profile
+ * Return the authenticated user's business profile (defaults when none is saved).
+ */
+router.get("/profile", protect, requirePermission("view"), async (req, res) => {
+  try {
+    const row = await loadProfileRow({ query }, req.ownerId);
+    res.json(mapProfile(row));
+  } catch (error) {
+    console.error("Failed to load business profile:", error);
+    if (error && error.code === '42P01') {
+      return res.json(emptyProfile());
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * GET /api/settings/plan
+ * Return the user's subscription plan (null when unlimited) with clients and this month's
+ * invoices counted against its limits.
+ */
+router.get("/plan", protect, requirePermission("view"), async (req, res) => {
+  try {
+    res.json(await planUsage({ query }, req.ownerId));
+  } catch (error) {
+    console.error("Failed to load plan:", error);
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * PUT /api/settings/profile
+ * Create or replace the business profile text fields and accent color.
+ * The logo is managed separately through /api/settings/profile/logo.
+ */
+router.put("/profile", protect, requirePermission("settings"), async (req, res) => {
+  const { values, error: validationError } = validateProfile(req.body || {});
+  if (validationError) {
+    return res.status(400).json({ message: validationError });
+  }
+
+  try {
+    const { rows } = await query(
+      `INSERT INTO business_profiles (
+         user_id,
+         business_name,
+         address,
+         contact_email,
+         contact_phone,
+         watermark_text,
+         accent_color,
+         footer_notes
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (user_id) DO UPDATE
+          SET business_name = EXCLUDED.business_name,
+              address = EXCLUDED.address,
+              contact_email = EXCLUDED.contact_email,
+              contact_phone = EXCLUDED.contact_phone,
+              watermark_text = EXCLUDED.watermark_text,
+              accent_color = EXCLUDED.accent_color,
+              footer_notes = EXCLUDED.footer_notes,
+              updated_at = now()
+       RETURNING *`,
+      [
+        req.ownerId,
+        values.business_name,
+        values.address,
+        values.contact_email,
+        values.contact_phone,
+        values.watermark_text,
+        values.accent_color,
+        values.footer_notes,
+      ]
+    );
+
+    res.json(mapProfile(rows[0]));
+  } catch (error) {
+    console.error("Failed to save business profile:", error);
+    if (error && error.code === '42P01') {
+      return res.status(500).json({ message: "Database not initialized: business_profiles table missing. Run migrations." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * PUT /api/settings/profile/logo
+ * Upload the logo as the raw request body with Content-Type image/png or image/jpeg.
+ */
+router.put(
+  "/profile/logo",
+  protect,
+  requirePermission("settings"),
+  express.raw({ type: LOGO_MIME_TYPES, limit: MAX_LOGO_BYTES }),
+  async (req, res) => {
+    const mimeType = (req.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+    if (!LOGO_MIME_TYPES.includes(mimeType)) {
+      return res.status(415).json({ message: "Logo must be a PNG or JPEG image." });
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ message: "Logo file is empty." });
+    }
+
+    try {
+      const { rows } = await query(
+        `INSERT INTO business_profiles (user_id, logo_data, logo_mime_type)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (user_id) DO UPDATE
+            SET logo_data = EXCLUDED.logo_data,
+                logo_mime_type = EXCLUDED.logo_mime_type,
+                updated_at = now()
+         RETURNING *`,
+        [req.ownerId, req.body, mimeType]
+      );
+
+      res.json(mapProfile(rows[0]));
+    } catch (error) {
+      console.error("Failed to save business logo:", error);
+      res.status(500).json({ message: "Server Error" });
+    }
+  }
+);
+
+/**
+ * DELETE /api/settings/profile/logo
+ * Remove the logo from the business profile.
+ */
+router.delete("/profile/logo", protect, requirePermission("settings"), async (req, res) => {
+  try {
+    const { rows } = await query(
+      `UPDATE business_profiles
+          SET logo_data = NULL,
+              logo_mime_type = NULL,
+              updated_at = now()
+        WHERE user_id = $1
+        RETURNING *`,
+      [req.ownerId]
+    );
+
+    res.json(mapProfile(rows[0]));
+  } catch (error) {
+    console.error("Failed to remove business logo:", error);
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+// ?document_type=invoice (default), credit_note or payout_batch; returns null for anything else
+const readDocumentType = (req) => {
+  const documentType = req.query.document_type || "invoice";
+  return DOCUMENT_TYPES.includes(documentType) ? documentType : null;
+};
+
+/**
+ * GET /api/settings/invoice-numbering
+ * Return the number prefix/format, yearly reset flag and the number the next issued document will get.
+ * Optional ?document_type=invoice|credit_note|payout_batch (default invoice).
+ */
+router.get("/invoice-numbering", protect, requirePermission("view"), async (req, res) => {
+  const documentType = readDocumentType(req);
+  if (!documentType) {
+    return res.status(400).json({ message: "document_type must be invoice, credit_note or payout_batch." });
+  }
+
+  try {
+    const { rows } = await query(
+      "SELECT * FROM invoice_number_sequences WHERE user_id = $1 AND document_type = $2",
+      [req.ownerId, documentType]
+    );
+    res.json(mapNumbering(rows[0], documentType));
+  } catch (error) {
+    console.error("Failed to load invoice numbering:", error);
+    if (error && error.code === '42P01') {
+      return res.json(mapNumbering(null, documentType));
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * PUT /api/settings/invoice-numbering
+ * Update the prefix, number_format and reset_yearly. The running counter is kept.
+ * Optional ?document_type=invoice|credit_note|payout_batch (default invoice).
+ */
+router.put("/invoice-numbering", protect, requirePermission("settings"), async (req, res) => {
+  const documentType = readDocumentType(req);
+  if (!documentType) {
+    return res.status(400).json({ message: "document_type must be invoice, credit_note or payout_batch." });
+  }
+
+  const { values, error: validationError } = validateNumbering(req.body || {}, documentType);
+  if (validationError) {
+    return res.status(400).json({ message: validationError });
+  }
+
+  try {
+    const { rows } = await query(
+      `INSERT INTO invoice_number_sequences (user_id, document_type, prefix, number_format, reset_yearly)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (user_id, document_type) DO UPDATE
+          SET prefix = EXCLUDED.prefix,
+              number_format = EXCLUDED.number_format,
+              reset_yearly = EXCLUDED.reset_yearly,
+              updated_at = now()
+       RETURNING *`,
+      [req.ownerId, documentType, values.prefix, values.number_format, values.reset_yearly]
+    );
+
+    res.json(mapNumbering(rows[0], documentType));
+  } catch (error) {
+    console.error("Failed to save invoice numbering:", error);
+    if (error && error.code === '42P01') {
+      return res.status(500).json({ message: "Database not initialized: invoice_number_sequences table missing. Run migrations." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+// Oversized uploads are rejected by express.raw before the handler runs
+router.use((error, _req, res, next) => {
+  if (error && error.type === "entity.too.large") {
+    return res.status(413).json({ message: `Logo must be ${MAX_LOGO_BYTES / 1024} KB or smaller.` });
+  }
+  return next(error);
+});
+
+module.exports = router;
@@ -1,23 +1,264 @@
 const express = require("express");
-const { protect } = require("../middleware/authMiddleware");
-const { query } = require("../db");
+const { protect, requirePermission } = require("../middleware/authMiddleware");
+const { query, withTransaction, streamQuery } = require("../db");
+const { calculatePayout, findMismatch, round2 } = require("../services/calculations");
+const { parseExportFilters, formatBankAccounts, streamExport } = require("../services/dataExport");
+const { toDateString } = require("../services/exchangeRates");
+const {
+  validateFeeItems,
+  resolveFees,
+  loadFeeRules,
+  loadManualFees,
+  saveTransactionFees,
+  mapFeeItem,
+} = require("../services/fees");
+const {
+  loadCommissionRules,
+  monthlyVolume,
+  applyCommissionRules,
+  resolveCommission,
+} = require("../services/commissionRules");
+const {
+  CSV_TYPES,
+  XLSX_TYPES,
+  MAX_IMPORT_BYTES,
+  parseImportFile,
+  detectMapping,
+  validateMapping,
+  mapRecord,
+} = require("../services/transactionImport");
+const { recordAudit } = require("../services/audit");
 
 const router = express.Router();
 
+// How a transaction is named in the audit log
+const auditLabel = (row) => `${toDateString(row.transaction_date)} · ${row.incoming_amount_thb} THB`;
+
+const NUMERIC_FIELDS = ["incoming_amount_thb", "original_amount_usd", "exchange_rate_mmk", "payout_amount", "commission_amount"];
+
+// Figures the browser may send for display purposes; they must agree with the server's calculation
+const CALCULATED_FIELDS = ["commission_amount", "net_amount", "payout_amount"];
+
+const validateNumericFields = (body) => {
+  for (const k of NUMERIC_FIELDS) {
+    const v = body[k];
+    if (v != null && isNaN(Number(v))) {
+      return `${k} must be a valid number.`;
+    }
+    if (v != null && Number(v) < 0) {
+      return `${k} must be >= 0.`;
+    }
+  }
+  return null;
+};
+
+const loadOwnedClient = async (userId, clientId) => {
+  const { rows } = await query(
+    `SELECT id, commission_percentage, preferred_payout_currency, platform_details
+       FROM clients
+      WHERE id = $1
+        AND user_id = $2`,
+    [clientId, userId]
+  );
+  return rows[0] || null;
+};
+
+// Number of the payout batch holding the transaction, or null (also before payout batches are migrated)
+const payoutBatchNumber = async (transactionId) => {
+  try {
+    const { rows } = await query(
+      `SELECT pb.batch_number
+         FROM payout_batch_items pbi
+         JOIN payout_batches pb ON pb.id = pbi.batch_id
+        WHERE pbi.transaction_id = $1`,
+      [transactionId]
+    );
+    return rows.length > 0 ? rows[0].batch_number : null;
+  } catch (error) {
+    if (error && error.code === '42P01') return null;
+    throw error;
+  }
+};
+
+// "invoice INV-…" or "credit note CN-…" carrying the transaction, or null. Void invoices count
+// too: issued documents keep their lines, and the foreign keys restrict the delete either way
+const issuedDocument = async (db, transactionId) => {
+  const { rows } = await db.query(
+    `SELECT label
+       FROM (SELECT 'invoice ' || i.invoice_number AS label,
+                    CASE WHEN i.status = 'void' THEN 2 ELSE 0 END AS rank
+               FROM invoice_items ii
+               JOIN invoices i ON i.id = ii.invoice_id
+              WHERE ii.transaction_id = $1
+             UNION ALL
+             SELECT 'credit note ' || cn.credit_note_number, 1
+               FROM credit_note_items cni
+               JOIN credit_notes cn ON cn.id = cni.credit_note_id
+              WHERE cni.transaction_id = $1) documents
+      ORDER BY rank
+      LIMIT 1`,
+    [transactionId]
+  );
+  return rows.length > 0 ? rows[0].label : null;
+};
+
+/**
+ * Calculate the payout for a transaction payload against its client, at the commission
+ * resolved from the client's schedule (see services/commissionRules).
+ * Returns { error } for invalid input or a payload that disagrees with the calculation.
+ */
+const calculateForClient = (client, body, fees, commission) => {
+  const calculated = calculatePayout({
+    incoming_amount_thb: body.incoming_amount_thb,
+    fees,
+    commission_percentage: commission.commission_percentage,
+    payout_currency: body.payout_currency || client.preferred_payout_currency,
+    exchange_rate_mmk: body.exchange_rate_mmk,
+  });
+
+  if (calculated.error) return calculated;
+
+  const mismatch = findMismatch(body, calculated, CALCULATED_FIELDS);
+  if (mismatch) {
+    return { error: `${mismatch} does not match the calculated value (${calculated[mismatch].toFixed(2)}).` };
+  }
+
+  return {
+    ...calculated,
+    commission_rule_id: commission.commission_rule_id,
+    commission_rule_label: commission.commission_rule_label,
+  };
+};
+
+/**
+ * Work out a transaction's itemized fees: the manual fees (posted fee_items, or the ones
+ * already stored on `storedTransactionId` when none are posted) plus rule fees for every
+ * other fee type. Returns { error } or { items, total }.
+ */
+const feesForTransaction = async (db, userId, body, storedTransactionId = null) => {
+  let manual;
+  if (body.fee_items !== undefined || !storedTransactionId) {
+    const validated = validateFeeItems(body.fee_items);
+    if (validated.error) return validated;
+    manual = validated.items;
+  } else {
+    manual = await loadManualFees(db, storedTransactionId);
+  }
+
+  const rules = await loadFeeRules(db, userId);
+  return resolveFees(
+    rules,
+    {
+      client_id: body.client_id,
+      source_platform: body.source_platform,
+      incoming_amount_thb: body.incoming_amount_thb,
+    },
+    manual
+  );
+};
+
+/**
+ * Insert a transaction with server-calculated amounts. The client must belong to the user;
+ * returns no rows otherwise. `db` is the pool query helper or a transaction client.
+ */
+const insertTransaction = async (db, userId, body, calculated) => {
+  const {
+    client_id,
+    incoming_amount_thb,
+    original_amount_usd,
+    transaction_date,
+    source_platform,
+    source_platform_payout_id,
+    payment_destination,
+    notes = null,
+  } = body;
+
+  const { rows } = await db.query(
+    `INSERT INTO transactions (
+       user_id,
+       client_id,
+       incoming_amount_thb,
+       original_amount_usd,
+       fees,
+       exchange_rate_mmk,
+       payout_currency,
+       payout_amount,
+       commission_amount,
+       commission_percentage,
+       commission_rule_id,
+       commission_rule_label,
+       transaction_date,
+       source_platform,
+       source_platform_payout_id,
+       payment_destination,
+       notes
+     )
+     SELECT
+       $1,
+       c.id,
+       $3,
+       $4,
+       $5,
+       $6,
+       $7,
+       $8,
+       $9,
+       $10,
+       $11,
+       $12,
+       $13,
+       $14,
+       $15,
+       $16::jsonb,
+       $17
+     FROM clients c
+     WHERE c.id = $2
+       AND c.user_id = $1
+     RETURNING *`,
+    [
+      userId,
+      client_id,
+      incoming_amount_thb,
+      original_amount_usd,
+      calculated.fees,
+      calculated.exchange_rate_mmk,
+      calculated.payout_currency,
+      calculated.payout_amount,
+      calculated.commission_amount,
+      calculated.commission_percentage,
+      calculated.commission_rule_id,
+      calculated.commission_rule_label,
+      transaction_date,
+      source_platform,
+      source_platform_payout_id,
+      payment_destination == null ? null : JSON.stringify(payment_destination),
+      notes,
+    ]
+  );
+  return rows;
+};
+
 /**
  * GET /api/transactions
  */
-router.get("/", protect, async (req, res) => {
+router.get("/", protect, requirePermission("view"), async (req, res) => {
   try {
     // Join with clients to filter by owner (clients.user_id) and return nested client info
     const { rows } = await query(
-      `SELECT t.*, c.id AS client_id, c.name AS client_name, c.commission_percentage, c.preferred_payout_currency
+      `SELECT t.*, c.id AS client_id, c.name AS client_name, c.commission_percentage AS client_commission_percentage, c.preferred_payout_currency,
+              COALESCE(
+                (SELECT json_agg(json_build_object('fee_type', tf.fee_type, 'description', tf.description, 'amount', tf.amount, 'source', tf.source, 'absorbed', tf.absorbed)
+                                 ORDER BY tf.created_at)
+                   FROM transaction_fees tf
+                  WHERE tf.transaction_id = t.id),
+                '[]'
+              ) AS fee_items
          FROM transactions t
          JOIN clients c ON c.id = t.client_id
         WHERE c.user_id = $1
           AND t.user_id = $1
         ORDER BY t.transaction_date DESC`,
-      [req.userId]
+      [req.ownerId]
     );
 
     const mapped = rows.map((r) => ({
@@ -26,18 +267,26 @@ router.get("/", protect, async (req, res) => {
       incoming_amount_thb: r.incoming_amount_thb == null ? null : Number(r.incoming_amount_thb),
       original_amount_usd: r.original_amount_usd == null ? null : Number(r.original_amount_usd),
       fees: r.fees == null ? 0 : Number(r.fees),
+      fee_items: (r.fee_items || []).map(mapFeeItem),
       transaction_date: r.transaction_date,
       notes: r.notes,
       exchange_rate_mmk: r.exchange_rate_mmk == null ? 0 : Number(r.exchange_rate_mmk),
+      usd_thb_rate: r.usd_thb_rate == null ? null : Number(r.usd_thb_rate),
+      commission_amount: r.commission_amount == null ? null : Number(r.commission_amount),
+      commission_percentage: r.commission_percentage == null ? null : Number(r.commission_percentage),
+      commission_rule_id: r.commission_rule_id,
+      commission_rule_label: r.commission_rule_label,
       payout_currency: r.payout_currency,
       payout_amount: r.payout_amount == null ? 0 : Number(r.payout_amount),
       source_platform: r.source_platform,
       source_platform_payout_id: r.source_platform_payout_id,
       payment_destination: (r.payment_destination && typeof r.payment_destination === 'string') ? JSON.parse(r.payment_destination) : r.payment_destination,
+      paid_at: toDateString(r.paid_at),
+      payout_batch_id: r.payout_batch_id || null,
       clients: {
         id: r.client_id,
         name: r.client_name,
-        commission_percentage: r.commission_percentage == null ? 0 : Number(r.commission_percentage),
+        commission_percentage: r.client_commission_percentage == null ? 0 : Number(r.client_commission_percentage),
         preferred_payout_currency: r.preferred_payout_currency,
       },
     }));
@@ -54,37 +303,164 @@ router.get("/", protect, async (req, res) => {
   }
 });
 
+const EXPORT_COLUMNS = [
+  { key: "transaction_date", header: "Date", width: 12 },
+  { key: "client_name", header: "Client", width: 24 },
+  { key: "source_platform", header: "Platform" },
+  { key: "source_platform_payout_id", header: "Payout ID", width: 20 },
+  { key: "payment_destination", header: "Payment Destination", width: 32 },
+  { key: "incoming_amount_thb", header: "Incoming (THB)" },
+  { key: "original_amount_usd", header: "Original (USD)" },
+  { key: "usd_thb_rate", header: "USD/THB (implied)" },
+  { key: "commission_percentage", header: "Commission %" },
+  { key: "commission_rule_label", header: "Commission Rule", width: 32 },
+  { key: "commission_amount", header: "Commission (THB)" },
+  { key: "fees", header: "Fees (THB)" },
+  { key: "net_amount", header: "Net (THB)" },
+  { key: "exchange_rate_mmk", header: "Exchange Rate" },
+  { key: "payout_currency", header: "Payout Currency" },
+  { key: "payout_amount", header: "Payout Amount" },
+  { key: "notes", header: "Notes", width: 32 },
+];
+
+const exportRows = async function* (rows) {
+  for await (const r of rows) {
+    const incoming = Number(r.incoming_amount_thb || 0);
+    const commission = Number(r.commission_amount || 0);
+    const fees = Number(r.fees || 0);
+    yield {
+      id: r.id,
+      transaction_date: r.transaction_date,
+      client_id: r.client_id,
+      client_name: r.client_name,
+      source_platform: r.source_platform,
+      source_platform_payout_id: r.source_platform_payout_id,
+      payment_destination: formatBankAccounts(r.payment_destination),
+      incoming_amount_thb: incoming,
+      original_amount_usd: r.original_amount_usd == null ? null : Number(r.original_amount_usd),
+      usd_thb_rate: r.usd_thb_rate == null ? null : Number(r.usd_thb_rate),
+      commission_percentage: r.commission_percentage == null ? 0 : Number(r.commission_percentage),
+      commission_rule_label: r.commission_rule_label,
+      commission_amount: commission,
+      fees,
+      net_amount: round2(incoming - commission - fees),
+      exchange_rate_mmk: r.exchange_rate_mmk == null ? 0 : Number(r.exchange_rate_mmk),
+      payout_currency: r.payout_currency,
+      payout_amount: r.payout_amount == null ? 0 : Number(r.payout_amount),
+      notes: r.notes,
+    };
+  }
+};
+
 /**
- * POST /api/transactions
+ * GET /api/transactions/export
+ * Stream the user's transactions as CSV, XLSX or JSON.
+ * Query: format (csv|xlsx|json, default csv), from / to (YYYY-MM-DD on transaction_date, inclusive), client_id.
  */
-router.post("/", protect, async (req, res) => {
-  const {
-    client_id,
-    incoming_amount_thb,
-    original_amount_usd,
-    exchange_rate_mmk,
-    payout_currency,
-    payout_amount,
-    transaction_date,
-    source_platform,
-    source_platform_payout_id,
-    payment_destination,
-    notes = null,
-  } = req.body;
+router.get("/export", protect, requirePermission("view"), async (req, res) => {
+  const filters = parseExportFilters(req.query);
+  if (filters.error) {
+    return res.status(400).json({ message: filters.error });
+  }
+
+  try {
+    const rows = streamQuery(
+      `SELECT t.*, c.name AS client_name,
+              COALESCE(t.commission_percentage, c.commission_percentage) AS commission_percentage
+         FROM transactions t
+         JOIN clients c ON c.id = t.client_id
+        WHERE c.user_id = $1
+          AND t.user_id = $1
+          AND ($2::date IS NULL OR t.transaction_date >= $2::date)
+          AND ($3::date IS NULL OR t.transaction_date < $3::date + 1)
+          AND ($4::uuid IS NULL OR t.client_id = $4)
+        ORDER BY t.transaction_date DESC, t.created_at DESC`,
+      [req.ownerId, filters.from, filters.to, filters.clientId]
+    );
+
+    await streamExport(res, { format: filters.format, name: "transactions", columns: EXPORT_COLUMNS, rows: exportRows(rows) });
+  } catch (error) {
+    console.error("Failed to export transactions:", error);
+    // Headers already sent: cut the download short rather than append an error to the file
+    if (res.headersSent) {
+      return res.destroy(error);
+    }
+    if (error && error.code === '42P01') {
+      return res.status(500).json({ message: "Database not initialized: transactions table missing. Run migrations." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * POST /api/transactions/preview
+ * Return the fee items and the commission / net / payout breakdown the server would store,
+ * without saving. Posted fee_items are manual fees; the fee rules fill in the other fee types.
+ * The commission rule is resolved for transaction_date and source_platform; pass transaction_id
+ * when editing so the transaction is left out of its own month-to-date volume.
+ */
+router.post("/preview", protect, requirePermission("transactions"), async (req, res) => {
+  const { client_id } = req.body;
 
-  // Basic validations to catch common edge-cases early
   if (!client_id) {
     return res.status(400).json({ message: "client_id is required." });
   }
 
-  const numericFields = { incoming_amount_thb, original_amount_usd, exchange_rate_mmk, payout_amount };
-  for (const [k, v] of Object.entries(numericFields)) {
-    if (v != null && isNaN(Number(v))) {
-      return res.status(400).json({ message: `${k} must be a valid number.` });
+  const invalid = validateNumericFields(req.body);
+  if (invalid) {
+    return res.status(400).json({ message: invalid });
+  }
+
+  try {
+    const client = await loadOwnedClient(req.ownerId, client_id);
+    if (!client) {
+      return res.status(404).json({ message: "Client not found or not owned by user." });
     }
-    if (v != null && Number(v) < 0) {
-      return res.status(400).json({ message: `${k} must be >= 0.` });
+
+    const fees = await feesForTransaction({ query }, req.ownerId, req.body);
+    if (fees.error) {
+      return res.status(400).json({ message: fees.error });
     }
+
+    const commission = await resolveCommission({ query }, req.ownerId, client, req.body, req.body.transaction_id || null);
+    const calculated = calculatePayout({
+      incoming_amount_thb: req.body.incoming_amount_thb,
+      fees: fees.total,
+      commission_percentage: commission.commission_percentage,
+      payout_currency: req.body.payout_currency || client.preferred_payout_currency,
+      exchange_rate_mmk: req.body.exchange_rate_mmk,
+    });
+
+    if (calculated.error) {
+      return res.status(400).json({ message: calculated.error });
+    }
+
+    res.json({ ...calculated, ...commission, absorbed_fees: fees.absorbed_total, fee_items: fees.items.map(mapFeeItem) });
+  } catch (error) {
+    console.error("Failed to preview transaction:", error);
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * POST /api/transactions
+ * Commission and payout are derived from the client's commission schedule (or its
+ * commission_percentage when no rule matches), and the rule used is stored on the transaction;
+ * posted payout_amount / commission_amount are only accepted if they match.
+ * Optional fee_items: [{ fee_type, amount, description? }] entered by hand; fee rules supply
+ * the other fee types.
+ */
+router.post("/", protect, requirePermission("transactions"), async (req, res) => {
+  const { client_id, payment_destination } = req.body;
+
+  // Basic validations to catch common edge-cases early
+  if (!client_id) {
+    return res.status(400).json({ message: "client_id is required." });
+  }
+
+  const invalid = validateNumericFields(req.body);
+  if (invalid) {
+    return res.status(400).json({ message: invalid });
   }
 
   if (payment_destination != null) {
@@ -96,61 +472,41 @@ router.post("/", protect, async (req, res) => {
     }
   }
   try {
-    const insertSql = `
-      INSERT INTO transactions (
-        user_id,
-        client_id,
-        incoming_amount_thb,
-        original_amount_usd,
-        fees,
-        exchange_rate_mmk,
-        payout_currency,
-        payout_amount,
-        transaction_date,
-        source_platform,
-        source_platform_payout_id,
-        payment_destination,
-        notes
-      )
-      SELECT
-        $1,
-        c.id,
-        $3,
-        $4,
-        0,
-        $5,
-        $6,
-        $7,
-        $8,
-        $9,
-        $10,
-        $11::jsonb,
-        $12
-      FROM clients c
-      WHERE c.id = $2
-        AND c.user_id = $1
-      RETURNING *`;
-
-    const { rows } = await query(insertSql, [
-      req.userId,
-      client_id,
-      incoming_amount_thb,
-      original_amount_usd,
-      exchange_rate_mmk,
-      payout_currency,
-      payout_amount,
-      transaction_date,
-      source_platform,
-      source_platform_payout_id,
-      payment_destination == null ? null : JSON.stringify(payment_destination),
-      notes,
-    ]);
+    const client = await loadOwnedClient(req.ownerId, client_id);
+    if (!client) {
+      return res.status(404).json({ message: "Client not found or not owned by user." });
+    }
 
-    if (rows.length === 0) {
+    const fees = await feesForTransaction({ query }, req.ownerId, req.body);
+    if (fees.error) {
+      return res.status(400).json({ message: fees.error });
+    }
+
+    const commission = await resolveCommission({ query }, req.ownerId, client, req.body);
+    const calculated = calculateForClient(client, req.body, fees.total, commission);
+    if (calculated.error) {
+      return res.status(400).json({ message: calculated.error });
+    }
+
+    const created = await withTransaction(async (db) => {
+      const rows = await insertTransaction(db, req.ownerId, req.body, calculated);
+      if (rows.length === 0) return null;
+      await saveTransactionFees(db, rows[0].id, req.ownerId, fees.items);
+      await recordAudit(db, req, {
+        entityType: "transaction",
+        entityId: rows[0].id,
+        entityLabel: auditLabel(rows[0]),
+        action: "create",
+        after: { ...rows[0], fee_items: fees.items },
+      });
+      return rows[0];
+    });
+
+    if (!created) {
       return res.status(404).json({ message: "Client not found or not owned by user." });
     }
 
-    res.status(201).json(rows[0]);
+    res.status(201).json({ ...created, fee_items: fees.items.map(mapFeeItem) });
   } catch (error) {
     console.error("Failed to create transaction:", error);
     // If underlying table is missing, return clear guidance
@@ -161,18 +517,232 @@ router.post("/", protect, async (req, res) => {
   }
 });
 
+/**
+ * Build the import report: map each record, resolve its client by id or name, and run the
+ * same numeric, fee rule, commission rule and payout checks as POST /api/transactions. Rows whose platform payout id
+ * already exists (in the database or earlier in the file) are flagged as duplicates.
+ */
+const validateImportRows = async (userId, records, mapping) => {
+  const { rows: clients } = await query(
+    `SELECT id, name, commission_percentage, preferred_payout_currency
+       FROM clients
+      WHERE user_id = $1`,
+    [userId]
+  );
+  const feeRules = await loadFeeRules({ query }, userId);
+  const commissionRules = await loadCommissionRules({ query }, userId);
+  const clientsById = new Map(clients.map((c) => [c.id, c]));
+  const clientsByName = new Map();
+  for (const c of clients) {
+    const key = c.name.trim().toLowerCase();
+    clientsByName.set(key, [...(clientsByName.get(key) || []), c]);
+  }
+
+  const payloads = records.map((record) => mapRecord(record, mapping));
+  const payoutKey = (p) => `${(p.source_platform || "").toLowerCase()}|${p.source_platform_payout_id.toLowerCase()}`;
+  const payoutIds = payloads.map((p) => p.source_platform_payout_id).filter(Boolean);
+  const { rows: existing } = payoutIds.length
+    ? await query(
+        `SELECT source_platform, source_platform_payout_id
+           FROM transactions
+          WHERE user_id = $1
+            AND source_platform_payout_id = ANY($2::text[])`,
+        [userId, payoutIds]
+      )
+    : { rows: [] };
+  const seenPayouts = new Set(existing.map(payoutKey));
+  // Valid rows so far, so earlier rows of the file count towards monthly volume tiers
+  const accepted = [];
+
+  const report = [];
+  for (const [idx, payload] of payloads.entries()) {
+    const errors = [];
+    // Spreadsheet line number: the header is line 1
+    const line = idx + 2;
+
+    let client = null;
+    if (!payload.client) {
+      errors.push("Client is required.");
+    } else if (clientsById.has(payload.client)) {
+      client = clientsById.get(payload.client);
+    } else {
+      const matches = clientsByName.get(payload.client.toLowerCase()) || [];
+      if (matches.length === 1) {
+        client = matches[0];
+      } else if (matches.length > 1) {
+        errors.push(`Client name '${payload.client}' matches more than one client; use the client id.`);
+      } else {
+        errors.push(`Client '${payload.client}' not found.`);
+      }
+    }
+
+    if (!payload.transaction_date) {
+      errors.push(payload.raw_transaction_date ? `Date '${payload.raw_transaction_date}' is not a valid date.` : "Date is required.");
+    }
+    if (payload.incoming_amount_thb == null) {
+      errors.push("Incoming THB amount is required.");
+    }
+
+    const invalid = validateNumericFields(payload);
+    if (invalid) errors.push(invalid);
+
+    if (payload.source_platform_payout_id) {
+      const key = payoutKey(payload);
+      if (seenPayouts.has(key)) {
+        errors.push(`Payout id '${payload.source_platform_payout_id}' has already been recorded.`);
+      }
+      seenPayouts.add(key);
+    }
+
+    let calculated = null;
+    let fees = { items: [], total: 0 };
+    if (client && !invalid && payload.incoming_amount_thb != null) {
+      fees = resolveFees(feeRules, { ...payload, client_id: client.id });
+      const clientRules = commissionRules.filter((rule) => rule.client_id === client.id);
+      let volume = 0;
+      if (clientRules.length > 0 && payload.transaction_date) {
+        const month = payload.transaction_date.slice(0, 7);
+        volume =
+          (await monthlyVolume({ query }, userId, client.id, payload.transaction_date)) +
+          accepted
+            .filter((row) => row.client_id === client.id && row.transaction_date.startsWith(month) && row.transaction_date <= payload.transaction_date)
+            .reduce((acc, row) => acc + Number(row.incoming_amount_thb), 0);
+      }
+      const commission = applyCommissionRules(client, clientRules, {
+        source_platform: payload.source_platform,
+        transaction_date: payload.transaction_date,
+        monthly_volume: volume,
+      });
+      calculated = calculateForClient(client, payload, fees.total, commission);
+      if (calculated.error) {
+        errors.push(calculated.error);
+        calculated = null;
+      }
+    }
+
+    const body = {
+      client_id: client ? client.id : null,
+      incoming_amount_thb: payload.incoming_amount_thb == null ? null : Number(payload.incoming_amount_thb),
+      original_amount_usd: payload.original_amount_usd == null ? null : Number(payload.original_amount_usd),
+      exchange_rate_mmk: payload.exchange_rate_mmk,
+      payout_currency: payload.payout_currency,
+      transaction_date: payload.transaction_date,
+      source_platform: payload.source_platform,
+      source_platform_payout_id: payload.source_platform_payout_id,
+      notes: payload.notes,
+    };
+
+    if (errors.length === 0) accepted.push(body);
+    report.push({
+      line,
+      valid: errors.length === 0,
+      errors,
+      client_name: client ? client.name : payload.client,
+      values: body,
+      fee_items: fees.items,
+      calculated,
+    });
+  }
+  return report;
+};
+
+const summarizeImport = (report) => ({
+  total_rows: report.length,
+  valid_rows: report.filter((row) => row.valid).length,
+  invalid_rows: report.filter((row) => !row.valid).length,
+});
+
+/**
+ * POST /api/transactions/import
+ * Upload a CSV (text/csv) or XLSX file as the raw request body.
+ * Query: dry_run (default true) and optional mapping[field]=Column Header; unmapped fields are
+ * detected from the header row. A dry run returns the per-row report only; with dry_run=false
+ * every valid row is inserted in one database transaction and invalid rows are skipped.
+ */
+router.post(
+  "/import",
+  protect,
+  requirePermission("transactions"),
+  express.raw({ type: [...CSV_TYPES, ...XLSX_TYPES], limit: MAX_IMPORT_BYTES }),
+  async (req, res) => {
+    const mimeType = (req.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ message: "Upload a CSV or XLSX file as the request body." });
+    }
+
+    const dryRun = req.query.dry_run !== "false";
+
+    try {
+      const parsed = await parseImportFile(req.body, mimeType);
+      if (parsed.error) {
+        return res.status(400).json({ message: parsed.error });
+      }
+
+      const detected = detectMapping(parsed.columns);
+      const posted = req.query.mapping && typeof req.query.mapping === "object" ? req.query.mapping : {};
+      const { mapping, error: mappingError } = validateMapping({ ...detected, ...posted }, parsed.columns);
+      if (mappingError) {
+        return res.status(400).json({ message: mappingError, columns: parsed.columns, mapping: detected });
+      }
+
+      const report = await validateImportRows(req.ownerId, parsed.records, mapping);
+      const response = {
+        dry_run: dryRun,
+        columns: parsed.columns,
+        mapping,
+        summary: summarizeImport(report),
+        rows: report,
+      };
+
+      if (dryRun) {
+        return res.json(response);
+      }
+
+      const validRows = report.filter((row) => row.valid);
+      if (validRows.length === 0) {
+        return res.status(400).json({ ...response, message: "No valid rows to import." });
+      }
+
+      const created = await withTransaction(async (client) => {
+        const inserted = [];
+        for (const row of validRows) {
+          const rows = await insertTransaction(client, req.ownerId, row.values, row.calculated);
+          await saveTransactionFees(client, rows[0].id, req.ownerId, row.fee_items);
+          await recordAudit(client, req, {
+            entityType: "transaction",
+            entityId: rows[0].id,
+            entityLabel: auditLabel(rows[0]),
+            action: "import",
+            after: { ...rows[0], fee_items: row.fee_items },
+          });
+          inserted.push(rows[0]);
+        }
+        return inserted;
+      });
+
+      res.status(201).json({ ...response, created: created.length });
+    } catch (error) {
+      console.error("Failed to import transactions:", error);
+      if (error && error.code === '42P01') {
+        return res.status(500).json({ message: "Database not initialized: transactions table missing. Run migrations." });
+      }
+      res.status(500).json({ message: "Server Error" });
+    }
+  }
+);
+
 /**
  * PUT /api/transactions/:id
+ * Recalculates fees, commission and payout. Posted fee_items replace the manual fees; without
+ * them the stored manual fees are kept. Rule fees and the commission rule are always resolved
+ * again from the current rules.
  */
-router.put("/:id", protect, async (req, res) => {
+router.put("/:id", protect, requirePermission("transactions"), async (req, res) => {
   const { id } = req.params;
   const {
     client_id,
     incoming_amount_thb,
     original_amount_usd,
-    exchange_rate_mmk,
-    payout_currency,
-    payout_amount,
     transaction_date,
     source_platform,
     source_platform_payout_id,
@@ -180,49 +750,113 @@ router.put("/:id", protect, async (req, res) => {
     notes = null,
   } = req.body;
 
+  if (!client_id) {
+    return res.status(400).json({ message: "client_id is required." });
+  }
+
+  const invalid = validateNumericFields(req.body);
+  if (invalid) {
+    return res.status(400).json({ message: invalid });
+  }
+
   try {
-    const { rows } = await query(
-      `UPDATE transactions
-          SET client_id = $1,
-              incoming_amount_thb = $2,
-              original_amount_usd = $3,
-              exchange_rate_mmk = $4,
-              payout_currency = $5,
-              payout_amount = $6,
-              transaction_date = $7,
-              source_platform = $8,
-              source_platform_payout_id = $9,
-              payment_destination = $10::jsonb,
-              notes = $11
-        WHERE id = $12
-          AND user_id = $13
-          AND EXISTS (
-            SELECT 1 FROM clients c
-            WHERE c.id = $1 AND c.user_id = $13
-          )
-        RETURNING *`,
-      [
-        client_id,
-        incoming_amount_thb,
-        original_amount_usd,
-        exchange_rate_mmk,
-        payout_currency,
-        payout_amount,
-        transaction_date,
-        source_platform,
-        source_platform_payout_id,
-        payment_destination == null ? null : JSON.stringify(payment_destination),
-        notes,
-        id,
-        req.userId,
-      ]
+    const { rows: existingRows } = await query(
+      "SELECT id FROM transactions WHERE id = $1 AND user_id = $2",
+      [id, req.ownerId]
     );
+    const client = await loadOwnedClient(req.ownerId, client_id);
 
-    if (rows.length === 0) {
+    if (existingRows.length === 0 || !client) {
       return res.status(404).json({ message: "Transaction not found or user not authorized." });
     }
 
-    res.json(rows[0]);
+    const batchNumber = await payoutBatchNumber(id);
+    if (batchNumber) {
+      return res.status(409).json({ message: `Transaction is in payout batch ${batchNumber} and cannot be edited.` });
+    }
+
+    const fees = await feesForTransaction({ query }, req.ownerId, req.body, id);
+    if (fees.error) {
+      return res.status(400).json({ message: fees.error });
+    }
+
+    const commission = await resolveCommission({ query }, req.ownerId, client, req.body, id);
+    const calculated = calculateForClient(client, req.body, fees.total, commission);
+    if (calculated.error) {
+      return res.status(400).json({ message: calculated.error });
+    }
+
+    const updated = await withTransaction(async (db) => {
+      const { rows: before } = await db.query(
+        "SELECT * FROM transactions WHERE id = $1 AND user_id = $2 FOR UPDATE",
+        [id, req.ownerId]
+      );
+      if (before.length === 0) return null;
+
+      const { rows } = await db.query(
+        `UPDATE transactions
+            SET client_id = $1,
+                incoming_amount_thb = $2,
+                original_amount_usd = $3,
+                exchange_rate_mmk = $4,
+                payout_currency = $5,
+                payout_amount = $6,
+                commission_amount = $7,
+                transaction_date = $8,
+                source_platform = $9,
+                source_platform_payout_id = $10,
+                payment_destination = $11::jsonb,
+                notes = $12,
+                fees = $13,
+                commission_percentage = $14,
+                commission_rule_id = $15,
+                commission_rule_label = $16
+          WHERE id = $17
+            AND user_id = $18
+            AND EXISTS (
+              SELECT 1 FROM clients c
+              WHERE c.id = $1 AND c.user_id = $18
+            )
+          RETURNING *`,
+        [
+          client_id,
+          incoming_amount_thb,
+          original_amount_usd,
+          calculated.exchange_rate_mmk,
+          calculated.payout_currency,
+          calculated.payout_amount,
+          calculated.commission_amount,
+          transaction_date,
+          source_platform,
+          source_platform_payout_id,
+          payment_destination == null ? null : JSON.stringify(payment_destination),
+          notes,
+          calculated.fees,
+          calculated.commission_percentage,
+          calculated.commission_rule_id,
+          calculated.commission_rule_label,
+          id,
+          req.ownerId,
+        ]
+      );
+      if (rows.length === 0) return null;
+      await saveTransactionFees(db, id, req.ownerId, fees.items);
+      await recordAudit(db, req, {
+        entityType: "transaction",
+        entityId: id,
+        entityLabel: auditLabel(rows[0]),
+        action: "update",
+        before: before[0],
+        after: { ...rows[0], fee_items: fees.items },
+      });
+      return rows[0];
+    });
+
+    if (!updated) {
+      return res.status(404).json({ message: "Transaction not found or user not authorized." });
+    }
+
+    res.json({ ...updated, fee_items: fees.items.map(mapFeeItem) });
   } catch (error) {
     console.error("Failed to update transaction:", error);
     if (error && error.code === '42P01') {
@@ -235,24 +869,55 @@ router.put("/:id", protect, async (req, res) => {
 /**
  * DELETE /api/transactions/:id
  */
-router.delete("/:id", protect, async (req, res) => {
+router.delete("/:id", protect, requirePermission("transactions"), async (req, res) => {
   const { id } = req.params;
 
   try {
-    const result = await query(
-      "DELETE FROM transactions WHERE id = $1 AND user_id = $2",
-      [id, req.userId]
-    );
-
-    if (result.rowCount === 0) {
-      return res.status(404).json({ message: "Transaction not found or user not authorized." });
+    const batchNumber = await payoutBatchNumber(id);
+    if (batchNumber) {
+      return res.status(409).json({ message: `Transaction is in payout batch ${batchNumber} and cannot be deleted.` });
     }
 
-    res.json({ message: "Transaction removed" });
+    const result = await withTransaction(async (db) => {
+      const document = await issuedDocument(db, id);
+      if (document) {
+        return { status: 409, message: `Transaction is on ${document} and cannot be deleted.` };
+      }
+
+      const { rows } = await db.query(
+        "DELETE FROM transactions WHERE id = $1 AND user_id = $2 RETURNING *",
+        [id, req.ownerId]
+      );
+      if (rows.length === 0) {
+        return { status: 404, message: "Transaction not found or user not authorized." };
+      }
+      await recordAudit(db, req, {
+        entityType: "transaction",
+        entityId: id,
+        entityLabel: auditLabel(rows[0]),
+        action: "delete",
+        before: rows[0],
+      });
+      return { status: 200, message: "Transaction removed" };
+    });
+
+    res.status(result.status).json({ message: result.message });
   } catch (error) {
     console.error("Failed to delete transaction:", error);
+    // Invoiced between the check and the delete
+    if (error && error.code === '23503') {
+      return res.status(409).json({ message: "Transaction is on an invoice or credit note and cannot be deleted." });
+    }
     res.status(500).json({ message: "Server Error" });
   }
 });
 
+// Oversized uploads are rejected by express.raw before the import handler runs
+router.use((error, _req, res, next) => {
+  if (error && error.type === "entity.too.large") {
+    return res.status(413).json({ message: `Import files must be ${MAX_IMPORT_BYTES / (1024 * 1024)} MB or smaller.` });
+  }
+  return next(error);
+});
+
 module.exports = router;
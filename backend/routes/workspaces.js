@@ -0,0 +1,290 @@
+const express = require("express");
+const { protect, requirePermission } = require("../middleware/authMiddleware");
+const { query, withTransaction } = require("../db");
+const {
+  MEMBER_ROLES,
+  ROLE_PERMISSIONS,
+  listWorkspaces,
+  listMembers,
+  listInvitations,
+  createInvitation,
+  sendInvitationEmail,
+  acceptInvitation,
+} = require("../services/workspaces");
+const { recordAudit } = require("../services/audit");
+
+const router = express.Router();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Team changes are user events in the workspace's activity log
+const auditMember = (db, req, member, action, { before = null, after = null }) =>
+  recordAudit(db, req, {
+    entityType: "user",
+    entityId: member.id,
+    entityLabel: member.email,
+    organizationId: req.workspace.id,
+    action,
+    before,
+    after,
+  });
+
+// One member of the current workspace, locked for a change; the owner is never returned
+const lockMember = async (client, req) => {
+  const { rows } = await client.query(
+    `SELECT u.id, u.email, m.role
+       FROM organization_members m
+       JOIN users u ON u.id = m.user_id
+      WHERE m.organization_id = $1 AND m.user_id = $2 AND m.role <> 'owner'
+      FOR UPDATE OF m`,
+    [req.workspace.id, req.params.userId]
+  );
+  return rows[0] || null;
+};
+
+/**
+ * GET /api/workspaces
+ * The workspaces the user belongs to with their role in each; send one's id as X-Workspace-Id
+ * to act in it.
+ */
+router.get("/", protect, async (req, res) => {
+  try {
+    const rows = await listWorkspaces({ query }, req.userId);
+    res.json(
+      rows.map((row) => ({
+        ...row,
+        permissions: ROLE_PERMISSIONS[row.role],
+        current: Boolean(req.workspace && req.workspace.id === row.id),
+      }))
+    );
+  } catch (error) {
+    console.error("Failed to load workspaces:", error);
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * PUT /api/workspaces/current
+ * Rename the current workspace: { name }.
+ */
+router.put("/current", protect, requirePermission("settings"), async (req, res) => {
+  const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+  if (!name) {
+    return res.status(400).json({ message: "name is required." });
+  }
+
+  try {
+    const { rows } = await query(
+      "UPDATE organizations SET name = $1, updated_at = now() WHERE id = $2 RETURNING id, name",
+      [name, req.workspace.id]
+    );
+    res.json(rows[0]);
+  } catch (error) {
+    console.error("Failed to rename workspace:", error);
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * GET /api/workspaces/current/members
+ * Members of the current workspace with their roles, and invitations not yet accepted.
+ */
+router.get("/current/members", protect, requirePermission("view"), async (req, res) => {
+  try {
+    const [members, invitations] = await Promise.all([
+      listMembers({ query }, req.workspace.id),
+      listInvitations({ query }, req.workspace.id),
+    ]);
+    res.json({ members, invitations });
+  } catch (error) {
+    console.error("Failed to load workspace members:", error);
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * POST /api/workspaces/current/invitations
+ * Email an invitation to join the current workspace: { email, role } where role is accountant,
+ * data_entry or viewer. Inviting the same email again replaces the earlier link.
+ */
+router.post("/current/invitations", protect, requirePermission("members"), async (req, res) => {
+  const email = typeof req.body.email === "string" ? req.body.email.trim() : "";
+  if (!EMAIL_PATTERN.test(email)) {
+    return res.status(400).json({ message: "A valid email is required." });
+  }
+
+  try {
+    const result = await withTransaction(async (client) => {
+      const created = await createInvitation(client, {
+        organizationId: req.workspace.id,
+        email,
+        role: req.body.role,
+        invitedBy: req.userId,
+      });
+      if (created.invitation) {
+        await recordAudit(client, req, {
+          entityType: "user",
+          entityLabel: email,
+          organizationId: req.workspace.id,
+          action: "member_invited",
+          after: created.invitation,
+        });
+      }
+      return created;
+    });
+    if (result.error) {
+      return res.status(result.status).json({ message: result.error });
+    }
+
+    const { rows } = await query("SELECT email FROM users WHERE id = $1", [req.userId]);
+    try {
+      await sendInvitationEmail({
+        email,
+        role: result.invitation.role,
+        workspaceName: req.workspace.name,
+        inviterEmail: rows[0].email,
+        token: result.token,
+      });
+    } catch (error) {
+      // The invitation stands; sending it again issues a fresh link
+      console.error("Invitation email error:", error);
+    }
+
+    res.status(201).json(result.invitation);
+  } catch (error) {
+    console.error("Failed to invite workspace member:", error);
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * DELETE /api/workspaces/current/invitations/:id
+ * Withdraw an invitation that has not been accepted.
+ */
+router.delete("/current/invitations/:id", protect, requirePermission("members"), async (req, res) => {
+  try {
+    const { rowCount } = await query(
+      "DELETE FROM organization_invitations WHERE id = $1 AND organization_id = $2 AND accepted_at IS NULL",
+      [req.params.id, req.workspace.id]
+    );
+    if (rowCount === 0) {
+      return res.status(404).json({ message: "Invitation not found." });
+    }
+    res.json({ message: "Invitation withdrawn." });
+  } catch (error) {
+    console.error("Failed to withdraw invitation:", error);
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Invitation not found." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * PUT /api/workspaces/current/members/:userId
+ * Change a member's role: { role }. The owner's role cannot be changed.
+ */
+router.put("/current/members/:userId", protect, requirePermission("members"), async (req, res) => {
+  const { role } = req.body;
+  if (!MEMBER_ROLES.includes(role)) {
+    return res.status(400).json({ message: `role must be one of: ${MEMBER_ROLES.join(", ")}.` });
+  }
+
+  try {
+    const updated = await withTransaction(async (client) => {
+      const member = await lockMember(client, req);
+      if (!member) return null;
+
+      await client.query(
+        "UPDATE organization_members SET role = $1 WHERE organization_id = $2 AND user_id = $3",
+        [role, req.workspace.id, member.id]
+      );
+      await auditMember(client, req, member, "member_role_changed", { before: member, after: { ...member, role } });
+      return { id: member.id, role };
+    });
+    if (!updated) {
+      return res.status(404).json({ message: "Member not found." });
+    }
+    res.json(updated);
+  } catch (error) {
+    console.error("Failed to change member role:", error);
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Member not found." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * DELETE /api/workspaces/current/members/:userId
+ * Remove a member from the workspace. Their account remains; the owner cannot be removed.
+ */
+router.delete("/current/members/:userId", protect, requirePermission("members"), async (req, res) => {
+  try {
+    const removed = await withTransaction(async (client) => {
+      const member = await lockMember(client, req);
+      if (!member) return null;
+
+      await client.query(
+        "DELETE FROM organization_members WHERE organization_id = $1 AND user_id = $2",
+        [req.workspace.id, member.id]
+      );
+      await auditMember(client, req, member, "member_removed", { before: member });
+      return member;
+    });
+    if (!removed) {
+      return res.status(404).json({ message: "Member not found." });
+    }
+    res.json({ message: "Member removed." });
+  } catch (error) {
+    console.error("Failed to remove member:", error);
+    if (error && error.code === '22P02') {
+      return res.status(404).json({ message: "Member not found." });
+    }
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+/**
+ * POST /api/workspaces/invitations/accept
+ * Public: accept an emailed invitation with { token }, plus { password } when the invited email
+ * has no account yet. Existing users sign in as usual afterwards and switch to the workspace.
+ */
+router.post("/invitations/accept", async (req, res) => {
+  const { token, password } = req.body;
+  if (!token || typeof token !== "string") {
+    return res.status(400).json({ message: "Invitation token is required." });
+  }
+
+  try {
+    const result = await withTransaction(async (client) => {
+      const accepted = await acceptInvitation(client, token, password);
+      if (accepted.user) {
+        await recordAudit(client, req, {
+          entityType: "user",
+          entityId: accepted.user.id,
+          entityLabel: accepted.user.email,
+          organizationId: accepted.workspace.id,
+          actorId: accepted.user.id,
+          action: "member_joined",
+          after: { role: accepted.role, new_account: accepted.created },
+        });
+      }
+      return accepted;
+    });
+    if (result.error) {
+      return res.status(result.status).json({ message: result.error });
+    }
+    res.json({
+      message: `You have joined ${result.workspace.name}. Sign in as ${result.user.email} to start.`,
+      workspace: result.workspace,
+      email: result.user.email,
+      created: result.created,
+    });
+  } catch (error) {
+    console.error("Failed to accept invitation:", error);
+    res.status(500).json({ message: "Server Error" });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,107 @@
+// Whether a user may sign in and use the API. Login and the protect middleware share this so
+// both refuse with the same reason; `code` lets the frontend tell the cases apart.
+const config = require("../config");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses that can use the app until subscription_end_date
+const USABLE_STATUSES = ["active", "trial"];
+
+// Set by the renewal job once the grace period is over: signs in, reads, changes nothing
+const EXPIRED_STATUS = "expired";
+
+const BLOCKS = {
+  email_unverified: "Confirm your email address first. Check your inbox for the link we sent.",
+  pending_approval: "Your account is awaiting approval. We will email you once an admin has approved it.",
+  suspended: "Your account has been suspended. Contact an admin.",
+};
+
+const READ_ONLY = {
+  trial_expired: "Your free trial has ended. You can still view and export your data; subscribe to add or change anything.",
+  subscription_expired: "Your subscription has expired. You can still view and export your data; renew to add or change anything.",
+};
+
+const formatDate = (date) => date.toISOString().slice(0, 10);
+
+/**
+ * End of the grace period that follows subscription_end_date, or null when the account has no
+ * end date.
+ */
+const graceEndsAt = (user) =>
+  user.subscription_end_date
+    ? new Date(new Date(user.subscription_end_date).getTime() + config.SUBSCRIPTION_GRACE_DAYS * DAY_MS)
+    : null;
+
+const isAccountUser = (user) => user.role !== 'admin' && USABLE_STATUSES.includes(user.subscription_status);
+
+/**
+ * Why `user` (subscription_status, email_verified_at, role) cannot use the app, as
+ * { code, message }, or null when it can. Admins are never blocked. Lapsed subscriptions and
+ * trials are not blocked but read-only (see accountReadOnly).
+ */
+const accountBlock = (user) => {
+  if (user.role === 'admin') return null;
+
+  let code = null;
+  if (!user.email_verified_at) {
+    code = "email_unverified";
+  } else if (user.subscription_status === "pending") {
+    code = "pending_approval";
+  } else if (!USABLE_STATUSES.includes(user.subscription_status) && user.subscription_status !== EXPIRED_STATUS) {
+    code = "suspended";
+  }
+
+  return code ? { code, message: BLOCKS[code] } : null;
+};
+
+/**
+ * Why `user` may read but not change anything, as { code, message, grace_ends_at? }, or null
+ * when they have full access:
+ * - grace_period: past subscription_end_date, within SUBSCRIPTION_GRACE_DAYS
+ * - trial_expired / subscription_expired: after that, or once the renewal job set 'expired'
+ */
+const accountReadOnly = (user, now = new Date()) => {
+  if (user.role === 'admin') return null;
+  if (user.subscription_status === EXPIRED_STATUS) {
+    return { code: "subscription_expired", message: READ_ONLY.subscription_expired };
+  }
+  if (!isAccountUser(user) || !user.subscription_end_date || new Date(user.subscription_end_date) > now) {
+    return null;
+  }
+
+  const trial = user.subscription_status === "trial";
+  if (graceEndsAt(user) <= now) {
+    const code = trial ? "trial_expired" : "subscription_expired";
+    return { code, message: READ_ONLY[code] };
+  }
+
+  return {
+    code: "grace_period",
+    message: `Your ${trial ? "free trial" : "subscription"} has expired and your account is read-only. Renew before ${formatDate(graceEndsAt(user))} to keep your account active.`,
+    grace_ends_at: graceEndsAt(user).toISOString(),
+  };
+};
+
+/**
+ * Banner for /api/auth/session: the read-only reason, or { code: "expiring_soon", message,
+ * days_left } within the longest SUBSCRIPTION_REMINDER_DAYS of expiry; otherwise null.
+ */
+const subscriptionNotice = (user, now = new Date()) => {
+  const readOnly = accountReadOnly(user, now);
+  if (readOnly) return readOnly;
+  if (!isAccountUser(user) || !user.subscription_end_date) return null;
+
+  const remindFrom = config.SUBSCRIPTION_REMINDER_DAYS[0];
+  const msLeft = new Date(user.subscription_end_date).getTime() - now.getTime();
+  if (!remindFrom || msLeft <= 0 || msLeft > remindFrom * DAY_MS) return null;
+
+  const daysLeft = Math.ceil(msLeft / DAY_MS);
+  const what = user.subscription_status === "trial" ? "free trial" : "subscription";
+  return {
+    code: "expiring_soon",
+    message: `Your ${what} ends in ${daysLeft} day${daysLeft === 1 ? "" : "s"}. Contact an admin to renew.`,
+    days_left: daysLeft,
+  };
+};
+
+module.exports = { accountBlock, accountReadOnly, subscriptionNotice };
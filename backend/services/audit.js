@@ -0,0 +1,168 @@
+// Append-only audit log (audit_events). Routes record an event in the same transaction as the
+// change it describes, so a rolled-back write leaves no event and a committed one always has one.
+const { isValidDate } = require("./exchangeRates");
+
+const ENTITY_TYPES = ["client", "transaction", "invoice", "user", "auth"];
+// Account and sign-in events belong to no workspace unless the caller says so
+const ACCOUNT_ENTITY_TYPES = ["user", "auth"];
+
+// Never copied into before/after: secrets, and columns too large to be worth keeping
+const OMITTED_FIELDS = ["password_hash", "totp_secret", "totp_last_step", "token", "token_hash", "logo_data"];
+
+const MAX_PAGE_SIZE = 200;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// JSON for a before/after column, or null
+const snapshot = (row) => {
+  if (!row) return null;
+  const copy = { ...row };
+  for (const field of OMITTED_FIELDS) delete copy[field];
+  return JSON.stringify(copy);
+};
+
+// Who did it and from where: the signed-in user, their workspace, IP and browser
+const auditContext = (req) => ({
+  actorId: req.userId || null,
+  organizationId: (req.workspace && req.workspace.id) || null,
+  ip: req.ip || null,
+  userAgent: (req.get("user-agent") || "").slice(0, 500) || null,
+});
+
+/**
+ * Record one event. `req` supplies the actor, workspace and IP (see auditContext); `event` is
+ * { entityType, entityId, entityLabel, action, before, after } and may override actorId or
+ * organizationId, e.g. for a sign-in where the request has no user yet.
+ */
+const recordAudit = async (db, req, event) => {
+  const context = {
+    ...auditContext(req),
+    ...(ACCOUNT_ENTITY_TYPES.includes(event.entityType) ? { organizationId: null } : {}),
+    ...event,
+  };
+  await db.query(
+    `INSERT INTO audit_events (organization_id, actor_id, actor_email, entity_type, entity_id, entity_label,
+                               action, before, after, ip_address, user_agent)
+     VALUES ($1, $2, (SELECT email FROM users WHERE id = $2), $3, $4, $5, $6, $7::jsonb, $8::jsonb, $9, $10)`,
+    [
+      context.organizationId,
+      context.actorId,
+      context.entityType,
+      context.entityId || null,
+      context.entityLabel || null,
+      context.action,
+      snapshot(context.before),
+      snapshot(context.after),
+      context.ip,
+      context.userAgent,
+    ]
+  );
+};
+
+// Names of the fields an update changed, for the activity list
+const changedFields = (before, after) => {
+  if (!before || !after) return [];
+  return Object.keys(after).filter(
+    (key) => !["updated_at"].includes(key) && JSON.stringify(before[key]) !== JSON.stringify(after[key])
+  );
+};
+
+/**
+ * Parse GET /api/audit filters: entity_type, entity_id, action, actor_id, from / to (YYYY-MM-DD,
+ * inclusive), limit (default 50, at most 200) and offset. Returns { values } or { error }.
+ */
+const parseAuditFilters = (params) => {
+  const values = {
+    entityType: params.entity_type || null,
+    entityId: params.entity_id || null,
+    action: params.action || null,
+    actorId: params.actor_id || null,
+    from: params.from || null,
+    to: params.to || null,
+    limit: params.limit === undefined ? 50 : Number(params.limit),
+    offset: params.offset === undefined ? 0 : Number(params.offset),
+  };
+
+  if (values.entityType && !ENTITY_TYPES.includes(values.entityType)) {
+    return { error: `entity_type must be one of: ${ENTITY_TYPES.join(", ")}.` };
+  }
+  if (values.entityId && !UUID_PATTERN.test(values.entityId)) {
+    return { error: "entity_id must be a valid id." };
+  }
+  if (values.actorId && !UUID_PATTERN.test(values.actorId)) {
+    return { error: "actor_id must be a valid id." };
+  }
+  if ((values.from && !isValidDate(values.from)) || (values.to && !isValidDate(values.to))) {
+    return { error: "from and to must be dates (YYYY-MM-DD)." };
+  }
+  if (!Number.isInteger(values.limit) || values.limit < 1 || values.limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}.` };
+  }
+  if (!Number.isInteger(values.offset) || values.offset < 0) {
+    return { error: "offset must be 0 or more." };
+  }
+  return { values };
+};
+
+const mapAuditEvent = (row) => ({
+  id: row.id,
+  organization_id: row.organization_id,
+  actor: row.actor_id ? { id: row.actor_id, email: row.actor_email } : null,
+  entity_type: row.entity_type,
+  entity_id: row.entity_id,
+  entity_label: row.entity_label,
+  action: row.action,
+  before: row.before,
+  after: row.after,
+  changed_fields: changedFields(row.before, row.after),
+  ip_address: row.ip_address,
+  user_agent: row.user_agent,
+  created_at: row.created_at,
+});
+
+/**
+ * Events matching `filters` (from parseAuditFilters), newest first. `organizationId` limits them
+ * to one workspace: its data and team changes, and the sign-in events of its members. null
+ * (admins) lists every event. Returns { events, total }.
+ */
+const listAuditEvents = async (db, organizationId, filters) => {
+  const params = [
+    organizationId,
+    filters.entityType,
+    filters.entityId,
+    filters.action,
+    filters.actorId,
+    filters.from,
+    filters.to,
+  ];
+  const where = `
+    WHERE ($1::uuid IS NULL
+           OR organization_id = $1
+           OR (entity_type = 'auth'
+               AND entity_id IN (SELECT user_id FROM organization_members WHERE organization_id = $1)))
+      AND ($2::text IS NULL OR entity_type = $2)
+      AND ($3::uuid IS NULL OR entity_id = $3)
+      AND ($4::text IS NULL OR action = $4)
+      AND ($5::uuid IS NULL OR actor_id = $5)
+      AND ($6::date IS NULL OR created_at >= $6::date)
+      AND ($7::date IS NULL OR created_at < $7::date + 1)`;
+
+  const [{ rows }, { rows: countRows }] = await Promise.all([
+    db.query(
+      `SELECT * FROM audit_events ${where}
+        ORDER BY created_at DESC, id
+        LIMIT ${filters.limit} OFFSET ${filters.offset}`,
+      params
+    ),
+    db.query(`SELECT COUNT(*)::int AS total FROM audit_events ${where}`, params),
+  ]);
+  return { events: rows.map(mapAuditEvent), total: countRows[0].total };
+};
+
+module.exports = {
+  ENTITY_TYPES,
+  auditContext,
+  recordAudit,
+  parseAuditFilters,
+  listAuditEvents,
+};
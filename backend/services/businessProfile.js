@@ -0,0 +1,114 @@
+// Per-user business profile used to brand invoices (HTML preview and PDF).
+// Users without a saved profile get a neutral profile rather than another business's branding.
+
+const PROFILE_TEXT_FIELDS = [
+  "business_name",
+  "address",
+  "contact_email",
+  "contact_phone",
+  "watermark_text",
+  "footer_notes",
+];
+
+const DEFAULT_ACCENT_COLOR = "#06b6d4";
+const ACCENT_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// pdfkit can only embed PNG and JPEG images
+const LOGO_MIME_TYPES = ["image/png", "image/jpeg"];
+const MAX_LOGO_BYTES = 512 * 1024;
+
+const emptyProfile = () => ({
+  business_name: null,
+  address: null,
+  contact_email: null,
+  contact_phone: null,
+  watermark_text: null,
+  accent_color: DEFAULT_ACCENT_COLOR,
+  footer_notes: null,
+  logo: null,
+  updated_at: null,
+});
+
+/**
+ * Map a business_profiles row to the API shape.
+ * The logo is returned as a data URL so the browser can render it without a second request.
+ */
+const mapProfile = (row) => {
+  if (!row) return emptyProfile();
+  return {
+    business_name: row.business_name,
+    address: row.address,
+    contact_email: row.contact_email,
+    contact_phone: row.contact_phone,
+    watermark_text: row.watermark_text,
+    accent_color: row.accent_color || DEFAULT_ACCENT_COLOR,
+    footer_notes: row.footer_notes,
+    logo: row.logo_data ? `data:${row.logo_mime_type};base64,${row.logo_data.toString("base64")}` : null,
+    updated_at: row.updated_at,
+  };
+};
+
+/**
+ * Normalize and validate a profile update.
+ * Returns { values } with trimmed text (empty strings become null) or { error }.
+ */
+const validateProfile = (body) => {
+  const values = {};
+  for (const field of PROFILE_TEXT_FIELDS) {
+    const value = body[field];
+    if (value != null && typeof value !== "string") {
+      return { error: `${field} must be a string.` };
+    }
+    const trimmed = value == null ? "" : value.trim();
+    values[field] = trimmed === "" ? null : trimmed;
+  }
+
+  if (values.business_name && values.business_name.length > 120) {
+    return { error: "business_name must be 120 characters or fewer." };
+  }
+  if (values.watermark_text && values.watermark_text.length > 40) {
+    return { error: "watermark_text must be 40 characters or fewer." };
+  }
+  if (values.contact_email && !EMAIL_PATTERN.test(values.contact_email)) {
+    return { error: "contact_email must be a valid email address." };
+  }
+
+  const accent = body.accent_color == null || body.accent_color === "" ? DEFAULT_ACCENT_COLOR : body.accent_color;
+  if (typeof accent !== "string" || !ACCENT_COLOR_PATTERN.test(accent)) {
+    return { error: "accent_color must be a hex color such as #06b6d4." };
+  }
+  values.accent_color = accent.toLowerCase();
+
+  return { values };
+};
+
+/**
+ * Load the raw profile row for a user (including the logo bytes), or null when none is saved.
+ * `db` is the pool query helper or a transaction client.
+ */
+const loadProfileRow = async (db, userId) => {
+  const { rows } = await db.query("SELECT * FROM business_profiles WHERE user_id = $1", [userId]);
+  return rows[0] || null;
+};
+
+// Business profile for PDF branding; unbranded when the profile table has not been migrated yet
+const loadBrandingProfile = async (db, userId) => {
+  try {
+    return await loadProfileRow(db, userId);
+  } catch (error) {
+    if (error && error.code === '42P01') return null;
+    throw error;
+  }
+};
+
+module.exports = {
+  DEFAULT_ACCENT_COLOR,
+  LOGO_MIME_TYPES,
+  MAX_LOGO_BYTES,
+  emptyProfile,
+  mapProfile,
+  validateProfile,
+  loadProfileRow,
+  loadBrandingProfile,
+};
@@ -0,0 +1,79 @@
+// Authoritative commission / net / payout maths shared by the transaction and invoice routes.
+// The browser only previews these figures; whatever it posts is checked against them.
+
+const PAYOUT_CURRENCIES = ["THB", "MMK"];
+
+// Amounts are stored as NUMERIC(x,2), so compare and persist at cent precision
+const round2 = (value) => Math.round((Number(value) + Number.EPSILON) * 100) / 100;
+
+const toNumber = (value, fallback = 0) => {
+  if (value == null || value === "") return fallback;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+/**
+ * Derive commission, net and payout from the incoming THB amount.
+ * Returns { error } when the inputs cannot produce a payout.
+ */
+const calculatePayout = ({
+  incoming_amount_thb,
+  fees = 0,
+  commission_percentage,
+  payout_currency = "THB",
+  exchange_rate_mmk = 0,
+}) => {
+  if (!PAYOUT_CURRENCIES.includes(payout_currency)) {
+    return { error: "payout_currency must be THB or MMK." };
+  }
+
+  const incoming = toNumber(incoming_amount_thb);
+  const feeAmount = toNumber(fees);
+  const rate = toNumber(commission_percentage);
+  const exchangeRate = toNumber(exchange_rate_mmk);
+
+  if (payout_currency === "MMK" && exchangeRate <= 0) {
+    return { error: "exchange_rate_mmk is required for MMK payouts." };
+  }
+
+  const commissionAmount = round2((incoming * rate) / 100);
+  const netAmount = round2(incoming - commissionAmount - feeAmount);
+
+  if (netAmount < 0) {
+    return { error: "Commission and fees exceed the incoming amount." };
+  }
+
+  const payoutAmount = payout_currency === "MMK" ? round2(netAmount * exchangeRate) : netAmount;
+
+  return {
+    total_amount: round2(incoming),
+    commission_percentage: rate,
+    commission_amount: commissionAmount,
+    fees: round2(feeAmount),
+    net_amount: netAmount,
+    payout_currency,
+    exchange_rate_mmk: payout_currency === "MMK" ? exchangeRate : round2(exchangeRate),
+    payout_amount: payoutAmount,
+  };
+};
+
+/**
+ * Compare client-posted figures with the calculated ones.
+ * Returns the name of the first field that disagrees by more than a cent, or null.
+ */
+const findMismatch = (posted, calculated, fields) => {
+  for (const field of fields) {
+    if (posted[field] == null || posted[field] === "") continue;
+    if (Math.abs(round2(posted[field]) - calculated[field]) > 0.01) {
+      return field;
+    }
+  }
+  return null;
+};
+
+module.exports = {
+  PAYOUT_CURRENCIES,
+  round2,
+  calculatePayout,
+  findMismatch,
+};
@@ -0,0 +1,261 @@
+// Client statements of account: what the user owes a client over a date range.
+// Balances are kept per payout currency. Each transaction adds its payout, credit notes take
+// theirs back, and payouts sent pay the balance down. Payouts come from invoice payments and
+// confirmed payout batches; the invoice payments a batch records when it settles an invoice
+// are skipped so the money is only counted once, from the batch lines.
+const { round2 } = require("./calculations");
+const { isValidDate, toDateString } = require("./exchangeRates");
+
+// Same-day entries are listed in this order
+const ENTRY_ORDER = { transaction: 0, credit_note: 1, payout: 2 };
+
+/**
+ * Validate ?from&to (YYYY-MM-DD, inclusive). `to` defaults to today; without `from` the
+ * statement starts at the client's first transaction. Returns { from, to } or { error }.
+ */
+const parseStatementRange = (params = {}) => {
+  const from = params.from || null;
+  const to = params.to || toDateString(new Date());
+  if (from && !isValidDate(from)) {
+    return { error: "from must be a date in YYYY-MM-DD format." };
+  }
+  if (!isValidDate(to)) {
+    return { error: "to must be a date in YYYY-MM-DD format." };
+  }
+  if (from && from > to) {
+    return { error: "from must be on or before to." };
+  }
+  return { from, to };
+};
+
+const addTo = (totals, currency, amount) => {
+  totals[currency] = round2((totals[currency] || 0) + amount);
+};
+
+/**
+ * Assemble the statement from the client's rows up to `to` (see loadStatement).
+ * Movements before `from` only make up the opening balance.
+ */
+const buildStatement = ({ client, from, to, transactions, creditNotes, payouts, invoices }) => {
+  const movements = [
+    ...transactions.map((t) => ({
+      date: t.transaction_date,
+      type: "transaction",
+      description: [t.source_platform || "Transaction", t.source_platform_payout_id].filter(Boolean).join(" · "),
+      reference: t.invoice_number,
+      currency: t.payout_currency,
+      amount: t.payout_amount,
+    })),
+    ...creditNotes.map((cn) => ({
+      date: cn.issued_at,
+      type: "credit_note",
+      description: `Credit note on ${cn.invoice_number}: ${cn.reason}`,
+      reference: cn.credit_note_number,
+      currency: cn.payout_currency,
+      amount: -cn.payout_amount,
+    })),
+    ...payouts.map((p) => ({
+      date: p.paid_at,
+      type: "payout",
+      description: p.description,
+      reference: p.reference,
+      currency: p.currency,
+      amount: -p.amount,
+    })),
+  ].sort((a, b) => (a.date === b.date ? ENTRY_ORDER[a.type] - ENTRY_ORDER[b.type] : a.date < b.date ? -1 : 1));
+
+  const inPeriod = (date) => !from || date >= from;
+
+  const opening = {};
+  const running = {};
+  const entries = [];
+  for (const movement of movements) {
+    addTo(running, movement.currency, movement.amount);
+    if (inPeriod(movement.date)) {
+      entries.push({ ...movement, amount: round2(movement.amount), balance: running[movement.currency] });
+    } else {
+      addTo(opening, movement.currency, movement.amount);
+    }
+  }
+
+  // Show the client's own currency even when nothing has moved yet
+  const currencies = [...new Set([client.preferred_payout_currency || "THB", ...Object.keys(running)])];
+  const balances = (totals) => Object.fromEntries(currencies.map((currency) => [currency, totals[currency] || 0]));
+
+  const periodTransactions = transactions.filter((t) => inPeriod(t.transaction_date));
+  const payoutsDue = {};
+  const credits = {};
+  const payoutsSent = {};
+  for (const t of periodTransactions) addTo(payoutsDue, t.payout_currency, t.payout_amount);
+  for (const cn of creditNotes.filter((c) => inPeriod(c.issued_at))) addTo(credits, cn.payout_currency, cn.payout_amount);
+  for (const p of payouts.filter((p) => inPeriod(p.paid_at))) addTo(payoutsSent, p.currency, p.amount);
+
+  return {
+    client: {
+      id: client.id,
+      name: client.name,
+      phone: client.phone || null,
+      preferred_payout_currency: client.preferred_payout_currency,
+    },
+    from,
+    to,
+    opening_balance: balances(opening),
+    closing_balance: balances(running),
+    totals: {
+      transaction_count: periodTransactions.length,
+      incoming_amount_thb: round2(periodTransactions.reduce((acc, t) => acc + t.incoming_amount_thb, 0)),
+      commission_amount: round2(periodTransactions.reduce((acc, t) => acc + t.commission_amount, 0)),
+      fees: round2(periodTransactions.reduce((acc, t) => acc + t.fees, 0)),
+      payouts_due: payoutsDue,
+      credits,
+      payouts_sent: payoutsSent,
+    },
+    entries,
+    transactions: periodTransactions,
+    invoices: invoices.filter((i) => inPeriod(i.invoice_date)),
+    payouts: payouts.filter((p) => inPeriod(p.paid_at)),
+  };
+};
+
+/**
+ * Load a client's transactions, credit notes, payouts and invoices up to `to` and build the
+ * statement. `client` is the user's clients row.
+ */
+const loadStatement = async (db, userId, client, { from, to }) => {
+  const params = [userId, client.id, to];
+
+  const { rows: transactionRows } = await db.query(
+    `SELECT t.id, t.transaction_date, t.source_platform, t.source_platform_payout_id, t.incoming_amount_thb,
+            t.commission_amount, t.commission_percentage, t.fees, t.payout_currency, t.payout_amount, t.paid_at,
+            inv.invoice_number
+       FROM transactions t
+       LEFT JOIN LATERAL (
+         SELECT i.invoice_number
+           FROM invoice_items ii
+           JOIN invoices i ON i.id = ii.invoice_id
+          WHERE ii.transaction_id = t.id
+            AND i.status NOT IN ('draft', 'void')
+          ORDER BY i.created_at DESC
+          LIMIT 1
+       ) inv ON TRUE
+      WHERE t.user_id = $1
+        AND t.client_id = $2
+        AND t.transaction_date <= $3::date
+      ORDER BY t.transaction_date ASC, t.created_at ASC`,
+    params
+  );
+
+  const { rows: creditNoteRows } = await db.query(
+    `SELECT cn.credit_note_number, cn.issued_at, cn.reason, cn.payout_currency, cn.payout_amount, i.invoice_number
+       FROM credit_notes cn
+       JOIN invoices i ON i.id = cn.invoice_id
+      WHERE cn.user_id = $1
+        AND cn.client_id = $2
+        AND cn.issued_at < $3::date + 1
+      ORDER BY cn.issued_at ASC`,
+    params
+  );
+
+  const { rows: paymentRows } = await db.query(
+    `SELECT ip.paid_at, ip.amount, ip.currency, ip.method, ip.reference, i.invoice_number
+       FROM invoice_payments ip
+       JOIN invoices i ON i.id = ip.invoice_id
+      WHERE ip.user_id = $1
+        AND i.client_id = $2
+        AND ip.method <> 'payout_batch'
+        AND ip.paid_at <= $3::date
+      ORDER BY ip.paid_at ASC`,
+    params
+  );
+
+  const { rows: batchRows } = await db.query(
+    `SELECT pb.batch_number, pb.paid_at, pb.reference, pbi.payout_currency,
+            SUM(pbi.payout_amount) AS amount, COUNT(*) AS transaction_count
+       FROM payout_batch_items pbi
+       JOIN payout_batches pb ON pb.id = pbi.batch_id
+      WHERE pbi.user_id = $1
+        AND pbi.client_id = $2
+        AND pb.status = 'confirmed'
+        AND pb.paid_at <= $3::date
+      GROUP BY pb.id, pbi.payout_currency
+      ORDER BY pb.paid_at ASC`,
+    params
+  );
+
+  const { rows: invoiceRows } = await db.query(
+    `SELECT id, invoice_number, status, COALESCE(issued_at, created_at) AS invoice_date,
+            total_amount, commission_amount, fees, payout_currency, payout_amount
+       FROM invoices
+      WHERE user_id = $1
+        AND client_id = $2
+        AND status <> 'draft'
+        AND COALESCE(issued_at, created_at) < $3::date + 1
+      ORDER BY COALESCE(issued_at, created_at) ASC`,
+    params
+  );
+
+  const payouts = [
+    ...paymentRows.map((r) => ({
+      paid_at: toDateString(r.paid_at),
+      source: "invoice_payment",
+      description: `Payment of ${r.invoice_number} (${r.method})`,
+      reference: r.reference || r.invoice_number,
+      currency: r.currency,
+      amount: Number(r.amount),
+    })),
+    ...batchRows.map((r) => ({
+      paid_at: toDateString(r.paid_at),
+      source: "payout_batch",
+      description: `Payout batch ${r.batch_number} (${Number(r.transaction_count)} transaction${Number(r.transaction_count) === 1 ? "" : "s"})`,
+      reference: r.reference || r.batch_number,
+      currency: r.payout_currency,
+      amount: Number(r.amount),
+    })),
+  ];
+
+  return buildStatement({
+    client,
+    from,
+    to,
+    transactions: transactionRows.map((r) => ({
+      id: r.id,
+      transaction_date: toDateString(r.transaction_date),
+      source_platform: r.source_platform,
+      source_platform_payout_id: r.source_platform_payout_id,
+      invoice_number: r.invoice_number || null,
+      incoming_amount_thb: Number(r.incoming_amount_thb || 0),
+      commission_percentage: r.commission_percentage == null ? null : Number(r.commission_percentage),
+      commission_amount: Number(r.commission_amount || 0),
+      fees: Number(r.fees || 0),
+      payout_currency: r.payout_currency || "THB",
+      payout_amount: Number(r.payout_amount || 0),
+      paid_at: toDateString(r.paid_at),
+    })),
+    creditNotes: creditNoteRows.map((r) => ({
+      credit_note_number: r.credit_note_number,
+      invoice_number: r.invoice_number,
+      issued_at: toDateString(r.issued_at),
+      reason: r.reason,
+      payout_currency: r.payout_currency,
+      payout_amount: Number(r.payout_amount),
+    })),
+    payouts,
+    invoices: invoiceRows.map((r) => ({
+      id: r.id,
+      invoice_number: r.invoice_number,
+      status: r.status,
+      invoice_date: toDateString(r.invoice_date),
+      total_amount: Number(r.total_amount),
+      commission_amount: Number(r.commission_amount),
+      fees: Number(r.fees || 0),
+      payout_currency: r.payout_currency,
+      payout_amount: Number(r.payout_amount),
+    })),
+  });
+};
+
+module.exports = {
+  parseStatementRange,
+  buildStatement,
+  loadStatement,
+};
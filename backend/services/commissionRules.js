@@ -0,0 +1,206 @@
+// Commission schedules: per-client rules that replace clients.commission_percentage for a
+// platform, a monthly volume tier and a date range.
+// For a transaction, only rules in force on its transaction_date count; for each platform and
+// tier the latest effective_from wins. Among those, a rule for the transaction's platform beats
+// one for all platforms, and the highest tier the client's month-to-date volume has reached wins.
+// Without a matching rule the client's commission_percentage applies.
+const { isValidDate, toDateString } = require("./exchangeRates");
+
+const DEFAULT_LABEL = "Client default";
+
+const samePlatform = (a, b) => String(a || "").trim().toLowerCase() === String(b || "").trim().toLowerCase();
+
+const platformNames = (client) =>
+  (Array.isArray(client.platform_details) ? client.platform_details : [])
+    .map((platform) => platform && platform.platform_name)
+    .filter(Boolean);
+
+/**
+ * Validate a posted rule against its client. A platform must be one of the client's
+ * platform_details; the stored name uses the client's spelling.
+ * Returns { error } or { values }.
+ */
+const validateCommissionRule = (body, client) => {
+  const percentage = body.commission_percentage == null || body.commission_percentage === "" ? NaN : Number(body.commission_percentage);
+  if (!Number.isFinite(percentage) || percentage < 0 || percentage > 100) {
+    return { error: "commission_percentage must be a number between 0 and 100." };
+  }
+
+  const volume = body.min_monthly_volume == null || body.min_monthly_volume === "" ? 0 : Number(body.min_monthly_volume);
+  if (!Number.isFinite(volume) || volume < 0) {
+    return { error: "min_monthly_volume must be a number >= 0." };
+  }
+
+  if (!isValidDate(body.effective_from)) {
+    return { error: "effective_from must be a date in YYYY-MM-DD format." };
+  }
+  const effectiveTo = body.effective_to == null || body.effective_to === "" ? null : body.effective_to;
+  if (effectiveTo !== null && (!isValidDate(effectiveTo) || effectiveTo < body.effective_from)) {
+    return { error: "effective_to must be a date in YYYY-MM-DD format on or after effective_from." };
+  }
+
+  let sourcePlatform = body.source_platform == null ? null : String(body.source_platform).trim() || null;
+  if (sourcePlatform) {
+    const match = platformNames(client).find((name) => samePlatform(name, sourcePlatform));
+    if (!match) {
+      return { error: `source_platform must be one of the client's platforms (${platformNames(client).join(", ") || "none set up"}).` };
+    }
+    sourcePlatform = match;
+  }
+
+  return {
+    values: {
+      source_platform: sourcePlatform,
+      min_monthly_volume: volume,
+      commission_percentage: percentage,
+      effective_from: body.effective_from,
+      effective_to: effectiveTo,
+      notes: body.notes == null ? null : String(body.notes).trim() || null,
+    },
+  };
+};
+
+// Human-readable basis stored on transactions, e.g. "TikTok, ≥ ฿100,000/month (from 2025-01-01)"
+const ruleLabel = (rule) => {
+  const volume = Number(rule.min_monthly_volume);
+  const tier = volume > 0 ? `, ≥ ฿${volume.toLocaleString("en-US")}/month` : "";
+  return `${rule.source_platform || "All platforms"}${tier} (from ${toDateString(rule.effective_from)})`;
+};
+
+const mapCommissionRule = (row) => ({
+  id: row.id,
+  client_id: row.client_id,
+  source_platform: row.source_platform,
+  min_monthly_volume: Number(row.min_monthly_volume),
+  commission_percentage: Number(row.commission_percentage),
+  effective_from: toDateString(row.effective_from),
+  effective_to: toDateString(row.effective_to),
+  notes: row.notes,
+  label: ruleLabel(row),
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+/**
+ * Pick the rule for a transaction from a client's rules.
+ * context: { source_platform, transaction_date (YYYY-MM-DD), monthly_volume }.
+ * Returns the rule or null.
+ */
+const selectCommissionRule = (rules, { source_platform, transaction_date, monthly_volume }) => {
+  const latest = new Map();
+  for (const rule of rules) {
+    const from = toDateString(rule.effective_from);
+    const to = toDateString(rule.effective_to);
+    if (from > transaction_date || (to && to < transaction_date)) continue;
+
+    const key = `${String(rule.source_platform || "").trim().toLowerCase()}|${Number(rule.min_monthly_volume)}`;
+    const current = latest.get(key);
+    if (!current || toDateString(current.effective_from) < from) latest.set(key, rule);
+  }
+
+  let best = null;
+  for (const rule of latest.values()) {
+    if (rule.source_platform && !samePlatform(rule.source_platform, source_platform)) continue;
+    if (Number(rule.min_monthly_volume) > monthly_volume) continue;
+
+    const better =
+      !best ||
+      (!!rule.source_platform && !best.source_platform) ||
+      (!!rule.source_platform === !!best.source_platform && Number(rule.min_monthly_volume) > Number(best.min_monthly_volume));
+    if (better) best = rule;
+  }
+  return best;
+};
+
+// Commission rules for one client (or every client of the user); none before the table is migrated
+const loadCommissionRules = async (db, userId, clientId = null) => {
+  try {
+    const { rows } = await db.query(
+      `SELECT *
+         FROM commission_rules
+        WHERE user_id = $1
+          AND ($2::uuid IS NULL OR client_id = $2)`,
+      [userId, clientId]
+    );
+    return rows;
+  } catch (error) {
+    if (error && error.code === '42P01') return [];
+    throw error;
+  }
+};
+
+/**
+ * The client's incoming THB earlier in the same calendar month: transactions dated before
+ * `date`, plus same-day ones recorded before `transactionId` (or all of them for a new one).
+ */
+const monthlyVolume = async (db, userId, clientId, date, transactionId = null) => {
+  const { rows } = await db.query(
+    `SELECT COALESCE(SUM(t.incoming_amount_thb), 0) AS volume
+       FROM transactions t
+      WHERE t.user_id = $1
+        AND t.client_id = $2
+        AND t.transaction_date >= date_trunc('month', $3::date)
+        AND (
+          t.transaction_date < $3::date
+          OR (
+            t.transaction_date = $3::date
+            AND t.created_at < COALESCE((SELECT created_at FROM transactions WHERE id = $4::uuid), now())
+          )
+        )
+        AND t.id IS DISTINCT FROM $4::uuid`,
+    [userId, clientId, date, transactionId]
+  );
+  return Number(rows[0].volume);
+};
+
+/**
+ * Commission rate for a transaction of `client`, with the rule that set it.
+ * `rules` are the client's commission rules; `volume` is its month-to-date volume.
+ * Returns { commission_percentage, commission_rule_id, commission_rule_label }.
+ */
+const applyCommissionRules = (client, rules, { source_platform, transaction_date, monthly_volume }) => {
+  const rule = selectCommissionRule(rules, { source_platform, transaction_date, monthly_volume });
+  if (!rule) {
+    return {
+      commission_percentage: Number(client.commission_percentage),
+      commission_rule_id: null,
+      commission_rule_label: DEFAULT_LABEL,
+    };
+  }
+  return {
+    commission_percentage: Number(rule.commission_percentage),
+    commission_rule_id: rule.id,
+    commission_rule_label: ruleLabel(rule),
+  };
+};
+
+/**
+ * Resolve the commission for a transaction payload, loading the client's rules and volume.
+ * Pass `transactionId` when recalculating a saved transaction so it does not count itself.
+ */
+const resolveCommission = async (db, userId, client, body, transactionId = null) => {
+  const transactionDate = isValidDate(body.transaction_date) ? body.transaction_date : toDateString(new Date());
+  const rules = await loadCommissionRules(db, userId, client.id);
+  const volume = rules.length > 0 ? await monthlyVolume(db, userId, client.id, transactionDate, transactionId) : 0;
+
+  return {
+    ...applyCommissionRules(client, rules, {
+      source_platform: body.source_platform,
+      transaction_date: transactionDate,
+      monthly_volume: volume,
+    }),
+    monthly_volume: volume,
+  };
+};
+
+module.exports = {
+  DEFAULT_LABEL,
+  validateCommissionRule,
+  mapCommissionRule,
+  ruleLabel,
+  selectCommissionRule,
+  loadCommissionRules,
+  monthlyVolume,
+  applyCommissionRules,
+  resolveCommission,
+};
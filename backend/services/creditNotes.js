@@ -0,0 +1,120 @@
+// Credit note maths: reverse all or part of an issued invoice's line items.
+// Partial credits are prorated from the frozen invoice line; the credit that exhausts a line
+// takes exactly what is left so repeated partial credits never drift by a cent.
+const { round2 } = require("./calculations");
+
+const CREDIT_FIELDS = ["incoming_amount_thb", "commission_amount", "fees", "net_amount", "payout_amount"];
+
+const emptyCredit = () => Object.fromEntries(CREDIT_FIELDS.map((field) => [field, 0]));
+
+/**
+ * Sum previous credit_note_items rows per invoice item.
+ * Returns Map(invoice_item_id -> { incoming_amount_thb, commission_amount, fees, net_amount, payout_amount }).
+ */
+const sumCreditsByItem = (rows) => {
+  const credited = new Map();
+  for (const row of rows) {
+    const totals = credited.get(row.invoice_item_id) || emptyCredit();
+    for (const field of CREDIT_FIELDS) {
+      totals[field] = round2(totals[field] + Number(row[field]));
+    }
+    credited.set(row.invoice_item_id, totals);
+  }
+  return credited;
+};
+
+/**
+ * Build credit note lines for an invoice.
+ * `requested` is null to credit everything still open, or a list of
+ * { invoice_item_id, incoming_amount_thb? } where a missing amount credits the rest of that line.
+ * Returns { error } or { lines, totals }.
+ */
+const buildCreditLines = (items, credited, requested = null) => {
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const remainingOf = (item) => {
+    const done = credited.get(item.id) || emptyCredit();
+    return Object.fromEntries(CREDIT_FIELDS.map((field) => [field, round2(item[field] - done[field])]));
+  };
+
+  const selections = requested
+    ? requested
+    : items
+        .filter((item) => remainingOf(item).incoming_amount_thb > 0)
+        .map((item) => ({ invoice_item_id: item.id }));
+
+  if (selections.length === 0) {
+    return { error: "The invoice has already been fully credited." };
+  }
+
+  const seen = new Set();
+  const lines = [];
+  for (const selection of selections) {
+    const item = itemsById.get(selection.invoice_item_id);
+    if (!item) {
+      return { error: "invoice_item_id does not belong to this invoice." };
+    }
+    if (seen.has(item.id)) {
+      return { error: "Each invoice line can only be credited once per credit note." };
+    }
+    seen.add(item.id);
+
+    const remaining = remainingOf(item);
+    const amount =
+      selection.incoming_amount_thb == null || selection.incoming_amount_thb === ""
+        ? remaining.incoming_amount_thb
+        : round2(selection.incoming_amount_thb);
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return { error: "Credited amounts must be greater than zero." };
+    }
+    if (amount > remaining.incoming_amount_thb + 0.005) {
+      return {
+        error: `Only ${remaining.incoming_amount_thb.toFixed(2)} THB of the line ${item.source_platform_payout_id || item.transaction_id} can still be credited.`,
+      };
+    }
+
+    let line;
+    if (Math.abs(amount - remaining.incoming_amount_thb) < 0.005) {
+      line = { ...remaining };
+    } else {
+      const ratio = amount / item.incoming_amount_thb;
+      const commission = round2(item.commission_amount * ratio);
+      const fees = round2(item.fees * ratio);
+      const net = round2(amount - commission - fees);
+      line = {
+        incoming_amount_thb: amount,
+        commission_amount: commission,
+        fees,
+        net_amount: net,
+        payout_amount: item.payout_currency === "MMK" ? round2(net * item.exchange_rate_mmk) : net,
+      };
+    }
+
+    lines.push({
+      ...line,
+      invoice_item_id: item.id,
+      transaction_id: item.transaction_id,
+      exchange_rate_mmk: item.exchange_rate_mmk,
+      payout_currency: item.payout_currency,
+    });
+  }
+
+  const sum = (field) => round2(lines.reduce((acc, line) => acc + line[field], 0));
+
+  return {
+    lines,
+    totals: {
+      total_amount: sum("incoming_amount_thb"),
+      commission_amount: sum("commission_amount"),
+      fees: sum("fees"),
+      net_amount: sum("net_amount"),
+      payout_currency: lines[0].payout_currency,
+      payout_amount: sum("payout_amount"),
+    },
+  };
+};
+
+module.exports = {
+  sumCreditsByItem,
+  buildCreditLines,
+};
@@ -0,0 +1,148 @@
+// Streaming CSV / XLSX / JSON exports.
+// Rows arrive as an async iterable (see db.streamQuery) and are written to the response as
+// they are read, so an export never holds the whole result set in memory.
+const ExcelJS = require("exceljs");
+
+const EXPORT_FORMATS = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json; charset=utf-8",
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Read ?format, ?from, ?to (YYYY-MM-DD, both inclusive) and ?client_id.
+ * Returns { error } or { format, from, to, clientId }.
+ */
+const parseExportFilters = (queryParams) => {
+  const format = String(queryParams.format || "csv").toLowerCase();
+  if (!EXPORT_FORMATS[format]) {
+    return { error: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(", ")}.` };
+  }
+
+  const readDate = (name) => {
+    const value = queryParams[name];
+    if (value == null || value === "") return { value: null };
+    if (typeof value !== "string" || !DATE_PATTERN.test(value) || Number.isNaN(new Date(value).getTime())) {
+      return { error: `${name} must be a date in YYYY-MM-DD format.` };
+    }
+    return { value };
+  };
+
+  const from = readDate("from");
+  if (from.error) return { error: from.error };
+  const to = readDate("to");
+  if (to.error) return { error: to.error };
+  if (from.value && to.value && from.value > to.value) {
+    return { error: "from must be on or before to." };
+  }
+
+  const clientId = queryParams.client_id || null;
+  if (clientId && (typeof clientId !== "string" || !UUID_PATTERN.test(clientId))) {
+    return { error: "client_id must be a valid id." };
+  }
+
+  return { format, from: from.value, to: to.value, clientId };
+};
+
+// "Bank: 123 (Name)" for one bank account object or a list of them, as the tables show them
+const formatBankAccounts = (value) => {
+  const parsed = value && typeof value === "string" ? JSON.parse(value) : value;
+  const accounts = Array.isArray(parsed) ? parsed : parsed ? [parsed] : [];
+  return accounts
+    .map((account) => `${account.bank_name}: ${account.account_number}${account.account_name ? ` (${account.account_name})` : ""}`)
+    .join("; ");
+};
+
+const exportFilename = (name, format) => `${name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+const toCell = (value) => {
+  if (value == null) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+};
+
+const csvEscape = (value) => {
+  const cell = toCell(value);
+  if (cell == null) return "";
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Respect backpressure so a slow download does not buffer the whole export
+const write = (res, chunk) => {
+  if (res.destroyed) return Promise.reject(new Error("Export download was closed."));
+  if (res.write(chunk)) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const settle = (error) => {
+      res.off("drain", settle);
+      res.off("close", onClose);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onClose = () => settle(new Error("Export download was closed."));
+    res.on("drain", settle);
+    res.on("close", onClose);
+  });
+};
+
+/**
+ * Stream `rows` to the response in the requested format.
+ * columns: [{ key, header, width? }] — also the column order for CSV and XLSX; JSON rows keep
+ * every mapped key. The first row is read before any header is sent, so query errors
+ * (missing tables, bad parameters) still reach the caller's error handling.
+ * CSV starts with a BOM unless `bom` is false (bank upload portals may reject it).
+ */
+const streamExport = async (res, { format, name, columns, rows, bom = true }) => {
+  const iterator = rows[Symbol.asyncIterator]();
+  let next = await iterator.next();
+
+  res.setHeader("Content-Type", EXPORT_FORMATS[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${exportFilename(name, format)}"`);
+
+  try {
+    if (format === "xlsx") {
+      const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: false });
+      const sheet = workbook.addWorksheet(name);
+      sheet.columns = columns.map(({ key, header, width }) => ({ key, header, width: width || 16 }));
+      while (!next.done) {
+        sheet.addRow(Object.fromEntries(columns.map(({ key }) => [key, next.value[key]]))).commit();
+        next = await iterator.next();
+      }
+      await sheet.commit();
+      await workbook.commit();
+      return;
+    }
+
+    if (format === "csv") {
+      // BOM so Excel opens Burmese text as UTF-8
+      await write(res, `${bom ? "\uFEFF" : ""}${columns.map(({ header }) => csvEscape(header)).join(",")}\r\n`);
+      while (!next.done) {
+        await write(res, `${columns.map(({ key }) => csvEscape(next.value[key])).join(",")}\r\n`);
+        next = await iterator.next();
+      }
+    } else {
+      await write(res, "[");
+      let first = true;
+      while (!next.done) {
+        await write(res, `${first ? "" : ","}\n${JSON.stringify(next.value)}`);
+        first = false;
+        next = await iterator.next();
+      }
+      await write(res, "\n]\n");
+    }
+    res.end();
+  } finally {
+    // Closes the database cursor when the download stops early
+    if (!next.done && iterator.return) await iterator.return();
+  }
+};
+
+module.exports = {
+  EXPORT_FORMATS,
+  parseExportFilters,
+  formatBankAccounts,
+  streamExport,
+};
@@ -0,0 +1,110 @@
+// Email confirmation for self-service sign-up. Like password resets, the emailed token is random
+// and only its SHA-256 hash is stored; it expires after EMAIL_VERIFICATION_TTL_HOURS and works
+// once. Confirming moves a pending account into its trial when SIGNUP_TRIAL_DAYS is set;
+// otherwise the account stays pending until an admin approves it.
+const crypto = require("crypto");
+const config = require("../config");
+const { sendMail, escapeHtml } = require("./mailer");
+
+// Repeat requests for the same account within this window do not send another email
+const RESEND_INTERVAL_SECONDS = 60;
+
+const hashToken = (token) => crypto.createHash("sha256").update(token).digest("hex");
+
+const verifyLink = (token) => `${config.APP_URL.replace(/\/$/, "")}/verify-email?token=${token}`;
+
+/**
+ * Issue a confirmation token for `user` ({ id, email }), cancelling older unused ones. Returns
+ * the raw token to email, or null when one was already issued within RESEND_INTERVAL_SECONDS.
+ */
+const issueVerificationToken = async (db, user) => {
+  const { rows: recent } = await db.query(
+    `SELECT 1 FROM email_verification_tokens
+      WHERE user_id = $1
+        AND used_at IS NULL
+        AND created_at > NOW() - make_interval(secs => $2)`,
+    [user.id, RESEND_INTERVAL_SECONDS]
+  );
+  if (recent.length > 0) return null;
+
+  const token = crypto.randomBytes(32).toString("hex");
+  await db.query(
+    "UPDATE email_verification_tokens SET used_at = NOW() WHERE user_id = $1 AND used_at IS NULL",
+    [user.id]
+  );
+  await db.query(
+    `INSERT INTO email_verification_tokens (user_id, token_hash, expires_at)
+     VALUES ($1, $2, NOW() + make_interval(hours => $3))`,
+    [user.id, hashToken(token), config.EMAIL_VERIFICATION_TTL_HOURS]
+  );
+  return token;
+};
+
+// Email the confirmation link for a token from issueVerificationToken
+const sendVerificationEmail = async (user, token) => {
+  const link = verifyLink(token);
+  await sendMail({
+    to: user.email,
+    subject: "Confirm your email address",
+    text:
+      `Thanks for signing up with ${user.email}.\n\n` +
+      `Open this link to confirm your email address (valid for ${config.EMAIL_VERIFICATION_TTL_HOURS} hours):\n${link}\n\n` +
+      "If you did not sign up, you can ignore this email.",
+    html:
+      `<p>Thanks for signing up with ${escapeHtml(user.email)}.</p>` +
+      `<p><a href="${link}">Confirm your email address</a> (valid for ${config.EMAIL_VERIFICATION_TTL_HOURS} hours).</p>` +
+      "<p>If you did not sign up, you can ignore this email.</p>",
+  });
+};
+
+// Tell a user their pending account was approved and they can sign in
+const sendApprovalEmail = async (user) => {
+  const link = `${config.APP_URL.replace(/\/$/, "")}/auth`;
+  await sendMail({
+    to: user.email,
+    subject: "Your account has been approved",
+    text: `Your account ${user.email} has been approved. You can sign in now:\n${link}`,
+    html: `<p>Your account ${escapeHtml(user.email)} has been approved. <a href="${link}">Sign in</a></p>`,
+  });
+};
+
+/**
+ * Confirm an email address with a token inside a transaction (`client` from withTransaction).
+ * Returns { user } with the updated status, or { error } when the token is unknown, used or
+ * expired.
+ */
+const verifyEmail = async (client, token) => {
+  const { rows } = await client.query(
+    `SELECT id, user_id, expires_at, used_at
+       FROM email_verification_tokens
+      WHERE token_hash = $1
+      FOR UPDATE`,
+    [hashToken(token)]
+  );
+  const record = rows[0];
+  if (!record || record.used_at || new Date(record.expires_at) <= new Date()) {
+    return { error: "This confirmation link is invalid or has expired. Request a new one." };
+  }
+
+  await client.query("UPDATE email_verification_tokens SET used_at = NOW() WHERE id = $1", [record.id]);
+  const { rows: users } = await client.query(
+    `UPDATE users
+        SET email_verified_at = COALESCE(email_verified_at, NOW()),
+            subscription_status = CASE WHEN subscription_status = 'pending' AND $2 > 0 THEN 'trial' ELSE subscription_status END,
+            subscription_end_date = CASE WHEN subscription_status = 'pending' AND $2 > 0
+                                         THEN NOW() + make_interval(days => $2)
+                                         ELSE subscription_end_date END
+      WHERE id = $1
+      RETURNING id, email, subscription_status, subscription_end_date`,
+    [record.user_id, config.SIGNUP_TRIAL_DAYS]
+  );
+
+  return { user: users[0] };
+};
+
+module.exports = {
+  issueVerificationToken,
+  sendVerificationEmail,
+  sendApprovalEmail,
+  verifyEmail,
+};
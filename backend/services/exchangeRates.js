@@ -0,0 +1,121 @@
+// Dated exchange rates per currency pair.
+// A rate applies from its effective_date until the next dated rate for the same pair, so the
+// rate for a transaction is the latest one on or before its transaction_date.
+
+// Supported pairs: THB->MMK for MMK payouts, USD->THB for the platform's USD payouts
+const CURRENCY_PAIRS = [
+  { key: "thb_mmk", base_currency: "THB", quote_currency: "MMK" },
+  { key: "usd_thb", base_currency: "USD", quote_currency: "THB" },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value) =>
+  typeof value === "string" && DATE_PATTERN.test(value) && !Number.isNaN(new Date(value).getTime());
+
+const findPair = (base, quote) =>
+  CURRENCY_PAIRS.find((pair) => pair.base_currency === base && pair.quote_currency === quote) || null;
+
+// pg returns DATE columns as local-midnight Date objects; send plain YYYY-MM-DD strings instead
+const toDateString = (value) => {
+  if (!value) return null;
+  if (value instanceof Date) {
+    const month = String(value.getMonth() + 1).padStart(2, "0");
+    const day = String(value.getDate()).padStart(2, "0");
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+  return String(value).slice(0, 10);
+};
+
+const mapRate = (row) => ({
+  id: row.id,
+  base_currency: row.base_currency,
+  quote_currency: row.quote_currency,
+  rate: Number(row.rate),
+  effective_date: toDateString(row.effective_date),
+  source: row.source,
+  notes: row.notes,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+/**
+ * Validate a posted rate.
+ * Returns { error } or { values } with upper-cased currencies and a numeric rate.
+ */
+const validateRate = (body) => {
+  const base = String(body.base_currency || "").trim().toUpperCase();
+  const quote = String(body.quote_currency || "").trim().toUpperCase();
+  if (!findPair(base, quote)) {
+    return {
+      error: `Currency pair must be one of: ${CURRENCY_PAIRS.map((p) => `${p.base_currency}/${p.quote_currency}`).join(", ")}.`,
+    };
+  }
+
+  const rate = Number(body.rate);
+  if (body.rate == null || body.rate === "" || !Number.isFinite(rate) || rate <= 0) {
+    return { error: "rate must be a number greater than zero." };
+  }
+
+  if (!isValidDate(body.effective_date)) {
+    return { error: "effective_date must be a date in YYYY-MM-DD format." };
+  }
+
+  const notes = body.notes == null ? null : String(body.notes).trim() || null;
+
+  return {
+    values: { base_currency: base, quote_currency: quote, rate, effective_date: body.effective_date, notes },
+  };
+};
+
+/**
+ * The rate in force on `date` for every supported pair.
+ * Returns { thb_mmk: rate | null, usd_thb: rate | null }.
+ */
+const findEffectiveRates = async (db, userId, date) => {
+  const { rows } = await db.query(
+    `SELECT DISTINCT ON (base_currency, quote_currency) *
+       FROM exchange_rates
+      WHERE user_id = $1
+        AND effective_date <= $2::date
+      ORDER BY base_currency, quote_currency, effective_date DESC`,
+    [userId, date]
+  );
+
+  return Object.fromEntries(
+    CURRENCY_PAIRS.map((pair) => {
+      const row = rows.find((r) => r.base_currency === pair.base_currency && r.quote_currency === pair.quote_currency);
+      return [pair.key, row ? mapRate(row) : null];
+    })
+  );
+};
+
+/**
+ * Save rates fetched from a provider. Rates entered by hand on the same date are kept.
+ * Returns the number of rows inserted or updated.
+ */
+const saveProviderRates = async (db, userId, rates, source) => {
+  let saved = 0;
+  for (const rate of rates) {
+    const { rowCount } = await db.query(
+      `INSERT INTO exchange_rates (user_id, base_currency, quote_currency, rate, effective_date, source)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (user_id, base_currency, quote_currency, effective_date)
+       DO UPDATE SET rate = EXCLUDED.rate, source = EXCLUDED.source, updated_at = now()
+        WHERE exchange_rates.source <> 'manual'`,
+      [userId, rate.base_currency, rate.quote_currency, rate.rate, rate.effective_date, source]
+    );
+    saved += rowCount;
+  }
+  return saved;
+};
+
+module.exports = {
+  CURRENCY_PAIRS,
+  isValidDate,
+  toDateString,
+  mapRate,
+  validateRate,
+  findEffectiveRates,
+  saveProviderRates,
+};
@@ -0,0 +1,299 @@
+// Itemized transaction fees and the fee rules that fill them in.
+// Each fee type appears at most once per transaction. A fee entered on the transaction
+// (source 'manual', including an explicit 0) wins; otherwise the most specific active rule for
+// that type applies: client + platform, then client, then platform, then rules for everyone.
+const { round2 } = require("./calculations");
+
+const FEE_TYPES = {
+  platform_withdrawal: "Platform withdrawal fee",
+  bank_transfer: "Bank transfer fee",
+  fx: "FX fee",
+  other: "Other fee",
+};
+
+const FEE_CALCULATIONS = ["flat", "percentage", "tiered"];
+
+const toAmount = (value) => (value == null || value === "" ? NaN : Number(value));
+
+/**
+ * Validate tiers for a tiered rule: ascending `up_to` bounds (inclusive, THB) with a final
+ * open-ended tier (`up_to: null`). Each tier is itself a flat or percentage fee.
+ * Returns { error } or { tiers }.
+ */
+const validateTiers = (tiers) => {
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    return { error: "Tiered rules need at least one tier." };
+  }
+
+  const cleaned = [];
+  for (const [idx, tier] of tiers.entries()) {
+    const last = idx === tiers.length - 1;
+    const upTo = tier.up_to == null || tier.up_to === "" ? null : Number(tier.up_to);
+    if (last ? upTo !== null : !Number.isFinite(upTo) || upTo <= 0) {
+      return { error: last ? "The last tier must have no upper bound." : "Each tier except the last needs an up_to amount above zero." };
+    }
+    if (idx > 0 && upTo !== null && upTo <= cleaned[idx - 1].up_to) {
+      return { error: "Tier up_to amounts must increase." };
+    }
+    if (!["flat", "percentage"].includes(tier.calculation)) {
+      return { error: "Each tier's calculation must be flat or percentage." };
+    }
+    const amount = toAmount(tier.amount);
+    if (!Number.isFinite(amount) || amount < 0) {
+      return { error: "Each tier's amount must be a number >= 0." };
+    }
+    cleaned.push({ up_to: upTo, calculation: tier.calculation, amount });
+  }
+
+  return { tiers: cleaned };
+};
+
+/**
+ * Validate a posted fee rule.
+ * Returns { error } or { values }.
+ */
+const validateFeeRule = (body) => {
+  const name = String(body.name || "").trim();
+  if (!name) {
+    return { error: "name is required." };
+  }
+  if (!FEE_TYPES[body.fee_type]) {
+    return { error: `fee_type must be one of: ${Object.keys(FEE_TYPES).join(", ")}.` };
+  }
+  if (!FEE_CALCULATIONS.includes(body.calculation)) {
+    return { error: `calculation must be one of: ${FEE_CALCULATIONS.join(", ")}.` };
+  }
+
+  let amount = null;
+  let tiers = null;
+  if (body.calculation === "tiered") {
+    const result = validateTiers(body.tiers);
+    if (result.error) return result;
+    tiers = result.tiers;
+  } else {
+    amount = toAmount(body.amount);
+    if (!Number.isFinite(amount) || amount < 0) {
+      return { error: "amount must be a number >= 0." };
+    }
+    if (body.calculation === "percentage" && amount > 100) {
+      return { error: "Percentage fees cannot exceed 100." };
+    }
+  }
+
+  const sourcePlatform = body.source_platform == null ? null : String(body.source_platform).trim() || null;
+
+  return {
+    values: {
+      name,
+      fee_type: body.fee_type,
+      calculation: body.calculation,
+      amount,
+      tiers,
+      client_id: body.client_id || null,
+      source_platform: sourcePlatform,
+      active: body.active !== false,
+      absorbed: body.absorbed === true,
+    },
+  };
+};
+
+const mapFeeRule = (row) => ({
+  id: row.id,
+  name: row.name,
+  fee_type: row.fee_type,
+  calculation: row.calculation,
+  amount: row.amount == null ? null : Number(row.amount),
+  tiers: row.tiers && typeof row.tiers === "string" ? JSON.parse(row.tiers) : row.tiers,
+  client_id: row.client_id,
+  client_name: row.client_name || null,
+  source_platform: row.source_platform,
+  active: row.active,
+  absorbed: Boolean(row.absorbed),
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+const applyCalculation = (calculation, amount, incoming) =>
+  calculation === "percentage" ? round2((incoming * amount) / 100) : round2(amount);
+
+/**
+ * Fee charged by a rule on an incoming THB amount. Tiered rules use the single tier the
+ * amount falls into (not marginal brackets).
+ */
+const ruleAmount = (rule, incoming) => {
+  if (rule.calculation !== "tiered") {
+    return applyCalculation(rule.calculation, Number(rule.amount), incoming);
+  }
+  const tiers = rule.tiers && typeof rule.tiers === "string" ? JSON.parse(rule.tiers) : rule.tiers || [];
+  const tier = tiers.find((t) => t.up_to == null || incoming <= Number(t.up_to));
+  return tier ? applyCalculation(tier.calculation, Number(tier.amount), incoming) : 0;
+};
+
+const samePlatform = (a, b) => String(a || "").trim().toLowerCase() === String(b || "").trim().toLowerCase();
+
+// Higher is more specific; -1 when the rule does not apply to the transaction
+const ruleSpecificity = (rule, { client_id, source_platform }) => {
+  if (rule.client_id && rule.client_id !== client_id) return -1;
+  if (rule.source_platform && !samePlatform(rule.source_platform, source_platform)) return -1;
+  return (rule.client_id ? 2 : 0) + (rule.source_platform ? 1 : 0);
+};
+
+/**
+ * Validate fees entered on a transaction: [{ fee_type, amount, description? }], one per type.
+ * Returns { error } or { items } (source 'manual').
+ */
+const validateFeeItems = (items) => {
+  if (items == null) return { items: [] };
+  if (!Array.isArray(items)) {
+    return { error: "fee_items must be a list." };
+  }
+
+  const seen = new Set();
+  const cleaned = [];
+  for (const item of items) {
+    if (!item || !FEE_TYPES[item.fee_type]) {
+      return { error: `fee_type must be one of: ${Object.keys(FEE_TYPES).join(", ")}.` };
+    }
+    if (seen.has(item.fee_type)) {
+      return { error: `Only one ${FEE_TYPES[item.fee_type].toLowerCase()} can be entered per transaction.` };
+    }
+    seen.add(item.fee_type);
+
+    const amount = toAmount(item.amount);
+    if (!Number.isFinite(amount) || amount < 0) {
+      return { error: "Fee amounts must be numbers >= 0." };
+    }
+    cleaned.push({
+      fee_type: item.fee_type,
+      description: item.description ? String(item.description).trim() : FEE_TYPES[item.fee_type],
+      amount: round2(amount),
+      source: "manual",
+      fee_rule_id: null,
+    });
+  }
+  return { items: cleaned };
+};
+
+/**
+ * Combine manual fees with rule fees for the fee types that were not entered by hand.
+ * context: { client_id, source_platform, incoming_amount_thb }.
+ * Returns { items, total, absorbed_total }; zero-amount rule fees are dropped, zero manual fees
+ * are kept so they keep overriding the rule. `total` is what the client is charged; fees from
+ * absorbed rules are paid by the business and only count in `absorbed_total`.
+ */
+const resolveFees = (rules, context, manualItems = []) => {
+  const incoming = Number(context.incoming_amount_thb) || 0;
+  const manualTypes = new Set(manualItems.map((item) => item.fee_type));
+  const items = [...manualItems];
+
+  for (const feeType of Object.keys(FEE_TYPES)) {
+    if (manualTypes.has(feeType)) continue;
+
+    let best = null;
+    let bestScore = -1;
+    for (const rule of rules) {
+      if (!rule.active || rule.fee_type !== feeType) continue;
+      const score = ruleSpecificity(rule, context);
+      if (score > bestScore) {
+        best = rule;
+        bestScore = score;
+      }
+    }
+    if (!best) continue;
+
+    const amount = ruleAmount(best, incoming);
+    if (amount > 0) {
+      items.push({
+        fee_type: feeType,
+        description: best.name,
+        amount,
+        source: "rule",
+        fee_rule_id: best.id,
+        absorbed: Boolean(best.absorbed),
+      });
+    }
+  }
+
+  const order = Object.keys(FEE_TYPES);
+  items.sort((a, b) => order.indexOf(a.fee_type) - order.indexOf(b.fee_type));
+
+  const sum = (list) => round2(list.reduce((acc, item) => acc + item.amount, 0));
+  return {
+    items,
+    total: sum(items.filter((item) => !item.absorbed)),
+    absorbed_total: sum(items.filter((item) => item.absorbed)),
+  };
+};
+
+// Active fee rules for a user; none when the table has not been migrated yet
+const loadFeeRules = async (db, userId) => {
+  try {
+    const { rows } = await db.query("SELECT * FROM fee_rules WHERE user_id = $1 AND active", [userId]);
+    return rows;
+  } catch (error) {
+    if (error && error.code === '42P01') return [];
+    throw error;
+  }
+};
+
+// Manual fees stored on a transaction, to keep when its rule fees are recalculated
+const loadManualFees = async (db, transactionId) => {
+  const { rows } = await db.query(
+    `SELECT fee_type, description, amount
+       FROM transaction_fees
+      WHERE transaction_id = $1
+        AND source = 'manual'`,
+    [transactionId]
+  );
+  return rows.map((row) => ({ ...row, amount: Number(row.amount), source: "manual", fee_rule_id: null }));
+};
+
+// Replace the stored fee items of a transaction
+const saveTransactionFees = async (db, transactionId, userId, items) => {
+  await db.query("DELETE FROM transaction_fees WHERE transaction_id = $1", [transactionId]);
+  for (const item of items) {
+    await db.query(
+      `INSERT INTO transaction_fees (transaction_id, user_id, fee_type, description, amount, source, fee_rule_id, absorbed)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [transactionId, userId, item.fee_type, item.description, item.amount, item.source, item.fee_rule_id, Boolean(item.absorbed)]
+    );
+  }
+};
+
+const mapFeeItem = (item) => ({
+  fee_type: item.fee_type,
+  description: item.description,
+  amount: Number(item.amount),
+  source: item.source,
+  absorbed: Boolean(item.absorbed),
+});
+
+/**
+ * Total fees per fee type across invoice lines, in FEE_TYPES order, for invoice breakdowns.
+ * Absorbed fees are not charged to the client and are left out.
+ */
+const summarizeFees = (lines) => {
+  const totals = new Map();
+  for (const line of lines) {
+    for (const item of (line.fee_items || []).filter((fee) => !fee.absorbed)) {
+      totals.set(item.fee_type, round2((totals.get(item.fee_type) || 0) + Number(item.amount)));
+    }
+  }
+  return Object.keys(FEE_TYPES)
+    .filter((feeType) => totals.get(feeType) > 0)
+    .map((feeType) => ({ fee_type: feeType, label: FEE_TYPES[feeType], amount: totals.get(feeType) }));
+};
+
+module.exports = {
+  FEE_TYPES,
+  validateFeeRule,
+  mapFeeRule,
+  ruleAmount,
+  validateFeeItems,
+  resolveFees,
+  loadFeeRules,
+  loadManualFees,
+  saveTransactionFees,
+  mapFeeItem,
+  summarizeFees,
+};
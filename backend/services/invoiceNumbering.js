@@ -0,0 +1,164 @@
+// Per-user invoice, credit note and payout batch numbering.
+// Numbers are only allocated when a document is issued, under a row lock on the user's
+// invoice_number_sequences row for that document type, so issued documents are numbered
+// without gaps or races. Drafts get a DRAFT- placeholder that never consumes a sequence value.
+const crypto = require("crypto");
+
+const DOCUMENT_TYPES = ["invoice", "credit_note", "payout_batch"];
+
+const DEFAULT_NUMBERING = {
+  invoice: {
+    prefix: "INV",
+    number_format: "{PREFIX}-{YYYY}-{SEQ:5}",
+    reset_yearly: true,
+  },
+  credit_note: {
+    prefix: "CN",
+    number_format: "{PREFIX}-{YYYY}-{SEQ:5}",
+    reset_yearly: true,
+  },
+  payout_batch: {
+    prefix: "PB",
+    number_format: "{PREFIX}-{YYYY}-{SEQ:4}",
+    reset_yearly: true,
+  },
+};
+
+const TOKEN_PATTERN = /\{(PREFIX|YYYY|YY|MM|SEQ(?::(\d+))?)\}/g;
+const PREFIX_PATTERN = /^[A-Za-z0-9_-]{0,12}$/;
+
+const draftInvoiceNumber = () => `DRAFT-${crypto.randomBytes(4).toString("hex").toUpperCase()}`;
+
+/**
+ * Expand a number format such as {PREFIX}-{YYYY}-{SEQ:5}.
+ * Supported tokens: {PREFIX}, {YYYY}, {YY}, {MM}, {SEQ} and {SEQ:n} (zero-padded to n digits).
+ */
+const formatInvoiceNumber = (format, { prefix, date, seq }) =>
+  format.replace(TOKEN_PATTERN, (token, name, width) => {
+    if (name === "PREFIX") return prefix;
+    if (name === "YYYY") return String(date.getFullYear());
+    if (name === "YY") return String(date.getFullYear()).slice(-2);
+    if (name === "MM") return String(date.getMonth() + 1).padStart(2, "0");
+    return String(seq).padStart(width ? Number(width) : 1, "0");
+  });
+
+/**
+ * Validate numbering settings posted from the Settings screen.
+ * Returns { values } or { error }.
+ */
+const validateNumbering = (body, documentType = "invoice") => {
+  const defaults = DEFAULT_NUMBERING[documentType];
+  const prefix = body.prefix == null ? defaults.prefix : String(body.prefix).trim();
+  const numberFormat =
+    body.number_format == null || body.number_format === ""
+      ? defaults.number_format
+      : String(body.number_format).trim();
+  const resetYearly = body.reset_yearly == null ? defaults.reset_yearly : body.reset_yearly;
+
+  if (!PREFIX_PATTERN.test(prefix)) {
+    return { error: "prefix may only contain letters, digits, '-' and '_' (up to 12 characters)." };
+  }
+  if (typeof resetYearly !== "boolean") {
+    return { error: "reset_yearly must be true or false." };
+  }
+  if (numberFormat.length > 60) {
+    return { error: "number_format must be 60 characters or fewer." };
+  }
+
+  const tokens = [...numberFormat.matchAll(TOKEN_PATTERN)].map((match) => match[1]);
+  if (numberFormat.replace(TOKEN_PATTERN, "").includes("{")) {
+    return { error: "number_format contains an unknown token." };
+  }
+  if (tokens.filter((token) => token.startsWith("SEQ")).length !== 1) {
+    return { error: "number_format must contain exactly one {SEQ} or {SEQ:n} token." };
+  }
+  if (resetYearly && !tokens.includes("YYYY") && !tokens.includes("YY")) {
+    return { error: "number_format must include {YYYY} or {YY} when the sequence resets yearly." };
+  }
+  if (/^DRAFT-/i.test(formatInvoiceNumber(numberFormat, { prefix, date: new Date(), seq: 1 }))) {
+    return { error: "Invoice numbers cannot start with DRAFT-; it is reserved for drafts." };
+  }
+
+  return { values: { prefix, number_format: numberFormat, reset_yearly: resetYearly } };
+};
+
+const mapNumbering = (row, documentType = "invoice", date = new Date()) => {
+  const settings = row || { ...DEFAULT_NUMBERING[documentType], sequence_year: null, last_value: 0 };
+  const restart = settings.reset_yearly && settings.sequence_year !== date.getFullYear();
+  const nextValue = restart ? 1 : settings.last_value + 1;
+
+  return {
+    document_type: documentType,
+    prefix: settings.prefix,
+    number_format: settings.number_format,
+    reset_yearly: settings.reset_yearly,
+    last_value: settings.last_value,
+    next_invoice_number: formatInvoiceNumber(settings.number_format, {
+      prefix: settings.prefix,
+      date,
+      seq: nextValue,
+    }),
+  };
+};
+
+/**
+ * Allocate the next number of a document type for a user.
+ * Must run inside withTransaction: the counter row stays locked until the caller commits,
+ * so a rolled-back issue releases its number instead of leaving a gap.
+ */
+const allocateDocumentNumber = async (client, userId, documentType, date = new Date()) => {
+  const defaults = DEFAULT_NUMBERING[documentType];
+  await client.query(
+    `INSERT INTO invoice_number_sequences (user_id, document_type, prefix, number_format, reset_yearly)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (user_id, document_type) DO NOTHING`,
+    [userId, documentType, defaults.prefix, defaults.number_format, defaults.reset_yearly]
+  );
+
+  const { rows } = await client.query(
+    "SELECT * FROM invoice_number_sequences WHERE user_id = $1 AND document_type = $2 FOR UPDATE",
+    [userId, documentType]
+  );
+
+  const sequence = rows[0];
+  const year = date.getFullYear();
+  const restart = sequence.reset_yearly && sequence.sequence_year !== year;
+  const nextValue = restart ? 1 : sequence.last_value + 1;
+
+  await client.query(
+    `UPDATE invoice_number_sequences
+        SET last_value = $2,
+            sequence_year = $3,
+            updated_at = now()
+      WHERE user_id = $1
+        AND document_type = $4`,
+    [userId, nextValue, year, documentType]
+  );
+
+  return formatInvoiceNumber(sequence.number_format, {
+    prefix: sequence.prefix,
+    date,
+    seq: nextValue,
+  });
+};
+
+const allocateInvoiceNumber = (client, userId, date = new Date()) =>
+  allocateDocumentNumber(client, userId, "invoice", date);
+
+const allocateCreditNoteNumber = (client, userId, date = new Date()) =>
+  allocateDocumentNumber(client, userId, "credit_note", date);
+
+const allocatePayoutBatchNumber = (client, userId, date = new Date()) =>
+  allocateDocumentNumber(client, userId, "payout_batch", date);
+
+module.exports = {
+  DOCUMENT_TYPES,
+  DEFAULT_NUMBERING,
+  draftInvoiceNumber,
+  formatInvoiceNumber,
+  validateNumbering,
+  mapNumbering,
+  allocateInvoiceNumber,
+  allocateCreditNoteNumber,
+  allocatePayoutBatchNumber,
+};
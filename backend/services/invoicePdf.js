@@ -0,0 +1,313 @@
+// Server-side invoice PDF rendering with pdfkit.
+// Burmese text is set in Noto Sans Myanmar (shaped by fontkit); the font has no Latin
+// glyphs, so every string is split into Myanmar and non-Myanmar runs with their own font.
+const fs = require("fs");
+const PDFDocument = require("pdfkit");
+const config = require("../config");
+const { DEFAULT_ACCENT_COLOR } = require("./businessProfile");
+
+const LATIN_FONT = "Helvetica";
+const LATIN_BOLD_FONT = "Helvetica-Bold";
+const MYANMAR_FONT = "NotoSansMyanmar";
+
+// Myanmar, Myanmar Extended-B and Extended-A blocks plus zero-width joiners; spaces between
+// Burmese words stay in the run
+const MYANMAR_RUN = /([\u1000-\u109F\uA9E0-\uA9FF\uAA60-\uAA7F\u200B-\u200D]+(?:\s+[\u1000-\u109F\uA9E0-\uA9FF\uAA60-\uAA7F\u200B-\u200D]+)*)/;
+
+const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+const COLORS = {
+  heading: "#0f172a",
+  text: "#1e293b",
+  muted: "#475569",
+  subtle: "#64748b",
+  panel: "#f8fafc",
+  rule: "#e2e8f0",
+  watermark: "#f0f0f0",
+  void: "#dc2626",
+  paid: "#16a34a",
+};
+
+let myanmarFont = null;
+const loadMyanmarFont = () => {
+  if (myanmarFont === null) {
+    myanmarFont = fs.existsSync(config.MYANMAR_FONT_PATH) ? fs.readFileSync(config.MYANMAR_FONT_PATH) : false;
+    if (!myanmarFont) {
+      console.warn(`Myanmar font not found at ${config.MYANMAR_FONT_PATH}; Burmese text will not render.`);
+    }
+  }
+  return myanmarFont;
+};
+
+const registerFonts = (doc) => {
+  const font = loadMyanmarFont();
+  if (font) doc.registerFont(MYANMAR_FONT, font);
+};
+
+// Date-only strings are read as local dates so the day does not shift with the server's time zone
+const formatDate = (value, long = true) => {
+  if (!value) return "";
+  const d = typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(Number(value.slice(0, 4)), Number(value.slice(5, 7)) - 1, Number(value.slice(8, 10)))
+    : new Date(value);
+  if (Number.isNaN(d.getTime())) return "";
+  const month = MONTHS[d.getMonth()];
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${long ? month : month.slice(0, 3)} ${day}, ${d.getFullYear()}`;
+};
+
+// The standard PDF fonts cannot draw the baht sign, so amounts are written with the currency code
+const formatMoney = (amount, currency = "THB") =>
+  `${currency} ${Number(amount || 0).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const splitRuns = (text, bold) =>
+  String(text == null ? "" : text)
+    .split(MYANMAR_RUN)
+    .filter((part) => part.length > 0)
+    .map((part) => ({
+      text: part,
+      font: MYANMAR_RUN.test(part) && loadMyanmarFont() ? MYANMAR_FONT : bold ? LATIN_BOLD_FONT : LATIN_FONT,
+    }));
+
+/**
+ * Draw a single line of possibly mixed-script text.
+ * align: "left" (x is the start), "right" (x is the end) or "center" (x is the middle).
+ */
+const drawText = (doc, text, x, y, { size = 10, color = COLORS.text, align = "left", bold = false } = {}) => {
+  const runs = splitRuns(text, bold);
+  doc.fontSize(size).fillColor(color);
+
+  const widths = runs.map((run) => doc.font(run.font).widthOfString(run.text));
+  const total = widths.reduce((acc, w) => acc + w, 0);
+  let cursor = align === "right" ? x - total : align === "center" ? x - total / 2 : x;
+
+  runs.forEach((run, idx) => {
+    doc.font(run.font).text(run.text, cursor, y, { lineBreak: false });
+    cursor += widths[idx];
+  });
+
+  return total;
+};
+
+const drawWatermark = (doc, text) => {
+  doc.save();
+  doc.font(LATIN_FONT).fontSize(40).fillColor(COLORS.watermark).opacity(0.5);
+  [
+    { x: 110, y: 230 },
+    { x: 420, y: 340 },
+    { x: 140, y: 510 },
+    { x: 400, y: 620 },
+  ].forEach(({ x, y }) => {
+    doc.save();
+    doc.rotate(-45, { origin: [x, y] });
+    doc.text(text, x - 130, y, { lineBreak: false });
+    doc.restore();
+  });
+  doc.restore();
+};
+
+const drawItems = (doc, items, margin, pageWidth, startY) => {
+  const cols = { platform: margin, payoutId: margin + 130, date: margin + 290 };
+  let y = startY;
+
+  drawText(doc, "PLATFORM", cols.platform, y, { size: 8, color: COLORS.subtle });
+  drawText(doc, "PAYOUT ID", cols.payoutId, y, { size: 8, color: COLORS.subtle });
+  drawText(doc, "DATE", cols.date, y, { size: 8, color: COLORS.subtle });
+  drawText(doc, "AMOUNT", pageWidth - margin, y, { size: 8, color: COLORS.subtle, align: "right" });
+  y += 14;
+  doc.moveTo(margin, y).lineTo(pageWidth - margin, y).strokeColor(COLORS.rule).lineWidth(0.5).stroke();
+  y += 8;
+
+  items.forEach((item) => {
+    if (y > doc.page.height - 200) {
+      doc.addPage();
+      y = margin;
+    }
+    drawText(doc, item.source_platform || "-", cols.platform, y, { size: 9, color: COLORS.heading });
+    drawText(doc, item.source_platform_payout_id || "-", cols.payoutId, y, { size: 9, color: COLORS.heading });
+    drawText(doc, formatDate(item.transaction_date, false), cols.date, y, { size: 9, color: COLORS.heading });
+    drawText(doc, formatMoney(item.incoming_amount_thb), pageWidth - margin, y, {
+      size: 9,
+      color: COLORS.heading,
+      align: "right",
+    });
+    y += 18;
+  });
+
+  return y;
+};
+
+// Accent band across the top of the page with the logo and business name
+const drawBanner = (doc, brand, accent, margin) => {
+  const pageWidth = doc.page.width;
+  doc.rect(0, 0, pageWidth, 100).fill(accent);
+  if (brand.logo_data) {
+    doc.image(brand.logo_data, margin, 15, { fit: [70, 70], align: "center", valign: "center" });
+  }
+  if (brand.business_name) {
+    drawText(doc, brand.business_name, pageWidth / 2, 36, { size: 28, color: "#ffffff", align: "center", bold: true });
+  }
+};
+
+// Contact lines shown under the invoice number: email, phone, then each address line
+const contactLines = (profile) =>
+  [profile.contact_email, profile.contact_phone, ...(profile.address ? profile.address.split(/\r?\n/) : [])]
+    .map((line) => (line || "").trim())
+    .filter(Boolean);
+
+// Invoices whose lines were charged different commission rates show no single rate
+const commissionLabel = (invoice, client) => {
+  const rate = invoice.commission_percentage === undefined ? client.commission_percentage : invoice.commission_percentage;
+  return rate == null ? "Commission (mixed rates)" : `Commission (${rate}%)`;
+};
+
+/**
+ * Render an invoice (as returned by GET /api/invoices) to a PDF Buffer.
+ * `profile` is the user's business_profiles row (or null) and supplies the branding.
+ */
+const renderInvoicePdf = (invoice, profile = null) =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: 56,
+      info: { Title: `Invoice ${invoice.invoice_number}` },
+    });
+
+    const chunks = [];
+    doc.on("data", (chunk) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    registerFonts(doc);
+
+    const pageWidth = doc.page.width;
+    const margin = 56;
+    const summary = invoice.transactions;
+    const client = invoice.clients;
+    const brand = profile || {};
+    const accent = brand.accent_color || DEFAULT_ACCENT_COLOR;
+
+    if (brand.watermark_text) {
+      drawWatermark(doc, brand.watermark_text);
+    }
+
+    drawBanner(doc, brand, accent, margin);
+
+    let y = 130;
+    drawText(doc, "INVOICE", pageWidth - margin, y, { size: 20, color: "#000000", align: "right", bold: true });
+    y += 26;
+    drawText(doc, invoice.invoice_number, pageWidth - margin, y, { align: "right" });
+    y += 15;
+    drawText(doc, formatDate(invoice.issued_at || invoice.created_at), pageWidth - margin, y, { align: "right" });
+    y += 7;
+    contactLines(brand).forEach((line) => {
+      y += 15;
+      drawText(doc, line, pageWidth - margin, y, { size: 11, color: COLORS.muted, align: "right" });
+    });
+
+    if (invoice.status === "void" || invoice.status === "paid") {
+      drawText(doc, invoice.status.toUpperCase(), margin, 130, {
+        size: 20,
+        color: invoice.status === "void" ? COLORS.void : COLORS.paid,
+        bold: true,
+      });
+    }
+
+    y += 30;
+    drawText(doc, "BILL TO", margin, y, { color: COLORS.subtle });
+    y += 16;
+    drawText(doc, client.name, margin, y, { size: 14, color: COLORS.heading });
+    y += 20;
+    if (client.phone) {
+      drawText(doc, client.phone, margin, y, { color: COLORS.muted });
+      y += 15;
+    }
+    (Array.isArray(client.bank_account) ? client.bank_account : []).forEach((account) => {
+      drawText(doc, `${account.bank_name}: ${account.account_number} (${account.account_name})`, margin, y, {
+        size: 9,
+        color: COLORS.subtle,
+      });
+      y += 13;
+    });
+
+    y = drawItems(doc, invoice.items || [], margin, pageWidth, y + 20);
+
+    // One row per fee type when the lines carry an itemized breakdown
+    const feeRows =
+      invoice.fee_breakdown && invoice.fee_breakdown.length > 0
+        ? invoice.fee_breakdown.map((fee) => [fee.label, `-${formatMoney(fee.amount)}`])
+        : [["Fees", `-${formatMoney(summary.fees)}`]];
+    const rows = [
+      ["Incoming Amount", formatMoney(invoice.total_amount)],
+      [commissionLabel(invoice, client), `-${formatMoney(invoice.commission_amount)}`],
+      ...feeRows,
+      ["Net", formatMoney(invoice.net_amount)],
+    ];
+    if (summary.payout_currency === "MMK" && summary.exchange_rate_mmk > 0) {
+      rows.push(["Exchange Rate", `1 THB = ${Number(summary.exchange_rate_mmk).toFixed(2)} MMK`]);
+    }
+
+    y += 10;
+    const boxHeight = rows.length * 20 + 46;
+    // Keep the summary box (and the payment line under it) on one page
+    if (y + boxHeight + (invoice.payment ? 40 : 0) > doc.page.height - margin) {
+      doc.addPage();
+      y = margin;
+    }
+    doc.rect(margin, y, pageWidth - margin * 2, boxHeight).fill(COLORS.panel);
+    y += 18;
+    rows.forEach(([label, value]) => {
+      drawText(doc, label, margin + 20, y, { color: COLORS.subtle });
+      drawText(doc, value, pageWidth - margin - 20, y, { color: COLORS.heading, align: "right" });
+      y += 20;
+    });
+    y += 4;
+    drawText(doc, "Payout Amount", margin + 20, y, { size: 12, color: COLORS.subtle, bold: true });
+    drawText(doc, formatMoney(summary.payout_amount, summary.payout_currency), pageWidth - margin - 20, y, {
+      size: 12,
+      color: accent,
+      align: "right",
+      bold: true,
+    });
+
+    if (invoice.payment) {
+      y += 40;
+      drawText(
+        doc,
+        `Paid ${formatDate(invoice.payment.paid_at)} via ${invoice.payment.method}` +
+          (invoice.payment.reference ? ` (ref ${invoice.payment.reference})` : ""),
+        margin,
+        y,
+        { size: 9, color: COLORS.muted }
+      );
+    }
+
+    if (brand.footer_notes) {
+      const footerY = Math.max(y + 40, doc.page.height - margin - 60);
+      if (footerY > doc.page.height - margin - 20) {
+        doc.addPage();
+        y = margin;
+      } else {
+        y = footerY;
+      }
+      doc.moveTo(margin, y).lineTo(pageWidth - margin, y).strokeColor(COLORS.rule).lineWidth(0.5).stroke();
+      brand.footer_notes.split(/\r?\n/).forEach((line) => {
+        y += 13;
+        drawText(doc, line, margin, y, { size: 9, color: COLORS.subtle });
+      });
+    }
+
+    doc.end();
+  });
+
+module.exports = {
+  COLORS,
+  registerFonts,
+  formatDate,
+  formatMoney,
+  drawText,
+  drawWatermark,
+  drawBanner,
+  contactLines,
+  renderInvoicePdf,
+};
@@ -0,0 +1,25 @@
+// Invoice lifecycle: draft -> issued -> paid, with void reachable from draft or issued.
+// Paid and void are terminal.
+const INVOICE_STATUSES = ["draft", "issued", "paid", "void"];
+
+const ALLOWED_TRANSITIONS = {
+  draft: ["issued", "void"],
+  issued: ["paid", "void"],
+  paid: [],
+  void: [],
+};
+
+const isValidStatus = (status) => INVOICE_STATUSES.includes(status);
+
+const canTransition = (from, to) =>
+  Boolean(ALLOWED_TRANSITIONS[from] && ALLOWED_TRANSITIONS[from].includes(to));
+
+const transitionError = (from, to) =>
+  `Cannot change invoice status from '${from}' to '${to}'.`;
+
+module.exports = {
+  INVOICE_STATUSES,
+  isValidStatus,
+  canTransition,
+  transitionError,
+};
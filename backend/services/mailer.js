@@ -0,0 +1,77 @@
+// Pluggable outgoing mail used for account emails (password resets, sign-up confirmation, renewal
+// reminders). A transport is { name, send({ from, to, subject, text, html }) }. "smtp" delivers through
+// nodemailer; "file" and "console" keep messages local for development. Select one with
+// MAIL_TRANSPORT.
+const fs = require("fs/promises");
+const path = require("path");
+const crypto = require("crypto");
+const config = require("../config");
+
+let smtpTransporter = null;
+
+const smtpTransport = {
+  name: "smtp",
+  send: async (message) => {
+    if (!smtpTransporter) {
+      const nodemailer = require("nodemailer");
+      smtpTransporter = nodemailer.createTransport({
+        host: config.SMTP_HOST,
+        port: config.SMTP_PORT,
+        secure: config.SMTP_SECURE,
+        auth: config.SMTP_USER ? { user: config.SMTP_USER, pass: config.SMTP_PASS } : undefined,
+      });
+    }
+    await smtpTransporter.sendMail(message);
+  },
+};
+
+/**
+ * Writes each message to MAIL_FILE_DIR as <timestamp>-<id>.json, so local setups and tests can
+ * read the links they contain.
+ */
+const fileTransport = {
+  name: "file",
+  send: async (message) => {
+    await fs.mkdir(config.MAIL_FILE_DIR, { recursive: true });
+    const filename = `${new Date().toISOString().replace(/[:.]/g, "-")}-${crypto.randomBytes(4).toString("hex")}.json`;
+    await fs.writeFile(
+      path.join(config.MAIL_FILE_DIR, filename),
+      JSON.stringify({ ...message, sent_at: new Date().toISOString() }, null, 2)
+    );
+  },
+};
+
+const consoleTransport = {
+  name: "console",
+  send: async (message) => {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  },
+};
+
+const TRANSPORTS = {
+  [smtpTransport.name]: smtpTransport,
+  [fileTransport.name]: fileTransport,
+  [consoleTransport.name]: consoleTransport,
+};
+
+const HTML_ENTITIES = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+// Make a value (names, email addresses) safe to place in an email's html
+const escapeHtml = (value) => String(value).replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
+
+/**
+ * Send { to, subject, text, html? } from MAIL_FROM through the configured transport.
+ * Throws when MAIL_TRANSPORT names a transport that is not registered.
+ */
+const sendMail = async ({ to, subject, text, html }, name = config.MAIL_TRANSPORT) => {
+  const transport = TRANSPORTS[name];
+  if (!transport) {
+    throw new Error(`Unknown mail transport "${name}". Use one of: ${Object.keys(TRANSPORTS).join(", ")}.`);
+  }
+  await transport.send({ from: config.MAIL_FROM, to, subject, text, html });
+};
+
+module.exports = {
+  sendMail,
+  escapeHtml,
+};
@@ -0,0 +1,96 @@
+// Password reset tokens. The emailed token is random; only its SHA-256 hash is stored, so a
+// leaked table cannot be used to reset passwords. A token expires after
+// PASSWORD_RESET_TTL_MINUTES and works once; requesting a new one cancels the older ones.
+const crypto = require("crypto");
+const bcrypt = require("bcryptjs");
+const config = require("../config");
+const { sendMail, escapeHtml } = require("./mailer");
+const { revokeAllSessions } = require("./sessions");
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Repeat requests for the same account within this window do not send another email
+const RESEND_INTERVAL_SECONDS = 60;
+
+const hashToken = (token) => crypto.createHash("sha256").update(token).digest("hex");
+
+const resetLink = (token) => `${config.APP_URL.replace(/\/$/, "")}/reset-password?token=${token}`;
+
+/**
+ * Issue a reset token for `user` ({ id, email }), cancelling any older unused ones. Returns the
+ * raw token to email, or null when one was already issued within RESEND_INTERVAL_SECONDS.
+ */
+const issueResetToken = async (db, user, requestedIp = null) => {
+  const { rows: recent } = await db.query(
+    `SELECT 1 FROM password_reset_tokens
+      WHERE user_id = $1
+        AND used_at IS NULL
+        AND created_at > NOW() - make_interval(secs => $2)`,
+    [user.id, RESEND_INTERVAL_SECONDS]
+  );
+  if (recent.length > 0) return null;
+
+  const token = crypto.randomBytes(32).toString("hex");
+  await db.query(
+    "UPDATE password_reset_tokens SET used_at = NOW() WHERE user_id = $1 AND used_at IS NULL",
+    [user.id]
+  );
+  await db.query(
+    `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at, requested_ip)
+     VALUES ($1, $2, NOW() + make_interval(mins => $3), $4)`,
+    [user.id, hashToken(token), config.PASSWORD_RESET_TTL_MINUTES, requestedIp]
+  );
+  return token;
+};
+
+// Email the reset link for a token from issueResetToken
+const sendResetEmail = async (user, token) => {
+  const link = resetLink(token);
+  await sendMail({
+    to: user.email,
+    subject: "Reset your password",
+    text:
+      `A password reset was requested for ${user.email}.\n\n` +
+      `Open this link to choose a new password (valid for ${config.PASSWORD_RESET_TTL_MINUTES} minutes):\n${link}\n\n` +
+      "If you did not ask for this, you can ignore this email; your password stays the same.",
+    html:
+      `<p>A password reset was requested for ${escapeHtml(user.email)}.</p>` +
+      `<p><a href="${link}">Choose a new password</a> (valid for ${config.PASSWORD_RESET_TTL_MINUTES} minutes).</p>` +
+      "<p>If you did not ask for this, you can ignore this email; your password stays the same.</p>",
+  });
+};
+
+/**
+ * Set a new password with a reset token inside a transaction (`client` from withTransaction).
+ * The token is marked used and the user's refresh tokens are revoked, signing out every
+ * device. Returns { userId } or { error } when the token is unknown, used or expired.
+ */
+const resetPassword = async (client, token, newPassword) => {
+  const { rows } = await client.query(
+    `SELECT id, user_id, expires_at, used_at
+       FROM password_reset_tokens
+      WHERE token_hash = $1
+      FOR UPDATE`,
+    [hashToken(token)]
+  );
+  const record = rows[0];
+  if (!record || record.used_at || new Date(record.expires_at) <= new Date()) {
+    return { error: "This reset link is invalid or has expired. Request a new one." };
+  }
+
+  const salt = await bcrypt.genSalt(10);
+  const hashedPassword = await bcrypt.hash(newPassword, salt);
+
+  await client.query("UPDATE password_reset_tokens SET used_at = NOW() WHERE id = $1", [record.id]);
+  await client.query("UPDATE users SET password_hash = $1 WHERE id = $2", [hashedPassword, record.user_id]);
+  await revokeAllSessions(client, record.user_id, "password_reset");
+
+  return { userId: record.user_id };
+};
+
+module.exports = {
+  MIN_PASSWORD_LENGTH,
+  issueResetToken,
+  sendResetEmail,
+  resetPassword,
+};
@@ -0,0 +1,272 @@
+// Payout batches: unpaid transactions sent together, grouped by the bank of their
+// payment_destination, with one bulk-transfer upload file per bank.
+// Each bank lists the names it is entered under in payment_destination.bank_name and the
+// columns of its upload file; adjust the layouts here to the templates your banks issue.
+// Destinations that match no bank go into an OTHER file with the bank name spelled out.
+const { round2 } = require("./calculations");
+const { toDateString } = require("./exchangeRates");
+
+const remark = (item, batch) => `${batch.batch_number} ${item.client_name || ""}`.trim();
+
+const BANK_FORMATS = [
+  {
+    code: "KBZ",
+    label: "KBZ Bank",
+    pattern: /\bkbz\b|kanbawza/i,
+    columns: [
+      { key: "no", header: "No", value: (item, batch, idx) => idx + 1 },
+      { key: "beneficiary_name", header: "Beneficiary Name", value: (item) => item.account_name },
+      { key: "beneficiary_account", header: "Beneficiary Account", value: (item) => item.account_number },
+      { key: "amount", header: "Amount", value: (item) => item.payout_amount.toFixed(2) },
+      { key: "currency", header: "Currency", value: (item) => item.payout_currency },
+      { key: "remarks", header: "Remarks", value: remark },
+    ],
+  },
+  {
+    code: "AYA",
+    label: "AYA Bank",
+    pattern: /\baya\b|ayeyarwady/i,
+    columns: [
+      { key: "account_number", header: "Account Number", value: (item) => item.account_number },
+      { key: "account_name", header: "Account Name", value: (item) => item.account_name },
+      { key: "amount", header: "Amount", value: (item) => item.payout_amount.toFixed(2) },
+      { key: "currency", header: "Currency", value: (item) => item.payout_currency },
+      { key: "narration", header: "Narration", value: remark },
+    ],
+  },
+  {
+    code: "CB",
+    label: "CB Bank",
+    pattern: /\bcb\b|co-?operative bank/i,
+    columns: [
+      { key: "sr_no", header: "Sr No", value: (item, batch, idx) => idx + 1 },
+      { key: "account_no", header: "Account No", value: (item) => item.account_number },
+      { key: "account_name", header: "Account Name", value: (item) => item.account_name },
+      { key: "amount", header: "Amount", value: (item) => item.payout_amount.toFixed(2) },
+      { key: "reference", header: "Reference", value: remark },
+    ],
+  },
+  {
+    code: "SCB",
+    label: "Siam Commercial Bank",
+    pattern: /\bscb\b|siam commercial/i,
+    columns: [
+      { key: "receiving_bank_code", header: "Receiving Bank Code", value: () => "014" },
+      { key: "account_number", header: "Receiving Account No", value: (item) => item.account_number },
+      { key: "account_name", header: "Receiver Name", value: (item) => item.account_name },
+      { key: "amount", header: "Transfer Amount", value: (item) => item.payout_amount.toFixed(2) },
+      { key: "reference", header: "Reference", value: remark },
+    ],
+  },
+];
+
+const OTHER_BANK = {
+  code: "OTHER",
+  label: "Other banks",
+  columns: [
+    { key: "bank_name", header: "Bank", value: (item) => item.bank_name },
+    { key: "account_number", header: "Account Number", value: (item) => item.account_number },
+    { key: "account_name", header: "Account Name", value: (item) => item.account_name },
+    { key: "amount", header: "Amount", value: (item) => item.payout_amount.toFixed(2) },
+    { key: "currency", header: "Currency", value: (item) => item.payout_currency },
+    { key: "client", header: "Client", value: (item) => item.client_name },
+    { key: "reference", header: "Reference", value: remark },
+  ],
+};
+
+const bankCodeFor = (bankName) => {
+  const format = BANK_FORMATS.find((bank) => bank.pattern.test(String(bankName || "")));
+  return format ? format.code : OTHER_BANK.code;
+};
+
+const findBankFormat = (code) =>
+  BANK_FORMATS.find((bank) => bank.code === String(code || "").toUpperCase()) ||
+  (String(code || "").toUpperCase() === OTHER_BANK.code ? OTHER_BANK : null);
+
+const parseJson = (value) => (value && typeof value === "string" ? JSON.parse(value) : value);
+
+/**
+ * Why a transaction cannot be paid out by a batch, or null when it can.
+ * `row` needs payment_destination and payout_amount.
+ */
+const payoutProblem = (row) => {
+  const destination = parseJson(row.payment_destination);
+  if (!destination || !destination.account_number) {
+    return "has no payment destination";
+  }
+  if (!(Number(row.payout_amount) > 0)) {
+    return "has no payout amount";
+  }
+  return null;
+};
+
+// Batch line copied from a transaction row (joined with its client's name)
+const buildBatchItem = (row) => {
+  const destination = parseJson(row.payment_destination) || {};
+  return {
+    transaction_id: row.id,
+    client_id: row.client_id,
+    client_name: row.client_name,
+    bank_code: bankCodeFor(destination.bank_name),
+    bank_name: destination.bank_name || null,
+    account_number: destination.account_number || null,
+    account_name: destination.account_name || null,
+    payout_currency: row.payout_currency || "THB",
+    payout_amount: round2(row.payout_amount),
+    transaction_date: toDateString(row.transaction_date),
+  };
+};
+
+const mapBatchItem = (row) => ({
+  id: row.id,
+  transaction_id: row.transaction_id,
+  client_id: row.client_id,
+  client_name: row.client_name,
+  bank_code: row.bank_code,
+  bank_name: row.bank_name,
+  account_number: row.account_number,
+  account_name: row.account_name,
+  payout_currency: row.payout_currency,
+  payout_amount: Number(row.payout_amount),
+  transaction_date: toDateString(row.transaction_date),
+});
+
+/**
+ * Totals per bank, in registry order with OTHER last:
+ * [{ bank_code, label, count, totals: { THB?, MMK? } }].
+ */
+const summarizeByBank = (items) => {
+  const order = [...BANK_FORMATS, OTHER_BANK];
+  return order
+    .map((bank) => {
+      const lines = items.filter((item) => item.bank_code === bank.code);
+      const totals = {};
+      for (const line of lines) {
+        totals[line.payout_currency] = round2((totals[line.payout_currency] || 0) + line.payout_amount);
+      }
+      return { bank_code: bank.code, label: bank.label, count: lines.length, totals };
+    })
+    .filter((group) => group.count > 0);
+};
+
+const mapBatch = (row, items = []) => {
+  const totals = {};
+  for (const item of items) {
+    totals[item.payout_currency] = round2((totals[item.payout_currency] || 0) + item.payout_amount);
+  }
+  return {
+    id: row.id,
+    batch_number: row.batch_number,
+    status: row.status,
+    notes: row.notes,
+    paid_at: toDateString(row.paid_at),
+    reference: row.reference,
+    confirmed_at: row.confirmed_at,
+    created_at: row.created_at,
+    transaction_count: items.length,
+    totals,
+    banks: summarizeByBank(items),
+    items,
+  };
+};
+
+/**
+ * Columns and rows of one bank's upload file, for streamExport.
+ */
+const bankFile = (format, batch, items) => ({
+  columns: format.columns.map(({ key, header }) => ({ key, header })),
+  rows: items
+    .filter((item) => item.bank_code === format.code)
+    .map((item, idx) => Object.fromEntries(format.columns.map(({ key, value }) => [key, value(item, batch, idx)]))),
+});
+
+/**
+ * Where an invoice's payout went: the payment_destination its lines share, or null when the
+ * lines were sent to different accounts (or some have none).
+ */
+const invoicePaymentDestination = async (db, invoiceId) => {
+  const { rows } = await db.query(
+    `SELECT CASE
+              WHEN COUNT(DISTINCT payment_destination) = 1 AND COUNT(payment_destination) = COUNT(*)
+              THEN (array_agg(payment_destination))[1]
+            END AS payment_destination
+       FROM invoice_items
+      WHERE invoice_id = $1`,
+    [invoiceId]
+  );
+  return rows[0].payment_destination;
+};
+
+/**
+ * Mark issued invoices paid once every one of their transactions has been paid out, recording
+ * a 'payout_batch' payment of the invoice payout less credit notes. Runs inside the batch's
+ * confirm transaction. Returns the invoice numbers settled.
+ */
+const settleInvoices = async (db, userId, batch) => {
+  const { rows: invoices } = await db.query(
+    `SELECT i.*
+       FROM invoices i
+      WHERE i.user_id = $1
+        AND i.status = 'issued'
+        AND EXISTS (
+          SELECT 1
+            FROM invoice_items ii
+            JOIN payout_batch_items pbi ON pbi.transaction_id = ii.transaction_id
+           WHERE ii.invoice_id = i.id
+             AND pbi.batch_id = $2
+        )
+        AND NOT EXISTS (
+          SELECT 1
+            FROM invoice_items ii
+            JOIN transactions t ON t.id = ii.transaction_id
+           WHERE ii.invoice_id = i.id
+             AND t.paid_at IS NULL
+        )
+      FOR UPDATE OF i`,
+    [userId, batch.id]
+  );
+
+  for (const invoice of invoices) {
+    const destination = await invoicePaymentDestination(db, invoice.id);
+    await db.query(
+      `INSERT INTO invoice_payments (invoice_id, user_id, amount, currency, paid_at, method, reference, payment_destination)
+       VALUES (
+         $1,
+         $2,
+         $3::numeric - (SELECT COALESCE(SUM(payout_amount), 0) FROM credit_notes WHERE invoice_id = $1),
+         $4,
+         $5,
+         'payout_batch',
+         $6,
+         $7::jsonb
+       )`,
+      [
+        invoice.id,
+        userId,
+        invoice.payout_amount,
+        invoice.payout_currency,
+        batch.paid_at,
+        batch.batch_number,
+        destination == null ? null : JSON.stringify(destination),
+      ]
+    );
+    await db.query("UPDATE invoices SET status = 'paid', paid_at = $2 WHERE id = $1", [invoice.id, batch.paid_at]);
+  }
+
+  return invoices.map((invoice) => invoice.invoice_number);
+};
+
+module.exports = {
+  BANK_FORMATS,
+  OTHER_BANK,
+  bankCodeFor,
+  findBankFormat,
+  payoutProblem,
+  buildBatchItem,
+  mapBatchItem,
+  summarizeByBank,
+  mapBatch,
+  bankFile,
+  invoicePaymentDestination,
+  settleInvoices,
+};
@@ -0,0 +1,158 @@
+// Subscription plans and their limits. A user's plan caps how many clients they keep and how
+// many invoices they create per calendar month (revisions of issued invoices do not count).
+// A NULL limit, or no plan at all, means unlimited; admins are never limited.
+
+const BILLING_PERIODS = ["monthly", "yearly"];
+
+// Optional non-negative whole number; null (unlimited) when blank
+const parseLimit = (value) => {
+  if (value == null || value === "") return null;
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit >= 0 ? limit : NaN;
+};
+
+/**
+ * Validate a plan body for create/update.
+ * Returns { values } ready for the plans columns, or { error }.
+ */
+const validatePlan = (body) => {
+  const name = body.name == null ? "" : String(body.name).trim();
+  if (!name) {
+    return { error: "name is required." };
+  }
+
+  const price = body.price == null || body.price === "" ? NaN : Number(body.price);
+  if (!Number.isFinite(price) || price < 0) {
+    return { error: "price must be a number >= 0." };
+  }
+
+  const billingPeriod = body.billing_period || "monthly";
+  if (!BILLING_PERIODS.includes(billingPeriod)) {
+    return { error: `billing_period must be one of: ${BILLING_PERIODS.join(", ")}.` };
+  }
+
+  const maxClients = parseLimit(body.max_clients);
+  if (Number.isNaN(maxClients)) {
+    return { error: "max_clients must be a whole number >= 0, or empty for unlimited." };
+  }
+  const maxInvoices = parseLimit(body.max_invoices_per_month);
+  if (Number.isNaN(maxInvoices)) {
+    return { error: "max_invoices_per_month must be a whole number >= 0, or empty for unlimited." };
+  }
+
+  const features = body.features == null ? [] : body.features;
+  if (!Array.isArray(features) || features.some((feature) => typeof feature !== "string")) {
+    return { error: "features must be a list of text." };
+  }
+
+  return {
+    values: {
+      name,
+      price,
+      currency: body.currency ? String(body.currency).trim().toUpperCase() : "USD",
+      billing_period: billingPeriod,
+      max_clients: maxClients,
+      max_invoices_per_month: maxInvoices,
+      features: features.map((feature) => feature.trim()).filter(Boolean),
+      is_active: body.is_active == null ? true : Boolean(body.is_active),
+    },
+  };
+};
+
+const mapPlan = (row) => ({
+  id: row.id,
+  name: row.name,
+  price: Number(row.price),
+  currency: row.currency,
+  billing_period: row.billing_period,
+  max_clients: row.max_clients,
+  max_invoices_per_month: row.max_invoices_per_month,
+  features: row.features || [],
+  is_active: row.is_active,
+  ...(row.user_count != null ? { user_count: Number(row.user_count) } : {}),
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+const countClients = async (db, userId) => {
+  const { rows } = await db.query("SELECT COUNT(*)::int AS count FROM clients WHERE user_id = $1", [userId]);
+  return rows[0].count;
+};
+
+const countInvoicesThisMonth = async (db, userId) => {
+  const { rows } = await db.query(
+    `SELECT COUNT(*)::int AS count
+       FROM invoices
+      WHERE user_id = $1
+        AND revises_invoice_id IS NULL
+        AND created_at >= date_trunc('month', now())`,
+    [userId]
+  );
+  return rows[0].count;
+};
+
+/**
+ * The user's plan (mapped) or null. Inside a transaction the user row is locked, so concurrent
+ * creates by the same user are counted one after the other.
+ */
+const loadUserPlan = async (db, userId) => {
+  const { rows } = await db.query(
+    `SELECT u.role, p.*
+       FROM users u
+       LEFT JOIN plans p ON p.id = u.plan_id
+      WHERE u.id = $1
+      FOR UPDATE OF u`,
+    [userId]
+  );
+  const row = rows[0];
+  if (!row || row.role === 'admin' || !row.name) return null;
+  return mapPlan(row);
+};
+
+// The user's plan with current usage, for the plan card in Settings
+const planUsage = async (db, userId) => {
+  const plan = await loadUserPlan(db, userId);
+  return {
+    plan,
+    usage: {
+      clients: await countClients(db, userId),
+      invoices_this_month: await countInvoicesThisMonth(db, userId),
+    },
+  };
+};
+
+const LIMITS = {
+  clients: { column: "max_clients", count: countClients, noun: "clients" },
+  invoices: { column: "max_invoices_per_month", count: countInvoicesThisMonth, noun: "invoices a month" },
+};
+
+/**
+ * Check whether the user may create one more `resource` ("clients" or "invoices").
+ * Returns null when allowed, or { status: 402, body } for the route to send.
+ */
+const checkPlanLimit = async (db, userId, resource) => {
+  const plan = await loadUserPlan(db, userId);
+  const limit = LIMITS[resource];
+  if (!plan || plan[limit.column] == null) return null;
+
+  const used = await limit.count(db, userId);
+  if (used < plan[limit.column]) return null;
+
+  return {
+    status: 402,
+    body: {
+      code: "plan_limit_reached",
+      message: `Your ${plan.name} plan allows ${plan[limit.column]} ${limit.noun}. Upgrade your plan to add more.`,
+      limit: plan[limit.column],
+      used,
+      plan: { id: plan.id, name: plan.name },
+    },
+  };
+};
+
+module.exports = {
+  validatePlan,
+  mapPlan,
+  planUsage,
+  checkPlanLimit,
+};
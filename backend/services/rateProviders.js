@@ -0,0 +1,45 @@
+// Pluggable exchange-rate sources used by POST /api/exchange-rates/sync.
+// A provider is { name, fetchRates({ from, to }) } where fetchRates resolves to a list of
+// { base_currency, quote_currency, rate, effective_date } for the requested date range
+// (either bound may be null). Register a live feed here and select it with RATE_PROVIDER.
+const fs = require("fs/promises");
+const config = require("../config");
+
+/**
+ * Reads rates from a local JSON file (RATE_FILE_PATH) so rates can be loaded offline:
+ * [{ "base_currency": "THB", "quote_currency": "MMK", "rate": 120.5, "effective_date": "2025-01-01" }]
+ */
+const fileProvider = {
+  name: "file",
+  fetchRates: async ({ from = null, to = null } = {}) => {
+    let content;
+    try {
+      content = await fs.readFile(config.RATE_FILE_PATH, "utf8");
+    } catch (error) {
+      if (error.code === "ENOENT") {
+        throw new Error(`Rate file not found at ${config.RATE_FILE_PATH}.`);
+      }
+      throw error;
+    }
+
+    const rates = JSON.parse(content);
+    if (!Array.isArray(rates)) {
+      throw new Error("Rate file must contain a JSON array of rates.");
+    }
+
+    return rates.filter(
+      (rate) => (!from || rate.effective_date >= from) && (!to || rate.effective_date <= to)
+    );
+  },
+};
+
+const PROVIDERS = {
+  [fileProvider.name]: fileProvider,
+};
+
+// The configured provider, or null when RATE_PROVIDER names one that is not registered
+const getRateProvider = (name = config.RATE_PROVIDER) => PROVIDERS[name] || null;
+
+module.exports = {
+  getRateProvider,
+};
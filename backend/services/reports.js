@@ -0,0 +1,280 @@
+// Aggregated transaction figures for the Overview dashboard and the commission profit report.
+// Figures are grouped by month, client or source platform over a date range on
+// transaction_date; the summary is compared with the period of the same length just before it.
+const { round2 } = require("./calculations");
+const { isValidDate, toDateString } = require("./exchangeRates");
+
+// SQL for the group key and label of each grouping. Platforms are grouped case-insensitively,
+// the way fee and commission rules match them.
+const GROUPINGS = {
+  month: { key: "to_char(t.transaction_date, 'YYYY-MM')", label: "to_char(t.transaction_date, 'YYYY-MM')" },
+  client: { key: "t.client_id::text", label: "c.name" },
+  platform: {
+    key: "COALESCE(lower(NULLIF(trim(t.source_platform), '')), '')",
+    label: "COALESCE(NULLIF(trim(t.source_platform), ''), 'Unspecified')",
+  },
+};
+
+const addDays = (date, days) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return toDateString(new Date(year, month - 1, day + days));
+};
+
+const daysBetween = (from, to) => Math.round((new Date(to).getTime() - new Date(from).getTime()) / 86400000);
+
+// The period of the same length just before the range; whole-month ranges compare with the
+// same number of whole months
+const previousPeriod = (from, to) => {
+  const previousTo = addDays(from, -1);
+  if (from.endsWith("-01") && addDays(to, 1).endsWith("-01")) {
+    const [fromYear, fromMonth] = from.split("-").map(Number);
+    const [toYear, toMonth] = to.split("-").map(Number);
+    const months = (toYear - fromYear) * 12 + (toMonth - fromMonth) + 1;
+    return { from: toDateString(new Date(fromYear, fromMonth - 1 - months, 1)), to: previousTo };
+  }
+  return { from: addDays(previousTo, -daysBetween(from, to)), to: previousTo };
+};
+
+/**
+ * Validate ?from&to&group_by. `to` defaults to today and `from` to the first day of the month
+ * eleven months earlier (a rolling year); group_by defaults to month.
+ * Returns { from, to, groupBy, previous: { from, to } } or { error }.
+ */
+const parseSummaryParams = (params = {}) => {
+  const today = new Date();
+  const to = params.to || toDateString(today);
+  const from = params.from || toDateString(new Date(today.getFullYear(), today.getMonth() - 11, 1));
+  const groupBy = params.group_by || "month";
+
+  if (!isValidDate(from) || !isValidDate(to)) {
+    return { error: "from and to must be dates in YYYY-MM-DD format." };
+  }
+  if (from > to) {
+    return { error: "from must be on or before to." };
+  }
+  if (!GROUPINGS[groupBy]) {
+    return { error: `group_by must be one of: ${Object.keys(GROUPINGS).join(", ")}.` };
+  }
+
+  return { from, to, groupBy, previous: previousPeriod(from, to) };
+};
+
+const emptyFigures = () => ({
+  transaction_count: 0,
+  incoming_amount_thb: 0,
+  commission_amount: 0,
+  fees: 0,
+  net_amount: 0,
+  payouts: {},
+});
+
+// Add one aggregated row (one group and payout currency) into a figures object
+const addRow = (figures, row) => {
+  figures.transaction_count += Number(row.transaction_count);
+  figures.incoming_amount_thb = round2(figures.incoming_amount_thb + Number(row.incoming_amount_thb));
+  figures.commission_amount = round2(figures.commission_amount + Number(row.commission_amount));
+  figures.fees = round2(figures.fees + Number(row.fees));
+  figures.net_amount = round2(figures.incoming_amount_thb - figures.commission_amount - figures.fees);
+  figures.payouts[row.payout_currency] = round2((figures.payouts[row.payout_currency] || 0) + Number(row.payout_amount));
+  return figures;
+};
+
+const aggregate = async (db, userId, { from, to }, groupBy) => {
+  const grouping = GROUPINGS[groupBy];
+  const { rows } = await db.query(
+    `SELECT ${grouping.key} AS key,
+            MIN(${grouping.label}) AS label,
+            COALESCE(t.payout_currency, 'THB') AS payout_currency,
+            COUNT(*) AS transaction_count,
+            COALESCE(SUM(t.incoming_amount_thb), 0) AS incoming_amount_thb,
+            COALESCE(SUM(t.commission_amount), 0) AS commission_amount,
+            COALESCE(SUM(t.fees), 0) AS fees,
+            COALESCE(SUM(t.payout_amount), 0) AS payout_amount
+       FROM transactions t
+       JOIN clients c ON c.id = t.client_id
+      WHERE t.user_id = $1
+        AND c.user_id = $1
+        AND t.transaction_date >= $2::date
+        AND t.transaction_date <= $3::date
+      GROUP BY 1, 3`,
+    [userId, from, to]
+  );
+
+  const groups = new Map();
+  for (const row of rows) {
+    if (!groups.has(row.key)) groups.set(row.key, { key: row.key, label: row.label, ...emptyFigures() });
+    addRow(groups.get(row.key), row);
+  }
+  return [...groups.values()];
+};
+
+// Every month of the range, including the ones without transactions
+const monthKeys = (from, to) => {
+  const keys = [];
+  const [year, month] = from.split("-").map(Number);
+  for (let d = new Date(year, month - 1, 1); toDateString(d).slice(0, 7) <= to.slice(0, 7); d.setMonth(d.getMonth() + 1)) {
+    keys.push(toDateString(d).slice(0, 7));
+  }
+  return keys;
+};
+
+const totalOf = (groups) =>
+  groups.reduce(
+    (figures, group) =>
+      Object.entries(group.payouts).reduce(
+        (acc, [currency, amount]) => {
+          acc.payouts[currency] = round2((acc.payouts[currency] || 0) + amount);
+          return acc;
+        },
+        {
+          ...figures,
+          transaction_count: figures.transaction_count + group.transaction_count,
+          incoming_amount_thb: round2(figures.incoming_amount_thb + group.incoming_amount_thb),
+          commission_amount: round2(figures.commission_amount + group.commission_amount),
+          fees: round2(figures.fees + group.fees),
+          net_amount: round2(figures.net_amount + group.net_amount),
+        }
+      ),
+    emptyFigures()
+  );
+
+// Percentage change from the previous period, or null when there is nothing to compare with
+const percentChange = (current, previous) => (previous === 0 ? null : round2(((current - previous) / Math.abs(previous)) * 100));
+
+/**
+ * Summary for the Overview dashboard: figures per group for the range, the range's totals,
+ * the previous period's totals and the percentage change of each figure.
+ */
+const buildSummary = async (db, userId, params) => {
+  const [groups, previousGroups] = await Promise.all([
+    aggregate(db, userId, params, params.groupBy),
+    aggregate(db, userId, params.previous, "month"),
+  ]);
+
+  let ordered;
+  if (params.groupBy === "month") {
+    const byKey = new Map(groups.map((group) => [group.key, group]));
+    ordered = monthKeys(params.from, params.to).map((key) => byKey.get(key) || { key, label: key, ...emptyFigures() });
+  } else {
+    ordered = groups.sort((a, b) => b.incoming_amount_thb - a.incoming_amount_thb);
+  }
+
+  const totals = totalOf(ordered);
+  const previousTotals = totalOf(previousGroups);
+
+  return {
+    from: params.from,
+    to: params.to,
+    group_by: params.groupBy,
+    totals,
+    previous: { ...params.previous, totals: previousTotals },
+    change: {
+      transaction_count: percentChange(totals.transaction_count, previousTotals.transaction_count),
+      incoming_amount_thb: percentChange(totals.incoming_amount_thb, previousTotals.incoming_amount_thb),
+      commission_amount: percentChange(totals.commission_amount, previousTotals.commission_amount),
+      fees: percentChange(totals.fees, previousTotals.fees),
+      net_amount: percentChange(totals.net_amount, previousTotals.net_amount),
+    },
+    groups: ordered,
+  };
+};
+
+// Group key and label of a profit row, matching GROUPINGS
+const PROFIT_GROUPS = {
+  month: (row) => ({ key: row.transaction_date.slice(0, 7), label: row.transaction_date.slice(0, 7) }),
+  client: (row) => ({ key: row.client_id, label: row.client_name }),
+  platform: (row) => {
+    const platform = String(row.source_platform || "").trim();
+    return { key: platform.toLowerCase(), label: platform || "Unspecified" };
+  },
+};
+
+const emptyProfit = () => ({
+  transaction_count: 0,
+  commission_amount: 0,
+  credited_commission: 0,
+  absorbed_fees: 0,
+  profit: 0,
+  realized_commission: 0,
+  pending_commission: 0,
+  uninvoiced_commission: 0,
+});
+
+const PROFIT_FIGURES = Object.keys(emptyProfit()).filter((figure) => figure !== "transaction_count");
+
+/**
+ * Commission the business earned per transaction, grouped like the summary. A transaction's
+ * commission comes from its invoice line when it is invoiced (not void), otherwise from the
+ * transaction. Commission given back on credit notes and fees from absorbed fee rules are
+ * subtracted to give the profit. Commission is realized once the client has been paid (the
+ * invoice is paid or the transaction is marked paid) and pending until then; uninvoiced
+ * commission is the part of pending that is not on an invoice yet.
+ */
+const buildProfitReport = async (db, userId, params) => {
+  const { rows } = await db.query(
+    `SELECT t.id, t.transaction_date, t.client_id, c.name AS client_name, t.source_platform, t.paid_at,
+            COALESCE(inv.commission_amount, t.commission_amount, 0) AS commission_amount,
+            inv.status AS invoice_status,
+            COALESCE((SELECT SUM(cni.commission_amount) FROM credit_note_items cni WHERE cni.transaction_id = t.id), 0)
+              AS credited_commission,
+            COALESCE((SELECT SUM(tf.amount) FROM transaction_fees tf WHERE tf.transaction_id = t.id AND tf.absorbed), 0)
+              AS absorbed_fees
+       FROM transactions t
+       JOIN clients c ON c.id = t.client_id
+       LEFT JOIN LATERAL (
+         SELECT ii.commission_amount, i.status
+           FROM invoice_items ii
+           JOIN invoices i ON i.id = ii.invoice_id
+          WHERE ii.transaction_id = t.id
+            AND i.status <> 'void'
+          ORDER BY i.created_at DESC
+          LIMIT 1
+       ) inv ON TRUE
+      WHERE t.user_id = $1
+        AND c.user_id = $1
+        AND t.transaction_date >= $2::date
+        AND t.transaction_date <= $3::date`,
+    [userId, params.from, params.to]
+  );
+
+  const groups = new Map();
+  const totals = emptyProfit();
+  for (const row of rows) {
+    const transactionDate = toDateString(row.transaction_date);
+    const { key, label } = PROFIT_GROUPS[params.groupBy]({ ...row, transaction_date: transactionDate });
+    if (!groups.has(key)) groups.set(key, { key, label, ...emptyProfit() });
+
+    const commission = Number(row.commission_amount) - Number(row.credited_commission);
+    const realized = row.invoice_status === "paid" || row.paid_at != null;
+    const figures = {
+      transaction_count: 1,
+      commission_amount: Number(row.commission_amount),
+      credited_commission: Number(row.credited_commission),
+      absorbed_fees: Number(row.absorbed_fees),
+      profit: commission - Number(row.absorbed_fees),
+      realized_commission: realized ? commission : 0,
+      pending_commission: realized ? 0 : commission,
+      uninvoiced_commission: realized || row.invoice_status ? 0 : commission,
+    };
+    for (const target of [groups.get(key), totals]) {
+      target.transaction_count += 1;
+      for (const figure of PROFIT_FIGURES) target[figure] = round2(target[figure] + figures[figure]);
+    }
+  }
+
+  let ordered;
+  if (params.groupBy === "month") {
+    ordered = monthKeys(params.from, params.to).map((key) => groups.get(key) || { key, label: key, ...emptyProfit() });
+  } else {
+    ordered = [...groups.values()].sort((a, b) => b.profit - a.profit);
+  }
+
+  return { from: params.from, to: params.to, group_by: params.groupBy, totals, groups: ordered };
+};
+
+module.exports = {
+  GROUPINGS,
+  parseSummaryParams,
+  buildSummary,
+  buildProfitReport,
+};
@@ -0,0 +1,155 @@
+// Sign-in sessions backed by refresh tokens. A session is a token family: the token issued at
+// sign-in and every token rotated from it share family_id. Rotation revokes the presented token
+// with reason "rotated"; presenting a rotated token again means it was copied, so the whole
+// family is revoked. Access tokens carry the family as `sid`, so revoking a session also stops
+// its access token (see the protect middleware).
+const crypto = require("crypto");
+const jwt = require("jsonwebtoken");
+const config = require("../config");
+
+// Two tabs refreshing with the same token at once is not an attack; within this window a
+// rotated token is refused without revoking the family
+const REUSE_GRACE_SECONDS = 10;
+
+const signRefreshToken = (userId) =>
+  jwt.sign({ id: userId }, config.REFRESH_TOKEN_SECRET, { expiresIn: "7d", jwtid: crypto.randomUUID() });
+
+// Where the request came from, for the session list
+const clientDetails = (req) => ({
+  userAgent: (req.get("user-agent") || "").slice(0, 500) || null,
+  ip: req.ip || null,
+});
+
+const BROWSERS = [
+  ["Edge", /Edg\//],
+  ["Opera", /OPR\//],
+  ["Chrome", /Chrome\//],
+  ["Firefox", /Firefox\//],
+  ["Safari", /Safari\//],
+];
+const PLATFORMS = [
+  ["iPhone", /iPhone/],
+  ["iPad", /iPad/],
+  ["Android", /Android/],
+  ["Windows", /Windows/],
+  ["macOS", /Mac OS X|Macintosh/],
+  ["Linux", /Linux/],
+];
+
+// "Chrome on Windows" from a user agent, or null when nothing is recognised
+const describeDevice = (userAgent) => {
+  if (!userAgent) return null;
+  const browser = BROWSERS.find(([, pattern]) => pattern.test(userAgent));
+  const platform = PLATFORMS.find(([, pattern]) => pattern.test(userAgent));
+  if (!browser && !platform) return null;
+  return [browser && browser[0], platform && platform[0]].filter(Boolean).join(" on ");
+};
+
+// Start a session (a new token family) at sign-in; returns { refreshToken, familyId }
+const createSession = async (db, userId, { userAgent, ip }) => {
+  const familyId = crypto.randomUUID();
+  const refreshToken = signRefreshToken(userId);
+  await db.query(
+    `INSERT INTO refresh_tokens (user_id, token, expires_at, family_id, session_started_at, user_agent, ip_address, last_used_at)
+     VALUES ($1, $2, NOW() + INTERVAL '7 days', $3, NOW(), $4, $5, NOW())`,
+    [userId, refreshToken, familyId, userAgent, ip]
+  );
+  return { refreshToken, familyId };
+};
+
+/**
+ * Replace a refresh token row with a new token in the same family. The session keeps its
+ * start time; device, IP and last use are updated from the request. Returns null when the
+ * token was revoked meanwhile (a concurrent refresh rotated it first), so only one request
+ * gets the child token.
+ */
+const rotateSession = async (db, tokenRow, { userAgent, ip }) => {
+  const { rows } = await db.query(
+    `UPDATE refresh_tokens SET revoked = TRUE, revoked_at = NOW(), revoked_reason = 'rotated'
+      WHERE id = $1 AND revoked = FALSE
+      RETURNING id`,
+    [tokenRow.id]
+  );
+  if (rows.length === 0) return null;
+
+  const refreshToken = signRefreshToken(tokenRow.user_id);
+  await db.query(
+    `INSERT INTO refresh_tokens (user_id, token, expires_at, family_id, session_started_at, user_agent, ip_address, last_used_at)
+     VALUES ($1, $2, NOW() + INTERVAL '7 days', $3, $4, $5, $6, NOW())`,
+    [tokenRow.user_id, refreshToken, tokenRow.family_id, tokenRow.session_started_at, userAgent || tokenRow.user_agent, ip || tokenRow.ip_address]
+  );
+  return refreshToken;
+};
+
+/**
+ * Whether presenting this already revoked token is a replay: it was rotated, and not just now
+ * (see REUSE_GRACE_SECONDS).
+ */
+const isTokenReuse = (tokenRow, now = Date.now()) =>
+  tokenRow.revoked_reason === "rotated" &&
+  tokenRow.revoked_at != null &&
+  now - new Date(tokenRow.revoked_at).getTime() > REUSE_GRACE_SECONDS * 1000;
+
+// Revoke every live token in a family; returns how many were revoked
+const revokeFamily = async (db, userId, familyId, reason) => {
+  const { rowCount } = await db.query(
+    `UPDATE refresh_tokens SET revoked = TRUE, revoked_at = NOW(), revoked_reason = $3
+      WHERE user_id = $1 AND family_id = $2 AND revoked = FALSE`,
+    [userId, familyId, reason]
+  );
+  return rowCount;
+};
+
+// Revoke all of a user's sessions, optionally keeping one family
+const revokeAllSessions = async (db, userId, reason, exceptFamilyId = null) => {
+  const { rowCount } = await db.query(
+    `UPDATE refresh_tokens SET revoked = TRUE, revoked_at = NOW(), revoked_reason = $2
+      WHERE user_id = $1 AND revoked = FALSE AND ($3::uuid IS NULL OR family_id <> $3)`,
+    [userId, reason, exceptFamilyId]
+  );
+  return rowCount;
+};
+
+// Whether the session an access token belongs to is still signed in
+const isSessionActive = async (db, userId, familyId) => {
+  const { rows } = await db.query(
+    `SELECT 1 FROM refresh_tokens
+      WHERE user_id = $1 AND family_id = $2 AND revoked = FALSE AND expires_at > NOW()
+      LIMIT 1`,
+    [userId, familyId]
+  );
+  return rows.length > 0;
+};
+
+// Signed-in sessions, most recently used first; `current` marks the requester's own
+const listSessions = async (db, userId, currentFamilyId = null) => {
+  const { rows } = await db.query(
+    `SELECT family_id, session_started_at, user_agent, ip_address, last_used_at, expires_at
+       FROM refresh_tokens
+      WHERE user_id = $1 AND revoked = FALSE AND expires_at > NOW()
+      ORDER BY COALESCE(last_used_at, session_started_at) DESC`,
+    [userId]
+  );
+  return rows.map((r) => ({
+    id: r.family_id,
+    device: describeDevice(r.user_agent),
+    user_agent: r.user_agent,
+    ip_address: r.ip_address,
+    started_at: r.session_started_at,
+    last_used_at: r.last_used_at || r.session_started_at,
+    expires_at: r.expires_at,
+    current: r.family_id === currentFamilyId,
+  }));
+};
+
+module.exports = {
+  clientDetails,
+  describeDevice,
+  createSession,
+  rotateSession,
+  isTokenReuse,
+  revokeFamily,
+  revokeAllSessions,
+  isSessionActive,
+  listSessions,
+};
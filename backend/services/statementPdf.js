@@ -0,0 +1,172 @@
+// Server-side client statement PDF, drawn with the invoice PDF's fonts, banner and helpers.
+const PDFDocument = require("pdfkit");
+const { DEFAULT_ACCENT_COLOR } = require("./businessProfile");
+const {
+  COLORS,
+  registerFonts,
+  formatDate,
+  formatMoney,
+  drawText,
+  drawWatermark,
+  drawBanner,
+  contactLines,
+} = require("./invoicePdf");
+
+const ENTRY_LABELS = { transaction: "Payout due", credit_note: "Credit note", payout: "Payout sent" };
+
+const formatSigned = (amount, currency) => (amount < 0 ? `-${formatMoney(-amount, currency)}` : formatMoney(amount, currency));
+
+const periodLabel = (statement) =>
+  statement.from
+    ? `${formatDate(statement.from, false)} – ${formatDate(statement.to, false)}`
+    : `Up to ${formatDate(statement.to, false)}`;
+
+const drawEntries = (doc, entries, margin, pageWidth, startY) => {
+  const cols = { date: margin, description: margin + 70, reference: margin + 270 };
+  const header = (y) => {
+    drawText(doc, "DATE", cols.date, y, { size: 8, color: COLORS.subtle });
+    drawText(doc, "DESCRIPTION", cols.description, y, { size: 8, color: COLORS.subtle });
+    drawText(doc, "REFERENCE", cols.reference, y, { size: 8, color: COLORS.subtle });
+    drawText(doc, "AMOUNT", pageWidth - margin - 100, y, { size: 8, color: COLORS.subtle, align: "right" });
+    drawText(doc, "BALANCE", pageWidth - margin, y, { size: 8, color: COLORS.subtle, align: "right" });
+    y += 14;
+    doc.moveTo(margin, y).lineTo(pageWidth - margin, y).strokeColor(COLORS.rule).lineWidth(0.5).stroke();
+    return y + 8;
+  };
+
+  let y = header(startY);
+  if (entries.length === 0) {
+    drawText(doc, "No activity in this period.", margin, y, { size: 9, color: COLORS.muted });
+    return y + 18;
+  }
+
+  entries.forEach((entry) => {
+    if (y > doc.page.height - 80) {
+      doc.addPage();
+      y = header(56);
+    }
+    const description = `${ENTRY_LABELS[entry.type]}: ${entry.description}`;
+    drawText(doc, formatDate(entry.date, false), cols.date, y, { size: 9, color: COLORS.heading });
+    drawText(doc, description.length > 42 ? `${description.slice(0, 41)}…` : description, cols.description, y, {
+      size: 9,
+      color: COLORS.heading,
+    });
+    drawText(doc, entry.reference || "-", cols.reference, y, { size: 9, color: COLORS.muted });
+    drawText(doc, formatSigned(entry.amount, entry.currency), pageWidth - margin - 100, y, {
+      size: 9,
+      color: COLORS.heading,
+      align: "right",
+    });
+    drawText(doc, formatSigned(entry.balance, entry.currency), pageWidth - margin, y, {
+      size: 9,
+      color: COLORS.heading,
+      align: "right",
+    });
+    y += 18;
+  });
+
+  return y;
+};
+
+/**
+ * Render a statement (as returned by GET /api/clients/:id/statement) to a PDF Buffer.
+ * `profile` is the user's business_profiles row (or null) and supplies the branding.
+ */
+const renderStatementPdf = (statement, profile = null) =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: 56,
+      info: { Title: `Statement ${statement.client.name}` },
+    });
+
+    const chunks = [];
+    doc.on("data", (chunk) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    registerFonts(doc);
+
+    const pageWidth = doc.page.width;
+    const margin = 56;
+    const brand = profile || {};
+    const accent = brand.accent_color || DEFAULT_ACCENT_COLOR;
+
+    if (brand.watermark_text) {
+      drawWatermark(doc, brand.watermark_text);
+    }
+    drawBanner(doc, brand, accent, margin);
+
+    let y = 130;
+    drawText(doc, "STATEMENT OF ACCOUNT", pageWidth - margin, y, { size: 18, color: "#000000", align: "right", bold: true });
+    y += 24;
+    drawText(doc, periodLabel(statement), pageWidth - margin, y, { align: "right" });
+    y += 7;
+    contactLines(brand).forEach((line) => {
+      y += 15;
+      drawText(doc, line, pageWidth - margin, y, { size: 11, color: COLORS.muted, align: "right" });
+    });
+
+    y += 30;
+    drawText(doc, "STATEMENT FOR", margin, y, { color: COLORS.subtle });
+    y += 16;
+    drawText(doc, statement.client.name, margin, y, { size: 14, color: COLORS.heading });
+    y += 20;
+    if (statement.client.phone) {
+      drawText(doc, statement.client.phone, margin, y, { color: COLORS.muted });
+      y += 15;
+    }
+
+    const { totals } = statement;
+    const rows = [
+      [`Incoming (${totals.transaction_count} transaction${totals.transaction_count === 1 ? "" : "s"})`, formatMoney(totals.incoming_amount_thb)],
+      ["Commission deducted", `-${formatMoney(totals.commission_amount)}`],
+      ["Fees deducted", `-${formatMoney(totals.fees)}`],
+    ];
+    Object.keys(statement.closing_balance).forEach((currency) => {
+      rows.push(
+        [`Opening balance (${currency})`, formatSigned(statement.opening_balance[currency], currency)],
+        ["Payouts due", formatMoney(totals.payouts_due[currency] || 0, currency)],
+        ["Credit notes", `-${formatMoney(totals.credits[currency] || 0, currency)}`],
+        ["Payouts sent", `-${formatMoney(totals.payouts_sent[currency] || 0, currency)}`],
+        [`Closing balance (${currency})`, formatSigned(statement.closing_balance[currency], currency)]
+      );
+    });
+
+    y += 10;
+    doc.rect(margin, y, pageWidth - margin * 2, rows.length * 18 + 24).fill(COLORS.panel);
+    y += 14;
+    rows.forEach(([label, value]) => {
+      const closing = label.startsWith("Closing");
+      drawText(doc, label, margin + 20, y, { color: closing ? COLORS.heading : COLORS.subtle, bold: closing });
+      drawText(doc, value, pageWidth - margin - 20, y, { color: closing ? accent : COLORS.heading, align: "right", bold: closing });
+      y += 18;
+    });
+
+    y = drawEntries(doc, statement.entries, margin, pageWidth, y + 30);
+
+    y += 10;
+    drawText(doc, "A positive balance is still owed to the client; a negative balance has been overpaid.", margin, y, {
+      size: 8,
+      color: COLORS.muted,
+    });
+
+    if (brand.footer_notes) {
+      y += 30;
+      if (y > doc.page.height - margin - 60) {
+        doc.addPage();
+        y = margin;
+      }
+      doc.moveTo(margin, y).lineTo(pageWidth - margin, y).strokeColor(COLORS.rule).lineWidth(0.5).stroke();
+      brand.footer_notes.split(/\r?\n/).forEach((line) => {
+        y += 13;
+        drawText(doc, line, margin, y, { size: 9, color: COLORS.subtle });
+      });
+    }
+
+    doc.end();
+  });
+
+module.exports = {
+  renderStatementPdf,
+};
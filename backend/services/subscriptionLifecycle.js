@@ -0,0 +1,155 @@
+// Scheduled subscription upkeep: renewal reminders SUBSCRIPTION_REMINDER_DAYS before
+// subscription_end_date, and the 'expired' status once the grace period after it has passed.
+// Both are recorded in subscription_events, which also keeps a reminder from being sent twice.
+const config = require("../config");
+const { sendMail, escapeHtml } = require("./mailer");
+
+// Sign-in page linked from the reminder email
+const signInLink = () => `${config.APP_URL.replace(/\/$/, "")}/auth`;
+
+const sendReminderEmail = async (reminder) => {
+  const what = reminder.subscription_status === "trial" ? "free trial" : "subscription";
+  const endDate = new Date(reminder.subscription_end_date).toISOString().slice(0, 10);
+  const graceNote =
+    config.SUBSCRIPTION_GRACE_DAYS > 0
+      ? `After that your account is read-only: you can still sign in, view and export your data, but not add or change anything. Renew within ${config.SUBSCRIPTION_GRACE_DAYS} days to keep your account active.`
+      : "After that your account is read-only: you can still sign in, view and export your data, but not add or change anything.";
+  await sendMail({
+    to: reminder.email,
+    subject: `Your ${what} ends on ${endDate}`,
+    text:
+      `Your ${what} for ${reminder.email} ends on ${endDate}. Contact an admin to renew.\n\n` +
+      `${graceNote}\n\nSign in: ${signInLink()}`,
+    html:
+      `<p>Your ${what} for ${escapeHtml(reminder.email)} ends on <strong>${endDate}</strong>. Contact an admin to renew.</p>` +
+      `<p>${graceNote}</p><p><a href="${signInLink()}">Sign in</a></p>`,
+  });
+};
+
+/**
+ * Email users whose subscription or trial ends within a reminder window and record each one.
+ * A user gets the reminder of the nearest window only, once per end date. A reminder whose email
+ * fails is removed again so the next run retries it. Returns the number of emails sent.
+ */
+const sendRenewalReminders = async (db, now = new Date()) => {
+  const windows = config.SUBSCRIPTION_REMINDER_DAYS;
+  let sent = 0;
+
+  for (let i = 0; i < windows.length; i += 1) {
+    const daysBefore = windows[i];
+    const nextWindow = windows[i + 1] || 0;
+    const { rows } = await db.query(
+      `WITH inserted AS (
+         INSERT INTO subscription_events (user_id, event, subscription_end_date, days_before, details)
+         SELECT id, 'renewal_reminder', subscription_end_date, $2, jsonb_build_object('subscription_status', subscription_status)
+           FROM users
+          WHERE role <> 'admin'
+            AND subscription_status IN ('active', 'trial')
+            AND email_verified_at IS NOT NULL
+            AND subscription_end_date > $1::timestamptz + make_interval(days => $3)
+            AND subscription_end_date <= $1::timestamptz + make_interval(days => $2)
+         ON CONFLICT (user_id, subscription_end_date, days_before) WHERE event = 'renewal_reminder' DO NOTHING
+         RETURNING id, user_id, subscription_end_date
+       )
+       SELECT i.id, i.subscription_end_date, u.email, u.subscription_status
+         FROM inserted i
+         JOIN users u ON u.id = i.user_id`,
+      [now, daysBefore, nextWindow]
+    );
+
+    for (const reminder of rows) {
+      try {
+        await sendReminderEmail(reminder);
+        sent += 1;
+      } catch (error) {
+        console.error(`Renewal reminder to ${reminder.email} failed:`, error);
+        await db.query("DELETE FROM subscription_events WHERE id = $1", [reminder.id]);
+      }
+    }
+  }
+
+  return sent;
+};
+
+/**
+ * Move users whose grace period (SUBSCRIPTION_GRACE_DAYS after subscription_end_date) has ended
+ * to 'expired', logging an 'expired' event for each. Returns those users as { id, email }.
+ */
+const expireAfterGracePeriod = async (db, now = new Date()) => {
+  const { rows } = await db.query(
+    `WITH lapsed AS (
+       SELECT id, email, subscription_status, subscription_end_date
+         FROM users
+        WHERE role <> 'admin'
+          AND subscription_status IN ('active', 'trial')
+          AND subscription_end_date + $2 * INTERVAL '1 day' <= $1::timestamptz
+        FOR UPDATE
+     ),
+     expired AS (
+       UPDATE users u
+          SET subscription_status = 'expired'
+         FROM lapsed l
+        WHERE u.id = l.id
+       RETURNING u.id
+     ),
+     logged AS (
+       INSERT INTO subscription_events (user_id, event, subscription_end_date, details)
+       SELECT l.id, 'expired', l.subscription_end_date,
+              jsonb_build_object('previous_status', l.subscription_status, 'grace_days', $2::numeric)
+         FROM lapsed l
+         JOIN expired e ON e.id = l.id
+       RETURNING user_id
+     )
+     SELECT l.id, l.email
+       FROM lapsed l
+       JOIN logged g ON g.user_id = l.id`,
+    [now, config.SUBSCRIPTION_GRACE_DAYS]
+  );
+  return rows;
+};
+
+// One run of the job: reminders first, then expiries
+const runSubscriptionJob = async (db, now = new Date()) => {
+  const remindersSent = await sendRenewalReminders(db, now);
+  const expired = await expireAfterGracePeriod(db, now);
+  if (remindersSent > 0 || expired.length > 0) {
+    console.log(
+      `Subscription job: ${remindersSent} renewal reminder(s) sent, ${expired.length} account(s) expired` +
+        (expired.length > 0 ? ` (${expired.map((user) => user.email).join(", ")})` : "")
+    );
+  }
+  return { reminders_sent: remindersSent, expired };
+};
+
+/**
+ * Run the job now and then every SUBSCRIPTION_JOB_INTERVAL_MINUTES. A run still in progress is
+ * not started again. Returns the timer, or null when the schedule is turned off.
+ */
+const scheduleSubscriptionJob = (db) => {
+  if (!(config.SUBSCRIPTION_JOB_INTERVAL_MINUTES > 0)) return null;
+
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runSubscriptionJob(db);
+    } catch (error) {
+      console.error("Subscription job error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  const timer = setInterval(run, config.SUBSCRIPTION_JOB_INTERVAL_MINUTES * 60 * 1000);
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  sendRenewalReminders,
+  expireAfterGracePeriod,
+  runSubscriptionJob,
+  scheduleSubscriptionJob,
+};
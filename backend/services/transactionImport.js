@@ -0,0 +1,198 @@
+// Parsing and column mapping for bulk transaction imports (CSV or XLSX).
+// Validation against the user's clients and the payout maths lives in routes/transactions.js
+// next to the single-transaction handlers it mirrors.
+const ExcelJS = require("exceljs");
+const { parse } = require("csv-parse/sync");
+
+const CSV_TYPES = ["text/csv", "application/csv", "text/plain"];
+const XLSX_TYPES = ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"];
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+const MAX_IMPORT_ROWS = 1000;
+
+// Importable fields and the header names recognised for each when no mapping is posted
+const IMPORT_FIELDS = {
+  client: ["client", "client name", "client_name", "client id", "client_id", "customer"],
+  transaction_date: ["date", "transaction date", "transaction_date", "payout date"],
+  incoming_amount_thb: ["incoming thb", "incoming_amount_thb", "amount thb", "thb", "incoming", "amount"],
+  original_amount_usd: ["usd", "amount usd", "original_amount_usd", "original usd"],
+  exchange_rate_mmk: ["rate", "exchange rate", "exchange_rate_mmk", "mmk rate"],
+  payout_currency: ["payout currency", "payout_currency", "currency"],
+  source_platform: ["platform", "source platform", "source_platform"],
+  source_platform_payout_id: ["payout id", "payout_id", "source_platform_payout_id", "reference"],
+  notes: ["notes", "note", "memo", "description"],
+};
+
+const REQUIRED_FIELDS = ["client", "transaction_date", "incoming_amount_thb"];
+
+const normalizeHeader = (value) => String(value == null ? "" : value).trim().toLowerCase().replace(/\s+/g, " ");
+
+const cellValue = (value) => {
+  if (value == null) return null;
+  if (value instanceof Date) return value;
+  if (typeof value === "object") {
+    // ExcelJS wraps formulas, hyperlinks and rich text in objects
+    if ("result" in value) return cellValue(value.result);
+    if ("text" in value) return value.text;
+    if (Array.isArray(value.richText)) return value.richText.map((part) => part.text).join("");
+  }
+  return value;
+};
+
+const parseCsv = (buffer) => {
+  const rows = parse(buffer, {
+    bom: true,
+    skip_empty_lines: true,
+    relax_column_count: true,
+    trim: true,
+  });
+  return rows;
+};
+
+const parseXlsx = async (buffer) => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    // row.values is 1-based
+    rows.push(row.values.slice(1).map(cellValue));
+  });
+  return rows;
+};
+
+/**
+ * Parse an uploaded file into { columns, records }.
+ * The first row is the header; records are objects keyed by header text.
+ * Returns { error } for unreadable or oversized files.
+ */
+const parseImportFile = async (buffer, mimeType) => {
+  let rows;
+  try {
+    if (XLSX_TYPES.includes(mimeType)) {
+      rows = await parseXlsx(buffer);
+    } else if (CSV_TYPES.includes(mimeType)) {
+      rows = parseCsv(buffer);
+    } else {
+      return { error: "File must be a CSV or XLSX spreadsheet." };
+    }
+  } catch (error) {
+    return { error: `Could not read the file: ${error.message}` };
+  }
+
+  if (rows.length < 2) {
+    return { error: "The file needs a header row and at least one data row." };
+  }
+  if (rows.length - 1 > MAX_IMPORT_ROWS) {
+    return { error: `Imports are limited to ${MAX_IMPORT_ROWS} rows per file.` };
+  }
+
+  const columns = rows[0].map((header) => String(header == null ? "" : header).trim());
+  const records = rows
+    .slice(1)
+    .filter((row) => row.some((value) => value != null && String(value).trim() !== ""))
+    .map((row) => Object.fromEntries(columns.map((column, idx) => [column, row[idx] == null ? null : row[idx]])));
+
+  return { columns, records };
+};
+
+/**
+ * Guess which column feeds each field from the header names.
+ * Returns { field: column } for the fields that could be matched.
+ */
+const detectMapping = (columns) => {
+  const mapping = {};
+  for (const [field, aliases] of Object.entries(IMPORT_FIELDS)) {
+    const column = columns.find((candidate) => aliases.includes(normalizeHeader(candidate)));
+    if (column) mapping[field] = column;
+  }
+  return mapping;
+};
+
+/**
+ * Check a posted mapping: only known fields, only existing columns, all required fields present.
+ * Returns { error } or { mapping }.
+ */
+const validateMapping = (mapping, columns) => {
+  const cleaned = {};
+  for (const [field, column] of Object.entries(mapping || {})) {
+    if (!column) continue;
+    if (!IMPORT_FIELDS[field]) {
+      return { error: `Unknown import field '${field}'.` };
+    }
+    if (!columns.includes(column)) {
+      return { error: `Column '${column}' mapped to ${field} is not in the file.` };
+    }
+    cleaned[field] = column;
+  }
+
+  const missing = REQUIRED_FIELDS.filter((field) => !cleaned[field]);
+  if (missing.length > 0) {
+    return { error: `Map a column to: ${missing.join(", ")}.` };
+  }
+
+  return { mapping: cleaned };
+};
+
+const toText = (value) => {
+  if (value == null) return null;
+  const text = String(value).trim();
+  return text === "" ? null : text;
+};
+
+// Accept spreadsheet dates, ISO dates (YYYY-MM-DD) and day-first dates (DD/MM/YYYY)
+const toDate = (value) => {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  }
+  const text = toText(value);
+  if (!text) return null;
+
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const iso = dayFirst
+    ? `${dayFirst[3]}-${dayFirst[2].padStart(2, "0")}-${dayFirst[1].padStart(2, "0")}`
+    : text;
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+};
+
+// Strip thousands separators and currency symbols so "฿1,234.50" imports as 1234.5
+const toAmount = (value) => {
+  if (value == null || value === "") return null;
+  if (typeof value === "number") return value;
+  const text = String(value).replace(/[,\s฿$]/g, "");
+  return text === "" ? null : text;
+};
+
+/**
+ * Apply a mapping to one record, producing a transaction payload plus the raw client reference.
+ */
+const mapRecord = (record, mapping) => {
+  const read = (field) => (mapping[field] ? record[mapping[field]] : null);
+  const currency = toText(read("payout_currency"));
+  return {
+    client: toText(read("client")),
+    transaction_date: toDate(read("transaction_date")),
+    raw_transaction_date: toText(read("transaction_date") instanceof Date ? null : read("transaction_date")),
+    incoming_amount_thb: toAmount(read("incoming_amount_thb")),
+    original_amount_usd: toAmount(read("original_amount_usd")),
+    exchange_rate_mmk: toAmount(read("exchange_rate_mmk")),
+    payout_currency: currency ? currency.toUpperCase() : null,
+    source_platform: toText(read("source_platform")),
+    source_platform_payout_id: toText(read("source_platform_payout_id")),
+    notes: toText(read("notes")),
+  };
+};
+
+module.exports = {
+  CSV_TYPES,
+  XLSX_TYPES,
+  MAX_IMPORT_BYTES,
+  IMPORT_FIELDS,
+  REQUIRED_FIELDS,
+  parseImportFile,
+  detectMapping,
+  validateMapping,
+  mapRecord,
+};
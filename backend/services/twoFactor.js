@@ -0,0 +1,231 @@
+// TOTP two-factor authentication (RFC 6238: SHA-1, 6 digits, 30-second steps), as used by
+// Google Authenticator, 1Password and similar apps. Secrets are stored encrypted; recovery codes
+// are stored as SHA-256 hashes and work once. Between the password and the code, login hands out
+// a short-lived challenge token signed with its own secret, so it is never an access token.
+const crypto = require("crypto");
+const jwt = require("jsonwebtoken");
+const config = require("../config");
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the previous and next step as well, for clock drift between server and phone
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// Roles that must enroll before they get a session
+const REQUIRED_ROLES = ["admin"];
+
+const base32Encode = (buffer) => {
+  let bits = "";
+  for (const byte of buffer) bits += byte.toString(2).padStart(8, "0");
+  let output = "";
+  for (let i = 0; i < bits.length; i += 5) {
+    output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, "0"), 2)];
+  }
+  return output;
+};
+
+const base32Decode = (value) => {
+  let bits = "";
+  for (const char of value.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret.");
+    bits += index.toString(2).padStart(5, "0");
+  }
+  const bytes = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  return Buffer.from(bytes);
+};
+
+// A new random secret (160 bits, base32) for an authenticator app
+const generateSecret = () => base32Encode(crypto.randomBytes(20));
+
+// The code for a time step (HOTP with the step as the counter)
+const codeForStep = (secret, step) => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const digest = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+};
+
+const currentStep = (now = Date.now()) => Math.floor(now / 1000 / STEP_SECONDS);
+
+/**
+ * The time step a code matches within the drift window, or null. Steps at or before
+ * `lastStep` are refused so an intercepted code cannot be replayed.
+ */
+const matchTotp = (secret, code, lastStep = null, now = Date.now()) => {
+  const normalized = String(code || "").replace(/\s+/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+  const step = currentStep(now);
+  for (let candidate = step - DRIFT_STEPS; candidate <= step + DRIFT_STEPS; candidate++) {
+    if (lastStep != null && candidate <= Number(lastStep)) continue;
+    const expected = codeForStep(secret, candidate);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) return candidate;
+  }
+  return null;
+};
+
+const encryptionKey = () => crypto.createHash("sha256").update(config.TWO_FACTOR_ENCRYPTION_KEY).digest();
+
+// "iv.tag.ciphertext" in base64, AES-256-GCM
+const encryptSecret = (secret) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(".");
+};
+
+const decryptSecret = (stored) => {
+  const [iv, tag, encrypted] = stored.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+};
+
+const otpauthUrl = (email, secret) => {
+  const issuer = config.TWO_FACTOR_ISSUER;
+  const label = encodeURIComponent(`${issuer}:${email}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: "SHA1", digits: String(DIGITS), period: String(STEP_SECONDS) });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// PNG data URL of the otpauth link for the enrollment screen
+const qrCodeDataUrl = (url) => require("qrcode").toDataURL(url, { margin: 1, width: 220 });
+
+const normalizeRecoveryCode = (code) => String(code || "").toLowerCase().replace(/[^0-9a-f]/g, "");
+
+const hashRecoveryCode = (code) => crypto.createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+
+// Codes look like "3f9a-c21b-77de"
+const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => crypto.randomBytes(6).toString("hex").match(/.{4}/g).join("-"));
+
+// Replace the user's recovery codes with a new set; returns the plain codes to show once
+const replaceRecoveryCodes = async (db, userId) => {
+  const codes = generateRecoveryCodes();
+  await db.query("DELETE FROM user_recovery_codes WHERE user_id = $1", [userId]);
+  for (const code of codes) {
+    await db.query("INSERT INTO user_recovery_codes (user_id, code_hash) VALUES ($1, $2)", [userId, hashRecoveryCode(code)]);
+  }
+  return codes;
+};
+
+const remainingRecoveryCodes = async (db, userId) => {
+  const { rows } = await db.query(
+    "SELECT COUNT(*) AS remaining FROM user_recovery_codes WHERE user_id = $1 AND used_at IS NULL",
+    [userId]
+  );
+  return Number(rows[0].remaining);
+};
+
+/**
+ * Check a TOTP code against the user's stored secret (`user` has totp_secret and
+ * totp_last_step) and record its step. Returns false for a wrong or already used code.
+ */
+const verifyTotpCode = async (db, user, code, secret = null) => {
+  const plainSecret = secret || (user.totp_secret ? decryptSecret(user.totp_secret) : null);
+  if (!plainSecret) return false;
+  const step = matchTotp(plainSecret, code, user.totp_last_step);
+  if (step == null) return false;
+  // Only one request can record a given step
+  const { rowCount } = await db.query(
+    `UPDATE users SET totp_last_step = $2
+      WHERE id = $1 AND (totp_last_step IS NULL OR totp_last_step < $2)`,
+    [user.id, step]
+  );
+  return rowCount === 1;
+};
+
+// Use up a recovery code; returns false when it is unknown or already used
+const useRecoveryCode = async (db, userId, code) => {
+  if (!normalizeRecoveryCode(code)) return false;
+  const { rowCount } = await db.query(
+    `UPDATE user_recovery_codes SET used_at = NOW()
+      WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL`,
+    [userId, hashRecoveryCode(code)]
+  );
+  return rowCount === 1;
+};
+
+/**
+ * Second factor of a login or a sensitive change: a TOTP `code`, or else a `recoveryCode`.
+ * Returns { method: "totp" | "recovery_code" } or null.
+ */
+const verifySecondFactor = async (db, user, { code, recoveryCode }) => {
+  if (code && (await verifyTotpCode(db, user, code))) return { method: "totp" };
+  if (!code && recoveryCode && (await useRecoveryCode(db, user.id, recoveryCode))) return { method: "recovery_code" };
+  return null;
+};
+
+/**
+ * Take one of the user's login code attempts. Returns false while the step is locked:
+ * TWO_FACTOR_MAX_ATTEMPTS wrong codes in a row lock it for TWO_FACTOR_LOCKOUT_MINUTES.
+ * The attempt is counted before the code is checked, so parallel guesses cannot get past the limit.
+ */
+const startLoginAttempt = async (db, userId) => {
+  const { rowCount } = await db.query(
+    `UPDATE users
+        SET totp_failed_attempts = CASE WHEN totp_locked_until <= NOW() THEN 1 ELSE totp_failed_attempts + 1 END,
+            totp_locked_until = CASE WHEN totp_locked_until <= NOW() THEN NULL ELSE totp_locked_until END
+      WHERE id = $1
+        AND (totp_failed_attempts < $2 OR totp_locked_until <= NOW())`,
+    [userId, config.TWO_FACTOR_MAX_ATTEMPTS]
+  );
+  return rowCount === 1;
+};
+
+// Settle an attempt from startLoginAttempt: a correct code clears the count, the last wrong one locks
+const finishLoginAttempt = async (db, userId, passed) => {
+  if (passed) {
+    await db.query("UPDATE users SET totp_failed_attempts = 0, totp_locked_until = NULL WHERE id = $1", [userId]);
+    return;
+  }
+  await db.query(
+    `UPDATE users SET totp_locked_until = NOW() + make_interval(mins => $3)
+      WHERE id = $1 AND totp_failed_attempts >= $2 AND totp_locked_until IS NULL`,
+    [userId, config.TWO_FACTOR_MAX_ATTEMPTS, config.TWO_FACTOR_LOCKOUT_MINUTES]
+  );
+};
+
+const isTwoFactorRequired = (user) => REQUIRED_ROLES.includes(user.role);
+
+/**
+ * Challenge token for the step after the password. purpose "login" asks for a code;
+ * "setup" lets a user who must use 2FA enroll before getting a session.
+ */
+const createChallenge = (user, purpose) =>
+  jwt.sign({ id: user.id, purpose }, config.TWO_FACTOR_CHALLENGE_SECRET, { expiresIn: config.TWO_FACTOR_CHALLENGE_EXPIRY });
+
+// The challenge's user id when the token is valid for `purpose`, otherwise null
+const readChallenge = (token, purpose) => {
+  try {
+    const payload = jwt.verify(token, config.TWO_FACTOR_CHALLENGE_SECRET);
+    return payload.purpose === purpose ? payload.id : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+module.exports = {
+  generateSecret,
+  codeForStep,
+  currentStep,
+  matchTotp,
+  encryptSecret,
+  decryptSecret,
+  otpauthUrl,
+  qrCodeDataUrl,
+  replaceRecoveryCodes,
+  remainingRecoveryCodes,
+  verifyTotpCode,
+  verifySecondFactor,
+  startLoginAttempt,
+  finishLoginAttempt,
+  isTwoFactorRequired,
+  createChallenge,
+  readChallenge,
+};
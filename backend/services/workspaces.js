@@ -0,0 +1,255 @@
+// Team workspaces. Each subscriber owns one workspace (organization); its clients, transactions,
+// invoices and settings are the rows whose user_id is the owner's id. Staff join by emailed
+// invitation with a role, and each role grants a set of permissions checked per route.
+const crypto = require("crypto");
+const bcrypt = require("bcryptjs");
+const config = require("../config");
+const { sendMail, escapeHtml } = require("./mailer");
+const { MIN_PASSWORD_LENGTH } = require("./passwordReset");
+
+const ROLES = ["owner", "accountant", "data_entry", "viewer"];
+// Roles an owner can give; ownership itself is not transferable
+const MEMBER_ROLES = ["accountant", "data_entry", "viewer"];
+
+// view: every GET, exports and PDFs; audit: the activity log; the rest are the writes in each area
+const ROLE_PERMISSIONS = {
+  owner: ["view", "clients", "transactions", "invoices", "payouts", "rules", "settings", "members", "audit"],
+  accountant: ["view", "clients", "transactions", "invoices", "payouts", "rules", "audit"],
+  data_entry: ["view", "clients", "transactions"],
+  viewer: ["view"],
+};
+
+const ROLE_LABELS = {
+  owner: "Owner",
+  accountant: "Accountant",
+  data_entry: "Data entry",
+  viewer: "Viewer",
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const hashToken = (token) => crypto.createHash("sha256").update(token).digest("hex");
+
+const inviteLink = (token) => `${config.APP_URL.replace(/\/$/, "")}/accept-invite?token=${token}`;
+
+const hasPermission = (role, permission) => (ROLE_PERMISSIONS[role] || []).includes(permission);
+
+// The workspace a new subscriber owns; admins creating users and sign-up call this
+const createWorkspace = async (db, user) => {
+  const { rows } = await db.query(
+    `INSERT INTO organizations (name, owner_id)
+     VALUES ($1, $2)
+     ON CONFLICT (owner_id) DO UPDATE SET owner_id = EXCLUDED.owner_id
+     RETURNING id`,
+    [user.email, user.id]
+  );
+  await db.query(
+    `INSERT INTO organization_members (organization_id, user_id, role)
+     VALUES ($1, $2, 'owner')
+     ON CONFLICT (organization_id, user_id) DO NOTHING`,
+    [rows[0].id, user.id]
+  );
+  return rows[0].id;
+};
+
+/**
+ * The workspace a request acts in: `requestedId` (the X-Workspace-Id header) when the user is a
+ * member of it, otherwise their own workspace or, for staff, the one they joined first. Returns
+ * { id, name, role, owner } with the owner's account fields, or null.
+ */
+const resolveWorkspace = async (db, userId, requestedId = null) => {
+  if (requestedId && !UUID_PATTERN.test(requestedId)) return null;
+
+  const { rows } = await db.query(
+    `SELECT o.id, o.name, m.role,
+            ou.id AS owner_id, ou.email AS owner_email, ou.role AS owner_role,
+            ou.subscription_status, ou.subscription_end_date, ou.email_verified_at
+       FROM organization_members m
+       JOIN organizations o ON o.id = m.organization_id
+       JOIN users ou ON ou.id = o.owner_id
+      WHERE m.user_id = $1
+        AND ($2::uuid IS NULL OR o.id = $2)
+      ORDER BY (m.role = 'owner') DESC, m.created_at
+      LIMIT 1`,
+    [userId, requestedId]
+  );
+  const row = rows[0];
+  if (!row) return null;
+
+  return {
+    id: row.id,
+    name: row.name,
+    role: row.role,
+    owner: {
+      id: row.owner_id,
+      email: row.owner_email,
+      role: row.owner_role,
+      subscription_status: row.subscription_status,
+      subscription_end_date: row.subscription_end_date,
+      email_verified_at: row.email_verified_at,
+    },
+  };
+};
+
+// Workspaces the user belongs to, their own first
+const listWorkspaces = async (db, userId) => {
+  const { rows } = await db.query(
+    `SELECT o.id, o.name, m.role, ou.email AS owner_email
+       FROM organization_members m
+       JOIN organizations o ON o.id = m.organization_id
+       JOIN users ou ON ou.id = o.owner_id
+      WHERE m.user_id = $1
+      ORDER BY (m.role = 'owner') DESC, m.created_at`,
+    [userId]
+  );
+  return rows;
+};
+
+const listMembers = async (db, organizationId) => {
+  const { rows } = await db.query(
+    `SELECT u.id, u.email, m.role, m.created_at AS joined_at
+       FROM organization_members m
+       JOIN users u ON u.id = m.user_id
+      WHERE m.organization_id = $1
+      ORDER BY (m.role = 'owner') DESC, m.created_at`,
+    [organizationId]
+  );
+  return rows;
+};
+
+const listInvitations = async (db, organizationId) => {
+  const { rows } = await db.query(
+    `SELECT id, email, role, expires_at, created_at
+       FROM organization_invitations
+      WHERE organization_id = $1
+        AND accepted_at IS NULL
+      ORDER BY created_at DESC`,
+    [organizationId]
+  );
+  return rows;
+};
+
+/**
+ * Invite `email` to the workspace with `role`, replacing an open invitation for the same email.
+ * Returns { invitation, token } (the raw token to email) or { status, error }.
+ */
+const createInvitation = async (db, { organizationId, email, role, invitedBy }) => {
+  if (!MEMBER_ROLES.includes(role)) {
+    return { status: 400, error: `role must be one of: ${MEMBER_ROLES.join(", ")}.` };
+  }
+
+  const { rows: members } = await db.query(
+    `SELECT 1
+       FROM organization_members m
+       JOIN users u ON u.id = m.user_id
+      WHERE m.organization_id = $1 AND lower(u.email) = lower($2)`,
+    [organizationId, email]
+  );
+  if (members.length > 0) {
+    return { status: 409, error: "This person is already a member of the workspace." };
+  }
+
+  const token = crypto.randomBytes(32).toString("hex");
+  await db.query(
+    `DELETE FROM organization_invitations
+      WHERE organization_id = $1 AND lower(email) = lower($2) AND accepted_at IS NULL`,
+    [organizationId, email]
+  );
+  const { rows } = await db.query(
+    `INSERT INTO organization_invitations (organization_id, email, role, token_hash, invited_by, expires_at)
+     VALUES ($1, $2, $3, $4, $5, NOW() + make_interval(days => $6))
+     RETURNING id, email, role, expires_at, created_at`,
+    [organizationId, email, role, hashToken(token), invitedBy, config.WORKSPACE_INVITATION_TTL_DAYS]
+  );
+  return { invitation: rows[0], token };
+};
+
+// Email the invitation link for a token from createInvitation
+const sendInvitationEmail = async ({ email, role, workspaceName, inviterEmail, token }) => {
+  const link = inviteLink(token);
+  await sendMail({
+    to: email,
+    subject: `You have been invited to ${workspaceName}`,
+    text:
+      `${inviterEmail} invited you to the ${workspaceName} workspace as ${ROLE_LABELS[role]}.\n\n` +
+      `Open this link to accept (valid for ${config.WORKSPACE_INVITATION_TTL_DAYS} days):\n${link}\n\n` +
+      "If you did not expect this, you can ignore this email.",
+    html:
+      `<p>${escapeHtml(inviterEmail)} invited you to the <strong>${escapeHtml(workspaceName)}</strong> workspace as ${ROLE_LABELS[role]}.</p>` +
+      `<p><a href="${link}">Accept the invitation</a> (valid for ${config.WORKSPACE_INVITATION_TTL_DAYS} days).</p>` +
+      "<p>If you did not expect this, you can ignore this email.</p>",
+  });
+};
+
+/**
+ * Accept an invitation inside a transaction (`client` from withTransaction). Someone without an
+ * account sets a `password` and gets one that can sign in but owns no workspace of its own.
+ * Returns { workspace: { id, name }, user: { id, email }, role, created } or { status, error }.
+ */
+const acceptInvitation = async (client, token, password) => {
+  const { rows } = await client.query(
+    `SELECT i.id, i.organization_id, i.email, i.role, i.invited_by, i.expires_at, i.accepted_at, o.name
+       FROM organization_invitations i
+       JOIN organizations o ON o.id = i.organization_id
+      WHERE i.token_hash = $1
+      FOR UPDATE OF i`,
+    [hashToken(token)]
+  );
+  const invitation = rows[0];
+  if (!invitation || invitation.accepted_at || new Date(invitation.expires_at) <= new Date()) {
+    return { status: 400, error: "This invitation is invalid or has expired. Ask for a new one." };
+  }
+
+  const { rows: users } = await client.query(
+    "SELECT id, email FROM users WHERE lower(email) = lower($1)",
+    [invitation.email]
+  );
+  let user = users[0];
+  const created = !user;
+  if (!user) {
+    if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+      return { status: 400, error: `Choose a password of at least ${MIN_PASSWORD_LENGTH} characters to create your account.` };
+    }
+    // The emailed link confirms the address; access comes from the workspace owner's subscription
+    const { rows: inserted } = await client.query(
+      `INSERT INTO users (email, password_hash, role, subscription_status, email_verified_at, approved_at, approved_by)
+       VALUES ($1, $2, 'user', 'active', NOW(), NOW(), $3)
+       RETURNING id, email`,
+      [invitation.email, await bcrypt.hash(password, 10), invitation.invited_by]
+    );
+    user = inserted[0];
+  }
+
+  await client.query(
+    `INSERT INTO organization_members (organization_id, user_id, role, invited_by)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (organization_id, user_id) DO NOTHING`,
+    [invitation.organization_id, user.id, invitation.role, invitation.invited_by]
+  );
+  await client.query(
+    "UPDATE organization_invitations SET accepted_at = NOW(), accepted_by = $2 WHERE id = $1",
+    [invitation.id, user.id]
+  );
+
+  return {
+    workspace: { id: invitation.organization_id, name: invitation.name },
+    user: { id: user.id, email: user.email },
+    role: invitation.role,
+    created,
+  };
+};
+
+module.exports = {
+  ROLES,
+  MEMBER_ROLES,
+  ROLE_PERMISSIONS,
+  hasPermission,
+  createWorkspace,
+  resolveWorkspace,
+  listWorkspaces,
+  listMembers,
+  listInvitations,
+  createInvitation,
+  sendInvitationEmail,
+  acceptInvitation,
+};
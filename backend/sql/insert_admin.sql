@@ -2,3 +2,12 @@ INSERT INTO users (email, password_hash, role, subscription_status, subscription
 VALUES ('admin@example.com', '$2b$12$xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx', 'admin', 'active', NOW() + INTERVAL '100 years')
 ON CONFLICT (email) DO UPDATE SET password_hash = EXCLUDED.password_hash
 RETURNING id;
+
+INSERT INTO organizations (name, owner_id)
+SELECT email, id FROM users WHERE email = 'admin@example.com'
+ON CONFLICT (owner_id) DO NOTHING;
+
+INSERT INTO organization_members (organization_id, user_id, role)
+SELECT id, owner_id, 'owner' FROM organizations
+ WHERE owner_id = (SELECT id FROM users WHERE email = 'admin@example.com')
+ON CONFLICT (organization_id, user_id) DO NOTHING;
@@ -40,14 +40,44 @@
     return { status: res.status, body: json };
   }
 
-  async function login(creds) {
+  async function get(url, token) {
+    const res = await fetch(base + url, { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+    const text = await res.text();
+    let json = null;
+    try { json = JSON.parse(text); } catch (e) { json = text; }
+    return { status: res.status, body: json };
+  }
+
+  const { codeForStep, currentStep } = require('../services/twoFactor');
+  const totp = (secret, offset = 0) => codeForStep(secret, currentStep() + offset);
+
+  // Subscription dates only move with the clock, so the lifecycle steps set them in the
+  // database the server uses (DATABASE_URL, or backend/.env)
+  require('dotenv').config();
+  const { query: sql } = require('../db');
+
+  // Admins must use 2FA: the first run enrolls the admin; later runs need ADMIN_TOTP_SECRET
+  async function login(creds, totpSecret) {
     const r = await post('/api/auth/login', creds);
     ok(r.status === 200, 'Login failed for ' + creds.email + ' status=' + r.status + ' body=' + JSON.stringify(r.body));
+    if (r.body.twoFactorSetupRequired) {
+      const setup = await post('/api/auth/2fa/setup', { challengeToken: r.body.challengeToken });
+      const enabled = await post('/api/auth/2fa/enable', { challengeToken: r.body.challengeToken, code: totp(setup.body.secret) });
+      ok(enabled.status === 200 && enabled.body.token, '2FA enrollment failed for ' + creds.email + ': ' + JSON.stringify(enabled.body));
+      console.log(`Enrolled ${creds.email} in 2FA; run again with ADMIN_TOTP_SECRET=${setup.body.secret}`);
+      return enabled.body;
+    }
+    if (r.body.twoFactorRequired) {
+      ok(totpSecret, creds.email + ' has 2FA on; set ADMIN_TOTP_SECRET to its secret');
+      const verified = await post('/api/auth/login/2fa', { challengeToken: r.body.challengeToken, code: totp(totpSecret) });
+      ok(verified.status === 200, '2FA login failed for ' + creds.email + ': ' + JSON.stringify(verified.body));
+      return verified.body;
+    }
     return r.body;
   }
 
   console.log('Logging in as admin...');
-  const admin = await login(adminCreds);
+  const admin = await login(adminCreds, process.env.ADMIN_TOTP_SECRET);
   const adminToken = admin.token;
 
   console.log('Creating test user via admin...');
@@ -74,8 +104,531 @@
   ok(t2.status === 400, 'Negative payout_amount should return 400, got ' + t2.status + ' body=' + JSON.stringify(t2.body));
 
   console.log('3) Create valid transaction -> expect 201');
-  const t3 = await post('/api/transactions', { client_id: client.id, incoming_amount_thb: 1500, payout_amount: 1400, payout_currency: 'THB', transaction_date: new Date().toISOString(), source_platform: 'test' }, userToken);
+  const t3 = await post('/api/transactions', { client_id: client.id, incoming_amount_thb: 1500, payout_amount: 1350, payout_currency: 'THB', transaction_date: new Date().toISOString(), source_platform: 'test' }, userToken);
   ok(t3.status === 201, 'Valid transaction should return 201, got ' + t3.status + ' body=' + JSON.stringify(t3.body));
+  ok(Number(t3.body.payout_amount) === 1350 && Number(t3.body.commission_amount) === 150, 'Server should store calculated payout/commission, got ' + JSON.stringify(t3.body));
+
+  console.log('4) Try creating transaction with payout_amount that disagrees with commission -> expect 400');
+  const t4 = await post('/api/transactions', { client_id: client.id, incoming_amount_thb: 1500, payout_amount: 1500, payout_currency: 'THB', transaction_date: new Date().toISOString() }, userToken);
+  ok(t4.status === 400, 'Inconsistent payout_amount should return 400, got ' + t4.status + ' body=' + JSON.stringify(t4.body));
+
+  console.log('5) Preview MMK payout -> expect calculated breakdown');
+  const t5 = await post('/api/transactions/preview', { client_id: client.id, incoming_amount_thb: 1000, exchange_rate_mmk: 120, payout_currency: 'MMK' }, userToken);
+  ok(t5.status === 200 && t5.body.net_amount === 900 && t5.body.payout_amount === 108000, 'Preview should return net 900 / payout 108000, got ' + JSON.stringify(t5));
+
+  console.log('6) Invoice ignores client maths and rejects mismatched totals -> expect 400');
+  const i1 = await post('/api/invoices', { transaction_id: t3.body.id, net_amount: 1500 }, userToken);
+  ok(i1.status === 400, 'Mismatched invoice net_amount should return 400, got ' + i1.status + ' body=' + JSON.stringify(i1.body));
+
+  console.log('7) Draft invoices get a DRAFT- placeholder; concurrent issues get distinct, consecutive numbers');
+  const t7a = await post('/api/transactions', { client_id: client.id, incoming_amount_thb: 100, payout_currency: 'THB', transaction_date: new Date().toISOString() }, userToken);
+  const t7b = await post('/api/transactions', { client_id: client.id, incoming_amount_thb: 200, payout_currency: 'THB', transaction_date: new Date().toISOString() }, userToken);
+  const d1 = await post('/api/invoices', { transaction_ids: [t7a.body.id], status: 'draft' }, userToken);
+  const d2 = await post('/api/invoices', { transaction_ids: [t7b.body.id], status: 'draft' }, userToken);
+  ok(d1.status === 201 && d1.body.invoice_number.startsWith('DRAFT-'), 'Draft should get a DRAFT- number, got ' + JSON.stringify(d1.body));
+  const [n1, n2] = await Promise.all([
+    post(`/api/invoices/${d1.body.id}/issue`, {}, userToken),
+    post(`/api/invoices/${d2.body.id}/issue`, {}, userToken),
+  ]);
+  ok(n1.status === 200 && n2.status === 200, 'Concurrent issues should both succeed, got ' + n1.status + '/' + n2.status);
+  const seqs = [n1.body.invoice_number, n2.body.invoice_number].map((n) => Number(n.split('-').pop())).sort((a, b) => a - b);
+  ok(seqs[1] - seqs[0] === 1, 'Issued numbers should be consecutive, got ' + n1.body.invoice_number + ', ' + n2.body.invoice_number);
+
+  console.log('8) Editing a transaction does not change its issued invoice; revising re-bills the current data');
+  const e1 = await put(`/api/transactions/${t7a.body.id}`, { client_id: client.id, incoming_amount_thb: 300, payout_currency: 'THB', transaction_date: new Date().toISOString() }, userToken);
+  ok(e1.status === 200, 'Transaction edit should succeed, got ' + e1.status + ' body=' + JSON.stringify(e1.body));
+  const frozen = (await get('/api/invoices', userToken)).body.find((inv) => inv.id === d1.body.id);
+  ok(frozen.total_amount === 100, 'Issued invoice should keep its frozen total 100, got ' + frozen.total_amount);
+  const r1 = await post(`/api/invoices/${d1.body.id}/revise`, { reason: 'Amount corrected' }, userToken);
+  ok(r1.status === 201 && Number(r1.body.total_amount) === 300 && r1.body.revises_invoice_id === d1.body.id, 'Revision should bill 300 and reference the original, got ' + JSON.stringify(r1));
+
+  console.log('9) Partial credit note reduces the outstanding payout; over-crediting is rejected; invoiced transactions cannot be deleted');
+  const revised = (await get('/api/invoices', userToken)).body.find((inv) => inv.id === r1.body.id);
+  const c1 = await post(`/api/invoices/${revised.id}/credit-notes`, { reason: 'Partial refund', items: [{ invoice_item_id: revised.items[0].id, incoming_amount_thb: 100 }] }, userToken);
+  ok(c1.status === 201 && c1.body.net_amount === 90 && !c1.body.credit_note_number.startsWith('INV'), 'Credit note should net 90 with its own number, got ' + JSON.stringify(c1));
+  const c2 = await post(`/api/invoices/${revised.id}/credit-notes`, { reason: 'Too much', items: [{ invoice_item_id: revised.items[0].id, incoming_amount_thb: 250 }] }, userToken);
+  ok(c2.status === 400, 'Crediting more than remains should return 400, got ' + c2.status);
+  const p1 = await post(`/api/invoices/${revised.id}/payments`, { method: 'bank_transfer' }, userToken);
+  ok(p1.status === 201 && p1.body.amount === 180, 'Payment should be the payout less credits (270 - 90), got ' + JSON.stringify(p1.body));
+  const invoicedDelete = await fetch(base + `/api/transactions/${t7a.body.id}`, { method: 'DELETE', headers: { Authorization: `Bearer ${userToken}` } });
+  ok(invoicedDelete.status === 409, 'Deleting an invoiced transaction should return 409, got ' + invoicedDelete.status);
+  ok((await sql('SELECT 1 FROM transactions WHERE id = $1', [t7a.body.id])).rows.length === 1, 'The invoiced transaction should still exist');
+
+  console.log('10) CSV import dry run reports bad rows; committing saves only the valid ones');
+  const csv = [
+    'Client,Date,Incoming THB,Payout ID',
+    `${client.id},2025-01-15,"1,000",IMP-1`,
+    'Nobody,15/01/2025,500,IMP-2',
+    `${client.id},not a date,500,IMP-3`,
+  ].join('\n');
+  async function importCsv(query) {
+    const res = await fetch(base + '/api/transactions/import' + query, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/csv', Authorization: `Bearer ${userToken}` },
+      body: csv,
+    });
+    return { status: res.status, body: await res.json() };
+  }
+  const im1 = await importCsv('');
+  ok(im1.status === 200 && im1.body.dry_run === true && im1.body.summary.valid_rows === 1 && im1.body.summary.invalid_rows === 2, 'Dry run should report 1 valid / 2 invalid rows, got ' + JSON.stringify(im1.body.summary));
+  ok(im1.body.rows[0].values.incoming_amount_thb === 1000, 'Thousands separators should be stripped, got ' + JSON.stringify(im1.body.rows[0].values));
+  const im2 = await importCsv('?dry_run=false');
+  ok(im2.status === 201 && im2.body.created === 1, 'Commit should create 1 transaction, got ' + JSON.stringify(im2.body));
+  const im3 = await importCsv('');
+  ok(im3.body.rows[0].valid === false, 'Re-importing the same payout ID should be flagged as a duplicate');
+
+  console.log('11) CSV export honours the client and date filters; bad filters return 400');
+  const exp1 = await fetch(base + `/api/transactions/export?format=csv&client_id=${client.id}&from=2025-01-15&to=2025-01-15`, { headers: { Authorization: `Bearer ${userToken}` } });
+  const expLines = (await exp1.text()).trim().split('\r\n');
+  ok(exp1.status === 200 && expLines.length === 2 && expLines[1].includes('IMP-1'), 'Export should contain only the imported IMP-1 row, got ' + JSON.stringify(expLines));
+  const exp2 = await get('/api/invoices/export?format=json&from=2025-02-01&to=2025-01-01', userToken);
+  ok(exp2.status === 400, 'Export with from after to should return 400, got ' + exp2.status);
+
+  console.log('12) The rate in force on a date is the latest one on or before it; duplicates return 409');
+  const rateA = await post('/api/exchange-rates', { base_currency: 'THB', quote_currency: 'MMK', rate: 110, effective_date: '2024-12-01' }, userToken);
+  const rateB = await post('/api/exchange-rates', { base_currency: 'THB', quote_currency: 'MMK', rate: 120, effective_date: '2025-01-10' }, userToken);
+  ok(rateA.status === 201 && rateB.status === 201, 'Rates should be created, got ' + rateA.status + '/' + rateB.status);
+  const eff1 = await get('/api/exchange-rates/effective?date=2025-01-09', userToken);
+  const eff2 = await get('/api/exchange-rates/effective?date=2025-01-10', userToken);
+  ok(eff1.body.thb_mmk.rate === 110 && eff2.body.thb_mmk.rate === 120 && eff1.body.usd_thb === null, 'Effective rates should switch on 2025-01-10, got ' + JSON.stringify([eff1.body, eff2.body]));
+  const rateDup = await post('/api/exchange-rates', { base_currency: 'THB', quote_currency: 'MMK', rate: 121, effective_date: '2025-01-10' }, userToken);
+  ok(rateDup.status === 409, 'Duplicate pair/date should return 409, got ' + rateDup.status);
+  const usdTx = await post('/api/transactions', { client_id: client.id, incoming_amount_thb: 3420, original_amount_usd: 100, payout_currency: 'THB', transaction_date: '2025-01-10' }, userToken);
+  ok(usdTx.status === 201 && Number(usdTx.body.usd_thb_rate) === 34.2, 'Transaction should store the implied USD/THB rate 34.2, got ' + JSON.stringify(usdTx.body));
+
+  console.log('13) Fee rules fill in fees by specificity; a manual fee (even 0) overrides the rule');
+  const fr1 = await post('/api/fee-rules', { name: 'Withdrawal 1%', fee_type: 'platform_withdrawal', calculation: 'percentage', amount: 1 }, userToken);
+  const fr2 = await post('/api/fee-rules', { name: 'Transfer', fee_type: 'bank_transfer', calculation: 'flat', amount: 20 }, userToken);
+  const fr3 = await post('/api/fee-rules', { name: 'Wise transfer', fee_type: 'bank_transfer', calculation: 'flat', amount: 30, source_platform: 'Wise' }, userToken);
+  ok(fr1.status === 201 && fr2.status === 201 && fr3.status === 201, 'Fee rules should be created, got ' + [fr1.status, fr2.status, fr3.status]);
+  const frBad = await post('/api/fee-rules', { name: 'Bad tiers', fee_type: 'fx', calculation: 'tiered', tiers: [{ up_to: 1000, calculation: 'flat', amount: 5 }] }, userToken);
+  ok(frBad.status === 400, 'Tiers without an open-ended last tier should return 400, got ' + frBad.status);
+  const feeTx = await post('/api/transactions', { client_id: client.id, incoming_amount_thb: 1000, payout_currency: 'THB', source_platform: 'wise', transaction_date: '2025-01-11' }, userToken);
+  ok(feeTx.status === 201 && Number(feeTx.body.fees) === 40 && feeTx.body.fee_items.length === 2, 'Rules should charge 10 + 30 (platform rule beats global), got ' + JSON.stringify(feeTx.body));
+  const feeEdit = await put(`/api/transactions/${feeTx.body.id}`, { client_id: client.id, incoming_amount_thb: 1000, payout_currency: 'THB', source_platform: 'Wise', transaction_date: '2025-01-11', fee_items: [{ fee_type: 'bank_transfer', amount: 0 }] }, userToken);
+  ok(feeEdit.status === 200 && Number(feeEdit.body.fees) === 10, 'A manual 0 transfer fee should waive the rule, got ' + JSON.stringify(feeEdit.body));
+
+  console.log('14) Commission schedules: platform rules beat all-platform tiers; tiers follow month-to-date volume; invoice exports carry the charged rate');
+  const schedClient = (await post('/api/clients', { name: 'Schedule Client', commission_percentage: 10, preferred_payout_currency: 'THB', platform_details: [{ platform_name: 'TikTok' }] }, userToken)).body;
+  const cr1 = await post('/api/commission-rules', { client_id: schedClient.id, source_platform: 'tiktok', commission_percentage: 8, effective_from: '2025-01-01' }, userToken);
+  const cr2 = await post('/api/commission-rules', { client_id: schedClient.id, min_monthly_volume: 1000, commission_percentage: 5, effective_from: '2025-01-01' }, userToken);
+  ok(cr1.status === 201 && cr1.body.source_platform === 'TikTok' && cr2.status === 201, 'Commission rules should be created, got ' + JSON.stringify([cr1.body, cr2.body]));
+  const crBad = await post('/api/commission-rules', { client_id: schedClient.id, source_platform: 'Line', commission_percentage: 7, effective_from: '2025-01-01' }, userToken);
+  ok(crBad.status === 400, "A platform outside the client's platform_details should return 400, got " + crBad.status);
+  const crDup = await post('/api/commission-rules', { client_id: schedClient.id, source_platform: 'TikTok', commission_percentage: 9, effective_from: '2025-01-01' }, userToken);
+  ok(crDup.status === 409, 'A second rule for the same platform, tier and date should return 409, got ' + crDup.status);
+  const schedTx = (body) => post('/api/transactions', { client_id: schedClient.id, incoming_amount_thb: 600, payout_currency: 'THB', ...body }, userToken);
+  const st1 = await schedTx({ source_platform: 'TikTok', transaction_date: '2025-04-02' });
+  ok(st1.status === 201 && Number(st1.body.commission_percentage) === 8 && st1.body.commission_rule_id === cr1.body.id, 'TikTok payout should use the 8% platform rule, got ' + JSON.stringify(st1.body));
+  const st2 = await schedTx({ source_platform: 'Facebook', transaction_date: '2025-04-03' });
+  ok(st2.status === 201 && Number(st2.body.commission_percentage) === 10 && st2.body.commission_rule_id === null, 'Below the tier the client default 10% should apply, got ' + JSON.stringify(st2.body));
+  const st3 = await schedTx({ source_platform: 'Facebook', transaction_date: '2025-04-04' });
+  ok(st3.status === 201 && Number(st3.body.commission_amount) === 30 && st3.body.commission_rule_id === cr2.body.id, 'Past 1000 THB this month the 5% tier should apply, got ' + JSON.stringify(st3.body));
+  const st4 = await schedTx({ source_platform: 'Facebook', transaction_date: '2025-05-01' });
+  ok(Number(st4.body.commission_percentage) === 10, 'Volume should reset in a new month, got ' + JSON.stringify(st4.body));
+  const mixedInv = await post('/api/invoices', { transaction_ids: [st1.body.id, st2.body.id] }, userToken);
+  const tierInv = await post('/api/invoices', { transaction_ids: [st3.body.id] }, userToken);
+  const rateExport = (await get(`/api/invoices/export?format=json&client_id=${schedClient.id}`, userToken)).body;
+  const exportedRate = (inv) => rateExport.find((row) => row.id === inv.body.id).commission_percentage;
+  ok(exportedRate(mixedInv) === null && exportedRate(tierInv) === 5, 'The export should carry the rate the lines were charged, got ' + JSON.stringify(rateExport));
+
+  console.log('15) Payout batches group by bank, export a CSV per bank and mark transactions paid on confirm; split payouts record no single destination');
+  const payTx = await post('/api/transactions', { client_id: client.id, incoming_amount_thb: 500, payout_currency: 'THB', transaction_date: '2025-06-01', payment_destination: { bank_name: 'KBZ Bank', account_number: '123', account_name: 'X' } }, userToken);
+  ok(payTx.status === 201, 'Payout transaction should be created, got ' + payTx.status);
+  const cands = await get('/api/payout-batches/candidates?from=2025-06-01&to=2025-06-01', userToken);
+  ok(cands.status === 200 && cands.body.some((c) => c.id === payTx.body.id && c.bank_code === 'KBZ' && c.problem === null), 'Transaction should be a KBZ candidate, got ' + JSON.stringify(cands.body));
+  const pb = await post('/api/payout-batches', { transaction_ids: [payTx.body.id] }, userToken);
+  ok(pb.status === 201 && pb.body.status === 'draft' && pb.body.banks.length === 1 && pb.body.banks[0].bank_code === 'KBZ', 'Batch should have one KBZ group, got ' + JSON.stringify(pb.body));
+  const pbFile = await fetch(base + `/api/payout-batches/${pb.body.id}/files/KBZ`, { headers: { Authorization: `Bearer ${userToken}` } });
+  const pbLines = (await pbFile.text()).trim().split('\r\n');
+  ok(pbFile.status === 200 && pbLines.length === 2 && pbLines[1].includes('123'), 'KBZ file should hold one line for account 123, got ' + JSON.stringify(pbLines));
+  const pbEdit = await put(`/api/transactions/${payTx.body.id}`, { client_id: client.id, incoming_amount_thb: 600, payout_currency: 'THB', transaction_date: '2025-06-01' }, userToken);
+  ok(pbEdit.status === 409, 'Editing a batched transaction should return 409, got ' + pbEdit.status);
+  const pbConfirm = await post(`/api/payout-batches/${pb.body.id}/confirm`, { paid_at: '2025-06-05', reference: 'KBZ-REF-1' }, userToken);
+  ok(pbConfirm.status === 200 && pbConfirm.body.status === 'confirmed' && pbConfirm.body.paid_at === '2025-06-05', 'Batch should be confirmed, got ' + JSON.stringify(pbConfirm.body));
+  const paidTx = (await get('/api/transactions', userToken)).body.find((t) => t.id === payTx.body.id);
+  ok(paidTx && paidTx.paid_at === '2025-06-05' && paidTx.payout_batch_id === pb.body.id, 'Transaction should be marked paid by the batch, got ' + JSON.stringify(paidTx));
+  const pbAgain = await post('/api/payout-batches', { transaction_ids: [payTx.body.id] }, userToken);
+  ok(pbAgain.status === 409, 'A paid transaction should not go into a second batch, got ' + pbAgain.status);
+  const splitTxs = await Promise.all(['111', '222'].map((account_number) => post('/api/transactions', { client_id: client.id, incoming_amount_thb: 100, payout_currency: 'THB', transaction_date: '2025-10-15', payment_destination: { bank_name: 'KBZ Bank', account_number, account_name: 'X' } }, userToken)));
+  const splitInv = await post('/api/invoices', { transaction_ids: splitTxs.map((t) => t.body.id) }, userToken);
+  const splitPay = await post(`/api/invoices/${splitInv.body.id}/payments`, { method: 'bank_transfer' }, userToken);
+  ok(splitPay.status === 201 && splitPay.body.payment_destination === null, 'A payment to several accounts should record no single destination, got ' + JSON.stringify(splitPay.body));
+
+  console.log('16) Client statements carry the opening balance into the period and net payouts sent');
+  const stmt = await get(`/api/clients/${client.id}/statement?from=2025-06-01&to=2025-06-30`, userToken);
+  const stmtEntry = stmt.body.entries && stmt.body.entries.find((e) => e.type === 'payout' && e.reference === 'KBZ-REF-1');
+  ok(stmt.status === 200 && stmtEntry && stmtEntry.amount === -425 && stmtEntry.description === `Payout batch ${pb.body.batch_number} (1 transaction)`, 'Statement should list the KBZ payout of 425 (500 less 10% commission, the 1% and 20 THB fee rules), got ' + JSON.stringify(stmt.body.entries));
+  const stmtThb = stmt.body.opening_balance.THB + stmt.body.totals.payouts_due.THB - (stmt.body.totals.credits.THB || 0) - stmt.body.totals.payouts_sent.THB;
+  ok(Math.abs(stmtThb - stmt.body.closing_balance.THB) < 0.01, 'Opening + due - credits - sent should equal closing, got ' + JSON.stringify(stmt.body));
+  const stmtBad = await get(`/api/clients/${client.id}/statement?from=2025-07-01&to=2025-06-01`, userToken);
+  ok(stmtBad.status === 400, 'A statement with from after to should return 400, got ' + stmtBad.status);
+  const stmtPdf = await fetch(base + `/api/clients/${client.id}/statement/pdf?from=2025-06-01&to=2025-06-30`, { headers: { Authorization: `Bearer ${userToken}` } });
+  ok(stmtPdf.status === 200 && stmtPdf.headers.get('content-type') === 'application/pdf', 'Statement PDF should download, got ' + stmtPdf.status);
+
+  console.log('17) The report summary groups by month, client and platform and compares with the previous period');
+  const rep1 = await get('/api/reports/summary?from=2025-06-01&to=2025-06-30&group_by=month', userToken);
+  ok(rep1.status === 200 && rep1.body.groups.length === 1 && rep1.body.groups[0].key === '2025-06' && rep1.body.totals.incoming_amount_thb >= 500, 'June summary should include the 500 THB payout transaction, got ' + JSON.stringify(rep1.body));
+  ok(rep1.body.previous.from === '2025-05-01' && rep1.body.previous.to === '2025-05-31', 'A whole-month range should compare with the previous month, got ' + JSON.stringify(rep1.body.previous));
+  const rep2 = await get('/api/reports/summary?from=2025-04-01&to=2025-04-30&group_by=client', userToken);
+  const rep2Group = rep2.body.groups.find((g) => g.key === schedClient.id);
+  ok(rep2Group && rep2Group.transaction_count === 3 && rep2Group.commission_amount === 138, 'Client grouping should total the April schedule transactions, got ' + JSON.stringify(rep2.body.groups));
+  const rep3 = await get('/api/reports/summary?group_by=weekday', userToken);
+  ok(rep3.status === 400, 'An unknown group_by should return 400, got ' + rep3.status);
+
+  console.log('18) Absorbed fees are not charged to the client and come off the commission in the profit report');
+  const frAbs = await post('/api/fee-rules', { name: 'FX we cover', fee_type: 'fx', calculation: 'flat', amount: 15, client_id: schedClient.id, absorbed: true }, userToken);
+  ok(frAbs.status === 201 && frAbs.body.absorbed === true, 'Absorbed fee rule should be created, got ' + JSON.stringify(frAbs.body));
+  const absTx = await post('/api/transactions', { client_id: schedClient.id, incoming_amount_thb: 1000, payout_currency: 'THB', source_platform: 'Facebook', transaction_date: '2025-08-01' }, userToken);
+  const absItem = absTx.body.fee_items && absTx.body.fee_items.find((f) => f.fee_type === 'fx');
+  ok(absTx.status === 201 && Number(absTx.body.fees) === 30 && Number(absTx.body.payout_amount) === 870 && absItem && absItem.absorbed === true, 'Only the 10 + 20 charged fees should reduce the payout, got ' + JSON.stringify(absTx.body));
+  const profit = await get('/api/reports/profit?from=2025-08-01&to=2025-08-31&group_by=client', userToken);
+  const profitGroup = profit.status === 200 && profit.body.groups.find((g) => g.key === schedClient.id);
+  ok(profitGroup && profitGroup.commission_amount === 100 && profitGroup.absorbed_fees === 15 && profitGroup.profit === 85 && profitGroup.pending_commission === 100 && profitGroup.uninvoiced_commission === 100, 'Profit should be the 100 commission less the 15 absorbed fee, got ' + JSON.stringify(profit.body));
+  const profitCsv = await fetch(base + '/api/reports/profit/export?from=2025-08-01&to=2025-08-31&group_by=client&format=csv', { headers: { Authorization: `Bearer ${userToken}` } });
+  const profitLines = (await profitCsv.text()).trim().split('\r\n');
+  ok(profitCsv.status === 200 && profitLines[profitLines.length - 1].startsWith('Total,'), 'Profit export should end with a total row, got ' + JSON.stringify(profitLines));
+
+  console.log('19) Password resets do not reveal accounts and reject bad tokens; with MAIL_TRANSPORT=file the emailed link resets the password');
+  const fpUnknown = await post('/api/auth/forgot-password', { email: `nobody+${Date.now()}@example.com` });
+  const fpKnown = await post('/api/auth/forgot-password', { email: newUserEmail });
+  ok(fpUnknown.status === 200 && fpKnown.status === 200 && fpUnknown.body.message === fpKnown.body.message, 'Forgot password should answer the same for unknown and known emails, got ' + JSON.stringify([fpUnknown, fpKnown]));
+  const rpBad = await post('/api/auth/reset-password', { token: 'not-a-real-token', newPassword: 'new-pass-123' });
+  ok(rpBad.status === 400, 'An unknown reset token should return 400, got ' + rpBad.status);
+  const rpShort = await post('/api/auth/reset-password', { token: 'not-a-real-token', newPassword: 'short' });
+  ok(rpShort.status === 400, 'A short password should return 400, got ' + rpShort.status);
+  if (process.env.MAIL_FILE_DIR) {
+    const fs = require('fs');
+    const path = require('path');
+    const mails = fs.readdirSync(process.env.MAIL_FILE_DIR).sort().map((f) => JSON.parse(fs.readFileSync(path.join(process.env.MAIL_FILE_DIR, f), 'utf8')));
+    const resetMail = mails.reverse().find((m) => m.to === newUserEmail);
+    const resetToken = resetMail && (resetMail.text.match(/token=([0-9a-f]+)/) || [])[1];
+    ok(resetToken, 'The reset email should contain a token link, got ' + JSON.stringify(resetMail));
+    const rpOk = await post('/api/auth/reset-password', { token: resetToken, newPassword: 'new-pass-123' });
+    ok(rpOk.status === 200, 'Reset with the emailed token should succeed, got ' + JSON.stringify(rpOk));
+    const rpAgain = await post('/api/auth/reset-password', { token: resetToken, newPassword: 'new-pass-456' });
+    ok(rpAgain.status === 400, 'A used reset token should return 400, got ' + rpAgain.status);
+    const oldRefresh = await post('/api/auth/refresh', { refreshToken: userLogin.refreshToken });
+    ok(oldRefresh.status === 401, 'Refresh tokens issued before the reset should be revoked, got ' + oldRefresh.status);
+    await login({ email: newUserEmail, password: 'new-pass-123' });
+  }
+
+  console.log('20) TOTP 2FA: enrollment, a login challenge, replay protection and single-use recovery codes');
+  const tfaEmail = `testtfa+${Date.now()}@example.com`;
+  const tfaCreate = await post('/api/admin/users', { email: tfaEmail, password: 'test123', role: 'user', subscription_days: 30 }, adminToken);
+  ok(tfaCreate.status === 201, 'Create 2FA user failed: ' + JSON.stringify(tfaCreate));
+  const tfaToken = (await login({ email: tfaEmail, password: 'test123' })).token;
+  const tfaSetup = await post('/api/auth/2fa/setup', {}, tfaToken);
+  ok(tfaSetup.status === 200 && tfaSetup.body.qrCode.startsWith('data:image/png') && tfaSetup.body.otpauthUrl.startsWith('otpauth://totp/'), '2FA setup should return a QR code, got ' + JSON.stringify(tfaSetup.body));
+  const tfaWrong = await post('/api/auth/2fa/enable', { code: '000000' === totp(tfaSetup.body.secret) ? '111111' : '000000' }, tfaToken);
+  ok(tfaWrong.status === 400, 'A wrong code should not enable 2FA, got ' + tfaWrong.status);
+  const tfaCode = totp(tfaSetup.body.secret);
+  const tfaEnable = await post('/api/auth/2fa/enable', { code: tfaCode }, tfaToken);
+  ok(tfaEnable.status === 200 && tfaEnable.body.recoveryCodes.length === 10 && !tfaEnable.body.token, 'Enabling 2FA should return 10 recovery codes, got ' + JSON.stringify(tfaEnable.body));
+  const tfaLogin = await post('/api/auth/login', { email: tfaEmail, password: 'test123' });
+  ok(tfaLogin.status === 200 && tfaLogin.body.twoFactorRequired && !tfaLogin.body.token, 'Login should stop at the 2FA challenge, got ' + JSON.stringify(tfaLogin.body));
+  const tfaChallengeAsToken = await get('/api/clients', tfaLogin.body.challengeToken);
+  ok(tfaChallengeAsToken.status === 401, 'A challenge token must not work as an access token, got ' + tfaChallengeAsToken.status);
+  const tfaReplay = await post('/api/auth/login/2fa', { challengeToken: tfaLogin.body.challengeToken, code: tfaCode });
+  ok(tfaReplay.status === 401, 'A code that was already used should be refused, got ' + tfaReplay.status);
+  const tfaVerified = await post('/api/auth/login/2fa', { challengeToken: tfaLogin.body.challengeToken, code: totp(tfaSetup.body.secret, 1) });
+  ok(tfaVerified.status === 200 && tfaVerified.body.token, 'The next code should complete the login, got ' + JSON.stringify(tfaVerified.body));
+  const tfaLogin2 = await post('/api/auth/login', { email: tfaEmail, password: 'test123' });
+  const tfaRecovery = await post('/api/auth/login/2fa', { challengeToken: tfaLogin2.body.challengeToken, recoveryCode: tfaEnable.body.recoveryCodes[0] });
+  ok(tfaRecovery.status === 200 && tfaRecovery.body.recoveryCodesRemaining === 9, 'A recovery code should sign in once, got ' + JSON.stringify(tfaRecovery.body));
+  const tfaRecoveryAgain = await post('/api/auth/login/2fa', { challengeToken: tfaLogin2.body.challengeToken, recoveryCode: tfaEnable.body.recoveryCodes[0] });
+  ok(tfaRecoveryAgain.status === 401, 'A used recovery code should be refused, got ' + tfaRecoveryAgain.status);
+  // The refused recovery code was the first wrong attempt; four more lock the code step
+  const tfaLogin3 = await post('/api/auth/login', { email: tfaEmail, password: 'test123' });
+  const wrongCode = totp(tfaSetup.body.secret) === '000000' ? '111111' : '000000';
+  for (let attempt = 2; attempt <= 5; attempt++) {
+    const guess = await post('/api/auth/login/2fa', { challengeToken: tfaLogin3.body.challengeToken, code: wrongCode });
+    ok(guess.status === 401, `Wrong code ${attempt} should return 401, got ` + guess.status);
+  }
+  const tfaLocked = await post('/api/auth/login/2fa', { challengeToken: tfaLogin3.body.challengeToken, code: totp(tfaSetup.body.secret, 2) });
+  ok(tfaLocked.status === 429 && tfaLocked.body.code === 'two_factor_locked', 'After five wrong codes even a right one should be refused, got ' + JSON.stringify(tfaLocked));
+  const tfaLockedFresh = await post('/api/auth/login/2fa', { challengeToken: (await post('/api/auth/login', { email: tfaEmail, password: 'test123' })).body.challengeToken, code: wrongCode });
+  ok(tfaLockedFresh.status === 429, 'A new challenge should not reset the lockout, got ' + tfaLockedFresh.status);
+  const tfaLockedCodes = await post('/api/auth/2fa/recovery-codes', { code: totp(tfaSetup.body.secret, 2) }, tfaRecovery.body.token);
+  ok(tfaLockedCodes.status === 429, 'The lockout should also stop replacing recovery codes, got ' + tfaLockedCodes.status);
+  const adminDisable = await post('/api/auth/2fa/disable', { password: adminCreds.password, recoveryCode: 'x' }, adminToken);
+  ok(adminDisable.status === 403, 'Admins should not be able to turn 2FA off, got ' + adminDisable.status);
+  const tfaDisable = await post('/api/auth/2fa/disable', { password: 'test123', recoveryCode: tfaEnable.body.recoveryCodes[1] }, tfaRecovery.body.token);
+  ok(tfaDisable.status === 200, 'A user should be able to turn 2FA off with a recovery code, got ' + JSON.stringify(tfaDisable.body));
+
+  console.log('21) Sessions: listing, signing one out, refresh token reuse revokes the family, concurrent refreshes rotate once, sign out everywhere');
+  const sessEmail = `testsess+${Date.now()}@example.com`;
+  const sessCreate = await post('/api/admin/users', { email: sessEmail, password: 'test123', role: 'user', subscription_days: 30 }, adminToken);
+  ok(sessCreate.status === 201, 'Create session user failed: ' + JSON.stringify(sessCreate));
+  const sessA = await login({ email: sessEmail, password: 'test123' });
+  const sessB = await login({ email: sessEmail, password: 'test123' });
+  const sessList = await get('/api/auth/sessions', sessB.token);
+  ok(sessList.status === 200 && sessList.body.length === 2 && sessList.body.filter((s) => s.current).length === 1, 'Both sign-ins should be listed with one current, got ' + JSON.stringify(sessList.body));
+  const rotated = await post('/api/auth/refresh', { refreshToken: sessA.refreshToken });
+  ok(rotated.status === 200 && rotated.body.refreshToken !== sessA.refreshToken, 'Refresh should rotate the token, got ' + JSON.stringify(rotated.body));
+  const quickReuse = await post('/api/auth/refresh', { refreshToken: sessA.refreshToken });
+  ok(quickReuse.status === 401, 'A rotated token should not refresh again, got ' + quickReuse.status);
+  ok((await get('/api/clients', rotated.body.token)).status === 200, 'Reuse within the grace period should leave the session signed in');
+  await new Promise((resolve) => setTimeout(resolve, 11000));
+  const lateReuse = await post('/api/auth/refresh', { refreshToken: sessA.refreshToken });
+  ok(lateReuse.status === 401, 'Reusing a rotated token should be refused, got ' + lateReuse.status);
+  const afterReuse = await post('/api/auth/refresh', { refreshToken: rotated.body.refreshToken });
+  ok(afterReuse.status === 401, 'Reuse should revoke the newer token of the same session, got ' + afterReuse.status);
+  ok((await get('/api/clients', rotated.body.token)).status === 401, 'Reuse should end the access token of the session too');
+  // Two refreshes that both read the token before either rotated it: only the first gets a child
+  const { rotateSession } = require('../services/sessions');
+  const staleRow = (await sql('SELECT * FROM refresh_tokens WHERE token = $1', [sessB.refreshToken])).rows[0];
+  const firstChild = await rotateSession({ query: sql }, staleRow, {});
+  const secondChild = await rotateSession({ query: sql }, staleRow, {});
+  ok(firstChild && secondChild === null, 'A token should rotate once, got ' + JSON.stringify([!!firstChild, secondChild]));
+  const sessBId = sessList.body.find((s) => s.current).id;
+  const liveTokens = await sql('SELECT COUNT(*)::int AS count FROM refresh_tokens WHERE family_id = $1 AND revoked = FALSE', [sessBId]);
+  ok(liveTokens.rows[0].count === 1, 'A session should keep one live refresh token, got ' + liveTokens.rows[0].count);
+  const sessC = await login({ email: sessEmail, password: 'test123' });
+  const revokeB = await fetch(base + `/api/auth/sessions/${sessBId}`, { method: 'DELETE', headers: { Authorization: `Bearer ${sessC.token}` } });
+  ok(revokeB.status === 200, 'Signing out another session should succeed, got ' + revokeB.status);
+  ok((await get('/api/clients', sessB.token)).status === 401, 'A signed-out session should lose API access');
+  ok((await get('/api/auth/session', sessB.token)).status === 401, 'A signed-out session should not load the session');
+  const signedOutChange = await post('/api/auth/change-password', { currentPassword: 'test123', newPassword: 'test456' }, sessB.token);
+  ok(signedOutChange.status === 401, 'A signed-out session should not change the password, got ' + signedOutChange.status);
+  const everywhere = await fetch(base + '/api/auth/sessions', { method: 'DELETE', headers: { Authorization: `Bearer ${sessC.token}` } });
+  ok(everywhere.status === 200 && (await get('/api/clients', sessC.token)).status === 401, 'Sign out everywhere should end the current session too, got ' + everywhere.status);
+
+  console.log('22) Sign-up: unconfirmed and pending accounts are refused with distinct codes; admins approve or reject sign-ups');
+  const signupEmail = `testsignup+${Date.now()}@example.com`;
+  const signupShort = await post('/api/auth/register', { email: signupEmail, password: 'short' });
+  ok(signupShort.status === 400, 'A short sign-up password should return 400, got ' + signupShort.status);
+  const signup = await post('/api/auth/register', { email: signupEmail, password: 'signup-pass-1' });
+  ok(signup.status === 201 && signup.body.user.subscription.status === 'pending', 'Sign-up should create a pending account, got ' + JSON.stringify(signup));
+  const signupAgain = await post('/api/auth/register', { email: signupEmail, password: 'signup-pass-1' });
+  ok(signupAgain.status === 409, 'Signing up twice with one email should return 409, got ' + signupAgain.status);
+  const unconfirmedLogin = await post('/api/auth/login', { email: signupEmail, password: 'signup-pass-1' });
+  ok(unconfirmedLogin.status === 403 && unconfirmedLogin.body.code === 'email_unverified', 'An unconfirmed account should be refused as email_unverified, got ' + JSON.stringify(unconfirmedLogin));
+  const badVerify = await post('/api/auth/verify-email', { token: 'not-a-real-token' });
+  ok(badVerify.status === 400, 'An unknown confirmation token should return 400, got ' + badVerify.status);
+  const signupUser = (await get('/api/admin/users', adminToken)).body.find((u) => u.email === signupEmail);
+  ok(signupUser && signupUser.subscription_status === 'pending' && !signupUser.email_verified_at, 'Admins should see the pending sign-up, got ' + JSON.stringify(signupUser));
+  if (process.env.MAIL_FILE_DIR) {
+    const fs = require('fs');
+    const path = require('path');
+    const mails = fs.readdirSync(process.env.MAIL_FILE_DIR).sort().map((f) => JSON.parse(fs.readFileSync(path.join(process.env.MAIL_FILE_DIR, f), 'utf8')));
+    const confirmMail = mails.reverse().find((m) => m.to === signupEmail);
+    const confirmToken = confirmMail && (confirmMail.text.match(/token=([0-9a-f]+)/) || [])[1];
+    ok(confirmToken, 'The sign-up email should contain a confirmation link, got ' + JSON.stringify(confirmMail));
+    const verified = await post('/api/auth/verify-email', { token: confirmToken });
+    ok(verified.status === 200, 'Confirming with the emailed token should succeed, got ' + JSON.stringify(verified));
+    if (verified.body.subscription.status === 'pending') {
+      const pendingLogin = await post('/api/auth/login', { email: signupEmail, password: 'signup-pass-1' });
+      ok(pendingLogin.status === 403 && pendingLogin.body.code === 'pending_approval', 'A confirmed, unapproved account should be refused as pending_approval, got ' + JSON.stringify(pendingLogin));
+    }
+  }
+  const approve = await put(`/api/admin/users/${signupUser.id}/approve`, { subscription_days: 30 }, adminToken);
+  ok(approve.status === 200, 'Approving a sign-up should succeed, got ' + JSON.stringify(approve));
+  const approveAgain = await put(`/api/admin/users/${signupUser.id}/approve`, {}, adminToken);
+  ok(approveAgain.status === 404, 'An approved account is no longer pending, got ' + approveAgain.status);
+  if (process.env.MAIL_FILE_DIR) await login({ email: signupEmail, password: 'signup-pass-1' });
+  const rejectEmail = `testreject+${Date.now()}@example.com`;
+  ok((await post('/api/auth/register', { email: rejectEmail, password: 'reject-pass-1' })).status === 201, 'Second sign-up failed');
+  const rejectUser = (await get('/api/admin/users', adminToken)).body.find((u) => u.email === rejectEmail);
+  const reject = await fetch(base + `/api/admin/users/${rejectUser.id}`, { method: 'DELETE', headers: { Authorization: `Bearer ${adminToken}` } });
+  ok(reject.status === 200, 'Rejecting a pending sign-up should succeed, got ' + reject.status);
+  const rejectActive = await fetch(base + `/api/admin/users/${signupUser.id}`, { method: 'DELETE', headers: { Authorization: `Bearer ${adminToken}` } });
+  ok(rejectActive.status === 404, 'Only pending sign-ups can be rejected, got ' + rejectActive.status);
+
+  console.log('23) Plans: limits return 402, usage is reported, and a recorded payment extends the subscription');
+  const planName = `Test Starter ${Date.now()}`;
+  const planCreate = await post('/api/admin/plans', { name: planName, price: 9, billing_period: 'monthly', max_clients: 1, max_invoices_per_month: 0, features: ['PDF invoices'] }, adminToken);
+  ok(planCreate.status === 201 && planCreate.body.max_clients === 1, 'Create plan failed: ' + JSON.stringify(planCreate));
+  const planId = planCreate.body.id;
+  const planBad = await post('/api/admin/plans', { name: `${planName} bad`, price: 9, max_clients: -1 }, adminToken);
+  ok(planBad.status === 400, 'A negative limit should return 400, got ' + planBad.status);
+  const planEmail = `testplan+${Date.now()}@example.com`;
+  const planUserCreate = await post('/api/admin/users', { email: planEmail, password: 'test123', role: 'user', subscription_days: 30, plan_id: planId }, adminToken);
+  ok(planUserCreate.status === 201 && planUserCreate.body.plan_id === planId, 'Create user on a plan failed: ' + JSON.stringify(planUserCreate));
+  const planToken = (await login({ email: planEmail, password: 'test123' })).token;
+  const firstClient = await post('/api/clients', { name: 'Plan Client 1', commission_percentage: 5 }, planToken);
+  ok(firstClient.status === 201, 'The first client should fit the plan, got ' + JSON.stringify(firstClient));
+  const secondClient = await post('/api/clients', { name: 'Plan Client 2', commission_percentage: 5 }, planToken);
+  ok(secondClient.status === 402 && secondClient.body.code === 'plan_limit_reached' && secondClient.body.limit === 1, 'A client over the plan limit should return 402, got ' + JSON.stringify(secondClient));
+  const overInvoice = await post('/api/invoices', { transaction_ids: ['00000000-0000-0000-0000-000000000000'] }, planToken);
+  ok(overInvoice.status === 402 && overInvoice.body.code === 'plan_limit_reached', 'An invoice over the monthly limit should return 402, got ' + JSON.stringify(overInvoice));
+  const planUsage = await get('/api/settings/plan', planToken);
+  ok(planUsage.status === 200 && planUsage.body.plan.name === planName && planUsage.body.usage.clients === 1, 'Plan usage should count the client, got ' + JSON.stringify(planUsage.body));
+  const planUser = (await get('/api/admin/users', adminToken)).body.find((u) => u.email === planEmail);
+  const payment = await post('/api/admin/subscription-payments', { user_id: planUser.id, amount: 9, payment_method: 'Bank transfer', payment_reference: 'TEST-REF' }, adminToken);
+  ok(payment.status === 201 && payment.body.plan_id === planId && payment.body.currency === 'USD', 'Recording a payment failed: ' + JSON.stringify(payment));
+  const paidUser = (await get('/api/admin/users', adminToken)).body.find((u) => u.email === planEmail);
+  ok(new Date(paidUser.subscription_end_date) > new Date(planUser.subscription_end_date), 'A completed payment should extend the subscription, got ' + JSON.stringify([planUser.subscription_end_date, paidUser.subscription_end_date]));
+  const paymentList = await get(`/api/admin/subscription-payments?user_id=${planUser.id}`, adminToken);
+  ok(paymentList.status === 200 && paymentList.body.payments.length === 1 && paymentList.body.totals[0].amount === 9, 'The payment should be listed with totals, got ' + JSON.stringify(paymentList.body));
+  const planDelete = await fetch(base + `/api/admin/plans/${planId}`, { method: 'DELETE', headers: { Authorization: `Bearer ${adminToken}` } });
+  ok(planDelete.status === 409, 'A plan with users should not be deleted, got ' + planDelete.status);
+  const unplanned = await put(`/api/admin/users/${planUser.id}/plan`, { plan_id: null }, adminToken);
+  ok(unplanned.status === 200 && (await post('/api/clients', { name: 'Plan Client 2', commission_percentage: 5 }, planToken)).status === 201, 'Removing the plan should lift its limits');
+
+  console.log('24) Renewal reminders: session notice before expiry, one reminder per end date, then a read-only grace period and expiry');
+  const expiringEmail = `testexpiring+${Date.now()}@example.com`;
+  ok((await post('/api/admin/users', { email: expiringEmail, password: 'test123', role: 'user', subscription_days: 1 }, adminToken)).status === 201, 'Create expiring user failed');
+  const expiringToken = (await login({ email: expiringEmail, password: 'test123' })).token;
+  const expiringSession = await get('/api/auth/session', expiringToken);
+  ok(expiringSession.body.subscription.notice && expiringSession.body.subscription.notice.code === 'expiring_soon' && !expiringSession.body.subscription.readOnly, 'A subscription ending tomorrow should show a notice, got ' + JSON.stringify(expiringSession.body.subscription));
+  const jobRun = await post('/api/admin/subscription-job/run', {}, adminToken);
+  ok(jobRun.status === 200 && jobRun.body.reminders_sent >= 1, 'The job should send the renewal reminder, got ' + JSON.stringify(jobRun));
+  ok((await post('/api/admin/subscription-job/run', {}, adminToken)).status === 200, 'Running the job again failed');
+  const expiringUser = (await get('/api/admin/users', adminToken)).body.find((u) => u.email === expiringEmail);
+  const reminders = await get(`/api/admin/subscription-events?event=renewal_reminder&user_id=${expiringUser.id}`, adminToken);
+  ok(reminders.status === 200 && reminders.body.length === 1 && reminders.body[0].days_before === 1, 'Exactly one reminder should be logged, got ' + JSON.stringify(reminders.body));
+  const badEvent = await get('/api/admin/subscription-events?event=nope', adminToken);
+  ok(badEvent.status === 400, 'An unknown event filter should return 400, got ' + badEvent.status);
+  // Through the reminder window, the read-only grace period and past it
+  const { SUBSCRIPTION_GRACE_DAYS } = require('../config');
+  const graceEmail = `testgrace+${Date.now()}@example.com`;
+  ok((await post('/api/admin/users', { email: graceEmail, password: 'test123', role: 'user', subscription_days: 30 }, adminToken)).status === 201, 'Create grace user failed');
+  const graceUser = (await get('/api/admin/users', adminToken)).body.find((u) => u.email === graceEmail);
+  const setEndDate = (days) => sql("UPDATE users SET subscription_end_date = now() + make_interval(days => $2) WHERE id = $1", [graceUser.id, days]);
+  const graceStatus = async () => (await get('/api/admin/users', adminToken)).body.find((u) => u.id === graceUser.id).subscription_status;
+  const runJob = async () => {
+    const run = await post('/api/admin/subscription-job/run', {}, adminToken);
+    ok(run.status === 200, 'Running the subscription job failed: ' + JSON.stringify(run));
+    return run.body;
+  };
+  await setEndDate(3);
+  await runJob();
+  await runJob();
+  const graceToken = (await login({ email: graceEmail, password: 'test123' })).token;
+  await setEndDate(-1);
+  const inGrace = await get('/api/auth/session', graceToken);
+  ok(inGrace.body.subscription.readOnly === true && inGrace.body.subscription.notice.code === 'grace_period', 'A day after expiry the account should be read-only in its grace period, got ' + JSON.stringify(inGrace.body.subscription));
+  const graceWrite = await post('/api/clients', { name: 'Grace Client', commission_percentage: 5 }, graceToken);
+  ok(graceWrite.status === 403 && graceWrite.body.code === 'account_read_only' && graceWrite.body.reason === 'grace_period' && graceWrite.body.grace_ends_at, 'Writes in the grace period should return 403, got ' + JSON.stringify(graceWrite));
+  ok((await get('/api/clients', graceToken)).status === 200, 'Reads should work in the grace period');
+  ok(!(await runJob()).expired.some((u) => u.id === graceUser.id) && (await graceStatus()) === 'active', 'The job should leave an account in its grace period alone');
+  await setEndDate(-(SUBSCRIPTION_GRACE_DAYS + 1));
+  ok((await runJob()).expired.some((u) => u.id === graceUser.id), 'The job should expire the account once the grace period is over');
+  await runJob();
+  ok((await graceStatus()) === 'expired', 'After the grace period the status should be expired, got ' + (await graceStatus()));
+  const graceEvents = await get(`/api/admin/subscription-events?user_id=${graceUser.id}`, adminToken);
+  const graceEventNames = graceEvents.body.map((e) => e.event).sort();
+  ok(graceEvents.status === 200 && JSON.stringify(graceEventNames) === JSON.stringify(['expired', 'renewal_reminder']), 'One reminder and one expiry should be logged for admins, got ' + JSON.stringify(graceEvents.body));
+  ok(graceEvents.body.find((e) => e.event === 'renewal_reminder').days_before === 7, 'The reminder should be the 7-day one, got ' + JSON.stringify(graceEvents.body));
+  if (process.env.MAIL_FILE_DIR) {
+    const fs = require('fs');
+    const path = require('path');
+    const reminderMails = fs.readdirSync(process.env.MAIL_FILE_DIR)
+      .map((f) => JSON.parse(fs.readFileSync(path.join(process.env.MAIL_FILE_DIR, f), 'utf8')))
+      .filter((m) => m.to === graceEmail);
+    ok(reminderMails.length === 1, 'Exactly one reminder email should be sent, got ' + reminderMails.length);
+  }
+  const expiredSession = await get('/api/auth/session', (await login({ email: graceEmail, password: 'test123' })).token);
+  ok(expiredSession.body.subscription.readOnly === true && expiredSession.body.subscription.notice.code === 'subscription_expired', 'An expired account should still sign in read-only, got ' + JSON.stringify(expiredSession.body.subscription));
+
+  console.log('25) Read-only mode: only suspended accounts are locked out; expired ones read, export and preview but change nothing');
+  ok((await put(`/api/admin/users/${expiringUser.id}/suspend`, {}, adminToken)).status === 200, 'Suspend failed');
+  const suspendedLogin = await post('/api/auth/login', { email: expiringEmail, password: 'test123' });
+  ok(suspendedLogin.status === 403 && suspendedLogin.body.code === 'suspended', 'A suspended account should be refused, got ' + JSON.stringify(suspendedLogin));
+  ok((await put(`/api/admin/users/${expiringUser.id}/reactivate`, { subscription_days: 30 }, adminToken)).status === 200, 'Reactivate failed');
+  const reactivatedToken = (await login({ email: expiringEmail, password: 'test123' })).token;
+  const reactivatedSession = await get('/api/auth/session', reactivatedToken);
+  ok(reactivatedSession.body.subscription.readOnly === false && reactivatedSession.body.subscription.notice === null, 'A renewed account should not be read-only, got ' + JSON.stringify(reactivatedSession.body.subscription));
+  const reactivatedWrite = await post('/api/clients', { name: 'Renewed Client', commission_percentage: 5 }, reactivatedToken);
+  ok(reactivatedWrite.status === 201, 'A renewed account should be able to add clients, got ' + JSON.stringify(reactivatedWrite));
+  const readOnlyEmail = `testreadonly+${Date.now()}@example.com`;
+  ok((await post('/api/admin/users', { email: readOnlyEmail, password: 'test123', role: 'user', subscription_days: 30 }, adminToken)).status === 201, 'Create read-only user failed');
+  const roSetupToken = (await login({ email: readOnlyEmail, password: 'test123' })).token;
+  const roClient = (await post('/api/clients', { name: 'Read-only Client', commission_percentage: 10 }, roSetupToken)).body;
+  const roTx = (await post('/api/transactions', { client_id: roClient.id, incoming_amount_thb: 1000, payout_currency: 'THB', transaction_date: '2025-07-01' }, roSetupToken)).body;
+  const roInvoice = (await post('/api/invoices', { transaction_ids: [roTx.id] }, roSetupToken)).body;
+  ok(roInvoice && roInvoice.id, 'Creating the read-only user\'s invoice failed: ' + JSON.stringify(roInvoice));
+  await sql("UPDATE users SET subscription_status = 'expired', subscription_end_date = now() - interval '30 days' WHERE email = $1", [readOnlyEmail]);
+  const roLogin = await login({ email: readOnlyEmail, password: 'test123' });
+  const roToken = roLogin.token;
+  const roSession = await get('/api/auth/session', roToken);
+  ok(roSession.status === 200 && roSession.body.subscription.readOnly === true && roSession.body.subscription.notice.code === 'subscription_expired', 'An expired account should sign in read-only, got ' + JSON.stringify(roSession.body.subscription));
+  for (const url of ['/api/clients', '/api/transactions', '/api/invoices']) {
+    const read = await get(url, roToken);
+    ok(read.status === 200 && read.body.length >= 1, `${url} should still be readable, got ` + read.status);
+  }
+  const roExport = await fetch(base + '/api/invoices/export?format=csv', { headers: { Authorization: `Bearer ${roToken}` } });
+  ok(roExport.status === 200 && (await roExport.text()).includes(roInvoice.invoice_number), 'Exports should still work, got ' + roExport.status);
+  const roPdf = await fetch(base + `/api/invoices/${roInvoice.id}/pdf`, { headers: { Authorization: `Bearer ${roToken}` } });
+  ok(roPdf.status === 200 && roPdf.headers.get('content-type') === 'application/pdf', 'Invoice PDFs should still download, got ' + roPdf.status);
+  const roPreview = await post('/api/transactions/preview', { client_id: roClient.id, incoming_amount_thb: 500, payout_currency: 'THB' }, roToken);
+  ok(roPreview.status === 200, 'Previews save nothing and should still work, got ' + JSON.stringify(roPreview));
+  const roWrites = [
+    await post('/api/clients', { name: 'Blocked Client', commission_percentage: 5 }, roToken),
+    await put(`/api/clients/${roClient.id}`, { name: 'Blocked Rename', commission_percentage: 10 }, roToken),
+    await fetch(base + `/api/transactions/${roTx.id}`, { method: 'DELETE', headers: { Authorization: `Bearer ${roToken}` } }).then(async (r) => ({ status: r.status, body: await r.json() })),
+  ];
+  ok(roWrites.every((w) => w.status === 403 && w.body.code === 'account_read_only'), 'Writes should return 403 account_read_only, got ' + JSON.stringify(roWrites));
+  const roSessions = await get('/api/auth/sessions', roToken);
+  const roRefresh = await post('/api/auth/refresh', { refreshToken: roLogin.refreshToken });
+  ok(roSessions.status === 200 && roRefresh.status === 200 && roRefresh.body.token, 'Auth endpoints should stay reachable, got ' + JSON.stringify([roSessions.status, roRefresh.body]));
+
+  console.log('26) Workspaces: owners invite staff, roles limit what staff can change');
+  const workspaces = await get('/api/workspaces', reactivatedToken);
+  ok(workspaces.status === 200 && workspaces.body.length === 1 && workspaces.body[0].role === 'owner' && workspaces.body[0].current, 'A subscriber should own one workspace, got ' + JSON.stringify(workspaces.body));
+  const strangerWorkspace = await fetch(base + '/api/clients', { headers: { Authorization: `Bearer ${reactivatedToken}`, 'X-Workspace-Id': '00000000-0000-0000-0000-000000000000' } });
+  ok(strangerWorkspace.status === 403 && (await strangerWorkspace.json()).code === 'workspace_forbidden', 'A workspace the user is not in should return 403, got ' + strangerWorkspace.status);
+  const staffEmail = `teststaff+${Date.now()}@example.com`;
+  const badRoleInvite = await post('/api/workspaces/current/invitations', { email: staffEmail, role: 'owner' }, reactivatedToken);
+  ok(badRoleInvite.status === 400, 'Inviting as owner should return 400, got ' + badRoleInvite.status);
+  const invite = await post('/api/workspaces/current/invitations', { email: staffEmail, role: 'viewer' }, reactivatedToken);
+  ok(invite.status === 201 && invite.body.role === 'viewer', 'Inviting a viewer failed: ' + JSON.stringify(invite));
+  const team = await get('/api/workspaces/current/members', reactivatedToken);
+  ok(team.status === 200 && team.body.members.length === 1 && team.body.invitations.some((i) => i.email === staffEmail), 'The open invitation should be listed, got ' + JSON.stringify(team.body));
+  const badAccept = await post('/api/workspaces/invitations/accept', { token: 'not-a-real-token', password: 'staff-pass-1' });
+  ok(badAccept.status === 400, 'An unknown invitation token should return 400, got ' + badAccept.status);
+  if (process.env.MAIL_FILE_DIR) {
+    const fs = require('fs');
+    const path = require('path');
+    const mails = fs.readdirSync(process.env.MAIL_FILE_DIR).sort().map((f) => JSON.parse(fs.readFileSync(path.join(process.env.MAIL_FILE_DIR, f), 'utf8')));
+    const inviteMail = mails.reverse().find((m) => m.to === staffEmail);
+    const inviteToken = inviteMail && (inviteMail.text.match(/token=([0-9a-f]+)/) || [])[1];
+    ok(inviteToken, 'The invitation email should contain a link, got ' + JSON.stringify(inviteMail));
+    ok((await put('/api/workspaces/current', { name: '<img src=x onerror=alert(1)>' }, reactivatedToken)).status === 200, 'Renaming the workspace failed');
+    const markupEmail = `x${staffEmail}`;
+    ok((await post('/api/workspaces/current/invitations', { email: markupEmail, role: 'viewer' }, reactivatedToken)).status === 201, 'The second invitation failed');
+    const markupMail = fs.readdirSync(process.env.MAIL_FILE_DIR).map((f) => JSON.parse(fs.readFileSync(path.join(process.env.MAIL_FILE_DIR, f), 'utf8'))).find((m) => m.to === markupEmail);
+    ok(markupMail && !markupMail.html.includes('<img') && markupMail.html.includes('&lt;img src=x'), 'The workspace name should be escaped in the email html, got ' + JSON.stringify(markupMail && markupMail.html));
+    const noPassword = await post('/api/workspaces/invitations/accept', { token: inviteToken });
+    ok(noPassword.status === 400, 'A new account needs a password, got ' + noPassword.status);
+    const accepted = await post('/api/workspaces/invitations/accept', { token: inviteToken, password: 'staff-pass-1' });
+    ok(accepted.status === 200 && accepted.body.created, 'Accepting the invitation failed: ' + JSON.stringify(accepted));
+    ok((await post('/api/workspaces/invitations/accept', { token: inviteToken, password: 'staff-pass-1' })).status === 400, 'An invitation works once');
+    const staffToken = (await login({ email: staffEmail, password: 'staff-pass-1' })).token;
+    const staffClients = await get('/api/clients', staffToken);
+    ok(staffClients.status === 200 && staffClients.body.some((c) => c.name === 'Renewed Client'), 'Staff should see the owner\'s clients, got ' + JSON.stringify(staffClients.body));
+    const viewerWrite = await post('/api/clients', { name: 'Viewer Client', commission_percentage: 5 }, staffToken);
+    ok(viewerWrite.status === 403 && viewerWrite.body.code === 'permission_denied', 'A viewer should not add clients, got ' + JSON.stringify(viewerWrite));
+    const staffId = (await get('/api/workspaces/current/members', reactivatedToken)).body.members.find((m) => m.email === staffEmail).id;
+    ok((await put(`/api/workspaces/current/members/${staffId}`, { role: 'data_entry' }, reactivatedToken)).status === 200, 'Changing the role failed');
+    const dataEntryWrite = await post('/api/clients', { name: 'Staff Client', commission_percentage: 5 }, staffToken);
+    ok(dataEntryWrite.status === 201, 'Data entry should add clients, got ' + JSON.stringify(dataEntryWrite));
+    const dataEntryInvite = await post('/api/workspaces/current/invitations', { email: `x${staffEmail}`, role: 'viewer' }, staffToken);
+    ok(dataEntryInvite.status === 403, 'Only the owner invites, got ' + dataEntryInvite.status);
+    const removeStaff = await fetch(base + `/api/workspaces/current/members/${staffId}`, { method: 'DELETE', headers: { Authorization: `Bearer ${reactivatedToken}` } });
+    ok(removeStaff.status === 200, 'Removing the member failed, got ' + removeStaff.status);
+    const removedRead = await get('/api/clients', staffToken);
+    ok(removedRead.status === 403 && removedRead.body.code === 'no_workspace', 'A removed member should lose access, got ' + JSON.stringify(removedRead));
+  }
+
+  console.log('27) Audit log: changes are recorded with their actor and old values; failed sign-ins are logged');
+  const renewedClientId = reactivatedWrite.body.id;
+  const createdEvents = await get(`/api/audit?entity_type=client&entity_id=${renewedClientId}`, reactivatedToken);
+  ok(createdEvents.status === 200 && createdEvents.body.events.some((e) => e.action === 'create' && e.actor && e.actor.email === expiringEmail), 'Creating a client should be logged with its actor, got ' + JSON.stringify(createdEvents.body));
+  const renamed = await put(`/api/clients/${renewedClientId}`, { name: 'Renamed Client', phone: '0812345678', commission_percentage: 7.5 }, reactivatedToken);
+  ok(renamed.status === 200 && renamed.body.name === 'Renamed Client' && renamed.body.phone === '0812345678' && Number(renamed.body.commission_percentage) === 7.5, 'Updating the client should return the new values, got ' + JSON.stringify(renamed));
+  const updatedEvents = await get(`/api/audit?entity_type=client&entity_id=${renewedClientId}&action=update`, reactivatedToken);
+  const updateEvent = updatedEvents.body.events[0];
+  ok(updateEvent && updateEvent.before.name === 'Renewed Client' && updateEvent.after.name === 'Renamed Client' && updateEvent.changed_fields.includes('name'), 'An update should keep the old and new values, got ' + JSON.stringify(updatedEvents.body));
+  ok((await get('/api/audit?entity_type=nope', reactivatedToken)).status === 400, 'An unknown entity_type should return 400');
+  ok((await get('/api/audit?limit=500', reactivatedToken)).status === 400, 'A limit above 200 should return 400');
+  const wrongPassword = await post('/api/auth/login', { email: expiringEmail, password: 'not-the-password' });
+  ok(wrongPassword.status === 401, 'A wrong password should return 401, got ' + wrongPassword.status);
+  const failedLogins = await get('/api/audit?entity_type=auth&action=login_failed&limit=200', adminToken);
+  ok(failedLogins.status === 200 && failedLogins.body.events.some((e) => e.entity_label === expiringEmail && e.actor === null && e.after.reason === 'wrong_password'), 'The failed sign-in should be logged without an actor, got ' + JSON.stringify(failedLogins.body));
+  const ownerLogins = await get('/api/audit?entity_type=auth&action=login_failed', reactivatedToken);
+  ok(ownerLogins.status === 200 && ownerLogins.body.events.some((e) => e.entity_label === expiringEmail), 'Owners should see their members\' sign-in events, got ' + JSON.stringify(ownerLogins.body));
 
   console.log('All transaction edge-case checks passed.');
   process.exit(0);
@@ -0,0 +1,91 @@
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from "@/components/ui/input-otp";
+import { Copy, Download } from "lucide-react";
+
+export interface TwoFactorSetupDetails {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+interface OtpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Six-digit code from the authenticator app
+export const OtpCodeInput = ({ value, onChange, onComplete, disabled }: OtpCodeInputProps) => (
+  <InputOTP
+    maxLength={6}
+    pattern={REGEXP_ONLY_DIGITS}
+    value={value}
+    onChange={onChange}
+    onComplete={onComplete}
+    disabled={disabled}
+    autoFocus
+    containerClassName="justify-center"
+  >
+    <InputOTPGroup>
+      <InputOTPSlot index={0} />
+      <InputOTPSlot index={1} />
+      <InputOTPSlot index={2} />
+    </InputOTPGroup>
+    <InputOTPSeparator />
+    <InputOTPGroup>
+      <InputOTPSlot index={3} />
+      <InputOTPSlot index={4} />
+      <InputOTPSlot index={5} />
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+// QR code to scan, with the secret for apps that cannot scan
+export const TwoFactorQrCode = ({ setup }: { setup: TwoFactorSetupDetails }) => (
+  <div className="space-y-3 text-center">
+    <img src={setup.qrCode} alt="QR code for your authenticator app" className="mx-auto h-44 w-44 rounded border" />
+    <p className="text-xs text-muted-foreground">
+      Scan with Google Authenticator, 1Password or a similar app, or enter this key:
+    </p>
+    <code className="block break-all rounded bg-muted px-2 py-1 text-xs">{setup.secret.match(/.{1,4}/g)?.join(" ")}</code>
+  </div>
+);
+
+// Recovery codes are only shown once, so offer to copy or save them
+export const RecoveryCodesList = ({ codes }: { codes: string[] }) => {
+  const text = codes.join("\n");
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`${text}\n`], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Each code signs you in once if you lose your phone. Keep them somewhere safe; they will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(text)}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+};
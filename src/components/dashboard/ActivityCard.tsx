@@ -0,0 +1,56 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCan } from "@/hooks/use-account-status";
+import ActivityLog from "./ActivityLog";
+
+const ALL = "__all__";
+
+const ENTITY_FILTERS = [
+  { value: "client", label: "Clients" },
+  { value: "transaction", label: "Transactions" },
+  { value: "invoice", label: "Invoices" },
+  { value: "user", label: "Team" },
+  { value: "auth", label: "Sign-ins" },
+] as const;
+
+type EntityFilter = (typeof ENTITY_FILTERS)[number]["value"];
+
+// The workspace's audit log for owners and accountants
+const ActivityCard = () => {
+  const [entityType, setEntityType] = useState<EntityFilter | typeof ALL>(ALL);
+  const canAudit = useCan("audit");
+
+  if (!canAudit) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Activity</CardTitle>
+            <CardDescription>Every create, update and delete in this workspace, and its members' sign-ins.</CardDescription>
+          </div>
+          <Select value={entityType} onValueChange={(value) => setEntityType(value as EntityFilter | typeof ALL)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Everything</SelectItem>
+              {ENTITY_FILTERS.map((filter) => (
+                <SelectItem key={filter.value} value={filter.value}>
+                  {filter.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ActivityLog entityType={entityType === ALL ? undefined : entityType} showEntity />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActivityCard;
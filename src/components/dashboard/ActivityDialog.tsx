@@ -0,0 +1,39 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useCan } from "@/hooks/use-account-status";
+import { History } from "lucide-react";
+import ActivityLog from "./ActivityLog";
+
+interface ActivityDialogProps {
+  entityType: "client" | "transaction" | "invoice";
+  entityId: string;
+  title: string;
+}
+
+// Who changed one client, transaction or invoice, when, and what the old values were
+const ActivityDialog = ({ entityType, entityId, title }: ActivityDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const canAudit = useCan("audit");
+
+  if (!canAudit) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Activity">
+          <History className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Activity: {title}</DialogTitle>
+          <DialogDescription>Every change to this {entityType}, newest first.</DialogDescription>
+        </DialogHeader>
+        {open && <ActivityLog entityType={entityType} entityId={entityId} />}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ActivityDialog;
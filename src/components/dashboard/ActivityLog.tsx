@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback } from "react";
+import { fetchWithAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+type EntityType = "client" | "transaction" | "invoice" | "user" | "auth";
+
+interface AuditEvent {
+  id: string;
+  actor: { id: string; email: string | null } | null;
+  entity_type: EntityType;
+  entity_id: string | null;
+  entity_label: string | null;
+  action: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changed_fields: string[];
+  ip_address: string | null;
+  created_at: string;
+}
+
+interface ActivityLogProps {
+  // Without entityType every event of the workspace is listed
+  entityType?: EntityType;
+  entityId?: string;
+  // Show which record each event is about (the workspace-wide list)
+  showEntity?: boolean;
+}
+
+const PAGE_SIZE = 25;
+
+const ACTION_LABELS: Record<string, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  import: "Imported",
+  issue: "Issued",
+  void: "Voided",
+  revise: "Revised",
+  credit_note: "Credit note",
+  payment: "Payment recorded",
+  login: "Signed in",
+  login_failed: "Sign-in failed",
+  logout: "Signed out",
+  member_invited: "Invited",
+  member_joined: "Joined",
+  member_role_changed: "Role changed",
+  member_removed: "Removed",
+};
+
+const DESTRUCTIVE_ACTIONS = ["delete", "void", "login_failed", "member_removed", "token_reuse_detected"];
+
+const actionLabel = (action: string) => ACTION_LABELS[action] ?? action.replace(/_/g, " ");
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// What changed: old → new for updates, otherwise the reason or note the event carries
+const describeChange = (event: AuditEvent) => {
+  if (event.changed_fields.length > 0 && event.before && event.after) {
+    return event.changed_fields
+      .filter((field) => field !== "fee_items")
+      .map((field) => `${field}: ${formatValue(event.before?.[field])} → ${formatValue(event.after?.[field])}`);
+  }
+  const reason = event.after?.reason ?? event.after?.void_reason;
+  return reason ? [String(reason)] : [];
+};
+
+// Audit events from /api/audit, newest first, with paging
+const ActivityLog = ({ entityType, entityId, showEntity = false }: ActivityLogProps) => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (entityType) params.set("entity_type", entityType);
+      if (entityId) params.set("entity_id", entityId);
+      const response = await fetchWithAuth(`/api/audit?${params.toString()}`);
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to load activity.");
+      }
+      const body = await response.json();
+      setEvents(body.events);
+      setTotal(body.total);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load activity.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [entityType, entityId, offset, toast]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  useEffect(() => {
+    setOffset(0);
+  }, [entityType, entityId]);
+
+  return (
+    <div className="space-y-3">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>When</TableHead>
+            <TableHead>Who</TableHead>
+            {showEntity && <TableHead>Record</TableHead>}
+            <TableHead>Action</TableHead>
+            <TableHead>Changes</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {events.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={showEntity ? 5 : 4} className="text-center text-muted-foreground">
+                {loading ? "Loading..." : "No activity recorded yet."}
+              </TableCell>
+            </TableRow>
+          ) : (
+            events.map((event) => (
+              <TableRow key={event.id}>
+                <TableCell className="whitespace-nowrap">{format(new Date(event.created_at), "MMM dd, yyyy HH:mm")}</TableCell>
+                <TableCell>
+                  <div>{event.actor?.email ?? "—"}</div>
+                  {event.ip_address && <div className="text-xs text-muted-foreground">{event.ip_address}</div>}
+                </TableCell>
+                {showEntity && (
+                  <TableCell>
+                    <span className="text-xs uppercase text-muted-foreground mr-1">{event.entity_type}</span>
+                    {event.entity_label ?? "—"}
+                  </TableCell>
+                )}
+                <TableCell>
+                  <Badge variant={DESTRUCTIVE_ACTIONS.includes(event.action) ? "destructive" : "secondary"}>
+                    {actionLabel(event.action)}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {describeChange(event).map((line) => (
+                    <div key={line} className="break-all">
+                      {line}
+                    </div>
+                  ))}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <div className="space-x-2">
+            <Button variant="outline" size="sm" disabled={offset === 0} onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}>
+              Newer
+            </Button>
+            <Button variant="outline" size="sm" disabled={offset + PAGE_SIZE >= total} onClick={() => setOffset(offset + PAGE_SIZE)}>
+              Older
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActivityLog;
@@ -4,6 +4,9 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { format } from 'date-fns';
 import UsersTab from './UsersTab';
+import PlansTab from './PlansTab';
+import SubscriptionPaymentsTab from './SubscriptionPaymentsTab';
+import SubscriptionEventsCard from './SubscriptionEventsCard';
 import { fetchWithAuth } from '@/lib/auth';
 
 const AdminDashboard = () => {
@@ -59,6 +62,8 @@ const AdminDashboard = () => {
             <Tabs defaultValue="users">
                 <TabsList>
                     <TabsTrigger value="users">Users</TabsTrigger>
+                    <TabsTrigger value="plans">Plans</TabsTrigger>
+                    <TabsTrigger value="billing">Subscription Payments</TabsTrigger>
                     <TabsTrigger value="stats">Statistics</TabsTrigger>
                 </TabsList>
 
@@ -66,6 +71,15 @@ const AdminDashboard = () => {
                     <UsersTab />
                 </TabsContent>
 
+                <TabsContent value="plans">
+                    <PlansTab />
+                </TabsContent>
+
+                <TabsContent value="billing" className="space-y-6">
+                    <SubscriptionPaymentsTab />
+                    <SubscriptionEventsCard />
+                </TabsContent>
+
                 <TabsContent value="stats">
                     <div className="grid gap-4">
                         <Card className="p-6">
@@ -0,0 +1,258 @@
+import { useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { fetchWithAuth } from "@/lib/auth";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ScrollText, FileDown } from "lucide-react";
+import { format } from "date-fns";
+import { formatDateOnly } from "@/lib/dates";
+
+type Balances = Record<string, number>;
+
+interface StatementEntry {
+  date: string;
+  type: "transaction" | "credit_note" | "payout";
+  description: string;
+  reference: string | null;
+  currency: string;
+  amount: number;
+  balance: number;
+}
+
+interface StatementInvoice {
+  id: string;
+  invoice_number: string;
+  status: string;
+  invoice_date: string;
+  payout_currency: string;
+  payout_amount: number;
+}
+
+interface Statement {
+  from: string | null;
+  to: string;
+  opening_balance: Balances;
+  closing_balance: Balances;
+  totals: {
+    transaction_count: number;
+    incoming_amount_thb: number;
+    commission_amount: number;
+    fees: number;
+    payouts_due: Balances;
+    credits: Balances;
+    payouts_sent: Balances;
+  };
+  entries: StatementEntry[];
+  invoices: StatementInvoice[];
+}
+
+interface ClientStatementDialogProps {
+  client: { id: string; name: string };
+}
+
+const ENTRY_LABELS: Record<StatementEntry["type"], string> = {
+  transaction: "Payout due",
+  credit_note: "Credit note",
+  payout: "Payout sent",
+};
+
+// First day of the current month to today, in local time
+const defaultRange = () => {
+  const now = new Date();
+  return { from: format(new Date(now.getFullYear(), now.getMonth(), 1), "yyyy-MM-dd"), to: format(now, "yyyy-MM-dd") };
+};
+
+const formatMoney = (amount: number, currency: string) =>
+  `${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+const ClientStatementDialog = ({ client }: ClientStatementDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [range, setRange] = useState(defaultRange);
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const query = `from=${range.from}&to=${range.to}`;
+
+  const fetchStatement = useCallback(
+    async (params: string) => {
+      setLoading(true);
+      try {
+        const response = await fetchWithAuth(`/api/clients/${client.id}/statement?${params}`);
+        const body = await response.json().catch(() => null);
+        if (!response.ok) throw new Error(body?.message || "Failed to load statement.");
+        setStatement(body as Statement);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : "Failed to load statement.";
+        toast({ title: "Error", description: message, variant: "destructive" });
+      } finally {
+        setLoading(false);
+      }
+    },
+    [client.id, toast]
+  );
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) {
+      const initial = defaultRange();
+      setRange(initial);
+      fetchStatement(`from=${initial.from}&to=${initial.to}`);
+    } else {
+      setStatement(null);
+    }
+  };
+
+  const handleDownload = async () => {
+    try {
+      const response = await fetchWithAuth(`/api/clients/${client.id}/statement/pdf?${query}`);
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to download statement.");
+      }
+
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `statement-${range.to}.pdf`;
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to download statement.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  };
+
+  const currencies = statement ? Object.keys(statement.closing_balance) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Statement of account">
+          <ScrollText className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Statement · {client.name}</DialogTitle>
+          <DialogDescription>
+            What is owed to the client: payouts due from transactions, less credit notes and payouts sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="flex items-end gap-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            fetchStatement(query);
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor={`statement_from_${client.id}`}>From</Label>
+            <Input
+              id={`statement_from_${client.id}`}
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange((prev) => ({ ...prev, from: e.target.value }))}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`statement_to_${client.id}`}>To</Label>
+            <Input
+              id={`statement_to_${client.id}`}
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange((prev) => ({ ...prev, to: e.target.value }))}
+              required
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={loading}>
+            {loading ? "Loading..." : "Show"}
+          </Button>
+          <Button type="button" onClick={handleDownload} disabled={!statement}>
+            <FileDown className="w-4 h-4 mr-2" />
+            PDF
+          </Button>
+        </form>
+
+        {statement && (
+          <>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="rounded-lg border p-4 space-y-1 text-sm">
+                <p className="text-muted-foreground">{statement.totals.transaction_count} transaction{statement.totals.transaction_count === 1 ? "" : "s"}</p>
+                <p>Incoming: {formatMoney(statement.totals.incoming_amount_thb, "THB")}</p>
+                <p>Commission deducted: {formatMoney(statement.totals.commission_amount, "THB")}</p>
+                <p>Fees deducted: {formatMoney(statement.totals.fees, "THB")}</p>
+              </div>
+              {currencies.map((currency) => (
+                <div key={currency} className="rounded-lg border p-4 space-y-1 text-sm">
+                  <p>Opening balance: {formatMoney(statement.opening_balance[currency], currency)}</p>
+                  <p>Payouts due: {formatMoney(statement.totals.payouts_due[currency] || 0, currency)}</p>
+                  <p>Credit notes: -{formatMoney(statement.totals.credits[currency] || 0, currency)}</p>
+                  <p>Payouts sent: -{formatMoney(statement.totals.payouts_sent[currency] || 0, currency)}</p>
+                  <p className="font-semibold">Closing balance: {formatMoney(statement.closing_balance[currency], currency)}</p>
+                </div>
+              ))}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Entry</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statement.entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No activity in this period.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  statement.entries.map((entry, idx) => (
+                    <TableRow key={`${entry.type}-${entry.reference}-${idx}`}>
+                      <TableCell>{formatDateOnly(entry.date)}</TableCell>
+                      <TableCell>
+                        <span className="block text-xs text-muted-foreground">{ENTRY_LABELS[entry.type]}</span>
+                        {entry.description}
+                      </TableCell>
+                      <TableCell>{entry.reference || "—"}</TableCell>
+                      <TableCell className="text-right">{formatMoney(entry.amount, entry.currency)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(entry.balance, entry.currency)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+
+            {statement.invoices.length > 0 && (
+              <div className="space-y-1 text-sm">
+                <p className="font-medium">Invoices in this period</p>
+                {statement.invoices.map((invoice) => (
+                  <p key={invoice.id} className="text-muted-foreground">
+                    {invoice.invoice_number} · {formatDateOnly(invoice.invoice_date)} · {invoice.status} ·{" "}
+                    {formatMoney(invoice.payout_amount, invoice.payout_currency)}
+                  </p>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClientStatementDialog;
@@ -10,6 +10,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { Plus, Pencil, Trash2, X } from "lucide-react";
+import ExportDialog from "./ExportDialog";
+import CommissionScheduleDialog from "./CommissionScheduleDialog";
+import ClientStatementDialog from "./ClientStatementDialog";
+import ActivityDialog from "./ActivityDialog";
+import RenewalCallout from "./RenewalCallout";
+import { useAccountStatus, useCan } from "@/hooks/use-account-status";
 
 interface BankAccount {
   bank_name: string;
@@ -37,6 +43,8 @@ const ClientsTab = () => {
   const [loading, setLoading] = useState(true);
   const [open, setOpen] = useState(false);
   const [editingClient, setEditingClient] = useState<Client | null>(null);
+  const { readOnly } = useAccountStatus();
+  const canEdit = useCan("clients");
   const [formData, setFormData] = useState({
     name: "",
     phone: "",
@@ -253,149 +261,156 @@ const ClientsTab = () => {
             <CardTitle>Clients</CardTitle>
             <CardDescription>Manage your clients and payout preferences</CardDescription>
           </div>
-          <Dialog open={open} onOpenChange={setOpen}>
-            <DialogTrigger asChild>
-              <Button disabled={loading}>
-                <Plus className="w-4 h-4 mr-2" />
-                {editingClient ? "Edit Client" : "Add Client"}
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-2xl">
-              <DialogHeader>
-                <DialogTitle>{editingClient ? "Edit client" : "Add new client"}</DialogTitle>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="name">Client Name</Label>
-                    <Input
-                      id="name"
-                      value={formData.name}
-                      onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="phone">Phone</Label>
-                    <Input
-                      id="phone"
-                      value={formData.phone}
-                      onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="commission">Commission %</Label>
-                    <Input
-                      id="commission"
-                      type="number"
-                      min="0"
-                      step="0.01"
-                      value={formData.commission_percentage}
-                      onChange={(e) => setFormData(prev => ({ ...prev, commission_percentage: e.target.value }))}
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="currency">Preferred Currency</Label>
-                    <Select
-                      value={formData.preferred_payout_currency}
-                      onValueChange={(value) => setFormData(prev => ({ ...prev, preferred_payout_currency: value }))}
-                    >
-                      <SelectTrigger id="currency">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="THB">THB (Thai Baht)</SelectItem>
-                        <SelectItem value="MMK">MMK (Myanmar Kyat)</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-
-                <div className="space-y-3">
-                  <div className="flex items-center justify-between">
-                    <Label>Bank Accounts</Label>
-                    <Button type="button" variant="outline" size="sm" onClick={addBankAccount}>
-                      Add bank
-                    </Button>
-                  </div>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
-                    <Input
-                      placeholder="Bank name"
-                      value={newBank.bank_name}
-                      onChange={(e) => setNewBank(prev => ({ ...prev, bank_name: e.target.value }))}
-                    />
-                    <Input
-                      placeholder="Account number"
-                      value={newBank.account_number}
-                      onChange={(e) => setNewBank(prev => ({ ...prev, account_number: e.target.value }))}
-                    />
-                    <Input
-                      placeholder="Account holder name"
-                      value={newBank.account_name}
-                      onChange={(e) => setNewBank(prev => ({ ...prev, account_name: e.target.value }))}
-                    />
-                  </div>
-                  {bankAccounts.length > 0 && (
+          <div className="flex gap-2">
+            <ExportDialog resource="clients" />
+            <Dialog open={open} onOpenChange={setOpen}>
+              {readOnly ? (
+                <RenewalCallout action="add clients" />
+              ) : canEdit && (
+                <DialogTrigger asChild>
+                  <Button disabled={loading}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    {editingClient ? "Edit Client" : "Add Client"}
+                  </Button>
+                </DialogTrigger>
+              )}
+              <DialogContent className="sm:max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>{editingClient ? "Edit client" : "Add new client"}</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      {bankAccounts.map((account, index) => (
-                        <div key={index} className="flex items-center justify_between rounded border p-2 text-sm">
-                          <div>
-                            <p className="font-medium">{account.bank_name}</p>
-                            <p className="text-muted-foreground">{account.account_number}</p>
-                            <p className="text-muted-foreground text-xs">{account.account_name}</p>
-                          </div>
-                          <Button variant="ghost" size="icon" onClick={() => removeBankAccount(index)}>
-                            <X className="w-4 h-4" />
-                          </Button>
-                        </div>
-                      ))}
+                      <Label htmlFor="name">Client Name</Label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="phone">Phone</Label>
+                      <Input
+                        id="phone"
+                        value={formData.phone}
+                        onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="commission">Commission %</Label>
+                      <Input
+                        id="commission"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={formData.commission_percentage}
+                        onChange={(e) => setFormData(prev => ({ ...prev, commission_percentage: e.target.value }))}
+                        required
+                      />
                     </div>
-                  )}
-                </div>
-
-                <div className="space-y-3">
-                  <div className="flex items-center justify_between">
-                    <Label>Platform Details</Label>
-                    <Button type="button" variant="outline" size="sm" onClick={addPlatformDetail}>
-                      Add platform
-                    </Button>
-                  </div>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                    <Input
-                      placeholder="Platform name"
-                      value={newPlatform.platform_name}
-                      onChange={(e) => setNewPlatform(prev => ({ ...prev, platform_name: e.target.value }))}
-                    />
-                    <Input
-                      placeholder="Payout ID (optional)"
-                      value={newPlatform.payout_id}
-                      onChange={(e) => setNewPlatform(prev => ({ ...prev, payout_id: e.target.value }))}
-                    />
-                  </div>
-                  {platformDetails.length > 0 && (
                     <div className="space-y-2">
-                      {platformDetails.map((platform, index) => (
-                        <div key={index} className="flex items-center justify_between rounded border p-2 text-sm">
-                          <div>
-                            <p className="font-medium">{platform.platform_name}</p>
-                            {platform.payout_id && <p className="text-muted-foreground text-xs">{platform.payout_id}</p>}
+                      <Label htmlFor="currency">Preferred Currency</Label>
+                      <Select
+                        value={formData.preferred_payout_currency}
+                        onValueChange={(value) => setFormData(prev => ({ ...prev, preferred_payout_currency: value }))}
+                      >
+                        <SelectTrigger id="currency">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="THB">THB (Thai Baht)</SelectItem>
+                          <SelectItem value="MMK">MMK (Myanmar Kyat)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label>Bank Accounts</Label>
+                      <Button type="button" variant="outline" size="sm" onClick={addBankAccount}>
+                        Add bank
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                      <Input
+                        placeholder="Bank name"
+                        value={newBank.bank_name}
+                        onChange={(e) => setNewBank(prev => ({ ...prev, bank_name: e.target.value }))}
+                      />
+                      <Input
+                        placeholder="Account number"
+                        value={newBank.account_number}
+                        onChange={(e) => setNewBank(prev => ({ ...prev, account_number: e.target.value }))}
+                      />
+                      <Input
+                        placeholder="Account holder name"
+                        value={newBank.account_name}
+                        onChange={(e) => setNewBank(prev => ({ ...prev, account_name: e.target.value }))}
+                      />
+                    </div>
+                    {bankAccounts.length > 0 && (
+                      <div className="space-y-2">
+                        {bankAccounts.map((account, index) => (
+                          <div key={index} className="flex items-center justify_between rounded border p-2 text-sm">
+                            <div>
+                              <p className="font-medium">{account.bank_name}</p>
+                              <p className="text-muted-foreground">{account.account_number}</p>
+                              <p className="text-muted-foreground text-xs">{account.account_name}</p>
+                            </div>
+                            <Button variant="ghost" size="icon" onClick={() => removeBankAccount(index)}>
+                              <X className="w-4 h-4" />
+                            </Button>
                           </div>
-                          <Button variant="ghost" size="icon" onClick={() => removePlatformDetail(index)}>
-                            <X className="w-4 h-4" />
-                          </Button>
-                        </div>
-                      ))}
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-3">
+                    <div className="flex items-center justify_between">
+                      <Label>Platform Details</Label>
+                      <Button type="button" variant="outline" size="sm" onClick={addPlatformDetail}>
+                        Add platform
+                      </Button>
                     </div>
-                  )}
-                </div>
-
-                <Button type="submit" className="w-full" disabled={loading}>
-                  {loading ? "Saving..." : editingClient ? "Update Client" : "Add Client"}
-                </Button>
-              </form>
-            </DialogContent>
-          </Dialog>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <Input
+                        placeholder="Platform name"
+                        value={newPlatform.platform_name}
+                        onChange={(e) => setNewPlatform(prev => ({ ...prev, platform_name: e.target.value }))}
+                      />
+                      <Input
+                        placeholder="Payout ID (optional)"
+                        value={newPlatform.payout_id}
+                        onChange={(e) => setNewPlatform(prev => ({ ...prev, payout_id: e.target.value }))}
+                      />
+                    </div>
+                    {platformDetails.length > 0 && (
+                      <div className="space-y-2">
+                        {platformDetails.map((platform, index) => (
+                          <div key={index} className="flex items-center justify_between rounded border p-2 text-sm">
+                            <div>
+                              <p className="font-medium">{platform.platform_name}</p>
+                              {platform.payout_id && <p className="text-muted-foreground text-xs">{platform.payout_id}</p>}
+                            </div>
+                            <Button variant="ghost" size="icon" onClick={() => removePlatformDetail(index)}>
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <Button type="submit" className="w-full" disabled={loading}>
+                    {loading ? "Saving..." : editingClient ? "Update Client" : "Add Client"}
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -451,20 +466,27 @@ const ClientsTab = () => {
                     <TableCell>{client.commission_percentage}%</TableCell>
                     <TableCell>{client.preferred_payout_currency}</TableCell>
                     <TableCell className="text-right">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleEdit(client)}
-                      >
-                        <Pencil className="w-4 h-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleDelete(client.id)}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      <ClientStatementDialog client={client} />
+                      <CommissionScheduleDialog client={client} />
+                      <ActivityDialog entityType="client" entityId={client.id} title={client.name} />
+                      {!readOnly && canEdit && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(client)}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(client.id)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))
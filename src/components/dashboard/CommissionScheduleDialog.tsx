@@ -0,0 +1,307 @@
+import { useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { fetchWithAuth } from "@/lib/auth";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Percent, Pencil, Trash2 } from "lucide-react";
+
+interface PlatformDetail {
+  platform_name: string;
+  payout_id?: string;
+}
+
+interface ScheduleClient {
+  id: string;
+  name: string;
+  commission_percentage: number;
+  platform_details: PlatformDetail[] | null;
+}
+
+interface CommissionRule {
+  id: string;
+  source_platform: string | null;
+  min_monthly_volume: number;
+  commission_percentage: number;
+  effective_from: string;
+  effective_to: string | null;
+  notes: string | null;
+}
+
+interface CommissionScheduleDialogProps {
+  client: ScheduleClient;
+}
+
+const ALL_PLATFORMS = "__all__";
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const emptyForm = () => ({
+  source_platform: ALL_PLATFORMS,
+  min_monthly_volume: "0",
+  commission_percentage: "",
+  effective_from: today(),
+  effective_to: "",
+  notes: "",
+});
+
+const CommissionScheduleDialog = ({ client }: CommissionScheduleDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const { toast } = useToast();
+  const platforms = (client.platform_details || []).map((platform) => platform.platform_name).filter(Boolean);
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetchWithAuth(`/api/commission-rules?client_id=${client.id}`);
+      if (!response.ok) throw new Error("Failed to load commission schedule.");
+      setRules((await response.json()) as CommissionRule[]);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load commission schedule.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [client.id, toast]);
+
+  const resetForm = () => {
+    setEditingRuleId(null);
+    setFormData(emptyForm());
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) {
+      fetchRules();
+    } else {
+      resetForm();
+    }
+  };
+
+  const handleEdit = (rule: CommissionRule) => {
+    setEditingRuleId(rule.id);
+    setFormData({
+      source_platform: rule.source_platform || ALL_PLATFORMS,
+      min_monthly_volume: rule.min_monthly_volume.toString(),
+      commission_percentage: rule.commission_percentage.toString(),
+      effective_from: rule.effective_from,
+      effective_to: rule.effective_to || "",
+      notes: rule.notes || "",
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const response = await fetchWithAuth(
+        editingRuleId ? `/api/commission-rules/${editingRuleId}` : "/api/commission-rules",
+        {
+          method: editingRuleId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            client_id: client.id,
+            source_platform: formData.source_platform === ALL_PLATFORMS ? null : formData.source_platform,
+            min_monthly_volume: parseFloat(formData.min_monthly_volume || "0"),
+            commission_percentage: parseFloat(formData.commission_percentage),
+            effective_from: formData.effective_from,
+            effective_to: formData.effective_to || null,
+            notes: formData.notes,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to save commission rule.");
+      }
+
+      toast({ title: "Success", description: editingRuleId ? "Commission rule updated" : "Commission rule added" });
+      resetForm();
+      await fetchRules();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to save commission rule.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Are you sure you want to delete this commission rule?")) return;
+
+    setLoading(true);
+    try {
+      const response = await fetchWithAuth(`/api/commission-rules/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to delete commission rule.");
+      }
+
+      toast({ title: "Success", description: "Commission rule deleted" });
+      if (editingRuleId === id) resetForm();
+      await fetchRules();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to delete commission rule.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Commission schedule">
+          <Percent className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Commission Schedule · {client.name}</DialogTitle>
+          <DialogDescription>
+            Transactions without a matching rule use the default {client.commission_percentage}%. A rule for the
+            transaction's platform beats one for all platforms; within those, the highest monthly volume tier the
+            client has reached earlier in the month applies. A later start date replaces the rate for the same platform
+            and tier.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Platform</TableHead>
+              <TableHead className="text-right">Monthly Volume From</TableHead>
+              <TableHead className="text-right">Rate</TableHead>
+              <TableHead>Effective</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  {loading ? "Loading commission schedule..." : "No rules yet. Every transaction uses the default rate."}
+                </TableCell>
+              </TableRow>
+            ) : (
+              rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>{rule.source_platform || "All platforms"}</TableCell>
+                  <TableCell className="text-right">฿{rule.min_monthly_volume.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{rule.commission_percentage}%</TableCell>
+                  <TableCell>
+                    {rule.effective_from} – {rule.effective_to || "onwards"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(rule)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(rule.id)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+          <p className="font-medium">{editingRuleId ? "Edit Rule" : "Add Rule"}</p>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Platform</Label>
+              <Select
+                value={formData.source_platform}
+                onValueChange={(value) => setFormData((prev) => ({ ...prev, source_platform: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_PLATFORMS}>All platforms</SelectItem>
+                  {platforms.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="commission_rule_volume">Monthly Volume From (THB)</Label>
+              <Input
+                id="commission_rule_volume"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.min_monthly_volume}
+                onChange={(e) => setFormData((prev) => ({ ...prev, min_monthly_volume: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="commission_rule_rate">Commission % *</Label>
+              <Input
+                id="commission_rule_rate"
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                value={formData.commission_percentage}
+                onChange={(e) => setFormData((prev) => ({ ...prev, commission_percentage: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="commission_rule_from">Effective From *</Label>
+              <Input
+                id="commission_rule_from"
+                type="date"
+                value={formData.effective_from}
+                onChange={(e) => setFormData((prev) => ({ ...prev, effective_from: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="commission_rule_to">Effective To</Label>
+              <Input
+                id="commission_rule_to"
+                type="date"
+                value={formData.effective_to}
+                onChange={(e) => setFormData((prev) => ({ ...prev, effective_to: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="commission_rule_notes">Notes</Label>
+              <Input
+                id="commission_rule_notes"
+                value={formData.notes}
+                onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" disabled={loading}>
+              {loading ? "Saving..." : editingRuleId ? "Update Rule" : "Add Rule"}
+            </Button>
+            {editingRuleId && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CommissionScheduleDialog;
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { fetchWithAuth } from "@/lib/auth";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { FileDown } from "lucide-react";
+
+type ExportResource = "transactions" | "invoices" | "clients";
+type ExportFormat = "csv" | "xlsx" | "json";
+
+interface ClientOption {
+  id: string;
+  name: string;
+}
+
+const RESOURCE_LABELS: Record<ExportResource, { title: string; dateHint: string }> = {
+  transactions: { title: "Transactions", dateHint: "Filters on the transaction date." },
+  invoices: { title: "Invoices", dateHint: "Filters on the issue date (creation date for drafts)." },
+  clients: { title: "Clients", dateHint: "Limits the transactions totalled for each client." },
+};
+
+const ALL_CLIENTS = "all";
+
+interface ExportDialogProps {
+  resource: ExportResource;
+}
+
+const ExportDialog = ({ resource }: ExportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [clients, setClients] = useState<ClientOption[]>([]);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [clientId, setClientId] = useState(ALL_CLIENTS);
+  const [downloading, setDownloading] = useState(false);
+  const { toast } = useToast();
+  const labels = RESOURCE_LABELS[resource];
+
+  const handleOpenChange = async (value: boolean) => {
+    setOpen(value);
+    if (!value) return;
+    try {
+      const response = await fetchWithAuth("/api/clients");
+      if (!response.ok) throw new Error("Failed to load clients.");
+      setClients(await response.json());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load clients.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  };
+
+  const handleExport = async () => {
+    const params = new URLSearchParams({ format: exportFormat });
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    if (clientId !== ALL_CLIENTS) params.set("client_id", clientId);
+
+    setDownloading(true);
+    try {
+      const response = await fetchWithAuth(`/api/${resource}/export?${params.toString()}`);
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Export failed.");
+      }
+
+      // Use the server's dated filename when it is readable
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `${resource}.${exportFormat}`;
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      setOpen(false);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Export failed.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileDown className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export {labels.title}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`${resource}_export_from`}>From</Label>
+              <Input id={`${resource}_export_from`} type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${resource}_export_to`}>To</Label>
+              <Input id={`${resource}_export_to`} type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">{labels.dateHint} Leave empty for all dates.</p>
+          <div className="space-y-2">
+            <Label>Client</Label>
+            <Select value={clientId} onValueChange={setClientId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CLIENTS}>All clients</SelectItem>
+                {clients.map((client) => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button className="w-full" disabled={downloading} onClick={handleExport}>
+            {downloading ? "Exporting..." : "Download"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,483 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { fetchWithAuth } from "@/lib/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Pencil, Trash2, X } from "lucide-react";
+
+type FeeType = "platform_withdrawal" | "bank_transfer" | "fx" | "other";
+type Calculation = "flat" | "percentage" | "tiered";
+type TierCalculation = "flat" | "percentage";
+
+interface FeeTier {
+  up_to: number | null;
+  calculation: TierCalculation;
+  amount: number;
+}
+
+interface FeeRule {
+  id: string;
+  name: string;
+  fee_type: FeeType;
+  calculation: Calculation;
+  amount: number | null;
+  tiers: FeeTier[] | null;
+  client_id: string | null;
+  client_name: string | null;
+  source_platform: string | null;
+  active: boolean;
+  absorbed: boolean;
+}
+
+interface Client {
+  id: string;
+  name: string;
+}
+
+interface TierForm {
+  up_to: string;
+  calculation: TierCalculation;
+  amount: string;
+}
+
+const FEE_TYPE_LABELS: Record<FeeType, string> = {
+  platform_withdrawal: "Platform withdrawal",
+  bank_transfer: "Bank transfer",
+  fx: "FX",
+  other: "Other",
+};
+
+const ALL_CLIENTS = "__all__";
+
+const emptyTier = (): TierForm => ({ up_to: "", calculation: "flat", amount: "" });
+
+const emptyForm = () => ({
+  name: "",
+  fee_type: "platform_withdrawal" as FeeType,
+  calculation: "flat" as Calculation,
+  amount: "",
+  tiers: [emptyTier()],
+  client_id: ALL_CLIENTS,
+  source_platform: "",
+  active: true,
+  absorbed: false,
+});
+
+const formatTierAmount = (tier: { calculation: TierCalculation; amount: number }) =>
+  tier.calculation === "percentage" ? `${tier.amount}%` : `฿${tier.amount.toFixed(2)}`;
+
+const describeRule = (rule: FeeRule) => {
+  if (rule.calculation !== "tiered") {
+    return formatTierAmount({ calculation: rule.calculation, amount: rule.amount || 0 });
+  }
+  return (rule.tiers || [])
+    .map((tier) => `${tier.up_to == null ? "above" : `≤ ฿${tier.up_to}`}: ${formatTierAmount(tier)}`)
+    .join(", ");
+};
+
+const FeeRulesCard = () => {
+  const [rules, setRules] = useState<FeeRule[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [open, setOpen] = useState(false);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const { toast } = useToast();
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [rulesResponse, clientsResponse] = await Promise.all([
+        fetchWithAuth("/api/fee-rules"),
+        fetchWithAuth("/api/clients"),
+      ]);
+      if (!rulesResponse.ok || !clientsResponse.ok) throw new Error("Failed to load fee rules.");
+
+      setRules((await rulesResponse.json()) as FeeRule[]);
+      setClients((await clientsResponse.json()) as Client[]);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load fee rules.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleDialogChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) {
+      setEditingRuleId(null);
+      setFormData(emptyForm());
+    }
+  };
+
+  const handleEdit = (rule: FeeRule) => {
+    setEditingRuleId(rule.id);
+    setFormData({
+      name: rule.name,
+      fee_type: rule.fee_type,
+      calculation: rule.calculation,
+      amount: rule.amount == null ? "" : rule.amount.toString(),
+      tiers:
+        rule.tiers && rule.tiers.length > 0
+          ? rule.tiers.map((tier) => ({
+              up_to: tier.up_to == null ? "" : tier.up_to.toString(),
+              calculation: tier.calculation,
+              amount: tier.amount.toString(),
+            }))
+          : [emptyTier()],
+      client_id: rule.client_id || ALL_CLIENTS,
+      source_platform: rule.source_platform || "",
+      active: rule.active,
+      absorbed: rule.absorbed,
+    });
+    setOpen(true);
+  };
+
+  const updateTier = (index: number, changes: Partial<TierForm>) => {
+    setFormData((prev) => ({
+      ...prev,
+      tiers: prev.tiers.map((tier, idx) => (idx === index ? { ...tier, ...changes } : tier)),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const tiered = formData.calculation === "tiered";
+      const response = await fetchWithAuth(editingRuleId ? `/api/fee-rules/${editingRuleId}` : "/api/fee-rules", {
+        method: editingRuleId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: formData.name,
+          fee_type: formData.fee_type,
+          calculation: formData.calculation,
+          amount: tiered ? null : parseFloat(formData.amount),
+          // The last tier is always open-ended
+          tiers: tiered
+            ? formData.tiers.map((tier, idx) => ({
+                up_to: idx === formData.tiers.length - 1 ? null : parseFloat(tier.up_to),
+                calculation: tier.calculation,
+                amount: parseFloat(tier.amount),
+              }))
+            : null,
+          client_id: formData.client_id === ALL_CLIENTS ? null : formData.client_id,
+          source_platform: formData.source_platform || null,
+          active: formData.active,
+          absorbed: formData.absorbed,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to save fee rule.");
+      }
+
+      toast({ title: "Success", description: editingRuleId ? "Fee rule updated" : "Fee rule added" });
+      handleDialogChange(false);
+      await fetchRules();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to save fee rule.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Are you sure you want to delete this fee rule?")) return;
+
+    setLoading(true);
+    try {
+      const response = await fetchWithAuth(`/api/fee-rules/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to delete fee rule.");
+      }
+
+      toast({ title: "Success", description: "Fee rule deleted" });
+      await fetchRules();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to delete fee rule.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Fee Rules</CardTitle>
+            <CardDescription>
+              Fees applied to new transactions. The most specific rule wins: client and platform, then client, then
+              platform, then all clients.
+            </CardDescription>
+          </div>
+          <Dialog open={open} onOpenChange={handleDialogChange}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Rule
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{editingRuleId ? "Edit Fee Rule" : "Add Fee Rule"}</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="fee_rule_name">Name *</Label>
+                  <Input
+                    id="fee_rule_name"
+                    value={formData.name}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                    required
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Fee Type *</Label>
+                    <Select
+                      value={formData.fee_type}
+                      onValueChange={(value) => setFormData((prev) => ({ ...prev, fee_type: value as FeeType }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(FEE_TYPE_LABELS) as FeeType[]).map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {FEE_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Calculation *</Label>
+                    <Select
+                      value={formData.calculation}
+                      onValueChange={(value) => setFormData((prev) => ({ ...prev, calculation: value as Calculation }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="flat">Flat (THB)</SelectItem>
+                        <SelectItem value="percentage">Percentage</SelectItem>
+                        <SelectItem value="tiered">Tiered</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {formData.calculation === "tiered" ? (
+                  <div className="space-y-2">
+                    <Label>Tiers *</Label>
+                    {formData.tiers.map((tier, idx) => {
+                      const last = idx === formData.tiers.length - 1;
+                      return (
+                        <div key={idx} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            placeholder={last ? "Above" : "Up to (THB)"}
+                            value={last ? "" : tier.up_to}
+                            disabled={last}
+                            onChange={(e) => updateTier(idx, { up_to: e.target.value })}
+                            required={!last}
+                          />
+                          <Select
+                            value={tier.calculation}
+                            onValueChange={(value) => updateTier(idx, { calculation: value as TierCalculation })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="flat">Flat</SelectItem>
+                              <SelectItem value="percentage">Percentage</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            placeholder="Amount"
+                            value={tier.amount}
+                            onChange={(e) => updateTier(idx, { amount: e.target.value })}
+                            required
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            disabled={formData.tiers.length === 1}
+                            onClick={() =>
+                              setFormData((prev) => ({ ...prev, tiers: prev.tiers.filter((_, i) => i !== idx) }))
+                            }
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setFormData((prev) => ({ ...prev, tiers: [...prev.tiers, emptyTier()] }))}
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Tier
+                    </Button>
+                    <p className="text-xs text-muted-foreground">
+                      The tier the incoming amount falls into sets the whole fee; the last tier has no upper bound.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="fee_rule_amount">
+                      {formData.calculation === "percentage" ? "Percentage of incoming amount *" : "Amount (THB) *"}
+                    </Label>
+                    <Input
+                      id="fee_rule_amount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max={formData.calculation === "percentage" ? "100" : undefined}
+                      value={formData.amount}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, amount: e.target.value }))}
+                      required
+                    />
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Client</Label>
+                    <Select
+                      value={formData.client_id}
+                      onValueChange={(value) => setFormData((prev) => ({ ...prev, client_id: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_CLIENTS}>All clients</SelectItem>
+                        {clients.map((client) => (
+                          <SelectItem key={client.id} value={client.id}>
+                            {client.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="fee_rule_platform">Source Platform</Label>
+                    <Input
+                      id="fee_rule_platform"
+                      placeholder="All platforms"
+                      value={formData.source_platform}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, source_platform: e.target.value }))}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="fee_rule_active"
+                    checked={formData.active}
+                    onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, active: checked }))}
+                  />
+                  <Label htmlFor="fee_rule_active">Active</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="fee_rule_absorbed"
+                    checked={formData.absorbed}
+                    onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, absorbed: checked }))}
+                  />
+                  <Label htmlFor="fee_rule_absorbed">Absorbed by us (not charged to the client)</Label>
+                </div>
+                <Button type="submit" className="w-full" disabled={loading}>
+                  {loading ? "Saving..." : editingRuleId ? "Update Rule" : "Add Rule"}
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Fee Type</TableHead>
+              <TableHead>Fee</TableHead>
+              <TableHead>Applies To</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  {loading ? "Loading fee rules..." : "No fee rules yet. Fees are entered on each transaction."}
+                </TableCell>
+              </TableRow>
+            ) : (
+              rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>
+                    {rule.name}
+                    {!rule.active && (
+                      <Badge variant="outline" className="ml-2">
+                        Inactive
+                      </Badge>
+                    )}
+                    {rule.absorbed && (
+                      <Badge variant="secondary" className="ml-2">
+                        Absorbed
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{FEE_TYPE_LABELS[rule.fee_type]}</TableCell>
+                  <TableCell>{describeRule(rule)}</TableCell>
+                  <TableCell>
+                    {rule.client_name || "All clients"} · {rule.source_platform || "All platforms"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(rule)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(rule.id)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FeeRulesCard;
@@ -1,16 +1,23 @@
 import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { fetchWithAuth } from "@/lib/auth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { FileText, Download, Image as ImageIcon, Trash2 } from "lucide-react";
+import { FileText, Download, Image as ImageIcon, Trash2, Send, Ban, Wallet, RotateCcw, FileMinus } from "lucide-react";
 import { format } from "date-fns";
 import html2canvas from "html2canvas";
-import jsPDF from "jspdf";
+import ExportDialog from "./ExportDialog";
+import ActivityDialog from "./ActivityDialog";
+import RenewalCallout from "./RenewalCallout";
+import { useAccountStatus, useCan } from "@/hooks/use-account-status";
 
 interface BankAccount {
   bank_name: string;
@@ -23,14 +30,89 @@ interface PlatformDetail {
   payout_id?: string;
 }
 
+interface BusinessProfile {
+  business_name: string | null;
+  address: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+  watermark_text: string | null;
+  accent_color: string;
+  footer_notes: string | null;
+  logo: string | null;
+}
+
+type InvoiceStatus = "draft" | "issued" | "paid" | "void";
+
+interface InvoicePayment {
+  id: string;
+  amount: number;
+  currency: string;
+  paid_at: string;
+  method: string;
+  reference: string | null;
+  notes: string | null;
+}
+
+interface InvoiceItem {
+  id: string;
+  transaction_id: string;
+  position: number;
+  transaction_date: string;
+  source_platform: string | null;
+  source_platform_payout_id: string | null;
+  incoming_amount_thb: number;
+  commission_amount: number;
+  commission_percentage: number | null;
+  commission_rule_label: string | null;
+  fees: number;
+  net_amount: number;
+  exchange_rate_mmk: number;
+  payout_currency: string;
+  payout_amount: number;
+  payment_destination: BankAccount | null;
+}
+
+interface FeeBreakdownRow {
+  fee_type: string;
+  label: string;
+  amount: number;
+}
+
+interface CreditNote {
+  id: string;
+  credit_note_number: string;
+  reason: string;
+  total_amount: number;
+  net_amount: number;
+  payout_currency: string;
+  payout_amount: number;
+  issued_at: string;
+}
+
 interface Invoice {
   id: string;
   invoice_number: string;
   transaction_id: string;
+  transaction_ids: string[];
+  items: InvoiceItem[];
   total_amount: number;
   commission_amount: number;
   net_amount: number;
+  status: InvoiceStatus;
+  issued_at: string | null;
+  paid_at: string | null;
+  voided_at: string | null;
+  void_reason: string | null;
+  revises_invoice_id: string | null;
+  revises_invoice_number: string | null;
   created_at: string;
+  payment: InvoicePayment | null;
+  credit_notes: CreditNote[];
+  credited_payout_amount: number;
+  outstanding_payout_amount: number;
+  fee_breakdown: FeeBreakdownRow[];
+  // null when the lines were charged different commission rates
+  commission_percentage: number | null;
   clients: {
     id: string;
     name: string;
@@ -42,7 +124,6 @@ interface Invoice {
   };
   transactions: {
     incoming_amount_thb: number;
-    original_amount_usd: number | null;
     fees: number;
     transaction_date: string;
     exchange_rate_mmk: number;
@@ -54,6 +135,16 @@ interface Invoice {
   };
 }
 
+interface InvoicePreview {
+  total_amount: number;
+  commission_amount: number;
+  fees: number;
+  fee_breakdown: FeeBreakdownRow[];
+  net_amount: number;
+  payout_currency: string;
+  payout_amount: number;
+}
+
 interface Transaction {
   id: string;
   incoming_amount_thb: number;
@@ -62,6 +153,8 @@ interface Transaction {
   exchange_rate_mmk: number;
   payout_currency: string;
   payout_amount: number;
+  source_platform: string | null;
+  source_platform_payout_id: string | null;
   clients: {
     id: string;
     name: string;
@@ -70,13 +163,46 @@ interface Transaction {
   };
 }
 
+const formatPayout = (amount: number, currency: string) =>
+  currency === "MMK" ? `${amount.toFixed(2)} MMK` : `฿${amount.toFixed(2)}`;
+
+const STATUS_BADGE_VARIANTS: Record<InvoiceStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "outline",
+  issued: "secondary",
+  paid: "default",
+  void: "destructive",
+};
+
+const PAYMENT_METHODS = ["Bank Transfer", "KBZPay", "WavePay", "AYA Pay", "Cash", "Other"];
+
+const emptyPaymentForm = () => ({
+  paid_at: new Date().toISOString().split("T")[0],
+  method: "Bank Transfer",
+  reference: "",
+  notes: "",
+});
+
 const InvoicesTab = () => {
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [open, setOpen] = useState(false);
+  const { readOnly } = useAccountStatus();
+  const canEdit = useCan("invoices");
   const [previewInvoice, setPreviewInvoice] = useState<Invoice | null>(null);
-  const [selectedTransaction, setSelectedTransaction] = useState("");
+  const [selectedClientId, setSelectedClientId] = useState("");
+  const [selectedTransactionIds, setSelectedTransactionIds] = useState<string[]>([]);
+  const [initialStatus, setInitialStatus] = useState<"issued" | "draft">("issued");
+  const [statusFilter, setStatusFilter] = useState<"all" | InvoiceStatus>("all");
+  const [paymentInvoice, setPaymentInvoice] = useState<Invoice | null>(null);
+  const [paymentForm, setPaymentForm] = useState(emptyPaymentForm());
+  const [generatorPreview, setGeneratorPreview] = useState<InvoicePreview | null>(null);
+  const [generatorError, setGeneratorError] = useState<string | null>(null);
+  const [creditInvoice, setCreditInvoice] = useState<Invoice | null>(null);
+  const [creditReason, setCreditReason] = useState("");
+  // invoice_item_id -> THB amount to credit ("" credits the rest of the line)
+  const [creditLines, setCreditLines] = useState<Record<string, string>>({});
+  const [businessProfile, setBusinessProfile] = useState<BusinessProfile | null>(null);
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -106,9 +232,10 @@ const InvoicesTab = () => {
   const fetchData = useCallback(async () => {
     setLoading(true);
     try {
-      const [invoicesResponse, transactionsResponse] = await Promise.all([
+      const [invoicesResponse, transactionsResponse, profileResponse] = await Promise.all([
         fetchWithAuth("/api/invoices"),
         fetchWithAuth("/api/transactions"),
+        fetchWithAuth("/api/settings/profile"),
       ]);
 
       const [invoicesData, transactionsData] = await Promise.all([
@@ -117,9 +244,14 @@ const InvoicesTab = () => {
       ]);
 
       setInvoices((invoicesData || []) as Invoice[]);
+      // The preview falls back to unbranded output when the profile cannot be loaded
+      setBusinessProfile(profileResponse.ok ? ((await profileResponse.json()) as BusinessProfile) : null);
 
+      // Voided invoices release their transactions so they can be invoiced again
       const invoicedTransactionIds = new Set(
-        (invoicesData || []).map((invoice: Invoice) => invoice.transaction_id)
+        (invoicesData || [])
+          .filter((invoice: Invoice) => invoice.status !== "void")
+          .flatMap((invoice: Invoice) => invoice.transaction_ids || [invoice.transaction_id])
       );
       const availableTransactions = (transactionsData || []).filter(
         (transaction: Transaction) => !invoicedTransactionIds.has(transaction.id)
@@ -141,27 +273,58 @@ const InvoicesTab = () => {
     fetchData();
   }, [fetchData]);
 
+  useEffect(() => {
+    if (selectedTransactionIds.length === 0) {
+      setGeneratorPreview(null);
+      setGeneratorError(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchWithAuth("/api/invoices/preview", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ transaction_ids: selectedTransactionIds }),
+    })
+      .then(async (response) => {
+        const body = await response.json().catch(() => null);
+        if (cancelled) return;
+        if (!response.ok) {
+          setGeneratorPreview(null);
+          setGeneratorError(body?.message || "Unable to calculate invoice.");
+          return;
+        }
+        setGeneratorPreview(body as InvoicePreview);
+        setGeneratorError(null);
+      })
+      .catch(() => {
+        if (!cancelled) setGeneratorPreview(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTransactionIds]);
+
   const resetGeneratorState = () => {
-    setSelectedTransaction("");
+    setSelectedClientId("");
+    setSelectedTransactionIds([]);
+    setInitialStatus("issued");
+  };
+
+  const toggleTransaction = (id: string, checked: boolean) => {
+    setSelectedTransactionIds((prev) => (checked ? [...prev, id] : prev.filter((value) => value !== id)));
   };
 
   const generateInvoice = async () => {
-    if (!selectedTransaction) return;
+    if (selectedTransactionIds.length === 0) return;
 
     setLoading(true);
     try {
-      const transaction = transactions.find((t) => t.id === selectedTransaction);
-      if (!transaction) throw new Error("Transaction not found");
-
-      const commissionAmount = (transaction.incoming_amount_thb * transaction.clients.commission_percentage) / 100;
-      const netAmount = transaction.incoming_amount_thb - commissionAmount - (transaction.fees || 0);
-
+      // Invoice amounts are calculated by the server from the transactions and client
       const payload = {
-        client_id: transaction.clients.id,
-        transaction_id: transaction.id,
-        total_amount: transaction.incoming_amount_thb,
-        commission_amount: commissionAmount,
-        net_amount: netAmount,
+        transaction_ids: selectedTransactionIds,
+        status: initialStatus,
       };
 
       const response = await fetchWithAuth("/api/invoices", {
@@ -189,8 +352,135 @@ const InvoicesTab = () => {
     }
   };
 
+  const postInvoiceAction = async (endpoint: string, body: unknown, fallbackMessage: string) => {
+    const response = await fetchWithAuth(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      throw new Error(errorBody?.message || fallbackMessage);
+    }
+
+    return response.json().catch(() => null);
+  };
+
+  const runInvoiceAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    setLoading(true);
+    try {
+      await action();
+      toast({ title: "Success", description: successMessage });
+      await fetchData();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Request failed.";
+      if (message !== "Authentication required") {
+        toast({ title: "Error", description: message, variant: "destructive" });
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleIssue = (invoice: Invoice) =>
+    runInvoiceAction(
+      () => postInvoiceAction(`/api/invoices/${invoice.id}/issue`, {}, "Failed to issue invoice."),
+      `Invoice ${invoice.invoice_number} issued`
+    );
+
+  const handleVoid = (invoice: Invoice) => {
+    const reason = window.prompt(`Void invoice ${invoice.invoice_number}? Enter a reason (optional):`);
+    if (reason === null) return;
+    return runInvoiceAction(
+      () => postInvoiceAction(`/api/invoices/${invoice.id}/void`, { reason: reason.trim() || null }, "Failed to void invoice."),
+      `Invoice ${invoice.invoice_number} voided`
+    );
+  };
+
+  const handleRevise = (invoice: Invoice) => {
+    const reason = window.prompt(
+      `Revise invoice ${invoice.invoice_number}? It will be voided and a corrected invoice issued from the current transaction data. Enter a reason (optional):`
+    );
+    if (reason === null) return;
+    return runInvoiceAction(
+      () => postInvoiceAction(`/api/invoices/${invoice.id}/revise`, { reason: reason.trim() || null }, "Failed to revise invoice."),
+      `Invoice ${invoice.invoice_number} revised`
+    );
+  };
+
+  const openCreditDialog = (invoice: Invoice) => {
+    setCreditReason("");
+    setCreditLines(Object.fromEntries(invoice.items.map((item) => [item.id, ""])));
+    setCreditInvoice(invoice);
+  };
+
+  const handleCreateCreditNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!creditInvoice) return;
+
+    const invoice = creditInvoice;
+    const items = Object.entries(creditLines).map(([invoiceItemId, amount]) => ({
+      invoice_item_id: invoiceItemId,
+      incoming_amount_thb: amount.trim() === "" ? null : parseFloat(amount),
+    }));
+    if (items.length === 0) {
+      toast({ title: "Nothing to credit", description: "Select at least one line.", variant: "destructive" });
+      return;
+    }
+
+    setCreditInvoice(null);
+    await runInvoiceAction(
+      () =>
+        postInvoiceAction(
+          `/api/invoices/${invoice.id}/credit-notes`,
+          { reason: creditReason.trim(), items },
+          "Failed to create credit note."
+        ),
+      `Credit note issued for ${invoice.invoice_number}`
+    );
+  };
+
+  const toggleCreditLine = (itemId: string, checked: boolean) =>
+    setCreditLines((prev) => {
+      const next = { ...prev };
+      if (checked) {
+        next[itemId] = "";
+      } else {
+        delete next[itemId];
+      }
+      return next;
+    });
+
+  const openPaymentDialog = (invoice: Invoice) => {
+    setPaymentForm(emptyPaymentForm());
+    setPaymentInvoice(invoice);
+  };
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!paymentInvoice) return;
+
+    const invoice = paymentInvoice;
+    setPaymentInvoice(null);
+    await runInvoiceAction(
+      () =>
+        postInvoiceAction(
+          `/api/invoices/${invoice.id}/payments`,
+          {
+            paid_at: paymentForm.paid_at,
+            method: paymentForm.method,
+            reference: paymentForm.reference.trim() || null,
+            notes: paymentForm.notes.trim() || null,
+          },
+          "Failed to record payment."
+        ),
+      `Payment recorded for ${invoice.invoice_number}`
+    );
+  };
+
   const handleDelete = async (id: string) => {
-    if (!window.confirm("Are you sure you want to delete this invoice?")) return;
+    if (!window.confirm("Are you sure you want to delete this draft invoice?")) return;
     setLoading(true);
     try {
       const response = await fetchWithAuth(`/api/invoices/${id}`, {
@@ -205,121 +495,36 @@ const InvoicesTab = () => {
 
       toast({ title: "Success", description: "Invoice removed successfully" });
       await fetchData();
-    } catch (error: any) {
-      if (error.message !== "Authentication required") {
-        toast({ title: "Error", description: error.message, variant: "destructive" });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to delete invoice.";
+      if (message !== "Authentication required") {
+        toast({ title: "Error", description: message, variant: "destructive" });
       }
     } finally {
       setLoading(false);
     }
   };
 
-  const downloadPDF = (invoice: Invoice) => {
-    const container = document.getElementById("invoice-preview-content");
-    if (!container) return;
-
-    const pdf = new jsPDF();
-    const pageWidth = pdf.internal.pageSize.getWidth();
-    const margin = 20;
-    let yPos = 20;
-
-    pdf.saveGraphicsState();
-    pdf.setFontSize(40);
-    pdf.setTextColor(240, 240, 240, 0.5);
-    [
-      { x: 40, y: 80, angle: -45 },
-      { x: 150, y: 120, angle: -45 },
-      { x: 50, y: 180, angle: -45 },
-      { x: 140, y: 220, angle: -45 },
-    ].forEach((wm) => {
-      pdf.text("paingthu.com", wm.x, wm.y, { angle: wm.angle });
-    });
-    pdf.restoreGraphicsState();
-
-    pdf.setFillColor(6, 182, 212);
-    pdf.rect(0, 0, pageWidth, 35, "F");
-    pdf.setFontSize(32);
-    pdf.setTextColor(255, 255, 255);
-    pdf.text("PAING THU", pageWidth / 2, 23, { align: "center" });
-
-    yPos = 50;
-    pdf.setFontSize(20);
-    pdf.setTextColor(0, 0, 0);
-    pdf.text("INVOICE", pageWidth - margin, yPos, { align: "right" });
-    yPos += 8;
-
-    pdf.setFontSize(10);
-    pdf.setTextColor(30, 41, 59);
-    pdf.text(invoice.invoice_number, pageWidth - margin, yPos, { align: "right" });
-    yPos += 6;
-    pdf.text(format(new Date(invoice.created_at), "MMMM dd, yyyy"), pageWidth - margin, yPos, { align: "right" });
-    yPos += 10;
-
-    pdf.setFontSize(11);
-    pdf.setTextColor(71, 85, 105);
-    pdf.text("support@paingthu.com", pageWidth - margin, yPos, { align: "right" });
-    yPos += 6;
-    pdf.text("+95 9 123 456 789", pageWidth - margin, yPos, { align: "right" });
-    yPos += 12;
-
-    pdf.setFontSize(10);
-    pdf.setTextColor(100, 116, 139);
-    pdf.text("BILL TO", margin, yPos);
-    yPos += 6;
-    pdf.setTextColor(15, 23, 42);
-    pdf.setFontSize(14);
-    pdf.text(invoice.clients.name, margin, yPos);
-    yPos += 6;
-    if (invoice.clients.phone) {
-      pdf.setFontSize(10);
-      pdf.setTextColor(71, 85, 105);
-      pdf.text(invoice.clients.phone, margin, yPos);
-      yPos += 6;
-    }
-    if (invoice.clients.bank_account && invoice.clients.bank_account.length > 0) {
-      pdf.setFontSize(9);
-      pdf.setTextColor(100, 116, 139);
-      invoice.clients.bank_account.forEach((account) => {
-        pdf.text(`${account.bank_name}: ${account.account_number}`, margin, yPos);
-        yPos += 5;
-      });
-    }
-
-    yPos += 10;
-    pdf.setFillColor(248, 250, 252);
-    pdf.rect(margin, yPos, pageWidth - margin * 2, 70, "F");
-    yPos += 12;
-
-    const addRow = (label: string, value: string, highlight = false) => {
-      pdf.setFontSize(highlight ? 12 : 10);
-      pdf.setTextColor(100, 116, 139);
-      pdf.text(label, margin + 8, yPos);
-      pdf.setTextColor(highlight ? 8 : 15, highlight ? 145 : 23, highlight ? 178 : 42);
-      pdf.text(value, pageWidth - margin - 8, yPos, { align: "right" });
-      yPos += highlight ? 10 : 8;
-    };
-
-    addRow("Incoming Amount (THB)", `฿${invoice.total_amount.toFixed(2)}`);
-    addRow(`Commission (${invoice.clients.commission_percentage}%)`, `-฿${invoice.commission_amount.toFixed(2)}`);
-    addRow("Fees", `-฿${invoice.transactions.fees.toFixed(2)}`);
-    addRow("Net (THB)", `฿${invoice.net_amount.toFixed(2)}`);
+  // PDFs are rendered by the server so Burmese text is shaped with the embedded Myanmar font
+  const downloadPDF = async (invoice: Invoice) => {
+    try {
+      const response = await fetchWithAuth(`/api/invoices/${invoice.id}/pdf`);
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to download PDF.");
+      }
 
-    if (invoice.transactions.payout_currency === "MMK" && invoice.transactions.exchange_rate_mmk > 0) {
-      addRow(
-        "Exchange Rate",
-        `1 THB = ${invoice.transactions.exchange_rate_mmk.toFixed(2)} MMK`
-      );
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${invoice.invoice_number}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to download PDF.";
+      toast({ title: "Error", description: message, variant: "destructive" });
     }
-
-    addRow(
-      "Payout Amount",
-      invoice.transactions.payout_currency === "MMK"
-        ? `${invoice.transactions.payout_amount.toFixed(2)} MMK`
-        : `฿${invoice.transactions.payout_amount.toFixed(2)}`,
-      true
-    );
-
-    pdf.save(`${invoice.invoice_number}.pdf`);
   };
 
   const downloadImage = async (invoice: Invoice) => {
@@ -336,7 +541,12 @@ const InvoicesTab = () => {
     link.click();
   };
 
-  const selectedTransactionDetails = transactions.find((t) => t.id === selectedTransaction);
+  const invoiceableClients = Array.from(
+    new Map(transactions.map((transaction) => [transaction.clients.id, transaction.clients])).values()
+  );
+  const clientTransactions = transactions.filter((transaction) => transaction.clients.id === selectedClientId);
+  const visibleInvoices =
+    statusFilter === "all" ? invoices : invoices.filter((invoice) => invoice.status === statusFilter);
 
   return (
     <Card>
@@ -346,85 +556,169 @@ const InvoicesTab = () => {
             <CardTitle>Invoices</CardTitle>
             <CardDescription>Generate and manage client invoices</CardDescription>
           </div>
-          <Dialog
-            open={open}
-            onOpenChange={(value) => {
-              setOpen(value);
-              if (!value) {
-                resetGeneratorState();
-              }
-            }}
-          >
-            <DialogTrigger asChild>
-              <Button disabled={transactions.length === 0}>
-                <FileText className="w-4 h-4 mr-2" />
-                Generate Invoice
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Create Invoice</DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4">
-                <Select
-                  value={selectedTransaction}
-                  onValueChange={setSelectedTransaction}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a transaction" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {transactions.length === 0 ? (
-                      <SelectItem value="none" disabled>
-                        No transactions available
-                      </SelectItem>
-                    ) : (
-                      transactions.map((transaction) => (
-                        <SelectItem key={transaction.id} value={transaction.id}>
-                          {transaction.clients.name} — ฿{transaction.incoming_amount_thb.toFixed(2)} (
-                          {format(new Date(transaction.transaction_date), "MMM dd, yyyy")})
+          <div className="flex gap-2">
+            <ExportDialog resource="invoices" />
+            <Dialog
+              open={open}
+              onOpenChange={(value) => {
+                setOpen(value);
+                if (!value) {
+                  resetGeneratorState();
+                }
+              }}
+            >
+              {readOnly ? (
+                <RenewalCallout action="generate invoices" />
+              ) : canEdit && (
+                <DialogTrigger asChild>
+                  <Button disabled={transactions.length === 0}>
+                    <FileText className="w-4 h-4 mr-2" />
+                    Generate Invoice
+                  </Button>
+                </DialogTrigger>
+              )}
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Create Invoice</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <Select
+                    value={selectedClientId}
+                    onValueChange={(value) => {
+                      setSelectedClientId(value);
+                      setSelectedTransactionIds(
+                        transactions.filter((transaction) => transaction.clients.id === value).map((t) => t.id)
+                      );
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a client" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {invoiceableClients.length === 0 ? (
+                        <SelectItem value="none" disabled>
+                          No transactions available
                         </SelectItem>
-                      ))
-                    )}
-                  </SelectContent>
-                </Select>
+                      ) : (
+                        invoiceableClients.map((client) => (
+                          <SelectItem key={client.id} value={client.id}>
+                            {client.name}
+                          </SelectItem>
+                        ))
+                      )}
+                    </SelectContent>
+                  </Select>
 
-                {selectedTransactionDetails && (
-                  <div className="rounded border bg-muted/30 p-4 text-sm space-y-1">
-                    <p className="font-medium">{selectedTransactionDetails.clients.name}</p>
-                    <p>Incoming: ฿{selectedTransactionDetails.incoming_amount_thb.toFixed(2)}</p>
-                    <p>
-                      Commission: {selectedTransactionDetails.clients.commission_percentage}% (
-                      ฿{(
-                        (selectedTransactionDetails.incoming_amount_thb *
-                          selectedTransactionDetails.clients.commission_percentage) /
-                        100
-                      ).toFixed(2)}
-                      )
-                    </p>
-                    <p>Fees: ฿{selectedTransactionDetails.fees.toFixed(2)}</p>
+                  {clientTransactions.length > 0 && (
+                    <div className="rounded border divide-y max-h-60 overflow-y-auto">
+                      {clientTransactions.map((transaction) => (
+                        <label
+                          key={transaction.id}
+                          className="flex items-center gap-3 p-3 text-sm cursor-pointer"
+                        >
+                          <Checkbox
+                            checked={selectedTransactionIds.includes(transaction.id)}
+                            onCheckedChange={(checked) => toggleTransaction(transaction.id, checked === true)}
+                          />
+                          <span className="flex-1">
+                            {transaction.source_platform || "—"}
+                            {transaction.source_platform_payout_id ? ` (${transaction.source_platform_payout_id})` : ""}
+                            <span className="block text-xs text-muted-foreground">
+                              {format(new Date(transaction.transaction_date), "MMM dd, yyyy")}
+                            </span>
+                          </span>
+                          <span className="font-medium">฿{transaction.incoming_amount_thb.toFixed(2)}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+
+                  {selectedTransactionIds.length > 0 && (
+                    <div className="rounded border bg-muted/30 p-4 text-sm space-y-1">
+                      {generatorError ? (
+                        <p className="text-destructive">{generatorError}</p>
+                      ) : generatorPreview ? (
+                        <>
+                          <p className="font-medium">
+                            {selectedTransactionIds.length} transaction{selectedTransactionIds.length === 1 ? "" : "s"}
+                          </p>
+                          <p>Incoming: ฿{generatorPreview.total_amount.toFixed(2)}</p>
+                          <p>Commission: ฿{generatorPreview.commission_amount.toFixed(2)}</p>
+                          {generatorPreview.fee_breakdown.length > 0 ? (
+                            generatorPreview.fee_breakdown.map((fee) => (
+                              <p key={fee.fee_type}>
+                                {fee.label}: ฿{fee.amount.toFixed(2)}
+                              </p>
+                            ))
+                          ) : (
+                            <p>Fees: ฿{generatorPreview.fees.toFixed(2)}</p>
+                          )}
+                          <p>Net: ฿{generatorPreview.net_amount.toFixed(2)}</p>
+                          <p className="font-semibold text-primary">
+                            Payout: {formatPayout(generatorPreview.payout_amount, generatorPreview.payout_currency)}
+                          </p>
+                        </>
+                      ) : (
+                        <p className="text-muted-foreground">Calculating...</p>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label>Initial Status</Label>
+                    <Select
+                      value={initialStatus}
+                      onValueChange={(value) => setInitialStatus(value as "issued" | "draft")}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="issued">Issued</SelectItem>
+                        <SelectItem value="draft">Draft</SelectItem>
+                      </SelectContent>
+                    </Select>
                   </div>
-                )}
 
-                <Button
-                  onClick={generateInvoice}
-                  disabled={!selectedTransaction || loading}
-                  className="w-full"
-                >
-                  {loading ? "Generating..." : "Generate Invoice"}
-                </Button>
-              </div>
-            </DialogContent>
-          </Dialog>
+                  <Button
+                    onClick={generateInvoice}
+                    disabled={selectedTransactionIds.length === 0 || !!generatorError || loading}
+                    className="w-full"
+                  >
+                    {loading ? "Generating..." : "Generate Invoice"}
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-end gap-2">
+          <Label className="text-sm text-muted-foreground">Status</Label>
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => setStatusFilter(value as "all" | InvoiceStatus)}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="draft">Draft</SelectItem>
+              <SelectItem value="issued">Issued (outstanding)</SelectItem>
+              <SelectItem value="paid">Paid</SelectItem>
+              <SelectItem value="void">Void</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
         <div className="rounded-md border">
           <Table>
             <TableHeader>
               <TableRow>
                 <TableHead>Invoice</TableHead>
                 <TableHead>Client</TableHead>
+                <TableHead>Status</TableHead>
                 <TableHead>Total</TableHead>
                 <TableHead>Net</TableHead>
                 <TableHead>Date</TableHead>
@@ -432,22 +726,38 @@ const InvoicesTab = () => {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {invoices.length === 0 ? (
+              {visibleInvoices.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground">
-                    {loading ? "Loading invoices..." : "No invoices yet. Generate one to get started."}
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    {loading
+                      ? "Loading invoices..."
+                      : invoices.length === 0
+                        ? "No invoices yet. Generate one to get started."
+                        : "No invoices match this status."}
                   </TableCell>
                 </TableRow>
               ) : (
-                invoices.map((invoice) => (
+                visibleInvoices.map((invoice) => (
                   <TableRow key={invoice.id}>
                     <TableCell>
                       <div className="font-medium">{invoice.invoice_number}</div>
                       <div className="text-xs text-muted-foreground">
-                        Transaction: {invoice.transactions.source_platform || "N/A"}
+                        {invoice.items.length > 1
+                          ? `${invoice.items.length} transactions`
+                          : `Transaction: ${invoice.transactions.source_platform || "N/A"}`}
                       </div>
                     </TableCell>
                     <TableCell>{invoice.clients.name}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_BADGE_VARIANTS[invoice.status]} className="capitalize">
+                        {invoice.status}
+                      </Badge>
+                      {invoice.status === "paid" && invoice.paid_at && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {format(new Date(invoice.paid_at), "MMM dd, yyyy")}
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell>฿{invoice.total_amount.toFixed(2)}</TableCell>
                     <TableCell>฿{invoice.net_amount.toFixed(2)}</TableCell>
                     <TableCell>{format(new Date(invoice.created_at), "MMM dd, yyyy")}</TableCell>
@@ -459,13 +769,53 @@ const InvoicesTab = () => {
                       >
                         Preview
                       </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => handleDelete(invoice.id)}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      <ActivityDialog entityType="invoice" entityId={invoice.id} title={invoice.invoice_number} />
+                      {!readOnly && canEdit && (
+                        <>
+                          {invoice.status === "draft" && (
+                            <Button variant="outline" size="sm" onClick={() => handleIssue(invoice)}>
+                              <Send className="w-4 h-4 mr-1" />
+                              Issue
+                            </Button>
+                          )}
+                          {invoice.status === "issued" && (
+                            <Button variant="outline" size="sm" onClick={() => openPaymentDialog(invoice)}>
+                              <Wallet className="w-4 h-4 mr-1" />
+                              Record Payment
+                            </Button>
+                          )}
+                          {invoice.status === "issued" && invoice.credit_notes.length === 0 && (
+                            <Button variant="ghost" size="icon" title="Revise invoice" onClick={() => handleRevise(invoice)}>
+                              <RotateCcw className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {(invoice.status === "issued" || invoice.status === "paid") && (
+                            <Button variant="ghost" size="icon" title="Issue credit note" onClick={() => openCreditDialog(invoice)}>
+                              <FileMinus className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {(invoice.status === "draft" || (invoice.status === "issued" && invoice.credit_notes.length === 0)) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Void invoice"
+                              onClick={() => handleVoid(invoice)}
+                            >
+                              <Ban className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {invoice.status === "draft" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Delete draft"
+                              onClick={() => handleDelete(invoice.id)}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))
@@ -494,8 +844,28 @@ const InvoicesTab = () => {
               </div>
               <div
                 id="invoice-preview-content"
-                className="space-y-6 p-6 bg-gradient-to-br from-card to-muted/20 rounded-lg"
+                className="relative overflow-hidden space-y-6 p-6 bg-gradient-to-br from-card to-muted/20 rounded-lg"
               >
+                {businessProfile?.watermark_text && (
+                  <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+                    <span className="-rotate-45 text-6xl font-bold text-muted-foreground/10 select-none">
+                      {businessProfile.watermark_text}
+                    </span>
+                  </div>
+                )}
+                {(businessProfile?.business_name || businessProfile?.logo) && (
+                  <div
+                    className="-mx-6 -mt-6 px-6 py-5 flex items-center justify-center gap-4 text-white rounded-t-lg"
+                    style={{ backgroundColor: businessProfile.accent_color }}
+                  >
+                    {businessProfile.logo && (
+                      <img src={businessProfile.logo} alt="Logo" className="h-14 w-14 object-contain" />
+                    )}
+                    {businessProfile.business_name && (
+                      <span className="text-2xl font-bold">{businessProfile.business_name}</span>
+                    )}
+                  </div>
+                )}
                 <div className="flex justify-between items-start">
                   <div>
                     <h2 className="text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
@@ -504,12 +874,28 @@ const InvoicesTab = () => {
                     <p className="text-sm text-muted-foreground mt-1">
                       {previewInvoice.invoice_number}
                     </p>
+                    <Badge variant={STATUS_BADGE_VARIANTS[previewInvoice.status]} className="mt-2 uppercase">
+                      {previewInvoice.status}
+                    </Badge>
+                    {previewInvoice.revises_invoice_number && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Revises {previewInvoice.revises_invoice_number}
+                      </p>
+                    )}
                   </div>
                   <div className="text-right">
                     <p className="text-sm text-muted-foreground">Date</p>
                     <p className="font-medium">
                       {format(new Date(previewInvoice.created_at), "MMMM dd, yyyy")}
                     </p>
+                    {businessProfile &&
+                      [businessProfile.contact_email, businessProfile.contact_phone, businessProfile.address]
+                        .filter(Boolean)
+                        .map((line) => (
+                          <p key={line} className="text-sm text-muted-foreground whitespace-pre-line mt-1">
+                            {line}
+                          </p>
+                        ))}
                   </div>
                 </div>
 
@@ -532,6 +918,29 @@ const InvoicesTab = () => {
                     )}
                 </div>
 
+                <div className="border-t pt-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Platform</TableHead>
+                        <TableHead>Payout ID</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead className="text-right">Amount (THB)</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {previewInvoice.items.map((item) => (
+                        <TableRow key={item.id}>
+                          <TableCell>{item.source_platform || "—"}</TableCell>
+                          <TableCell>{item.source_platform_payout_id || "—"}</TableCell>
+                          <TableCell>{format(new Date(item.transaction_date), "MMM dd, yyyy")}</TableCell>
+                          <TableCell className="text-right">฿{item.incoming_amount_thb.toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
                 <div className="border-t pt-4 space-y-2">
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Incoming Amount (THB)</span>
@@ -539,18 +948,31 @@ const InvoicesTab = () => {
                   </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">
-                      Commission ({previewInvoice.clients.commission_percentage}%)
+                      Commission (
+                      {previewInvoice.commission_percentage == null
+                        ? "mixed rates"
+                        : `${previewInvoice.commission_percentage}%`}
+                      )
                     </span>
                     <span className="font-medium text-destructive">
                       -฿{previewInvoice.commission_amount.toFixed(2)}
                     </span>
                   </div>
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Fees</span>
-                    <span className="font-medium text-destructive">
-                      -฿{previewInvoice.transactions.fees.toFixed(2)}
-                    </span>
-                  </div>
+                  {previewInvoice.fee_breakdown?.length > 0 ? (
+                    previewInvoice.fee_breakdown.map((fee) => (
+                      <div key={fee.fee_type} className="flex justify-between">
+                        <span className="text-muted-foreground">{fee.label}</span>
+                        <span className="font-medium text-destructive">-฿{fee.amount.toFixed(2)}</span>
+                      </div>
+                    ))
+                  ) : (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Fees</span>
+                      <span className="font-medium text-destructive">
+                        -฿{previewInvoice.transactions.fees.toFixed(2)}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Net (THB)</span>
                     <span className="font-medium">฿{previewInvoice.net_amount.toFixed(2)}</span>
@@ -565,18 +987,220 @@ const InvoicesTab = () => {
                     )}
                   <div className="flex justify-between border-t pt-2 mt-2">
                     <span className="text-lg font-bold">Payout Amount</span>
-                    <span className="text-lg font-bold text-primary">
-                      {previewInvoice.transactions.payout_currency === "MMK"
-                        ? `${previewInvoice.transactions.payout_amount.toFixed(2)} MMK`
-                        : `฿${previewInvoice.transactions.payout_amount.toFixed(2)}`}
+                    <span
+                      className="text-lg font-bold text-primary"
+                      style={businessProfile ? { color: businessProfile.accent_color } : undefined}
+                    >
+                      {formatPayout(previewInvoice.transactions.payout_amount, previewInvoice.transactions.payout_currency)}
                     </span>
                   </div>
                 </div>
+
+                {previewInvoice.payment && (
+                  <div className="border-t pt-4 text-sm space-y-1">
+                    <p className="text-muted-foreground mb-2">PAYMENT</p>
+                    <p>
+                      Paid {format(new Date(previewInvoice.payment.paid_at), "MMMM dd, yyyy")} via{" "}
+                      {previewInvoice.payment.method}
+                    </p>
+                    {previewInvoice.payment.reference && (
+                      <p className="text-muted-foreground">Reference: {previewInvoice.payment.reference}</p>
+                    )}
+                    {previewInvoice.transactions.payment_destination && (
+                      <p className="text-muted-foreground">
+                        To: {previewInvoice.transactions.payment_destination.bank_name} -{" "}
+                        {previewInvoice.transactions.payment_destination.account_number}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {previewInvoice.credit_notes.length > 0 && (
+                  <div className="border-t pt-4 text-sm space-y-1">
+                    <p className="text-muted-foreground mb-2">CREDIT NOTES</p>
+                    {previewInvoice.credit_notes.map((credit) => (
+                      <div key={credit.id} className="flex justify-between">
+                        <span>
+                          {credit.credit_note_number} · {format(new Date(credit.issued_at), "MMM dd, yyyy")} · {credit.reason}
+                        </span>
+                        <span className="font-medium text-destructive">
+                          -{formatPayout(credit.payout_amount, credit.payout_currency)}
+                        </span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between border-t pt-2 mt-2 font-medium">
+                      <span>Outstanding Payout</span>
+                      <span>
+                        {formatPayout(previewInvoice.outstanding_payout_amount, previewInvoice.transactions.payout_currency)}
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {previewInvoice.status === "void" && (
+                  <div className="border-t pt-4 text-sm text-destructive">
+                    Voided{previewInvoice.voided_at ? ` on ${format(new Date(previewInvoice.voided_at), "MMMM dd, yyyy")}` : ""}
+                    {previewInvoice.void_reason ? `: ${previewInvoice.void_reason}` : ""}
+                  </div>
+                )}
+
+                {businessProfile?.footer_notes && (
+                  <div className="border-t pt-4 text-xs text-muted-foreground whitespace-pre-line">
+                    {businessProfile.footer_notes}
+                  </div>
+                )}
               </div>
             </div>
           )}
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!paymentInvoice} onOpenChange={(value) => !value && setPaymentInvoice(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+          </DialogHeader>
+          {paymentInvoice && (
+            <form onSubmit={handleRecordPayment} className="space-y-4">
+              <div className="rounded border bg-muted/30 p-4 text-sm space-y-1">
+                <p className="font-medium">
+                  {paymentInvoice.invoice_number} — {paymentInvoice.clients.name}
+                </p>
+                <p>
+                  Payout:{" "}
+                  {formatPayout(paymentInvoice.outstanding_payout_amount, paymentInvoice.transactions.payout_currency)}
+                  {paymentInvoice.credited_payout_amount > 0 && (
+                    <span className="text-muted-foreground"> (after credit notes)</span>
+                  )}
+                </p>
+                {paymentInvoice.transactions.payment_destination && (
+                  <p className="text-muted-foreground">
+                    To: {paymentInvoice.transactions.payment_destination.bank_name} -{" "}
+                    {paymentInvoice.transactions.payment_destination.account_number} (
+                    {paymentInvoice.transactions.payment_destination.account_name})
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="paid_at">Payout Date *</Label>
+                <Input
+                  id="paid_at"
+                  type="date"
+                  value={paymentForm.paid_at}
+                  onChange={(e) => setPaymentForm((prev) => ({ ...prev, paid_at: e.target.value }))}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Method *</Label>
+                <Select
+                  value={paymentForm.method}
+                  onValueChange={(value) => setPaymentForm((prev) => ({ ...prev, method: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {method}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment_reference">Reference</Label>
+                <Input
+                  id="payment_reference"
+                  placeholder="Bank transfer reference"
+                  value={paymentForm.reference}
+                  onChange={(e) => setPaymentForm((prev) => ({ ...prev, reference: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment_notes">Notes</Label>
+                <Input
+                  id="payment_notes"
+                  value={paymentForm.notes}
+                  onChange={(e) => setPaymentForm((prev) => ({ ...prev, notes: e.target.value }))}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? "Saving..." : "Mark as Paid"}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!creditInvoice} onOpenChange={(value) => !value && setCreditInvoice(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Issue Credit Note</DialogTitle>
+          </DialogHeader>
+          {creditInvoice && (
+            <form onSubmit={handleCreateCreditNote} className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Reverse all or part of {creditInvoice.invoice_number}. Leave an amount empty to credit whatever is
+                left on that line.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10"></TableHead>
+                    <TableHead>Payout ID</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Invoiced (THB)</TableHead>
+                    <TableHead className="w-36">Credit (THB)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {creditInvoice.items.map((item) => {
+                    const selected = item.id in creditLines;
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selected}
+                            onCheckedChange={(checked) => toggleCreditLine(item.id, checked === true)}
+                          />
+                        </TableCell>
+                        <TableCell>{item.source_platform_payout_id || item.source_platform || "—"}</TableCell>
+                        <TableCell>{format(new Date(item.transaction_date), "MMM dd, yyyy")}</TableCell>
+                        <TableCell className="text-right">฿{item.incoming_amount_thb.toFixed(2)}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            placeholder="Rest of line"
+                            disabled={!selected}
+                            value={creditLines[item.id] ?? ""}
+                            onChange={(e) => setCreditLines((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              <div className="space-y-2">
+                <Label htmlFor="credit_reason">Reason *</Label>
+                <Input
+                  id="credit_reason"
+                  value={creditReason}
+                  onChange={(e) => setCreditReason(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? "Saving..." : "Issue Credit Note"}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
@@ -0,0 +1,272 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { fetchWithAuth } from "@/lib/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from "@/components/ui/chart";
+import { useToast } from "@/hooks/use-toast";
+import ProfitReportCard from "./ProfitReportCard";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { format } from "date-fns";
+
+interface Figures {
+  transaction_count: number;
+  incoming_amount_thb: number;
+  commission_amount: number;
+  fees: number;
+  net_amount: number;
+  payouts: Record<string, number>;
+}
+
+interface SummaryGroup extends Figures {
+  key: string;
+  label: string;
+}
+
+interface Summary {
+  from: string;
+  to: string;
+  totals: Figures;
+  previous: { from: string; to: string; totals: Figures };
+  change: Record<"transaction_count" | "incoming_amount_thb" | "commission_amount" | "fees" | "net_amount", number | null>;
+  groups: SummaryGroup[];
+}
+
+type GroupBy = "month" | "client" | "platform";
+
+const TOP_GROUPS = 8;
+
+const revenueConfig = {
+  incoming_amount_thb: { label: "Incoming (THB)", color: "hsl(var(--primary))" },
+  commission_amount: { label: "Commission (THB)", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+const payoutConfig = {
+  THB: { label: "THB payouts", color: "hsl(var(--primary))" },
+  MMK: { label: "MMK payouts", color: "hsl(142 71% 45%)" },
+} satisfies ChartConfig;
+
+// Last twelve months, starting on the first of the month
+const defaultRange = () => {
+  const now = new Date();
+  return { from: format(new Date(now.getFullYear(), now.getMonth() - 11, 1), "yyyy-MM-dd"), to: format(now, "yyyy-MM-dd") };
+};
+
+const formatThb = (amount: number) => `฿${amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const formatMonth = (key: string) => {
+  const [year, month] = key.split("-").map(Number);
+  return format(new Date(year, month - 1, 1), "MMM yy");
+};
+
+const ChangeBadge = ({ value }: { value: number | null }) => {
+  if (value === null) return <span className="text-xs text-muted-foreground">no earlier data</span>;
+  const className = value >= 0 ? "text-green-600" : "text-destructive";
+  return (
+    <span className={`text-xs ${className}`}>
+      {value >= 0 ? "▲" : "▼"} {Math.abs(value).toFixed(1)}% vs previous period
+    </span>
+  );
+};
+
+const OverviewTab = () => {
+  const [range, setRange] = useState(defaultRange);
+  const [summaries, setSummaries] = useState<Partial<Record<GroupBy, Summary>>>({});
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchSummaries = useCallback(
+    async (from: string, to: string) => {
+      setLoading(true);
+      try {
+        const groupings: GroupBy[] = ["month", "client", "platform"];
+        const responses = await Promise.all(
+          groupings.map((groupBy) => fetchWithAuth(`/api/reports/summary?from=${from}&to=${to}&group_by=${groupBy}`))
+        );
+        const next: Partial<Record<GroupBy, Summary>> = {};
+        for (const [idx, response] of responses.entries()) {
+          const body = await response.json().catch(() => null);
+          if (!response.ok) throw new Error(body?.message || "Failed to load the overview.");
+          next[groupings[idx]] = body as Summary;
+        }
+        setSummaries(next);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : "Failed to load the overview.";
+        toast({ title: "Error", description: message, variant: "destructive" });
+      } finally {
+        setLoading(false);
+      }
+    },
+    [toast]
+  );
+
+  useEffect(() => {
+    const initial = defaultRange();
+    fetchSummaries(initial.from, initial.to);
+  }, [fetchSummaries]);
+
+  const monthly = summaries.month;
+  const monthlyData = (monthly?.groups || []).map((group) => ({
+    label: formatMonth(group.key),
+    incoming_amount_thb: group.incoming_amount_thb,
+    commission_amount: group.commission_amount,
+    THB: group.payouts.THB || 0,
+    MMK: group.payouts.MMK || 0,
+  }));
+  const clientData = (summaries.client?.groups || []).slice(0, TOP_GROUPS);
+  const platformData = (summaries.platform?.groups || []).slice(0, TOP_GROUPS);
+
+  const kpis = monthly
+    ? [
+        { label: "Incoming", value: formatThb(monthly.totals.incoming_amount_thb), change: monthly.change.incoming_amount_thb },
+        { label: "Commission Earned", value: formatThb(monthly.totals.commission_amount), change: monthly.change.commission_amount },
+        { label: "Net to Clients", value: formatThb(monthly.totals.net_amount), change: monthly.change.net_amount },
+        { label: "Transactions", value: monthly.totals.transaction_count.toLocaleString(), change: monthly.change.transaction_count },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <CardTitle>Overview</CardTitle>
+              <CardDescription>
+                {monthly
+                  ? `Compared with ${monthly.previous.from} – ${monthly.previous.to}`
+                  : "Transaction totals for the selected period"}
+              </CardDescription>
+            </div>
+            <form
+              className="flex items-end gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                fetchSummaries(range.from, range.to);
+              }}
+            >
+              <div className="space-y-1">
+                <Label htmlFor="overview_from">From</Label>
+                <Input
+                  id="overview_from"
+                  type="date"
+                  value={range.from}
+                  onChange={(e) => setRange((prev) => ({ ...prev, from: e.target.value }))}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="overview_to">To</Label>
+                <Input
+                  id="overview_to"
+                  type="date"
+                  value={range.to}
+                  onChange={(e) => setRange((prev) => ({ ...prev, to: e.target.value }))}
+                  required
+                />
+              </div>
+              <Button type="submit" variant="outline" disabled={loading}>
+                {loading ? "Loading..." : "Apply"}
+              </Button>
+            </form>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-4">
+            {kpis.map((kpi) => (
+              <div key={kpi.label} className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">{kpi.label}</p>
+                <p className="text-2xl font-semibold">{kpi.value}</p>
+                <ChangeBadge value={kpi.change} />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Monthly Incoming & Commission</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={revenueConfig} className="h-[260px] w-full">
+              <BarChart data={monthlyData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={60} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="incoming_amount_thb" fill="var(--color-incoming_amount_thb)" radius={4} />
+                <Bar dataKey="commission_amount" fill="var(--color-commission_amount)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Payout Volume by Currency</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={payoutConfig} className="h-[260px] w-full">
+              <LineChart data={monthlyData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis yAxisId="THB" tickLine={false} axisLine={false} width={60} />
+                <YAxis yAxisId="MMK" orientation="right" tickLine={false} axisLine={false} width={70} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line yAxisId="THB" dataKey="THB" stroke="var(--color-THB)" strokeWidth={2} dot={false} />
+                <Line yAxisId="MMK" dataKey="MMK" stroke="var(--color-MMK)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Top Clients</CardTitle>
+            <CardDescription>By incoming THB</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={revenueConfig} className="h-[260px] w-full">
+              <BarChart data={clientData} layout="vertical" margin={{ left: 16 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={110} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="incoming_amount_thb" fill="var(--color-incoming_amount_thb)" radius={4} />
+                <Bar dataKey="commission_amount" fill="var(--color-commission_amount)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Revenue by Platform</CardTitle>
+            <CardDescription>Incoming and commission per source platform</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={revenueConfig} className="h-[260px] w-full">
+              <BarChart data={platformData} layout="vertical" margin={{ left: 16 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={110} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="incoming_amount_thb" fill="var(--color-incoming_amount_thb)" radius={4} />
+                <Bar dataKey="commission_amount" fill="var(--color-commission_amount)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      {monthly && <ProfitReportCard from={monthly.from} to={monthly.to} />}
+    </div>
+  );
+};
+
+export default OverviewTab;
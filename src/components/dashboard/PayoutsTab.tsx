@@ -0,0 +1,490 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { fetchWithAuth } from "@/lib/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Eye, Trash2, FileDown, CheckCircle2 } from "lucide-react";
+import { format } from "date-fns";
+import { formatDateOnly } from "@/lib/dates";
+
+type Totals = Record<string, number>;
+
+interface BankSummary {
+  bank_code: string;
+  label: string;
+  count: number;
+  totals: Totals;
+}
+
+interface BatchItem {
+  id: string;
+  transaction_id: string | null;
+  client_name: string;
+  bank_code: string;
+  bank_name: string | null;
+  account_number: string | null;
+  account_name: string | null;
+  payout_currency: string;
+  payout_amount: number;
+  transaction_date: string;
+}
+
+interface PayoutBatch {
+  id: string;
+  batch_number: string;
+  status: "draft" | "confirmed";
+  notes: string | null;
+  paid_at: string | null;
+  reference: string | null;
+  created_at: string;
+  transaction_count: number;
+  totals: Totals;
+  banks: BankSummary[];
+  items: BatchItem[];
+}
+
+interface Candidate {
+  id: string;
+  client_name: string;
+  source_platform: string | null;
+  invoice_number: string | null;
+  bank_code: string;
+  bank_name: string | null;
+  account_number: string | null;
+  payout_currency: string;
+  payout_amount: number;
+  transaction_date: string;
+  problem: string | null;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const formatTotals = (totals: Totals) =>
+  Object.entries(totals)
+    .map(([currency, amount]) => `${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`)
+    .join(" · ") || "—";
+
+// Per-bank totals of the selected candidates, for the preview before the batch is created
+const summarizeSelection = (candidates: Candidate[]) => {
+  const groups = new Map<string, { count: number; totals: Totals }>();
+  for (const candidate of candidates) {
+    const group = groups.get(candidate.bank_code) || { count: 0, totals: {} };
+    group.count += 1;
+    group.totals[candidate.payout_currency] = (group.totals[candidate.payout_currency] || 0) + candidate.payout_amount;
+    groups.set(candidate.bank_code, group);
+  }
+  return [...groups.entries()].map(([bank_code, group]) => ({ bank_code, ...group }));
+};
+
+const PayoutsTab = () => {
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [notes, setNotes] = useState("");
+  const [viewingBatch, setViewingBatch] = useState<PayoutBatch | null>(null);
+  const [confirmForm, setConfirmForm] = useState({ paid_at: today(), reference: "" });
+  const { toast } = useToast();
+
+  const fetchBatches = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetchWithAuth("/api/payout-batches");
+      if (!response.ok) throw new Error("Failed to load payout batches.");
+      setBatches((await response.json()) as PayoutBatch[]);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load payout batches.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
+
+  const fetchCandidates = async () => {
+    setLoading(true);
+    try {
+      const response = await fetchWithAuth("/api/payout-batches/candidates");
+      if (!response.ok) throw new Error("Failed to load unpaid transactions.");
+      setCandidates((await response.json()) as Candidate[]);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load unpaid transactions.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateOpenChange = (value: boolean) => {
+    setCreateOpen(value);
+    setSelectedIds([]);
+    setNotes("");
+    if (value) fetchCandidates();
+  };
+
+  const toggleCandidate = (id: string, checked: boolean) =>
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((selectedId) => selectedId !== id)));
+
+  const payable = candidates.filter((candidate) => !candidate.problem);
+  const selected = candidates.filter((candidate) => selectedIds.includes(candidate.id));
+
+  const handleCreate = async () => {
+    setLoading(true);
+    try {
+      const response = await fetchWithAuth("/api/payout-batches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ transaction_ids: selectedIds, notes }),
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(body?.message || "Failed to create payout batch.");
+
+      toast({ title: "Success", description: `Payout batch ${body.batch_number} created` });
+      handleCreateOpenChange(false);
+      await fetchBatches();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to create payout batch.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleView = (batch: PayoutBatch) => {
+    setConfirmForm({ paid_at: today(), reference: "" });
+    setViewingBatch(batch);
+  };
+
+  const handleDownload = async (batch: PayoutBatch, bankCode: string) => {
+    try {
+      const response = await fetchWithAuth(`/api/payout-batches/${batch.id}/files/${bankCode}`);
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to download bank file.");
+      }
+
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `${batch.batch_number}-${bankCode}.csv`;
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to download bank file.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!viewingBatch) return;
+
+    setLoading(true);
+    try {
+      const response = await fetchWithAuth(`/api/payout-batches/${viewingBatch.id}/confirm`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ paid_at: confirmForm.paid_at, reference: confirmForm.reference || null }),
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(body?.message || "Failed to confirm payout batch.");
+
+      const settled = body.settled_invoices.length > 0 ? `; invoices paid: ${body.settled_invoices.join(", ")}` : "";
+      toast({ title: "Success", description: `${body.transaction_count} transaction${body.transaction_count === 1 ? "" : "s"} marked paid${settled}` });
+      setViewingBatch(body as PayoutBatch);
+      await fetchBatches();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to confirm payout batch.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Are you sure you want to delete this draft payout batch?")) return;
+
+    setLoading(true);
+    try {
+      const response = await fetchWithAuth(`/api/payout-batches/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to delete payout batch.");
+      }
+
+      toast({ title: "Success", description: "Payout batch deleted" });
+      await fetchBatches();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to delete payout batch.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Payout Batches</CardTitle>
+            <CardDescription>Pay many clients at once with one bulk-transfer file per bank</CardDescription>
+          </div>
+          <Dialog open={createOpen} onOpenChange={handleCreateOpenChange}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="w-4 h-4 mr-2" />
+                New Batch
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>New Payout Batch</DialogTitle>
+                <DialogDescription>
+                  Unpaid transactions, invoiced or not. Transactions without a payment destination cannot be added.
+                </DialogDescription>
+              </DialogHeader>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={payable.length > 0 && selectedIds.length === payable.length}
+                        onCheckedChange={(checked) => setSelectedIds(checked ? payable.map((c) => c.id) : [])}
+                      />
+                    </TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Bank</TableHead>
+                    <TableHead className="text-right">Payout</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {candidates.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        {loading ? "Loading unpaid transactions..." : "Every transaction has been paid out."}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    candidates.map((candidate) => (
+                      <TableRow key={candidate.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.includes(candidate.id)}
+                            disabled={Boolean(candidate.problem)}
+                            onCheckedChange={(checked) => toggleCandidate(candidate.id, checked === true)}
+                          />
+                        </TableCell>
+                        <TableCell>{formatDateOnly(candidate.transaction_date)}</TableCell>
+                        <TableCell>{candidate.client_name}</TableCell>
+                        <TableCell>{candidate.invoice_number || "—"}</TableCell>
+                        <TableCell>
+                          {candidate.problem ? (
+                            <span className="text-destructive">{candidate.problem}</span>
+                          ) : (
+                            <>
+                              <Badge variant="outline">{candidate.bank_code}</Badge>{" "}
+                              <span className="text-muted-foreground">{candidate.account_number}</span>
+                            </>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatTotals({ [candidate.payout_currency]: candidate.payout_amount })}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+
+              {selected.length > 0 && (
+                <div className="rounded-lg border p-4 space-y-1">
+                  <p className="font-medium">{selected.length} selected</p>
+                  {summarizeSelection(selected).map((group) => (
+                    <p key={group.bank_code} className="text-sm text-muted-foreground">
+                      {group.bank_code}: {group.count} payouts · {formatTotals(group.totals)}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="payout_batch_notes">Notes</Label>
+                <Input id="payout_batch_notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+              </div>
+              <Button onClick={handleCreate} disabled={loading || selectedIds.length === 0}>
+                {loading ? "Saving..." : "Create Batch"}
+              </Button>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Batch</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Banks</TableHead>
+              <TableHead className="text-right">Transactions</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {batches.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  {loading ? "Loading payout batches..." : "No payout batches yet."}
+                </TableCell>
+              </TableRow>
+            ) : (
+              batches.map((batch) => (
+                <TableRow key={batch.id}>
+                  <TableCell className="font-medium">{batch.batch_number}</TableCell>
+                  <TableCell>{format(new Date(batch.created_at), "MMM dd, yyyy")}</TableCell>
+                  <TableCell>
+                    <Badge variant={batch.status === "confirmed" ? "default" : "secondary"}>
+                      {batch.status === "confirmed" && batch.paid_at ? `paid ${formatDateOnly(batch.paid_at)}` : batch.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{batch.banks.map((bank) => bank.bank_code).join(", ")}</TableCell>
+                  <TableCell className="text-right">{batch.transaction_count}</TableCell>
+                  <TableCell className="text-right">{formatTotals(batch.totals)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleView(batch)}>
+                      <Eye className="w-4 h-4" />
+                    </Button>
+                    {batch.status === "draft" && (
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(batch.id)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <Dialog open={viewingBatch !== null} onOpenChange={(value) => !value && setViewingBatch(null)}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            {viewingBatch && (
+              <>
+                <DialogHeader>
+                  <DialogTitle>Payout Batch {viewingBatch.batch_number}</DialogTitle>
+                  <DialogDescription>
+                    {viewingBatch.status === "confirmed"
+                      ? `Paid ${viewingBatch.paid_at ? formatDateOnly(viewingBatch.paid_at) : ""}${viewingBatch.reference ? ` · ${viewingBatch.reference}` : ""}`
+                      : "Upload each bank's file to its bulk-transfer portal, then confirm the batch once the transfers are sent."}
+                  </DialogDescription>
+                </DialogHeader>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Bank</TableHead>
+                      <TableHead className="text-right">Payouts</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead className="text-right">Upload File</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {viewingBatch.banks.map((bank) => (
+                      <TableRow key={bank.bank_code}>
+                        <TableCell>{bank.label}</TableCell>
+                        <TableCell className="text-right">{bank.count}</TableCell>
+                        <TableCell className="text-right">{formatTotals(bank.totals)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => handleDownload(viewingBatch, bank.bank_code)}>
+                            <FileDown className="w-4 h-4 mr-2" />
+                            CSV
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Client</TableHead>
+                      <TableHead>Account</TableHead>
+                      <TableHead className="text-right">Payout</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {viewingBatch.items.map((item) => (
+                      <TableRow key={item.id}>
+                        <TableCell>{formatDateOnly(item.transaction_date)}</TableCell>
+                        <TableCell>{item.client_name}</TableCell>
+                        <TableCell>
+                          {item.bank_name} · {item.account_number}
+                          {item.account_name ? ` (${item.account_name})` : ""}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatTotals({ [item.payout_currency]: item.payout_amount })}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {viewingBatch.status === "draft" && (
+                  <form onSubmit={handleConfirm} className="space-y-4 border-t pt-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="payout_batch_paid_at">Paid On *</Label>
+                        <Input
+                          id="payout_batch_paid_at"
+                          type="date"
+                          value={confirmForm.paid_at}
+                          onChange={(e) => setConfirmForm((prev) => ({ ...prev, paid_at: e.target.value }))}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="payout_batch_reference">Bank Reference</Label>
+                        <Input
+                          id="payout_batch_reference"
+                          value={confirmForm.reference}
+                          onChange={(e) => setConfirmForm((prev) => ({ ...prev, reference: e.target.value }))}
+                        />
+                      </div>
+                    </div>
+                    <Button type="submit" disabled={loading}>
+                      <CheckCircle2 className="w-4 h-4 mr-2" />
+                      {loading ? "Saving..." : "Confirm Paid"}
+                    </Button>
+                  </form>
+                )}
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PayoutsTab;
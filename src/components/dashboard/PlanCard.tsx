@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { fetchWithAuth } from "@/lib/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Gem } from "lucide-react";
+import { formatPlanPrice, type Plan } from "@/lib/plans";
+
+interface PlanUsage {
+  plan: Plan | null;
+  usage: {
+    clients: number;
+    invoices_this_month: number;
+  };
+}
+
+const UsageRow = ({ label, used, limit }: { label: string; used: number; limit: number | null }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-sm">
+      <span>{label}</span>
+      <span className={limit != null && used >= limit ? "font-medium text-destructive" : "text-muted-foreground"}>
+        {limit == null ? `${used} (unlimited)` : `${used} of ${limit}`}
+      </span>
+    </div>
+    {limit != null && <Progress value={limit === 0 ? 100 : Math.min(100, (used / limit) * 100)} />}
+  </div>
+);
+
+// The subscriber's plan and how much of its limits they have used
+const PlanCard = () => {
+  const [data, setData] = useState<PlanUsage | null>(null);
+  const { toast } = useToast();
+
+  const fetchPlan = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth("/api/settings/plan");
+      if (!response.ok) throw new Error("Failed to load your plan.");
+      setData(await response.json());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load your plan.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPlan();
+  }, [fetchPlan]);
+
+  if (!data) return null;
+  const { plan, usage } = data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Gem className="w-5 h-5" />
+              Subscription Plan
+            </CardTitle>
+            <CardDescription>
+              {plan ? formatPlanPrice(plan) : "Your account has no plan limits"}
+            </CardDescription>
+          </div>
+          {plan && <Badge>{plan.name}</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3 max-w-md">
+          <UsageRow label="Clients" used={usage.clients} limit={plan?.max_clients ?? null} />
+          <UsageRow
+            label="Invoices this month"
+            used={usage.invoices_this_month}
+            limit={plan?.max_invoices_per_month ?? null}
+          />
+        </div>
+        {plan && plan.features.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {plan.features.map((feature) => (
+              <li key={feature} className="flex items-center gap-2">
+                <Check className="w-4 h-4 text-primary" />
+                {feature}
+              </li>
+            ))}
+          </ul>
+        )}
+        {plan && (
+          <p className="text-xs text-muted-foreground">Contact an admin to change your plan.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PlanCard;
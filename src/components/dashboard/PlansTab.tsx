@@ -0,0 +1,285 @@
+import { useState, useEffect, useCallback } from "react";
+import { fetchWithAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { formatPlanPrice, type Plan } from "@/lib/plans";
+
+interface PlanForm {
+  name: string;
+  price: string;
+  currency: string;
+  billing_period: "monthly" | "yearly";
+  max_clients: string;
+  max_invoices_per_month: string;
+  features: string;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: PlanForm = {
+  name: "",
+  price: "",
+  currency: "USD",
+  billing_period: "monthly",
+  max_clients: "",
+  max_invoices_per_month: "",
+  features: "",
+  is_active: true,
+};
+
+const toForm = (plan: Plan): PlanForm => ({
+  name: plan.name,
+  price: String(plan.price),
+  currency: plan.currency,
+  billing_period: plan.billing_period,
+  max_clients: plan.max_clients == null ? "" : String(plan.max_clients),
+  max_invoices_per_month: plan.max_invoices_per_month == null ? "" : String(plan.max_invoices_per_month),
+  features: plan.features.join("\n"),
+  is_active: plan.is_active,
+});
+
+const formatLimit = (limit: number | null) => (limit == null ? "Unlimited" : limit.toLocaleString());
+
+// Admin: subscription plans with their prices and limits
+const PlansTab = () => {
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PlanForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchPlans = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth("/api/admin/plans");
+      if (!response.ok) throw new Error("Failed to load plans.");
+      setPlans(await response.json());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load plans.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  const openDialog = (plan?: Plan) => {
+    setEditingId(plan ? plan.id : null);
+    setForm(plan ? toForm(plan) : EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const payload = {
+        ...form,
+        features: form.features.split("\n").map((feature) => feature.trim()).filter(Boolean),
+      };
+      const response = await fetchWithAuth(editingId ? `/api/admin/plans/${editingId}` : "/api/admin/plans", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to save the plan.");
+      }
+      toast({ title: "Success", description: editingId ? "Plan updated." : "Plan created." });
+      setDialogOpen(false);
+      fetchPlans();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to save the plan.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (plan: Plan) => {
+    if (!window.confirm(`Delete the ${plan.name} plan?`)) return;
+    try {
+      const response = await fetchWithAuth(`/api/admin/plans/${plan.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to delete the plan.");
+      }
+      toast({ title: "Success", description: "Plan deleted." });
+      fetchPlans();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to delete the plan.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Plans</h2>
+          <p className="text-sm text-muted-foreground">Leave a limit empty for unlimited. Users without a plan have no limits.</p>
+        </div>
+        <Button onClick={() => openDialog()}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Plan
+        </Button>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Price</TableHead>
+              <TableHead>Clients</TableHead>
+              <TableHead>Invoices / Month</TableHead>
+              <TableHead>Users</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {plans.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No plans yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              plans.map((plan) => (
+                <TableRow key={plan.id}>
+                  <TableCell className="font-medium">{plan.name}</TableCell>
+                  <TableCell>{formatPlanPrice(plan)}</TableCell>
+                  <TableCell>{formatLimit(plan.max_clients)}</TableCell>
+                  <TableCell>{formatLimit(plan.max_invoices_per_month)}</TableCell>
+                  <TableCell>{plan.user_count ?? 0}</TableCell>
+                  <TableCell>
+                    <Badge variant={plan.is_active ? "default" : "outline"}>{plan.is_active ? "Active" : "Inactive"}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => openDialog(plan)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(plan)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Plan" : "New Plan"}</DialogTitle>
+            <DialogDescription>Changed limits apply the next time a subscriber adds a client or invoice.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="plan_name">Name</Label>
+              <Input id="plan_name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} required />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="plan_price">Price</Label>
+                <Input
+                  id="plan_price"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.price}
+                  onChange={(e) => setForm({ ...form, price: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan_currency">Currency</Label>
+                <Input
+                  id="plan_currency"
+                  value={form.currency}
+                  onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+                  maxLength={3}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Billing</Label>
+                <Select
+                  value={form.billing_period}
+                  onValueChange={(value) => setForm({ ...form, billing_period: value as PlanForm["billing_period"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                    <SelectItem value="yearly">Yearly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="plan_max_clients">Max Clients</Label>
+                <Input
+                  id="plan_max_clients"
+                  type="number"
+                  min={0}
+                  placeholder="Unlimited"
+                  value={form.max_clients}
+                  onChange={(e) => setForm({ ...form, max_clients: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan_max_invoices">Max Invoices / Month</Label>
+                <Input
+                  id="plan_max_invoices"
+                  type="number"
+                  min={0}
+                  placeholder="Unlimited"
+                  value={form.max_invoices_per_month}
+                  onChange={(e) => setForm({ ...form, max_invoices_per_month: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan_features">Features (one per line)</Label>
+              <Textarea
+                id="plan_features"
+                rows={3}
+                value={form.features}
+                onChange={(e) => setForm({ ...form, features: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="plan_active" checked={form.is_active} onCheckedChange={(checked) => setForm({ ...form, is_active: checked })} />
+              <Label htmlFor="plan_active">Available for new subscribers</Label>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PlansTab;
@@ -0,0 +1,227 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { fetchWithAuth } from "@/lib/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { FileDown } from "lucide-react";
+import { format } from "date-fns";
+
+type GroupBy = "month" | "client" | "platform";
+type ExportFormat = "csv" | "xlsx" | "json";
+
+interface ProfitFigures {
+  transaction_count: number;
+  commission_amount: number;
+  credited_commission: number;
+  absorbed_fees: number;
+  profit: number;
+  realized_commission: number;
+  pending_commission: number;
+  uninvoiced_commission: number;
+}
+
+interface ProfitGroup extends ProfitFigures {
+  key: string;
+  label: string;
+}
+
+interface ProfitReport {
+  from: string;
+  to: string;
+  group_by: GroupBy;
+  totals: ProfitFigures;
+  groups: ProfitGroup[];
+}
+
+interface ProfitReportCardProps {
+  from: string;
+  to: string;
+}
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+  month: "Month",
+  client: "Client",
+  platform: "Platform",
+};
+
+const formatThb = (amount: number) =>
+  `฿${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatMonth = (key: string) => {
+  const [year, month] = key.split("-").map(Number);
+  return format(new Date(year, month - 1, 1), "MMM yyyy");
+};
+
+const ProfitReportCard = ({ from, to }: ProfitReportCardProps) => {
+  const [groupBy, setGroupBy] = useState<GroupBy>("month");
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [report, setReport] = useState<ProfitReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+  const { toast } = useToast();
+
+  const query = `from=${from}&to=${to}&group_by=${groupBy}`;
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetchWithAuth(`/api/reports/profit?${query}`);
+      const body = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(body?.message || "Failed to load the profit report.");
+      setReport(body as ProfitReport);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load the profit report.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [query, toast]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const handleExport = async () => {
+    setDownloading(true);
+    try {
+      const response = await fetchWithAuth(`/api/reports/profit/export?${query}&format=${exportFormat}`);
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Export failed.");
+      }
+
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `profit-by-${groupBy}.${exportFormat}`;
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Export failed.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const totals = report?.totals;
+  const kpis = totals
+    ? [
+        { label: "Profit", value: formatThb(totals.profit) },
+        { label: "Realized", value: formatThb(totals.realized_commission) },
+        { label: "Pending", value: formatThb(totals.pending_commission) },
+        { label: "Absorbed Fees", value: formatThb(totals.absorbed_fees) },
+      ]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <CardTitle>Commission Income</CardTitle>
+            <CardDescription>
+              Commission less credit notes and fees we absorbed. Realized once the client has been paid.
+            </CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <Select value={groupBy} onValueChange={(value) => setGroupBy(value as GroupBy)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(GROUP_LABELS) as GroupBy[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    By {GROUP_LABELS[key].toLowerCase()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleExport} disabled={downloading || !report}>
+              <FileDown className="w-4 h-4 mr-2" />
+              {downloading ? "Exporting..." : "Export"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-4">
+          {kpis.map((kpi) => (
+            <div key={kpi.label} className="rounded-lg border p-4">
+              <p className="text-sm text-muted-foreground">{kpi.label}</p>
+              <p className="text-2xl font-semibold">{kpi.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{GROUP_LABELS[groupBy]}</TableHead>
+              <TableHead className="text-right">Transactions</TableHead>
+              <TableHead className="text-right">Commission</TableHead>
+              <TableHead className="text-right">Credited</TableHead>
+              <TableHead className="text-right">Absorbed Fees</TableHead>
+              <TableHead className="text-right">Profit</TableHead>
+              <TableHead className="text-right">Realized</TableHead>
+              <TableHead className="text-right">Pending</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading && !report ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  Loading...
+                </TableCell>
+              </TableRow>
+            ) : !report || report.groups.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  No transactions in this period.
+                </TableCell>
+              </TableRow>
+            ) : (
+              report.groups.map((group) => (
+                <TableRow key={group.key}>
+                  <TableCell className="font-medium">{report.group_by === "month" ? formatMonth(group.key) : group.label}</TableCell>
+                  <TableCell className="text-right">{group.transaction_count}</TableCell>
+                  <TableCell className="text-right">{formatThb(group.commission_amount)}</TableCell>
+                  <TableCell className="text-right">{formatThb(group.credited_commission)}</TableCell>
+                  <TableCell className="text-right">{formatThb(group.absorbed_fees)}</TableCell>
+                  <TableCell className="text-right font-semibold">{formatThb(group.profit)}</TableCell>
+                  <TableCell className="text-right">{formatThb(group.realized_commission)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatThb(group.pending_commission)}
+                    {group.uninvoiced_commission > 0 && (
+                      <span className="block text-xs text-muted-foreground">
+                        {formatThb(group.uninvoiced_commission)} not invoiced
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProfitReportCard;
@@ -0,0 +1,330 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { fetchWithAuth } from "@/lib/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Pencil, Trash2, RefreshCw } from "lucide-react";
+import { formatDateOnly } from "@/lib/dates";
+
+interface ExchangeRate {
+  id: string;
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  effective_date: string;
+  source: string;
+  notes: string | null;
+}
+
+interface EffectiveRates {
+  date: string;
+  thb_mmk: ExchangeRate | null;
+  usd_thb: ExchangeRate | null;
+}
+
+type PairKey = "thb_mmk" | "usd_thb";
+
+const PAIRS: { key: PairKey; base: string; quote: string; label: string }[] = [
+  { key: "thb_mmk", base: "THB", quote: "MMK", label: "1 THB to MMK" },
+  { key: "usd_thb", base: "USD", quote: "THB", label: "1 USD to THB" },
+];
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const emptyForm = () => ({
+  pair: "thb_mmk" as PairKey,
+  rate: "",
+  effective_date: today(),
+  notes: "",
+});
+
+const RatesTab = () => {
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [effective, setEffective] = useState<EffectiveRates | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [editingRateId, setEditingRateId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const { toast } = useToast();
+
+  const fetchRates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [ratesResponse, effectiveResponse] = await Promise.all([
+        fetchWithAuth("/api/exchange-rates"),
+        fetchWithAuth("/api/exchange-rates/effective"),
+      ]);
+      if (!ratesResponse.ok || !effectiveResponse.ok) throw new Error("Failed to load exchange rates.");
+
+      setRates((await ratesResponse.json()) as ExchangeRate[]);
+      setEffective((await effectiveResponse.json()) as EffectiveRates);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load exchange rates.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  const handleDialogChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) {
+      setEditingRateId(null);
+      setFormData(emptyForm());
+    }
+  };
+
+  const handleEdit = (rate: ExchangeRate) => {
+    const pair = PAIRS.find((p) => p.base === rate.base_currency && p.quote === rate.quote_currency);
+    setEditingRateId(rate.id);
+    setFormData({
+      pair: pair ? pair.key : "thb_mmk",
+      rate: rate.rate.toString(),
+      effective_date: rate.effective_date,
+      notes: rate.notes || "",
+    });
+    setOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const pair = PAIRS.find((p) => p.key === formData.pair);
+    if (!pair) return;
+
+    setLoading(true);
+    try {
+      const response = await fetchWithAuth(
+        editingRateId ? `/api/exchange-rates/${editingRateId}` : "/api/exchange-rates",
+        {
+          method: editingRateId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            base_currency: pair.base,
+            quote_currency: pair.quote,
+            rate: parseFloat(formData.rate),
+            effective_date: formData.effective_date,
+            notes: formData.notes,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to save exchange rate.");
+      }
+
+      toast({ title: "Success", description: editingRateId ? "Exchange rate updated" : "Exchange rate added" });
+      handleDialogChange(false);
+      await fetchRates();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to save exchange rate.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Are you sure you want to delete this exchange rate?")) return;
+
+    setLoading(true);
+    try {
+      const response = await fetchWithAuth(`/api/exchange-rates/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to delete exchange rate.");
+      }
+
+      toast({ title: "Success", description: "Exchange rate deleted" });
+      await fetchRates();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to delete exchange rate.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSync = async () => {
+    setSyncing(true);
+    try {
+      const response = await fetchWithAuth("/api/exchange-rates/sync", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(body?.message || "Failed to sync exchange rates.");
+
+      const skipped = body.rejected.length > 0 ? `, ${body.rejected.length} rejected` : "";
+      toast({
+        title: "Rates synced",
+        description: `${body.saved} saved from ${body.provider}, ${body.kept_manual} manual rates kept${skipped}`,
+      });
+      await fetchRates();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to sync exchange rates.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Exchange Rates</CardTitle>
+            <CardDescription>Dated THB→MMK and USD→THB rates used to prefill transactions</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleSync} disabled={syncing}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${syncing ? "animate-spin" : ""}`} />
+              Sync Rates
+            </Button>
+            <Dialog open={open} onOpenChange={handleDialogChange}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Rate
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{editingRateId ? "Edit Exchange Rate" : "Add Exchange Rate"}</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Currency Pair *</Label>
+                    <Select
+                      value={formData.pair}
+                      onValueChange={(value) => setFormData((prev) => ({ ...prev, pair: value as PairKey }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAIRS.map((pair) => (
+                          <SelectItem key={pair.key} value={pair.key}>
+                            {pair.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rate_value">Rate *</Label>
+                    <Input
+                      id="rate_value"
+                      type="number"
+                      step="0.000001"
+                      min="0"
+                      value={formData.rate}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, rate: e.target.value }))}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rate_effective_date">Effective From *</Label>
+                    <Input
+                      id="rate_effective_date"
+                      type="date"
+                      value={formData.effective_date}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, effective_date: e.target.value }))}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rate_notes">Notes</Label>
+                    <Input
+                      id="rate_notes"
+                      value={formData.notes}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={loading}>
+                    {loading ? "Saving..." : editingRateId ? "Update Rate" : "Add Rate"}
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          {PAIRS.map((pair) => {
+            const current = effective ? effective[pair.key] : null;
+            return (
+              <div key={pair.key} className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">Today's rate · {pair.label}</p>
+                <p className="text-2xl font-semibold">{current ? current.rate.toFixed(4) : "—"}</p>
+                <p className="text-xs text-muted-foreground">
+                  {current ? `Effective since ${formatDateOnly(current.effective_date)}` : "No rate entered yet"}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Effective From</TableHead>
+              <TableHead>Pair</TableHead>
+              <TableHead className="text-right">Rate</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Notes</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rates.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  {loading ? "Loading exchange rates..." : "No exchange rates yet. Add one or sync from the rate provider."}
+                </TableCell>
+              </TableRow>
+            ) : (
+              rates.map((rate) => (
+                <TableRow key={rate.id}>
+                  <TableCell>{formatDateOnly(rate.effective_date)}</TableCell>
+                  <TableCell>
+                    {rate.base_currency}→{rate.quote_currency}
+                  </TableCell>
+                  <TableCell className="text-right">{rate.rate.toFixed(4)}</TableCell>
+                  <TableCell>
+                    <Badge variant={rate.source === "manual" ? "secondary" : "outline"}>{rate.source}</Badge>
+                  </TableCell>
+                  <TableCell>{rate.notes || "—"}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(rate)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(rate.id)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RatesTab;
@@ -0,0 +1,15 @@
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Lock } from "lucide-react";
+
+// Stands in for the add/generate buttons while the account is read-only
+const RenewalCallout = ({ action }: { action: string }) => (
+  <Button asChild>
+    <Link to="/contact" title={`Renew your subscription to ${action}`}>
+      <Lock className="w-4 h-4 mr-2" />
+      Renew to {action}
+    </Link>
+  </Button>
+);
+
+export default RenewalCallout;
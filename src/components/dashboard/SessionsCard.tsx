@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { fetchWithAuth, logout, signOutEverywhere } from "@/lib/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { LogOut, MonitorSmartphone } from "lucide-react";
+import { format } from "date-fns";
+
+interface Session {
+  id: string;
+  device: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  started_at: string;
+  last_used_at: string;
+  expires_at: string;
+  current: boolean;
+}
+
+const SessionsCard = () => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth("/api/auth/sessions");
+      if (!response.ok) throw new Error("Failed to load sessions.");
+      setSessions(await response.json());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load sessions.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleRevoke = async (session: Session) => {
+    if (session.current) {
+      if (!window.confirm("Sign out of this browser?")) return;
+    }
+    try {
+      const response = await fetchWithAuth(`/api/auth/sessions/${session.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to sign the session out.");
+      }
+      if (session.current) {
+        await logout();
+        navigate("/auth");
+        return;
+      }
+      toast({ title: "Success", description: "Session signed out." });
+      fetchSessions();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to sign the session out.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!window.confirm("Sign out of every browser and device, including this one?")) return;
+    try {
+      await signOutEverywhere();
+      navigate("/auth");
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Could not sign out everywhere.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MonitorSmartphone className="w-5 h-5" />
+              Active Sessions
+            </CardTitle>
+            <CardDescription>Browsers and devices signed in to your account</CardDescription>
+          </div>
+          <Button variant="outline" onClick={handleSignOutEverywhere} disabled={sessions.length === 0}>
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign Out Everywhere
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Device</TableHead>
+              <TableHead>IP Address</TableHead>
+              <TableHead>Signed In</TableHead>
+              <TableHead>Last Active</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  Loading...
+                </TableCell>
+              </TableRow>
+            ) : sessions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No active sessions.
+                </TableCell>
+              </TableRow>
+            ) : (
+              sessions.map((session) => (
+                <TableRow key={session.id}>
+                  <TableCell>
+                    <span className="font-medium">{session.device || "Unknown device"}</span>
+                    {session.current && (
+                      <Badge variant="secondary" className="ml-2">
+                        This browser
+                      </Badge>
+                    )}
+                    {session.user_agent && (
+                      <span className="block max-w-xs truncate text-xs text-muted-foreground" title={session.user_agent}>
+                        {session.user_agent}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>{session.ip_address || "—"}</TableCell>
+                  <TableCell>{format(new Date(session.started_at), "MMM dd, yyyy HH:mm")}</TableCell>
+                  <TableCell>{format(new Date(session.last_used_at), "MMM dd, yyyy HH:mm")}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleRevoke(session)}>
+                      Sign Out
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SessionsCard;
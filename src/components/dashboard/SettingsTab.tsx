@@ -0,0 +1,449 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { fetchWithAuth } from "@/lib/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Trash2, Upload } from "lucide-react";
+import FeeRulesCard from "./FeeRulesCard";
+import PlanCard from "./PlanCard";
+import TwoFactorCard from "./TwoFactorCard";
+import SessionsCard from "./SessionsCard";
+import TeamCard from "./TeamCard";
+import ActivityCard from "./ActivityCard";
+
+interface BusinessProfile {
+  business_name: string | null;
+  address: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+  watermark_text: string | null;
+  accent_color: string;
+  footer_notes: string | null;
+  logo: string | null;
+  updated_at: string | null;
+}
+
+type DocumentType = "invoice" | "credit_note" | "payout_batch";
+
+interface InvoiceNumbering {
+  document_type: DocumentType;
+  prefix: string;
+  number_format: string;
+  reset_yearly: boolean;
+  last_value: number;
+  next_invoice_number: string;
+}
+
+const NUMBERED_DOCUMENTS: { type: DocumentType; label: string; placeholder: string }[] = [
+  { type: "invoice", label: "Invoices", placeholder: "INV" },
+  { type: "credit_note", label: "Credit Notes", placeholder: "CN" },
+  { type: "payout_batch", label: "Payout Batches", placeholder: "PB" },
+];
+
+const DEFAULT_ACCENT_COLOR = "#06b6d4";
+const LOGO_TYPES = ["image/png", "image/jpeg"];
+const MAX_LOGO_BYTES = 512 * 1024;
+
+const emptyProfileForm = () => ({
+  business_name: "",
+  address: "",
+  contact_email: "",
+  contact_phone: "",
+  watermark_text: "",
+  accent_color: DEFAULT_ACCENT_COLOR,
+  footer_notes: "",
+});
+
+const toProfileForm = (profile: BusinessProfile) => ({
+  business_name: profile.business_name || "",
+  address: profile.address || "",
+  contact_email: profile.contact_email || "",
+  contact_phone: profile.contact_phone || "",
+  watermark_text: profile.watermark_text || "",
+  accent_color: profile.accent_color || DEFAULT_ACCENT_COLOR,
+  footer_notes: profile.footer_notes || "",
+});
+
+const SettingsTab = () => {
+  const [formData, setFormData] = useState(emptyProfileForm());
+  const [logo, setLogo] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [numbering, setNumbering] = useState<Partial<Record<DocumentType, InvoiceNumbering>>>({});
+  const [numberingForms, setNumberingForms] = useState<
+    Partial<Record<DocumentType, { prefix: string; number_format: string; reset_yearly: boolean }>>
+  >({});
+  const { toast } = useToast();
+
+  const applyProfile = (profile: BusinessProfile) => {
+    setFormData(toProfileForm(profile));
+    setLogo(profile.logo);
+  };
+
+  const readProfileResponse = async (response: Response, fallback: string) => {
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(body?.message || fallback);
+    }
+    return body as BusinessProfile;
+  };
+
+  const applyNumbering = (settings: InvoiceNumbering) => {
+    setNumbering((prev) => ({ ...prev, [settings.document_type]: settings }));
+    setNumberingForms((prev) => ({
+      ...prev,
+      [settings.document_type]: {
+        prefix: settings.prefix,
+        number_format: settings.number_format,
+        reset_yearly: settings.reset_yearly,
+      },
+    }));
+  };
+
+  const updateNumberingForm = (
+    documentType: DocumentType,
+    changes: Partial<{ prefix: string; number_format: string; reset_yearly: boolean }>
+  ) => setNumberingForms((prev) => ({ ...prev, [documentType]: { ...prev[documentType], ...changes } }));
+
+  const fetchProfile = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [profileResponse, ...numberingResponses] = await Promise.all([
+        fetchWithAuth("/api/settings/profile"),
+        ...NUMBERED_DOCUMENTS.map((doc) => fetchWithAuth(`/api/settings/invoice-numbering?document_type=${doc.type}`)),
+      ]);
+      applyProfile(await readProfileResponse(profileResponse, "Failed to load business profile."));
+      for (const numberingResponse of numberingResponses) {
+        const numberingBody = await numberingResponse.json().catch(() => null);
+        if (!numberingResponse.ok) {
+          throw new Error(numberingBody?.message || "Failed to load invoice numbering.");
+        }
+        applyNumbering(numberingBody as InvoiceNumbering);
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load business profile.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  const updateField = (field: keyof ReturnType<typeof emptyProfileForm>, value: string) =>
+    setFormData((prev) => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetchWithAuth("/api/settings/profile", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formData),
+      });
+      applyProfile(await readProfileResponse(response, "Failed to save business profile."));
+      toast({ title: "Success", description: "Business profile saved" });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to save business profile.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleNumberingSubmit = async (e: React.FormEvent, documentType: DocumentType) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetchWithAuth(`/api/settings/invoice-numbering?document_type=${documentType}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(numberingForms[documentType]),
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(body?.message || "Failed to save invoice numbering.");
+      }
+      applyNumbering(body as InvoiceNumbering);
+      toast({ title: "Success", description: "Numbering saved" });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to save invoice numbering.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!LOGO_TYPES.includes(file.type)) {
+      toast({ title: "Unsupported file", description: "Logo must be a PNG or JPEG image.", variant: "destructive" });
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      toast({ title: "File too large", description: "Logo must be 512 KB or smaller.", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetchWithAuth("/api/settings/profile/logo", {
+        method: "PUT",
+        headers: { "Content-Type": file.type },
+        body: file,
+      });
+      const profile = await readProfileResponse(response, "Failed to upload logo.");
+      setLogo(profile.logo);
+      toast({ title: "Success", description: "Logo uploaded" });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to upload logo.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveLogo = async () => {
+    setSaving(true);
+    try {
+      const response = await fetchWithAuth("/api/settings/profile/logo", { method: "DELETE" });
+      await readProfileResponse(response, "Failed to remove logo.");
+      setLogo(null);
+      toast({ title: "Success", description: "Logo removed" });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to remove logo.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">Loading...</CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Business Profile</CardTitle>
+          <CardDescription>Branding applied to your invoice previews and PDFs</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-8 lg:grid-cols-[1fr_320px]">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="business_name">Business Name</Label>
+                <Input
+                  id="business_name"
+                  value={formData.business_name}
+                  onChange={(e) => updateField("business_name", e.target.value)}
+                  maxLength={120}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="address">Address</Label>
+                <Textarea
+                  id="address"
+                  value={formData.address}
+                  onChange={(e) => updateField("address", e.target.value)}
+                  rows={3}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="contact_email">Contact Email</Label>
+                  <Input
+                    id="contact_email"
+                    type="email"
+                    value={formData.contact_email}
+                    onChange={(e) => updateField("contact_email", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="contact_phone">Contact Phone</Label>
+                  <Input
+                    id="contact_phone"
+                    value={formData.contact_phone}
+                    onChange={(e) => updateField("contact_phone", e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="watermark_text">Watermark Text</Label>
+                  <Input
+                    id="watermark_text"
+                    value={formData.watermark_text}
+                    onChange={(e) => updateField("watermark_text", e.target.value)}
+                    maxLength={40}
+                    placeholder="Leave empty for no watermark"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="accent_color">Accent Color</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="accent_color"
+                      type="color"
+                      value={formData.accent_color}
+                      onChange={(e) => updateField("accent_color", e.target.value)}
+                      className="w-14 p-1"
+                    />
+                    <Input
+                      value={formData.accent_color}
+                      onChange={(e) => updateField("accent_color", e.target.value)}
+                      pattern="^#[0-9a-fA-F]{6}$"
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="footer_notes">Footer Notes</Label>
+                <Textarea
+                  id="footer_notes"
+                  value={formData.footer_notes}
+                  onChange={(e) => updateField("footer_notes", e.target.value)}
+                  rows={3}
+                  placeholder="Payment terms, thank-you note, registration number..."
+                />
+              </div>
+              <Button type="submit" disabled={saving}>
+                Save Profile
+              </Button>
+            </form>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Logo</Label>
+                <div className="flex items-center gap-3">
+                  <Button type="button" variant="outline" size="sm" disabled={saving} asChild>
+                    <label htmlFor="logo_upload" className="cursor-pointer">
+                      <Upload className="w-4 h-4 mr-2" />
+                      Upload
+                    </label>
+                  </Button>
+                  <input
+                    id="logo_upload"
+                    type="file"
+                    accept={LOGO_TYPES.join(",")}
+                    className="hidden"
+                    onChange={handleLogoChange}
+                  />
+                  {logo && (
+                    <Button type="button" variant="ghost" size="sm" disabled={saving} onClick={handleRemoveLogo}>
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">PNG or JPEG, up to 512 KB.</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Invoice Header Preview</Label>
+                <div
+                  className="rounded-lg p-4 flex items-center gap-3 text-white"
+                  style={{ backgroundColor: formData.accent_color }}
+                >
+                  {logo && <img src={logo} alt="Logo" className="h-12 w-12 object-contain" />}
+                  <span className="text-xl font-bold truncate">{formData.business_name || "Your Business"}</span>
+                </div>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Document Numbering</CardTitle>
+          <CardDescription>
+            Numbers are assigned when an invoice or credit note is issued, so issued documents never skip a number.
+            Draft invoices use a temporary DRAFT- number.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-8">
+          <p className="text-xs text-muted-foreground">
+            Tokens: {"{PREFIX}"}, {"{YYYY}"}, {"{YY}"}, {"{MM}"}, {"{SEQ}"} or {"{SEQ:n}"} for a sequence padded to n
+            digits.
+          </p>
+          {NUMBERED_DOCUMENTS.map((doc) => {
+            const form = numberingForms[doc.type];
+            if (!form) return null;
+            return (
+              <form key={doc.type} onSubmit={(e) => handleNumberingSubmit(e, doc.type)} className="space-y-4 max-w-xl">
+                <h3 className="font-medium">{doc.label}</h3>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`${doc.type}_prefix`}>Prefix</Label>
+                    <Input
+                      id={`${doc.type}_prefix`}
+                      value={form.prefix}
+                      onChange={(e) => updateNumberingForm(doc.type, { prefix: e.target.value })}
+                      placeholder={doc.placeholder}
+                      maxLength={12}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${doc.type}_format`}>Format</Label>
+                    <Input
+                      id={`${doc.type}_format`}
+                      value={form.number_format}
+                      onChange={(e) => updateNumberingForm(doc.type, { number_format: e.target.value })}
+                      placeholder="{PREFIX}-{YYYY}-{SEQ:5}"
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Switch
+                    id={`${doc.type}_reset_yearly`}
+                    checked={form.reset_yearly}
+                    onCheckedChange={(checked) => updateNumberingForm(doc.type, { reset_yearly: checked })}
+                  />
+                  <Label htmlFor={`${doc.type}_reset_yearly`}>Restart the sequence every year</Label>
+                </div>
+                {numbering[doc.type] && (
+                  <p className="text-sm">
+                    Next number: <span className="font-medium">{numbering[doc.type].next_invoice_number}</span>
+                  </p>
+                )}
+                <Button type="submit" disabled={saving}>
+                  Save {doc.label} Numbering
+                </Button>
+              </form>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <FeeRulesCard />
+
+      <PlanCard />
+
+      <TeamCard />
+
+      <ActivityCard />
+
+      <TwoFactorCard />
+
+      <SessionsCard />
+    </div>
+  );
+};
+
+export default SettingsTab;
@@ -0,0 +1,34 @@
+import { Link } from "react-router-dom";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { useAccountStatus } from "@/hooks/use-account-status";
+import { Clock, Lock } from "lucide-react";
+
+const TITLES = {
+  expiring_soon: "Subscription ending soon",
+  grace_period: "Read-only access",
+  trial_expired: "Your free trial has ended",
+  subscription_expired: "Your subscription has expired",
+};
+
+// Renewal reminder above the dashboard while the subscription is about to end or has lapsed
+const SubscriptionBanner = () => {
+  const { notice, readOnly } = useAccountStatus();
+
+  if (!notice) return null;
+
+  return (
+    <Alert variant={readOnly ? "destructive" : "default"} className="mb-6">
+      {readOnly ? <Lock className="h-4 w-4" /> : <Clock className="h-4 w-4" />}
+      <AlertTitle>{TITLES[notice.code]}</AlertTitle>
+      <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+        <span>{notice.message}</span>
+        <Button asChild size="sm" variant={readOnly ? "default" : "outline"}>
+          <Link to="/contact">Renew Subscription</Link>
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default SubscriptionBanner;
@@ -0,0 +1,124 @@
+import { useState, useEffect, useCallback } from "react";
+import { fetchWithAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Play } from "lucide-react";
+import { format } from "date-fns";
+
+interface SubscriptionEvent {
+  id: string;
+  event: "renewal_reminder" | "expired";
+  subscription_end_date: string | null;
+  days_before: number | null;
+  details: { previous_status?: string; grace_days?: number };
+  user: { id: string; email: string; subscription_status: string };
+  created_at: string;
+}
+
+const describe = (event: SubscriptionEvent) =>
+  event.event === "renewal_reminder"
+    ? `Reminder ${event.days_before} day${event.days_before === 1 ? "" : "s"} before expiry`
+    : `Read-only after ${event.details.grace_days ?? 0}-day grace period (was ${event.details.previous_status ?? "active"})`;
+
+// Admin: renewal reminders and expiries from the scheduled subscription job
+const SubscriptionEventsCard = () => {
+  const [events, setEvents] = useState<SubscriptionEvent[]>([]);
+  const [running, setRunning] = useState(false);
+  const { toast } = useToast();
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth("/api/admin/subscription-events");
+      if (!response.ok) throw new Error("Failed to load subscription activity.");
+      setEvents(await response.json());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load subscription activity.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const response = await fetchWithAuth("/api/admin/subscription-job/run", { method: "POST" });
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to run the subscription job.");
+      }
+      const result = await response.json();
+      toast({
+        title: "Done",
+        description: `${result.reminders_sent} reminder(s) sent, ${result.expired.length} account(s) expired.`,
+      });
+      fetchEvents();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to run the subscription job.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Subscription Activity</CardTitle>
+            <CardDescription>Renewal reminders sent and accounts made read-only after their grace period.</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleRun} disabled={running}>
+            <Play className="w-4 h-4 mr-2" />
+            {running ? "Running..." : "Run Now"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>Subscriber</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Expiry</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {events.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  No reminders or expiries yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell>{format(new Date(event.created_at), "MMM dd, yyyy HH:mm")}</TableCell>
+                  <TableCell>{event.user.email}</TableCell>
+                  <TableCell>
+                    <Badge variant={event.event === "expired" ? "destructive" : "secondary"} className="mr-2">
+                      {event.event === "expired" ? "Expired" : "Reminder"}
+                    </Badge>
+                    <span className="text-sm text-muted-foreground">{describe(event)}</span>
+                  </TableCell>
+                  <TableCell>
+                    {event.subscription_end_date ? format(new Date(event.subscription_end_date), "MMM dd, yyyy") : "—"}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SubscriptionEventsCard;
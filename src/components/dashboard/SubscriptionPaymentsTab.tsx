@@ -0,0 +1,348 @@
+import { useState, useEffect, useCallback } from "react";
+import { fetchWithAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Plus } from "lucide-react";
+import { format } from "date-fns";
+import type { Plan } from "@/lib/plans";
+
+interface SubscriptionPayment {
+  id: string;
+  amount: number;
+  currency: string;
+  payment_date: string;
+  payment_method: string | null;
+  status: string;
+  payment_reference: string | null;
+  description: string | null;
+  user: { id: string; email: string };
+  plan: { id: string; name: string } | null;
+}
+
+interface PaymentTotal {
+  currency: string;
+  amount: number;
+  count: number;
+}
+
+interface Subscriber {
+  id: string;
+  email: string;
+  role: string;
+  plan_id: string | null;
+}
+
+const CURRENT_PLAN = "current";
+
+const emptyForm = () => ({
+  user_id: "",
+  plan_id: CURRENT_PLAN,
+  amount: "",
+  currency: "",
+  payment_date: format(new Date(), "yyyy-MM-dd"),
+  payment_method: "",
+  payment_reference: "",
+  status: "completed",
+});
+
+const formatAmount = (amount: number, currency: string) =>
+  `${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+// Admin: subscription payments received from subscribers, and recording new ones
+const SubscriptionPaymentsTab = () => {
+  const [payments, setPayments] = useState<SubscriptionPayment[]>([]);
+  const [totals, setTotals] = useState<PaymentTotal[]>([]);
+  const [users, setUsers] = useState<Subscriber[]>([]);
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchPayments = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+      const response = await fetchWithAuth(`/api/admin/subscription-payments?${params.toString()}`);
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to load payments.");
+      }
+      const body = await response.json();
+      setPayments(body.payments);
+      setTotals(body.totals);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load payments.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  }, [from, to, toast]);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  const openDialog = async () => {
+    setForm(emptyForm());
+    setDialogOpen(true);
+    try {
+      const [usersRes, plansRes] = await Promise.all([fetchWithAuth("/api/admin/users"), fetchWithAuth("/api/admin/plans")]);
+      if (!usersRes.ok || !plansRes.ok) throw new Error("Failed to load users and plans.");
+      const allUsers: Subscriber[] = await usersRes.json();
+      setUsers(allUsers.filter((user) => user.role !== "admin"));
+      setPlans(await plansRes.json());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load users and plans.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.user_id) {
+      toast({ title: "Error", description: "Choose the subscriber who paid.", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetchWithAuth("/api/admin/subscription-payments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          plan_id: form.plan_id === CURRENT_PLAN ? undefined : form.plan_id,
+          currency: form.currency || undefined,
+        }),
+      });
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || "Failed to record the payment.");
+      }
+      toast({ title: "Success", description: "Payment recorded." });
+      setDialogOpen(false);
+      fetchPayments();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to record the payment.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectedUser = users.find((user) => user.id === form.user_id);
+  const currentPlanName = plans.find((plan) => plan.id === selectedUser?.plan_id)?.name;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-end gap-4">
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="payments_from">From</Label>
+            <Input id="payments_from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="payments_to">To</Label>
+            <Input id="payments_to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+        <Button onClick={openDialog}>
+          <Plus className="w-4 h-4 mr-2" />
+          Record Payment
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {totals.length === 0 ? (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Received</CardTitle>
+            </CardHeader>
+            <CardContent className="text-2xl font-bold">—</CardContent>
+          </Card>
+        ) : (
+          totals.map((total) => (
+            <Card key={total.currency}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  Received in {total.currency} ({total.count} payments)
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-2xl font-bold">{formatAmount(total.amount, total.currency)}</CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Subscriber</TableHead>
+              <TableHead>Plan</TableHead>
+              <TableHead>Method</TableHead>
+              <TableHead>Reference</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {payments.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No subscription payments in this period.
+                </TableCell>
+              </TableRow>
+            ) : (
+              payments.map((payment) => (
+                <TableRow key={payment.id}>
+                  <TableCell>{format(new Date(payment.payment_date), "MMM dd, yyyy")}</TableCell>
+                  <TableCell>{payment.user.email}</TableCell>
+                  <TableCell>{payment.plan?.name || "—"}</TableCell>
+                  <TableCell>{payment.payment_method || "—"}</TableCell>
+                  <TableCell>{payment.payment_reference || "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant={payment.status === "completed" ? "default" : "secondary"}>{payment.status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{formatAmount(payment.amount, payment.currency)}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              A completed payment extends the subscription by the plan's billing period and moves the subscriber onto the plan.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Subscriber</Label>
+              <Select value={form.user_id} onValueChange={(value) => setForm({ ...form, user_id: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a subscriber" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Plan</Label>
+              <Select value={form.plan_id} onValueChange={(value) => setForm({ ...form, plan_id: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CURRENT_PLAN}>Current plan{currentPlanName ? ` (${currentPlanName})` : ""}</SelectItem>
+                  {plans
+                    .filter((plan) => plan.is_active)
+                    .map((plan) => (
+                      <SelectItem key={plan.id} value={plan.id}>
+                        {plan.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="payment_amount">Amount</Label>
+                <Input
+                  id="payment_amount"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment_currency">Currency</Label>
+                <Input
+                  id="payment_currency"
+                  placeholder="Plan's"
+                  value={form.currency}
+                  onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+                  maxLength={3}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="payment_date">Date</Label>
+                <Input
+                  id="payment_date"
+                  type="date"
+                  value={form.payment_date}
+                  onChange={(e) => setForm({ ...form, payment_date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={form.status} onValueChange={(value) => setForm({ ...form, status: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="completed">Completed</SelectItem>
+                    <SelectItem value="pending">Pending</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="payment_method">Method</Label>
+                <Input
+                  id="payment_method"
+                  placeholder="Bank transfer"
+                  value={form.payment_method}
+                  onChange={(e) => setForm({ ...form, payment_method: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment_reference">Reference</Label>
+                <Input
+                  id="payment_reference"
+                  value={form.payment_reference}
+                  onChange={(e) => setForm({ ...form, payment_reference: e.target.value })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Record"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SubscriptionPaymentsTab;
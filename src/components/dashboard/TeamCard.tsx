@@ -0,0 +1,256 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { fetchWithAuth } from "@/lib/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAccountStatus, useCan, type WorkspaceRole } from "@/hooks/use-account-status";
+import { Trash2, UserPlus } from "lucide-react";
+import { format } from "date-fns";
+
+interface Member {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  joined_at: string;
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  expires_at: string;
+}
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  accountant: "Accountant",
+  data_entry: "Data entry",
+  viewer: "Viewer",
+};
+
+// Roles an owner can hand out
+const MEMBER_ROLES: WorkspaceRole[] = ["accountant", "data_entry", "viewer"];
+
+const ROLE_DESCRIPTIONS = "Accountants manage everything except settings and the team; data entry adds clients and transactions; viewers can only look and export.";
+
+// Workspace members and invitations; only the owner can invite, change roles and remove people
+const TeamCard = () => {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("viewer");
+  const [inviting, setInviting] = useState(false);
+  const { workspace } = useAccountStatus();
+  const canManage = useCan("members");
+  const { toast } = useToast();
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth("/api/workspaces/current/members");
+      if (!response.ok) throw new Error("Failed to load the team.");
+      const body = await response.json();
+      setMembers(body.members);
+      setInvitations(body.invitations);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load the team.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const request = async (url: string, init: RequestInit, fallbackMessage: string) => {
+    const response = await fetchWithAuth(url, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    });
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      throw new Error(errorBody?.message || fallbackMessage);
+    }
+    return response.json();
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+    try {
+      await request(
+        "/api/workspaces/current/invitations",
+        { method: "POST", body: JSON.stringify({ email: inviteEmail, role: inviteRole }) },
+        "Failed to send the invitation."
+      );
+      toast({ title: "Success", description: `Invitation sent to ${inviteEmail}.` });
+      setInviteEmail("");
+      fetchMembers();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to send the invitation.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: Member, role: WorkspaceRole) => {
+    try {
+      await request(
+        `/api/workspaces/current/members/${member.id}`,
+        { method: "PUT", body: JSON.stringify({ role }) },
+        "Failed to change the role."
+      );
+      toast({ title: "Success", description: `${member.email} is now ${ROLE_LABELS[role]}.` });
+      fetchMembers();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to change the role.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  };
+
+  const handleRemove = async (member: Member) => {
+    if (!window.confirm(`Remove ${member.email} from the workspace?`)) return;
+    try {
+      await request(`/api/workspaces/current/members/${member.id}`, { method: "DELETE" }, "Failed to remove the member.");
+      toast({ title: "Success", description: "Member removed." });
+      fetchMembers();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to remove the member.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  };
+
+  const handleWithdraw = async (invitation: Invitation) => {
+    if (!window.confirm(`Withdraw the invitation to ${invitation.email}?`)) return;
+    try {
+      await request(
+        `/api/workspaces/current/invitations/${invitation.id}`,
+        { method: "DELETE" },
+        "Failed to withdraw the invitation."
+      );
+      toast({ title: "Success", description: "Invitation withdrawn." });
+      fetchMembers();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to withdraw the invitation.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Team</CardTitle>
+        <CardDescription>
+          {workspace ? `People working in ${workspace.name}. ` : ""}
+          {ROLE_DESCRIPTIONS}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canManage && (
+          <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-3">
+            <div className="space-y-2 flex-1 min-w-56">
+              <Label htmlFor="invite_email">Email</Label>
+              <Input
+                id="invite_email"
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as WorkspaceRole)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MEMBER_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={inviting}>
+              <UserPlus className="w-4 h-4 mr-2" />
+              {inviting ? "Sending..." : "Invite"}
+            </Button>
+          </form>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Since</TableHead>
+              {canManage && <TableHead className="text-right">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {members.map((member) => (
+              <TableRow key={member.id}>
+                <TableCell>{member.email}</TableCell>
+                <TableCell>
+                  {canManage && member.role !== "owner" ? (
+                    <Select value={member.role} onValueChange={(value) => handleRoleChange(member, value as WorkspaceRole)}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MEMBER_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant={member.role === "owner" ? "default" : "secondary"}>{ROLE_LABELS[member.role]}</Badge>
+                  )}
+                </TableCell>
+                <TableCell>{format(new Date(member.joined_at), "MMM dd, yyyy")}</TableCell>
+                {canManage && (
+                  <TableCell className="text-right">
+                    {member.role !== "owner" && (
+                      <Button variant="ghost" size="sm" onClick={() => handleRemove(member)} title="Remove member">
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+            {invitations.map((invitation) => (
+              <TableRow key={invitation.id}>
+                <TableCell className="text-muted-foreground">{invitation.email}</TableCell>
+                <TableCell>
+                  <Badge variant="outline">{ROLE_LABELS[invitation.role]} · invited</Badge>
+                </TableCell>
+                <TableCell className="text-muted-foreground">
+                  Expires {format(new Date(invitation.expires_at), "MMM dd, yyyy")}
+                </TableCell>
+                {canManage && (
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleWithdraw(invitation)} title="Withdraw invitation">
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TeamCard;
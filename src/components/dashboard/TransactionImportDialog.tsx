@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { fetchWithAuth } from "@/lib/auth";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Upload } from "lucide-react";
+
+type ImportField =
+  | "client"
+  | "transaction_date"
+  | "incoming_amount_thb"
+  | "original_amount_usd"
+  | "exchange_rate_mmk"
+  | "payout_currency"
+  | "source_platform"
+  | "source_platform_payout_id"
+  | "notes";
+
+interface ImportRow {
+  line: number;
+  valid: boolean;
+  errors: string[];
+  client_name: string | null;
+  values: {
+    transaction_date: string | null;
+    incoming_amount_thb: number | null;
+    source_platform: string | null;
+    source_platform_payout_id: string | null;
+  };
+  calculated: { payout_currency: string; payout_amount: number } | null;
+}
+
+interface ImportReport {
+  dry_run: boolean;
+  columns: string[];
+  mapping: Partial<Record<ImportField, string>>;
+  summary: { total_rows: number; valid_rows: number; invalid_rows: number };
+  rows: ImportRow[];
+  created?: number;
+}
+
+const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: "client", label: "Client (name or id)", required: true },
+  { field: "transaction_date", label: "Date", required: true },
+  { field: "incoming_amount_thb", label: "Incoming THB", required: true },
+  { field: "original_amount_usd", label: "Amount USD" },
+  { field: "exchange_rate_mmk", label: "Exchange Rate (MMK)" },
+  { field: "payout_currency", label: "Payout Currency" },
+  { field: "source_platform", label: "Platform" },
+  { field: "source_platform_payout_id", label: "Payout ID" },
+  { field: "notes", label: "Notes" },
+];
+
+const XLSX_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+const UNMAPPED = "__none__";
+
+// Browsers often leave CSV files without a type (or report them as Excel), so fall back to the extension
+const importContentType = (file: File) => {
+  if (file.name.toLowerCase().endsWith(".xlsx")) return XLSX_TYPE;
+  if (file.name.toLowerCase().endsWith(".csv")) return "text/csv";
+  return file.type || "text/csv";
+};
+
+interface TransactionImportDialogProps {
+  disabled?: boolean;
+  onImported: () => void;
+}
+
+const TransactionImportDialog = ({ disabled = false, onImported }: TransactionImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, string>>>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [mappingError, setMappingError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setFile(null);
+    setColumns([]);
+    setMapping({});
+    setReport(null);
+    setMappingError(null);
+  };
+
+  const runImport = async (
+    importFile: File,
+    dryRun: boolean,
+    fieldMapping: Partial<Record<ImportField, string>> | null
+  ) => {
+    const params = new URLSearchParams({ dry_run: String(dryRun) });
+    if (fieldMapping) {
+      // Send every field so a column un-mapped here overrides the server's header detection
+      IMPORT_FIELDS.forEach(({ field }) => params.append(`mapping[${field}]`, fieldMapping[field] || ""));
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetchWithAuth(`/api/transactions/import?${params.toString()}`, {
+        method: "POST",
+        headers: { "Content-Type": importContentType(importFile) },
+        body: importFile,
+      });
+      const body = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        // Mapping problems come back with the file's columns so the user can fix them here
+        if (body?.columns) {
+          setColumns(body.columns);
+          setMapping(fieldMapping || body.mapping || {});
+          setReport(body.rows ? (body as ImportReport) : null);
+          setMappingError(body.message || "Check the column mapping.");
+          return null;
+        }
+        throw new Error(body?.message || "Import failed.");
+      }
+
+      const result = body as ImportReport;
+      setColumns(result.columns);
+      setMapping(result.mapping);
+      setReport(result);
+      setMappingError(null);
+      return result;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Import failed.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+      return null;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    e.target.value = "";
+    if (!selected) return;
+    reset();
+    setFile(selected);
+    await runImport(selected, true, null);
+  };
+
+  const handleMappingChange = (field: ImportField, column: string) =>
+    setMapping((prev) => ({ ...prev, [field]: column === UNMAPPED ? "" : column }));
+
+  const handleCommit = async () => {
+    if (!file) return;
+    const result = await runImport(file, false, mapping);
+    if (result && !result.dry_run) {
+      toast({ title: "Success", description: `Imported ${result.created ?? 0} transactions` });
+      setOpen(false);
+      reset();
+      onImported();
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={disabled}>
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="import_file">1. Upload a CSV or XLSX file</Label>
+            <Input id="import_file" type="file" accept=".csv,.xlsx" onChange={handleFileChange} disabled={submitting} />
+            <p className="text-xs text-muted-foreground">
+              The first row must contain column headers. Up to 1000 rows per file.
+              {file ? ` Selected: ${file.name}` : ""}
+            </p>
+          </div>
+
+          {columns.length > 0 && (
+            <div className="space-y-3">
+              <Label>2. Map columns</Label>
+              <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="space-y-1">
+                    <p className="text-xs text-muted-foreground">
+                      {label}
+                      {required ? " *" : ""}
+                    </p>
+                    <Select
+                      value={mapping[field] || UNMAPPED}
+                      onValueChange={(value) => handleMappingChange(field, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Not imported</SelectItem>
+                        {columns
+                          .filter((column) => column !== "")
+                          .map((column) => (
+                            <SelectItem key={column} value={column}>
+                              {column}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {mappingError && <p className="text-sm text-destructive">{mappingError}</p>}
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!file || submitting}
+                onClick={() => file && runImport(file, true, mapping)}
+              >
+                Re-check Rows
+              </Button>
+            </div>
+          )}
+
+          {report && (
+            <div className="space-y-3">
+              <Label>3. Review</Label>
+              <p className="text-sm">
+                {report.summary.valid_rows} of {report.summary.total_rows} rows are ready to import
+                {report.summary.invalid_rows > 0 ? `; ${report.summary.invalid_rows} will be skipped.` : "."}
+              </p>
+              <div className="max-h-80 overflow-y-auto rounded border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      <TableHead>Client</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Incoming (THB)</TableHead>
+                      <TableHead className="text-right">Payout</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.rows.map((row) => (
+                      <TableRow key={row.line}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell>{row.client_name || "—"}</TableCell>
+                        <TableCell>{row.values.transaction_date || "—"}</TableCell>
+                        <TableCell className="text-right">
+                          {row.values.incoming_amount_thb == null ? "—" : row.values.incoming_amount_thb.toFixed(2)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {row.calculated
+                            ? `${row.calculated.payout_amount.toFixed(2)} ${row.calculated.payout_currency}`
+                            : "—"}
+                        </TableCell>
+                        <TableCell>
+                          {row.valid ? (
+                            <Badge variant="secondary">OK</Badge>
+                          ) : (
+                            <div className="space-y-1">
+                              <Badge variant="destructive">Error</Badge>
+                              {row.errors.map((message) => (
+                                <p key={message} className="text-xs text-destructive">
+                                  {message}
+                                </p>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <Button
+                className="w-full"
+                disabled={submitting || report.summary.valid_rows === 0}
+                onClick={handleCommit}
+              >
+                {submitting ? "Importing..." : `Import ${report.summary.valid_rows} Transactions`}
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransactionImportDialog;
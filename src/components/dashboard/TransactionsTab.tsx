@@ -11,6 +11,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { Plus, Copy, Pencil, Trash2 } from "lucide-react";
 import { format } from "date-fns";
+import TransactionImportDialog from "./TransactionImportDialog";
+import ExportDialog from "./ExportDialog";
+import RenewalCallout from "./RenewalCallout";
+import ActivityDialog from "./ActivityDialog";
+import { useAccountStatus, useCan } from "@/hooks/use-account-status";
 
 interface BankAccount {
   bank_name: string;
@@ -23,20 +28,37 @@ interface PlatformDetail {
   payout_id?: string;
 }
 
+type FeeType = "platform_withdrawal" | "bank_transfer" | "fx" | "other";
+
+interface FeeItem {
+  fee_type: FeeType;
+  description: string | null;
+  amount: number;
+  source: "manual" | "rule";
+  absorbed: boolean;
+}
+
 interface Transaction {
   id: string;
   client_id: string;
   incoming_amount_thb: number;
   original_amount_usd: number | null;
   fees: number;
+  fee_items: FeeItem[];
+  commission_amount: number | null;
+  commission_percentage: number | null;
+  commission_rule_label: string | null;
   transaction_date: string;
   notes: string | null;
   exchange_rate_mmk: number;
+  usd_thb_rate: number | null;
   payout_currency: string;
   payout_amount: number;
   source_platform: string | null;
   source_platform_payout_id: string | null;
   payment_destination: BankAccount | null;
+  paid_at: string | null;
+  payout_batch_id: string | null;
   clients: {
     id: string;
     name: string;
@@ -45,6 +67,30 @@ interface Transaction {
   };
 }
 
+interface PayoutPreview {
+  total_amount: number;
+  commission_percentage: number;
+  commission_amount: number;
+  commission_rule_label: string;
+  fees: number;
+  fee_items: FeeItem[];
+  net_amount: number;
+  payout_currency: string;
+  exchange_rate_mmk: number;
+  payout_amount: number;
+}
+
+interface EffectiveRate {
+  rate: number;
+  effective_date: string;
+}
+
+interface EffectiveRates {
+  date: string;
+  thb_mmk: EffectiveRate | null;
+  usd_thb: EffectiveRate | null;
+}
+
 interface Client {
   id: string;
   name: string;
@@ -54,12 +100,41 @@ interface Client {
   bank_account: BankAccount[] | null;
 }
 
+const FEE_TYPES: { key: FeeType; label: string }[] = [
+  { key: "platform_withdrawal", label: "Platform withdrawal" },
+  { key: "bank_transfer", label: "Bank transfer" },
+  { key: "fx", label: "FX" },
+  { key: "other", label: "Other" },
+];
+
+type FeeOverrides = Record<FeeType, string>;
+
+// An empty override leaves the fee type to the fee rules
+const emptyFeeOverrides = (): FeeOverrides => ({ platform_withdrawal: "", bank_transfer: "", fx: "", other: "" });
+
+const manualFeeItems = (overrides: FeeOverrides) =>
+  FEE_TYPES.filter((type) => overrides[type.key] !== "").map((type) => ({
+    fee_type: type.key,
+    amount: parseFloat(overrides[type.key]),
+  }));
+
+// The form stores the index of one of the client's platforms, or "Other"
+const resolveSourcePlatform = (value: string, platforms: PlatformDetail[]) => {
+  if (value === "Other") return { name: "Other", payoutId: null };
+  const platform = value ? platforms[parseInt(value, 10)] : undefined;
+  return platform
+    ? { name: platform.platform_name, payoutId: platform.payout_id || null }
+    : { name: null, payoutId: null };
+};
+
 const TransactionsTab = () => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [clients, setClients] = useState<Client[]>([]);
   const [loading, setLoading] = useState(true);
   const [open, setOpen] = useState(false);
   const [editingTransactionId, setEditingTransactionId] = useState<string | null>(null);
+  const { readOnly } = useAccountStatus();
+  const canEdit = useCan("transactions");
   const [formData, setFormData] = useState({
     client_id: "",
     incoming_amount_thb: "",
@@ -70,9 +145,15 @@ const TransactionsTab = () => {
     source_platform: "",
     payment_destination_index: "",
   });
+  const [feeOverrides, setFeeOverrides] = useState<FeeOverrides>(emptyFeeOverrides);
   const [selectedClientPlatforms, setSelectedClientPlatforms] = useState<PlatformDetail[]>([]);
   const [selectedClientBankAccounts, setSelectedClientBankAccounts] = useState<BankAccount[]>([]);
   const [selectedClientCurrency, setSelectedClientCurrency] = useState<string>("");
+  const [preview, setPreview] = useState<PayoutPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [effectiveRates, setEffectiveRates] = useState<EffectiveRates | null>(null);
+  // Once the rate is typed in (or loaded from a saved transaction) the rate table no longer overwrites it
+  const [rateEdited, setRateEdited] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -129,8 +210,95 @@ const TransactionsTab = () => {
     fetchData();
   }, [fetchData]);
 
+  // Live payout preview calculated by the server, debounced while typing
+  useEffect(() => {
+    if (!open || !formData.client_id || formData.incoming_amount_thb === "") {
+      setPreview(null);
+      setPreviewError(null);
+      return;
+    }
+
+    const timer = window.setTimeout(async () => {
+      try {
+        const response = await fetchWithAuth("/api/transactions/preview", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            client_id: formData.client_id,
+            incoming_amount_thb: parseFloat(formData.incoming_amount_thb),
+            exchange_rate_mmk: parseFloat(formData.exchange_rate_mmk || "0"),
+            transaction_date: formData.transaction_date,
+            transaction_id: editingTransactionId,
+            source_platform: resolveSourcePlatform(formData.source_platform, selectedClientPlatforms).name,
+            fee_items: manualFeeItems(feeOverrides),
+          }),
+        });
+        const body = await response.json().catch(() => null);
+        if (!response.ok) {
+          setPreview(null);
+          setPreviewError(body?.message || "Unable to calculate payout.");
+          return;
+        }
+        setPreview(body as PayoutPreview);
+        setPreviewError(null);
+      } catch (error) {
+        setPreview(null);
+        setPreviewError("Unable to calculate payout.");
+      }
+    }, 300);
+
+    return () => window.clearTimeout(timer);
+  }, [
+    open,
+    formData.client_id,
+    formData.incoming_amount_thb,
+    formData.exchange_rate_mmk,
+    formData.transaction_date,
+    formData.source_platform,
+    selectedClientPlatforms,
+    editingTransactionId,
+    feeOverrides,
+  ]);
+
+  // Rates in force on the transaction date, from the exchange rate table
+  useEffect(() => {
+    if (!open || !formData.transaction_date) {
+      setEffectiveRates(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadRates = async () => {
+      try {
+        const response = await fetchWithAuth(`/api/exchange-rates/effective?date=${formData.transaction_date}`);
+        if (!response.ok) return;
+        const body = (await response.json()) as EffectiveRates;
+        if (!cancelled) setEffectiveRates(body);
+      } catch (error) {
+        // Prefill is a convenience; the rate can still be typed in
+      }
+    };
+    loadRates();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, formData.transaction_date]);
+
+  useEffect(() => {
+    if (rateEdited || selectedClientCurrency === "THB" || !effectiveRates?.thb_mmk) return;
+    const rate = effectiveRates.thb_mmk.rate.toString();
+    setFormData((prev) => (prev.exchange_rate_mmk === rate ? prev : { ...prev, exchange_rate_mmk: rate }));
+  }, [effectiveRates, rateEdited, selectedClientCurrency]);
+
+  // THB received per USD for the amounts in the form; stored on the transaction by the database
+  const usdAmount = parseFloat(formData.original_amount_usd);
+  const thbAmount = parseFloat(formData.incoming_amount_thb);
+  const impliedUsdThbRate = usdAmount > 0 && thbAmount > 0 ? thbAmount / usdAmount : null;
+
   const resetFormState = () => {
     setEditingTransactionId(null);
+    setRateEdited(false);
     setFormData({
       client_id: "",
       incoming_amount_thb: "",
@@ -141,6 +309,7 @@ const TransactionsTab = () => {
       source_platform: "",
       payment_destination_index: "",
     });
+    setFeeOverrides(emptyFeeOverrides());
     setSelectedClientPlatforms([]);
     setSelectedClientBankAccounts([]);
     setSelectedClientCurrency("");
@@ -183,13 +352,8 @@ const TransactionsTab = () => {
       const exchangeRateMmk = parseFloat(formData.exchange_rate_mmk || "0");
       const originalAmountUsd = formData.original_amount_usd ? parseFloat(formData.original_amount_usd) : null;
 
-      const commissionAmountThb = (incomingAmountThb * client.commission_percentage) / 100;
-      const netPayableThb = incomingAmountThb - commissionAmountThb;
-
+      // Commission and payout are calculated by the server from the client's commission schedule
       const payoutCurrency = client.preferred_payout_currency;
-      const payoutAmount = payoutCurrency === "MMK"
-        ? netPayableThb * exchangeRateMmk
-        : netPayableThb;
 
       let paymentDestination: BankAccount | null = null;
       if (formData.payment_destination_index && selectedClientBankAccounts.length > 0) {
@@ -197,32 +361,20 @@ const TransactionsTab = () => {
         paymentDestination = selectedClientBankAccounts[bankIndex];
       }
 
-      let sourcePlatformName: string | null = null;
-      let sourcePlatformPayoutId: string | null = null;
-      if (formData.source_platform && formData.source_platform !== "Other") {
-        const platformIndex = parseInt(formData.source_platform, 10);
-        const selectedPlatform = selectedClientPlatforms[platformIndex];
-        if (selectedPlatform) {
-          sourcePlatformName = selectedPlatform.platform_name;
-          sourcePlatformPayoutId = selectedPlatform.payout_id || null;
-        }
-      } else if (formData.source_platform === "Other") {
-        sourcePlatformName = "Other";
-      }
+      const sourcePlatform = resolveSourcePlatform(formData.source_platform, selectedClientPlatforms);
 
       const transactionPayload = {
         client_id: formData.client_id,
         incoming_amount_thb: incomingAmountThb,
         original_amount_usd: originalAmountUsd,
-        fees: 0,
         exchange_rate_mmk: exchangeRateMmk,
         payout_currency: payoutCurrency,
-        payout_amount: payoutAmount,
         transaction_date: formData.transaction_date,
         notes: formData.notes || null,
-        source_platform: sourcePlatformName,
-        source_platform_payout_id: sourcePlatformPayoutId,
+        source_platform: sourcePlatform.name,
+        source_platform_payout_id: sourcePlatform.payoutId,
         payment_destination: paymentDestination,
+        fee_items: manualFeeItems(feeOverrides),
       };
 
       const method: "POST" | "PUT" = editingTransactionId ? "PUT" : "POST";
@@ -279,6 +431,7 @@ const TransactionsTab = () => {
     }
 
     setEditingTransactionId(transaction.id);
+    setRateEdited(true);
     setFormData({
       client_id: transaction.client_id,
       incoming_amount_thb: transaction.incoming_amount_thb.toString(),
@@ -289,6 +442,11 @@ const TransactionsTab = () => {
       source_platform: sourcePlatformValue,
       payment_destination_index: paymentDestinationIndex,
     });
+    const overrides = emptyFeeOverrides();
+    for (const item of transaction.fee_items || []) {
+      if (item.source === "manual") overrides[item.fee_type] = item.amount.toString();
+    }
+    setFeeOverrides(overrides);
     setSelectedClientPlatforms(clientPlatforms);
     setSelectedClientBankAccounts(clientBanks);
     setSelectedClientCurrency(client?.preferred_payout_currency || "");
@@ -326,165 +484,253 @@ const TransactionsTab = () => {
             <CardTitle>Transactions</CardTitle>
             <CardDescription>Track all client transactions</CardDescription>
           </div>
-          <Dialog open={open} onOpenChange={handleDialogChange}>
-            <DialogTrigger asChild>
-              <Button disabled={clients.length === 0}>
-                <Plus className="w-4 h-4 mr-2" />
-                Add Transaction
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>{editingTransactionId ? "Edit Transaction" : "Add New Transaction"}</DialogTitle>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="client">Client *</Label>
-                  <Select
-                    value={formData.client_id}
-                    onValueChange={(value) => {
-                      const selectedClient = clients.find((c) => c.id === value);
-                      setFormData((prev) => ({
-                        ...prev,
-                        client_id: value,
-                        source_platform: "",
-                        payment_destination_index: "",
-                      }));
-                      setSelectedClientPlatforms(selectedClient?.platform_details || []);
-                      setSelectedClientBankAccounts(selectedClient?.bank_account || []);
-                      setSelectedClientCurrency(selectedClient?.preferred_payout_currency || "");
-                    }}
-                    required
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select client" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {clients.map((client) => (
-                        <SelectItem key={client.id} value={client.id}>
-                          {client.name} ({client.commission_percentage}%)
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="payment_destination">Payment Destination Bank *</Label>
-                  <Select
-                    value={formData.payment_destination_index}
-                    onValueChange={(value) => setFormData((prev) => ({ ...prev, payment_destination_index: value }))}
-                    disabled={!formData.client_id || selectedClientBankAccounts.length === 0}
-                    required
-                  >
-                    <SelectTrigger>
-                      <SelectValue
-                        placeholder={
-                          selectedClientBankAccounts.length === 0
-                            ? "No bank accounts available"
-                            : "Select bank account"
-                        }
-                      />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {selectedClientBankAccounts.map((bank, idx) => (
-                        <SelectItem key={idx} value={idx.toString()}>
-                          {bank.bank_name} - ...{bank.account_number.slice(-4)} ({bank.account_name})
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="source_platform">Source Platform</Label>
-                  <Select
-                    value={formData.source_platform}
-                    onValueChange={(value) => setFormData((prev) => ({ ...prev, source_platform: value }))}
-                    disabled={!formData.client_id || selectedClientPlatforms.length === 0}
-                  >
-                    <SelectTrigger>
-                      <SelectValue
-                        placeholder={
-                          selectedClientPlatforms.length === 0
-                            ? "No platforms available"
-                            : "Select platform"
-                        }
-                      />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {selectedClientPlatforms.map((platform, idx) => (
-                        <SelectItem key={idx} value={idx.toString()}>
-                          {platform.platform_name}
-                          {platform.payout_id ? ` (${platform.payout_id})` : ""}
-                        </SelectItem>
-                      ))}
-                      <SelectItem value="Other">Other / Unknown</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="original_amount_usd">Original Amount (USD) *</Label>
-                  <Input
-                    id="original_amount_usd"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    value={formData.original_amount_usd}
-                    onChange={(e) => setFormData((prev) => ({ ...prev, original_amount_usd: e.target.value }))}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="incoming_amount_thb">Incoming Amount (THB) *</Label>
-                  <Input
-                    id="incoming_amount_thb"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    value={formData.incoming_amount_thb}
-                    onChange={(e) => setFormData((prev) => ({ ...prev, incoming_amount_thb: e.target.value }))}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="exchange_rate_mmk">
-                    Exchange Rate (1 THB to MMK) {selectedClientCurrency === "MMK" && "*"}
-                  </Label>
-                  <Input
-                    id="exchange_rate_mmk"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    value={formData.exchange_rate_mmk}
-                    onChange={(e) => setFormData((prev) => ({ ...prev, exchange_rate_mmk: e.target.value }))}
-                    required={selectedClientCurrency === "MMK"}
-                    placeholder="e.g., 120.00"
-                    disabled={selectedClientCurrency === "THB"}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="date">Transaction Date *</Label>
-                  <Input
-                    id="date"
-                    type="date"
-                    value={formData.transaction_date}
-                    onChange={(e) => setFormData((prev) => ({ ...prev, transaction_date: e.target.value }))}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="notes">Notes</Label>
-                  <Input
-                    id="notes"
-                    value={formData.notes}
-                    onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
-                  />
-                </div>
-                <Button type="submit" className="w-full" disabled={loading}>
-                  {loading ? "Saving..." : editingTransactionId ? "Update Transaction" : "Add Transaction"}
-                </Button>
-              </form>
-            </DialogContent>
-          </Dialog>
+          <div className="flex gap-2">
+            <ExportDialog resource="transactions" />
+            {!readOnly && canEdit && <TransactionImportDialog disabled={clients.length === 0} onImported={fetchData} />}
+            <Dialog open={open} onOpenChange={handleDialogChange}>
+              {readOnly ? (
+                <RenewalCallout action="add transactions" />
+              ) : canEdit && (
+                <DialogTrigger asChild>
+                  <Button disabled={clients.length === 0}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Transaction
+                  </Button>
+                </DialogTrigger>
+              )}
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{editingTransactionId ? "Edit Transaction" : "Add New Transaction"}</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="client">Client *</Label>
+                    <Select
+                      value={formData.client_id}
+                      onValueChange={(value) => {
+                        const selectedClient = clients.find((c) => c.id === value);
+                        setFormData((prev) => ({
+                          ...prev,
+                          client_id: value,
+                          source_platform: "",
+                          payment_destination_index: "",
+                        }));
+                        setSelectedClientPlatforms(selectedClient?.platform_details || []);
+                        setSelectedClientBankAccounts(selectedClient?.bank_account || []);
+                        setSelectedClientCurrency(selectedClient?.preferred_payout_currency || "");
+                      }}
+                      required
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select client" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {clients.map((client) => (
+                          <SelectItem key={client.id} value={client.id}>
+                            {client.name} ({client.commission_percentage}%)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="payment_destination">Payment Destination Bank *</Label>
+                    <Select
+                      value={formData.payment_destination_index}
+                      onValueChange={(value) => setFormData((prev) => ({ ...prev, payment_destination_index: value }))}
+                      disabled={!formData.client_id || selectedClientBankAccounts.length === 0}
+                      required
+                    >
+                      <SelectTrigger>
+                        <SelectValue
+                          placeholder={
+                            selectedClientBankAccounts.length === 0
+                              ? "No bank accounts available"
+                              : "Select bank account"
+                          }
+                        />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {selectedClientBankAccounts.map((bank, idx) => (
+                          <SelectItem key={idx} value={idx.toString()}>
+                            {bank.bank_name} - ...{bank.account_number.slice(-4)} ({bank.account_name})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="source_platform">Source Platform</Label>
+                    <Select
+                      value={formData.source_platform}
+                      onValueChange={(value) => setFormData((prev) => ({ ...prev, source_platform: value }))}
+                      disabled={!formData.client_id || selectedClientPlatforms.length === 0}
+                    >
+                      <SelectTrigger>
+                        <SelectValue
+                          placeholder={
+                            selectedClientPlatforms.length === 0
+                              ? "No platforms available"
+                              : "Select platform"
+                          }
+                        />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {selectedClientPlatforms.map((platform, idx) => (
+                          <SelectItem key={idx} value={idx.toString()}>
+                            {platform.platform_name}
+                            {platform.payout_id ? ` (${platform.payout_id})` : ""}
+                          </SelectItem>
+                        ))}
+                        <SelectItem value="Other">Other / Unknown</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="original_amount_usd">Original Amount (USD) *</Label>
+                    <Input
+                      id="original_amount_usd"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.original_amount_usd}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, original_amount_usd: e.target.value }))}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="incoming_amount_thb">Incoming Amount (THB) *</Label>
+                    <Input
+                      id="incoming_amount_thb"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.incoming_amount_thb}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, incoming_amount_thb: e.target.value }))}
+                      required
+                    />
+                    {impliedUsdThbRate !== null && (
+                      <p className="text-xs text-muted-foreground">
+                        Implied 1 USD = {impliedUsdThbRate.toFixed(4)} THB
+                        {effectiveRates?.usd_thb &&
+                          ` (rate table ${effectiveRates.usd_thb.rate}, spread ${(
+                            ((impliedUsdThbRate - effectiveRates.usd_thb.rate) / effectiveRates.usd_thb.rate) *
+                            100
+                          ).toFixed(2)}%)`}
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="exchange_rate_mmk">
+                      Exchange Rate (1 THB to MMK) {selectedClientCurrency === "MMK" && "*"}
+                    </Label>
+                    <Input
+                      id="exchange_rate_mmk"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.exchange_rate_mmk}
+                      onChange={(e) => {
+                        setRateEdited(true);
+                        setFormData((prev) => ({ ...prev, exchange_rate_mmk: e.target.value }));
+                      }}
+                      required={selectedClientCurrency === "MMK"}
+                      placeholder="e.g., 120.00"
+                      disabled={selectedClientCurrency === "THB"}
+                    />
+                    {effectiveRates?.thb_mmk && selectedClientCurrency !== "THB" && (
+                      <p className="text-xs text-muted-foreground">
+                        Rate table: {effectiveRates.thb_mmk.rate} (effective {effectiveRates.thb_mmk.effective_date})
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="date">Transaction Date *</Label>
+                    <Input
+                      id="date"
+                      type="date"
+                      value={formData.transaction_date}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, transaction_date: e.target.value }))}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Fees (THB)</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {FEE_TYPES.map((type) => {
+                        const ruleFee = preview?.fee_items.find(
+                          (item) => item.fee_type === type.key && item.source === "rule"
+                        );
+                        return (
+                          <div key={type.key} className="space-y-1">
+                            <Label htmlFor={`fee_${type.key}`} className="text-xs text-muted-foreground">
+                              {type.label}
+                            </Label>
+                            <Input
+                              id={`fee_${type.key}`}
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              placeholder={ruleFee ? `Rule: ${ruleFee.amount.toFixed(2)}` : "Auto"}
+                              value={feeOverrides[type.key]}
+                              onChange={(e) => setFeeOverrides((prev) => ({ ...prev, [type.key]: e.target.value }))}
+                            />
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Leave a fee empty to use your fee rules; enter 0 to waive it.
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="notes">Notes</Label>
+                    <Input
+                      id="notes"
+                      value={formData.notes}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
+                    />
+                  </div>
+                  {(preview || previewError) && (
+                    <div className="rounded border bg-muted/30 p-4 text-sm space-y-1">
+                      {previewError ? (
+                        <p className="text-destructive">{previewError}</p>
+                      ) : (
+                        preview && (
+                          <>
+                            <p>
+                              Commission ({preview.commission_percentage}%): -฿{preview.commission_amount.toFixed(2)}
+                            </p>
+                            <p className="text-xs text-muted-foreground">Rate from: {preview.commission_rule_label}</p>
+                            {preview.fee_items
+                              .filter((item) => item.amount > 0)
+                              .map((item) => (
+                                <p key={item.fee_type} className={item.absorbed ? "text-muted-foreground" : undefined}>
+                                  {item.description || "Fee"}
+                                  {item.absorbed
+                                    ? ` (absorbed, not charged): ฿${item.amount.toFixed(2)}`
+                                    : `${item.source === "rule" ? " (rule)" : ""}: -฿${item.amount.toFixed(2)}`}
+                                </p>
+                              ))}
+                            <p>Net (THB): ฿{preview.net_amount.toFixed(2)}</p>
+                            <p className="font-semibold text-primary">
+                              Payout:{" "}
+                              {preview.payout_currency === "MMK"
+                                ? `${preview.payout_amount.toFixed(2)} MMK`
+                                : `฿${preview.payout_amount.toFixed(2)}`}
+                            </p>
+                          </>
+                        )
+                      )}
+                    </div>
+                  )}
+                  <Button type="submit" className="w-full" disabled={loading}>
+                    {loading ? "Saving..." : editingTransactionId ? "Update Transaction" : "Add Transaction"}
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -502,6 +748,7 @@ const TransactionsTab = () => {
                   <TableHead>Platform</TableHead>
                   <TableHead>Payment Destination</TableHead>
                   <TableHead>Incoming (THB)</TableHead>
+                  <TableHead>Commission</TableHead>
                   <TableHead>Exchange Rate</TableHead>
                   <TableHead>Payout Amount</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
@@ -510,7 +757,7 @@ const TransactionsTab = () => {
               <TableBody>
                 {transactions.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    <TableCell colSpan={9} className="text-center text-muted-foreground">
                       {loading ? "Loading transactions..." : "No transactions yet. Add your first transaction to get started."}
                     </TableCell>
                   </TableRow>
@@ -546,6 +793,18 @@ const TransactionsTab = () => {
                         )}
                       </TableCell>
                       <TableCell>฿{transaction.incoming_amount_thb.toFixed(2)}</TableCell>
+                      <TableCell title={transaction.commission_rule_label || undefined}>
+                        {transaction.commission_percentage != null ? (
+                          <>
+                            {transaction.commission_percentage}%
+                            {transaction.commission_rule_label && (
+                              <span className="block text-xs text-muted-foreground">{transaction.commission_rule_label}</span>
+                            )}
+                          </>
+                        ) : (
+                          `${transaction.clients.commission_percentage}%`
+                        )}
+                      </TableCell>
                       <TableCell>
                         {transaction.exchange_rate_mmk > 0
                           ? `1:${transaction.exchange_rate_mmk.toFixed(2)}`
@@ -555,14 +814,37 @@ const TransactionsTab = () => {
                         {transaction.payout_currency === "MMK"
                           ? `${transaction.payout_amount.toFixed(2)} MMK`
                           : `฿${transaction.payout_amount.toFixed(2)}`}
+                        {transaction.paid_at && (
+                          <span className="block text-xs font-normal text-muted-foreground">Paid {transaction.paid_at}</span>
+                        )}
                       </TableCell>
                       <TableCell className="text-right space-x-2">
-                        <Button variant="ghost" size="icon" onClick={() => handleEdit(transaction)}>
-                          <Pencil className="w-4 h-4" />
-                        </Button>
-                        <Button variant="ghost" size="icon" onClick={() => handleDelete(transaction.id)}>
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
+                        <ActivityDialog
+                          entityType="transaction"
+                          entityId={transaction.id}
+                          title={`${transaction.transaction_date} · ฿${transaction.incoming_amount_thb.toFixed(2)}`}
+                        />
+                        {!readOnly && canEdit && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleEdit(transaction)}
+                              disabled={Boolean(transaction.payout_batch_id)}
+                              title={transaction.payout_batch_id ? "In a payout batch" : undefined}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDelete(transaction.id)}
+                              disabled={Boolean(transaction.payout_batch_id)}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
@@ -0,0 +1,221 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { fetchWithAuth } from "@/lib/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { OtpCodeInput, RecoveryCodesList, TwoFactorQrCode, type TwoFactorSetupDetails } from "@/components/auth/TwoFactorFields";
+import { ShieldCheck } from "lucide-react";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+}
+
+// idle -> setup (scan and confirm) -> codes; enabled accounts can regenerate codes or disable
+type Mode = "idle" | "setup" | "codes" | "regenerate" | "disable";
+
+const TwoFactorCard = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [mode, setMode] = useState<Mode>("idle");
+  const [setup, setSetup] = useState<TwoFactorSetupDetails | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth("/api/auth/session");
+      if (!response.ok) throw new Error("Failed to load two-factor status.");
+      const body = await response.json();
+      setStatus(body.twoFactor);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load two-factor status.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const reset = () => {
+    setMode("idle");
+    setSetup(null);
+    setCode("");
+    setPassword("");
+  };
+
+  const post = async (url: string, payload: object, fallbackMessage: string) => {
+    const response = await fetchWithAuth(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) throw new Error(body?.message || fallbackMessage);
+    return body;
+  };
+
+  const run = async (action: () => Promise<void>, fallbackMessage: string) => {
+    setSaving(true);
+    try {
+      await action();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : fallbackMessage;
+      toast({ title: "Error", description: message, variant: "destructive" });
+      setCode("");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStart = () =>
+    run(async () => {
+      setSetup(await post("/api/auth/2fa/setup", {}, "Could not start two-factor setup."));
+      setMode("setup");
+    }, "Could not start two-factor setup.");
+
+  const handleEnable = (submittedCode = code) =>
+    run(async () => {
+      const body = await post("/api/auth/2fa/enable", { code: submittedCode }, "Verification failed.");
+      setRecoveryCodes(body.recoveryCodes);
+      setMode("codes");
+      setSetup(null);
+      setCode("");
+      setStatus((prev) => (prev ? { ...prev, enabled: true } : prev));
+      toast({ title: "Success", description: "Two-factor authentication is on." });
+    }, "Verification failed.");
+
+  const handleRegenerate = (submittedCode = code) =>
+    run(async () => {
+      const body = await post("/api/auth/2fa/recovery-codes", { code: submittedCode }, "Could not create new codes.");
+      setRecoveryCodes(body.recoveryCodes);
+      setMode("codes");
+      setCode("");
+    }, "Could not create new codes.");
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      await post("/api/auth/2fa/disable", { password, code }, "Could not turn off two-factor authentication.");
+      reset();
+      setStatus((prev) => (prev ? { ...prev, enabled: false } : prev));
+      toast({ title: "Success", description: "Two-factor authentication is off." });
+    }, "Could not turn off two-factor authentication.");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="w-5 h-5" />
+              Two-Factor Authentication
+            </CardTitle>
+            <CardDescription>Ask for a code from an authenticator app after your password</CardDescription>
+          </div>
+          {status && <Badge variant={status.enabled ? "default" : "outline"}>{status.enabled ? "On" : "Off"}</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status?.required && (
+          <p className="text-sm text-muted-foreground">Two-factor authentication is required for admin accounts.</p>
+        )}
+
+        {mode === "idle" && status && !status.enabled && (
+          <Button onClick={handleStart} disabled={saving}>
+            Set Up Two-Factor Authentication
+          </Button>
+        )}
+
+        {mode === "idle" && status?.enabled && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => setMode("regenerate")}>
+              New Recovery Codes
+            </Button>
+            {!status.required && (
+              <Button variant="outline" onClick={() => setMode("disable")}>
+                Turn Off
+              </Button>
+            )}
+          </div>
+        )}
+
+        {mode === "setup" && setup && (
+          <div className="space-y-4 max-w-sm">
+            <TwoFactorQrCode setup={setup} />
+            <div className="space-y-2 text-center">
+              <Label>Enter the 6-digit code the app shows</Label>
+              <OtpCodeInput value={code} onChange={setCode} onComplete={handleEnable} disabled={saving} />
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={() => handleEnable()} disabled={saving || code.length < 6}>
+                {saving ? "Verifying..." : "Turn On"}
+              </Button>
+              <Button variant="ghost" onClick={reset}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {mode === "regenerate" && (
+          <div className="space-y-4 max-w-sm">
+            <p className="text-sm text-muted-foreground">Enter a code from your app. Your old recovery codes will stop working.</p>
+            <OtpCodeInput value={code} onChange={setCode} onComplete={handleRegenerate} disabled={saving} />
+            <div className="flex gap-2">
+              <Button onClick={() => handleRegenerate()} disabled={saving || code.length < 6}>
+                Create New Codes
+              </Button>
+              <Button variant="ghost" onClick={reset}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {mode === "disable" && (
+          <form onSubmit={handleDisable} className="space-y-4 max-w-sm">
+            <div className="space-y-2">
+              <Label htmlFor="two_factor_password">Password</Label>
+              <Input
+                id="two_factor_password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Code from your app</Label>
+              <OtpCodeInput value={code} onChange={setCode} disabled={saving} />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" variant="destructive" disabled={saving || code.length < 6}>
+                Turn Off
+              </Button>
+              <Button type="button" variant="ghost" onClick={reset}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {mode === "codes" && (
+          <div className="space-y-4 max-w-md">
+            <RecoveryCodesList codes={recoveryCodes} />
+            <Button onClick={reset}>Done</Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TwoFactorCard;
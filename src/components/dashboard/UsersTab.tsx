@@ -6,6 +6,8 @@ import { Dialog, DialogTrigger, DialogContent, DialogHeader, DialogTitle, Dialog
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import type { Plan } from "@/lib/plans";
 import { toast } from "@/hooks/use-toast";
 
 interface User {
@@ -13,10 +15,16 @@ interface User {
   email: string;
   role: string;
   subscription_status: string;
-  subscription_end_date: string;
+  subscription_end_date: string | null;
+  email_verified_at: string | null;
+  approved_at: string | null;
+  plan_id: string | null;
+  plan_name: string | null;
   created_at: string;
 }
 
+const NO_PLAN = 'none';
+
 interface CreateUserFormData {
   email: string;
   password: string;
@@ -26,6 +34,7 @@ interface CreateUserFormData {
 
 const UsersTab = () => {
   const [users, setUsers] = useState<User[]>([]);
+  const [plans, setPlans] = useState<Plan[]>([]);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [formData, setFormData] = useState<CreateUserFormData>({
@@ -54,8 +63,20 @@ const UsersTab = () => {
     }
   };
 
+  // Fetch plans for the plan column
+  const fetchPlans = async () => {
+    try {
+      const response = await fetchWithAuth('/api/admin/plans');
+      if (!response.ok) throw new Error('Failed to fetch plans');
+      setPlans(await response.json());
+    } catch (error) {
+      console.error('Error fetching plans:', error);
+    }
+  };
+
   useEffect(() => {
     fetchUsers();
+    fetchPlans();
   }, []);
 
   // Create user
@@ -143,6 +164,87 @@ const UsersTab = () => {
     }
   };
 
+  // Assign a plan (or none, which removes the limits)
+  const handleAssignPlan = async (userId: string, planId: string) => {
+    try {
+      const response = await fetchWithAuth(`/api/admin/users/${userId}/plan`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ plan_id: planId === NO_PLAN ? null : planId }),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || 'Failed to assign plan');
+      }
+
+      await fetchUsers();
+      toast({
+        title: "Success",
+        description: "Plan updated",
+      });
+    } catch (error: unknown) {
+      console.error('Error assigning plan:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to assign plan",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Approve a self-service sign-up, or turn a trial into a subscription
+  const handleApproveUser = async (userId: string, days: number = 30) => {
+    try {
+      const response = await fetchWithAuth(`/api/admin/users/${userId}/approve`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subscription_days: days }),
+      });
+
+      if (!response.ok) throw new Error('Failed to approve user');
+
+      await fetchUsers();
+      toast({
+        title: "Success",
+        description: "User approved successfully",
+      });
+    } catch (error) {
+      console.error('Error approving user:', error);
+      toast({
+        title: "Error",
+        description: "Failed to approve user",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Reject a pending sign-up (deletes the account)
+  const handleRejectUser = async (user: User) => {
+    if (!window.confirm(`Reject the sign-up from ${user.email}? The account will be deleted.`)) return;
+    try {
+      const response = await fetchWithAuth(`/api/admin/users/${user.id}`, { method: 'DELETE' });
+
+      if (!response.ok) throw new Error('Failed to reject sign-up');
+
+      await fetchUsers();
+      toast({
+        title: "Success",
+        description: "Sign-up rejected",
+      });
+    } catch (error) {
+      console.error('Error rejecting sign-up:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reject sign-up",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const pendingUsers = users.filter((user) => user.subscription_status === 'pending');
+  const otherUsers = users.filter((user) => user.subscription_status !== 'pending');
+
   return (
     <div className="space-y-4">
       <div className="flex justify-between items-center">
@@ -208,6 +310,57 @@ const UsersTab = () => {
         </Dialog>
       </div>
 
+      {pendingUsers.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold">Pending Approval ({pendingUsers.length})</h3>
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Email Confirmed</TableHead>
+                  <TableHead>Signed Up</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pendingUsers.map((user) => (
+                  <TableRow key={user.id}>
+                    <TableCell>{user.email}</TableCell>
+                    <TableCell>
+                      {user.email_verified_at ? (
+                        <Badge variant="secondary">Confirmed</Badge>
+                      ) : (
+                        <Badge variant="outline">Not yet</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {new Date(user.created_at).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="space-x-2">
+                      <Button
+                        variant="default"
+                        size="sm"
+                        onClick={() => handleApproveUser(user.id)}
+                      >
+                        Approve
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRejectUser(user)}
+                      >
+                        Reject
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
       <div className="border rounded-lg">
         <Table>
           <TableHeader>
@@ -215,26 +368,61 @@ const UsersTab = () => {
               <TableHead>Email</TableHead>
               <TableHead>Role</TableHead>
               <TableHead>Status</TableHead>
+              <TableHead>Plan</TableHead>
               <TableHead>Subscription End</TableHead>
               <TableHead>Created At</TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {users.map((user) => (
+            {otherUsers.map((user) => (
               <TableRow key={user.id}>
                 <TableCell>{user.email}</TableCell>
                 <TableCell>{user.role}</TableCell>
                 <TableCell>{user.subscription_status}</TableCell>
                 <TableCell>
-                  {new Date(user.subscription_end_date).toLocaleDateString()}
+                  {user.role === 'admin' ? (
+                    '—'
+                  ) : (
+                    <Select
+                      value={user.plan_id || NO_PLAN}
+                      onValueChange={(value) => handleAssignPlan(user.id, value)}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_PLAN}>No plan</SelectItem>
+                        {plans
+                          .filter((plan) => plan.is_active || plan.id === user.plan_id)
+                          .map((plan) => (
+                            <SelectItem key={plan.id} value={plan.id}>
+                              {plan.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {user.subscription_end_date ? new Date(user.subscription_end_date).toLocaleDateString() : '—'}
                 </TableCell>
                 <TableCell>
                   {new Date(user.created_at).toLocaleDateString()}
                 </TableCell>
                 <TableCell>
+                  {user.role !== 'admin' && user.subscription_status === 'trial' && (
+                    <Button
+                      variant="default"
+                      size="sm"
+                      className="mr-2"
+                      onClick={() => handleApproveUser(user.id)}
+                    >
+                      Approve
+                    </Button>
+                  )}
                   {user.role !== 'admin' && (
-                    user.subscription_status === 'active' ? (
+                    user.subscription_status === 'active' || user.subscription_status === 'trial' ? (
                       <Button
                         variant="destructive"
                         size="sm"
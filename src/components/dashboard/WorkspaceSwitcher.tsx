@@ -0,0 +1,62 @@
+import { useState, useEffect } from "react";
+import { fetchWithAuth, setWorkspaceId } from "@/lib/auth";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface WorkspaceOption {
+  id: string;
+  name: string;
+  role: string;
+  current: boolean;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  owner: "Owner",
+  accountant: "Accountant",
+  data_entry: "Data entry",
+  viewer: "Viewer",
+};
+
+// Header menu for people who belong to more than one workspace
+const WorkspaceSwitcher = () => {
+  const [workspaces, setWorkspaces] = useState<WorkspaceOption[]>([]);
+
+  useEffect(() => {
+    const fetchWorkspaces = async () => {
+      try {
+        const response = await fetchWithAuth("/api/workspaces");
+        if (!response.ok) return;
+        setWorkspaces(await response.json());
+      } catch (error: unknown) {
+        console.error("Failed to load workspaces:", error);
+      }
+    };
+    fetchWorkspaces();
+  }, []);
+
+  if (workspaces.length < 2) return null;
+
+  const current = workspaces.find((workspace) => workspace.current);
+
+  // Every tab loads its data for one workspace, so start over in the new one
+  const handleChange = (workspaceId: string) => {
+    setWorkspaceId(workspaceId);
+    window.location.reload();
+  };
+
+  return (
+    <Select value={current?.id} onValueChange={handleChange}>
+      <SelectTrigger className="w-56">
+        <SelectValue placeholder="Select workspace" />
+      </SelectTrigger>
+      <SelectContent>
+        {workspaces.map((workspace) => (
+          <SelectItem key={workspace.id} value={workspace.id}>
+            {workspace.name} · {ROLE_LABELS[workspace.role] ?? workspace.role}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default WorkspaceSwitcher;
@@ -0,0 +1,48 @@
+import { createContext, useContext } from "react";
+
+export interface SubscriptionNotice {
+  code: "expiring_soon" | "grace_period" | "trial_expired" | "subscription_expired";
+  message: string;
+  days_left?: number;
+  grace_ends_at?: string;
+}
+
+export type WorkspaceRole = "owner" | "accountant" | "data_entry" | "viewer";
+
+export type WorkspacePermission =
+  | "view"
+  | "clients"
+  | "transactions"
+  | "invoices"
+  | "payouts"
+  | "rules"
+  | "settings"
+  | "members"
+  | "audit";
+
+export interface CurrentWorkspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  permissions: WorkspacePermission[];
+}
+
+export interface AccountStatus {
+  // Lapsed subscription: data can be viewed and exported but not changed
+  readOnly: boolean;
+  notice: SubscriptionNotice | null;
+  // The workspace being worked in and what the user's role there allows
+  workspace: CurrentWorkspace | null;
+}
+
+// Provided by the dashboard from /api/auth/session
+export const AccountStatusContext = createContext<AccountStatus>({ readOnly: false, notice: null, workspace: null });
+
+export const useAccountStatus = () => useContext(AccountStatusContext);
+
+// Whether the user's workspace role allows a kind of change; true until the session has loaded,
+// since the API checks again either way
+export const useCan = (permission: WorkspacePermission) => {
+  const { workspace } = useAccountStatus();
+  return !workspace || workspace.permissions.includes(permission);
+};
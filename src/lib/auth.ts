@@ -48,6 +48,11 @@ async function refreshTokens() {
   });
 
   if (!res.ok) {
+    // Another tab rotated the token first; its new tokens are already stored
+    if (localStorage.getItem('refreshToken') !== refreshToken) {
+      scheduleRefresh();
+      return null;
+    }
     throw new Error('Refresh failed');
   }
 
@@ -58,6 +63,17 @@ async function refreshTokens() {
   return body;
 }
 
+// Refused logins carry a code ("email_unverified", "pending_approval", "suspended", ...) with the message
+export class AuthError extends Error {
+  code?: string;
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+  }
+}
+
 export async function login(email: string, password: string) {
   const res = await fetch('/api/auth/login', {
     method: 'POST',
@@ -67,18 +83,88 @@ export async function login(email: string, password: string) {
 
   if (!res.ok) {
     const err = await res.json().catch(() => null);
-    throw new Error(err?.message || 'Login failed');
+    throw new AuthError(err?.message || 'Login failed', err?.code);
   }
 
+  // With 2FA the body is { twoFactorRequired | twoFactorSetupRequired, challengeToken } and no tokens yet
   const body = await res.json();
+  storeSession(body);
+  return body;
+}
 
-  if (body.token) localStorage.setItem('authToken', body.token);
+function storeSession(body: { token?: string; refreshToken?: string }) {
+  if (!body.token) return;
+  localStorage.setItem('authToken', body.token);
   if (body.refreshToken) localStorage.setItem('refreshToken', body.refreshToken);
-
   scheduleRefresh();
+}
+
+async function postJson(url: string, payload: unknown, fallbackMessage: string) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(body?.message || fallbackMessage);
+  return body;
+}
+
+// Second login step: a code from the authenticator app or a recovery code
+export async function completeTwoFactorLogin(challengeToken: string, factor: { code?: string; recoveryCode?: string }) {
+  const body = await postJson('/api/auth/login/2fa', { challengeToken, ...factor }, 'Verification failed');
+  storeSession(body);
+  return body;
+}
+
+// Enrollment during login when 2FA is mandatory; enable returns the session with the recovery codes
+export async function setupTwoFactorWithChallenge(challengeToken: string) {
+  return postJson('/api/auth/2fa/setup', { challengeToken }, 'Could not start two-factor setup');
+}
+
+export async function enableTwoFactorWithChallenge(challengeToken: string, code: string) {
+  const body = await postJson('/api/auth/2fa/enable', { challengeToken, code }, 'Verification failed');
+  storeSession(body);
   return body;
 }
 
+export async function requestPasswordReset(email: string) {
+  return postJson('/api/auth/forgot-password', { email }, 'Could not send the reset link');
+}
+
+export async function resetPassword(token: string, newPassword: string) {
+  return postJson('/api/auth/reset-password', { token, newPassword }, 'Password reset failed');
+}
+
+// Self-service sign-up; the account needs its email confirmed before it can sign in
+export async function register(email: string, password: string) {
+  return postJson('/api/auth/register', { email, password }, 'Sign-up failed');
+}
+
+export async function verifyEmail(token: string) {
+  return postJson('/api/auth/verify-email', { token }, 'Email confirmation failed');
+}
+
+export async function resendVerificationEmail(email: string) {
+  return postJson('/api/auth/resend-verification', { email }, 'Could not send the confirmation link');
+}
+
+// Joins the workspace from an emailed invitation; password is only needed for a new account
+export async function acceptInvitation(token: string, password?: string) {
+  return postJson('/api/workspaces/invitations/accept', { token, password }, 'Could not accept the invitation');
+}
+
+// The team workspace requests act in (sent as X-Workspace-Id); none means the user's own
+export function getWorkspaceId() {
+  return localStorage.getItem('workspaceId');
+}
+
+export function setWorkspaceId(workspaceId: string | null) {
+  if (workspaceId) localStorage.setItem('workspaceId', workspaceId);
+  else localStorage.removeItem('workspaceId');
+}
+
 export async function logout() {
   try {
     const refreshToken = localStorage.getItem('refreshToken');
@@ -95,9 +181,20 @@ export async function logout() {
   clearSession();
 }
 
+// Revoke every session of the account, this one included
+export async function signOutEverywhere() {
+  const res = await fetchWithAuth('/api/auth/sessions', { method: 'DELETE' });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message || 'Could not sign out everywhere');
+  }
+  clearSession();
+}
+
 function clearSession() {
   localStorage.removeItem('authToken');
   localStorage.removeItem('refreshToken');
+  localStorage.removeItem('workspaceId');
   if (refreshTimeout) {
     clearTimeout(refreshTimeout as any);
     refreshTimeout = null;
@@ -107,8 +204,10 @@ function clearSession() {
 // fetch wrapper that attempts to refresh then retry on 401
 export async function fetchWithAuth(input: RequestInfo, init: RequestInit = {}) {
   const token = localStorage.getItem('authToken');
+  const workspaceId = getWorkspaceId();
   const headers = new Headers(init.headers || {});
   if (token) headers.set('Authorization', `Bearer ${token}`);
+  if (workspaceId) headers.set('X-Workspace-Id', workspaceId);
   const res = await fetch(input, { ...init, headers });
 
   if (res.status !== 401) return res;
@@ -127,6 +226,7 @@ export async function fetchWithAuth(input: RequestInfo, init: RequestInit = {})
 
   const headers2 = new Headers(init.headers || {});
   headers2.set('Authorization', `Bearer ${newToken}`);
+  if (workspaceId) headers2.set('X-Workspace-Id', workspaceId);
   return fetch(input, { ...init, headers: headers2 });
 }
 
@@ -0,0 +1,8 @@
+import { format } from 'date-fns';
+
+// "YYYY-MM-DD" from the API as e.g. "Jun 05, 2025". Date parses date-only strings as UTC, so
+// build a local date instead to keep the day from shifting.
+export function formatDateOnly(value: string) {
+  const [year, month, day] = value.split('-').map(Number);
+  return format(new Date(year, month - 1, day), 'MMM dd, yyyy');
+}
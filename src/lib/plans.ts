@@ -0,0 +1,21 @@
+// Subscription plans as returned by /api/admin/plans and /api/settings/plan
+
+export interface Plan {
+  id: string;
+  name: string;
+  price: number;
+  currency: string;
+  billing_period: 'monthly' | 'yearly';
+  // null means unlimited
+  max_clients: number | null;
+  max_invoices_per_month: number | null;
+  features: string[];
+  is_active: boolean;
+  user_count?: number;
+}
+
+// e.g. "9.00 USD / month"
+export function formatPlanPrice(plan: Plan) {
+  const price = plan.price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${price} ${plan.currency} / ${plan.billing_period === 'yearly' ? 'year' : 'month'}`;
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { acceptInvitation, getAuthToken, setWorkspaceId } from "@/lib/auth";
+import { Users } from "lucide-react";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const AcceptInvite = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const body = await acceptInvitation(token, password || undefined);
+      toast({ title: "Invitation accepted", description: body?.message || "You have joined the workspace." });
+      // Open the joined workspace; signed-in users go straight there
+      setWorkspaceId(body.workspace.id);
+      navigate(getAuthToken() ? "/dashboard" : "/auth");
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Could not accept the invitation.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-background to-accent/10 p-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="text-center space-y-2">
+          <div className="mx-auto w-12 h-12 bg-gradient-to-br from-primary to-accent rounded-xl flex items-center justify-center mb-2">
+            <Users className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <CardTitle className="text-2xl font-bold">Join a Workspace</CardTitle>
+          <CardDescription>You have been invited to work with a team</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <div className="space-y-4 text-center">
+              <p className="text-sm text-muted-foreground">
+                This invitation link is incomplete. Open the link from the email again.
+              </p>
+              <Button asChild variant="outline" className="w-full">
+                <Link to="/auth">Go to sign in</Link>
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite_password">Password</Label>
+                <Input
+                  id="invite_password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  minLength={MIN_PASSWORD_LENGTH}
+                />
+                <p className="text-xs text-muted-foreground">
+                  New here? Choose a password for your account. Already have one? Leave this empty.
+                </p>
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? "Joining..." : "Accept Invitation"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AcceptInvite;
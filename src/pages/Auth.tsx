@@ -1,17 +1,44 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { login as loginWithAuth } from "@/lib/auth";
+import {
+  login as loginWithAuth,
+  resendVerificationEmail,
+  AuthError,
+  completeTwoFactorLogin,
+  setupTwoFactorWithChallenge,
+  enableTwoFactorWithChallenge,
+} from "@/lib/auth";
+import { OtpCodeInput, RecoveryCodesList, TwoFactorQrCode, type TwoFactorSetupDetails } from "@/components/auth/TwoFactorFields";
 import { FileText } from "lucide-react";
 
+// password -> code (2FA on) or setup -> recovery codes (2FA mandatory, not yet enrolled)
+type Step = "password" | "code" | "setup" | "recovery_codes";
+
+const STEP_DESCRIPTIONS: Record<Step, string> = {
+  password: "Sign in to your account",
+  code: "Enter the code from your authenticator app",
+  setup: "Two-factor authentication is required for your account",
+  recovery_codes: "Save your recovery codes",
+};
+
 const Auth = () => {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
+  const [step, setStep] = useState<Step>("password");
+  const [challengeToken, setChallengeToken] = useState("");
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetupDetails | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  // Set when login was refused because the email is not confirmed yet
+  const [unverified, setUnverified] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -25,16 +52,28 @@ const Auth = () => {
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
+    setUnverified(false);
 
     try {
       // Use centralized auth helper which performs login, stores both access and refresh tokens,
       // schedules silent refresh, and returns the login response. This avoids sending credentials twice.
-      await loginWithAuth(email, password);
-      navigate("/dashboard");
-    } catch (error: any) {
+      const body = await loginWithAuth(email, password);
+      if (body.twoFactorRequired) {
+        setChallengeToken(body.challengeToken);
+        setStep("code");
+      } else if (body.twoFactorSetupRequired) {
+        setChallengeToken(body.challengeToken);
+        setSetup(await setupTwoFactorWithChallenge(body.challengeToken));
+        setStep("setup");
+      } else {
+        navigate("/dashboard");
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Login failed.";
+      if (error instanceof AuthError && error.code === "email_unverified") setUnverified(true);
       toast({
-        title: "Error",
-        description: error.message,
+        title: error instanceof AuthError && error.code === "pending_approval" ? "Awaiting approval" : "Error",
+        description: message,
         variant: "destructive",
       });
     } finally {
@@ -42,6 +81,65 @@ const Auth = () => {
     }
   };
 
+  const handleResendVerification = async () => {
+    setLoading(true);
+    try {
+      const body = await resendVerificationEmail(email);
+      toast({ title: "Link sent", description: body?.message });
+      setUnverified(false);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Could not send the confirmation link.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async (e?: React.FormEvent, submittedCode = code) => {
+    e?.preventDefault();
+    setLoading(true);
+
+    try {
+      const body = await completeTwoFactorLogin(
+        challengeToken,
+        useRecoveryCode ? { recoveryCode } : { code: submittedCode }
+      );
+      if (body.recoveryCodesRemaining !== undefined) {
+        toast({
+          title: "Recovery code used",
+          description: `${body.recoveryCodesRemaining} recovery codes left. Create new ones in Settings if you are running low.`,
+        });
+      }
+      navigate("/dashboard");
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Verification failed.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+      setCode("");
+      // An expired challenge needs the password again
+      if (message.includes("expired")) setStep("password");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEnable = async (e?: React.FormEvent, submittedCode = code) => {
+    e?.preventDefault();
+    setLoading(true);
+
+    try {
+      const body = await enableTwoFactorWithChallenge(challengeToken, submittedCode);
+      setRecoveryCodes(body.recoveryCodes);
+      setStep("recovery_codes");
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Verification failed.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+      setCode("");
+      if (message.includes("expired")) setStep("password");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-background to-accent/10 p-4">
       <Card className="w-full max-w-md shadow-lg">
@@ -51,45 +149,123 @@ const Auth = () => {
           </div>
           <CardTitle className="text-2xl font-bold">Invoice Generator</CardTitle>
           <CardDescription>
-            Sign in to your account
+            {STEP_DESCRIPTIONS[step]}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleLogin} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="you@example.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="••••••••"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                minLength={6}
-              />
+          {step === "code" && (
+            <form onSubmit={handleVerify} className="space-y-4">
+              {useRecoveryCode ? (
+                <div className="space-y-2">
+                  <Label htmlFor="recovery_code">Recovery Code</Label>
+                  <Input
+                    id="recovery_code"
+                    placeholder="xxxx-xxxx-xxxx"
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    autoComplete="off"
+                    required
+                  />
+                </div>
+              ) : (
+                <OtpCodeInput
+                  value={code}
+                  onChange={setCode}
+                  onComplete={(value) => handleVerify(undefined, value)}
+                  disabled={loading}
+                />
+              )}
+              <Button type="submit" className="w-full" disabled={loading || (!useRecoveryCode && code.length < 6)}>
+                {loading ? "Verifying..." : "Verify"}
+              </Button>
+              <Button
+                type="button"
+                variant="link"
+                className="w-full"
+                onClick={() => setUseRecoveryCode((prev) => !prev)}
+              >
+                {useRecoveryCode ? "Use a code from the app" : "Lost your phone? Use a recovery code"}
+              </Button>
+            </form>
+          )}
+
+          {step === "setup" && setup && (
+            <form onSubmit={handleEnable} className="space-y-4">
+              <TwoFactorQrCode setup={setup} />
+              <div className="space-y-2 text-center">
+                <Label>Enter the 6-digit code the app shows</Label>
+                <OtpCodeInput
+                  value={code}
+                  onChange={setCode}
+                  onComplete={(value) => handleEnable(undefined, value)}
+                  disabled={loading}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={loading || code.length < 6}>
+                {loading ? "Verifying..." : "Turn On Two-Factor Authentication"}
+              </Button>
+            </form>
+          )}
+
+          {step === "recovery_codes" && (
+            <div className="space-y-4">
+              <RecoveryCodesList codes={recoveryCodes} />
+              <Button className="w-full" onClick={() => navigate("/dashboard")}>
+                I have saved my codes
+              </Button>
             </div>
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={loading}
-            >
-              {loading ? "Loading..." : "Sign In"}
-            </Button>
-            <p className="text-sm text-muted-foreground text-center">
-              Public sign-up မရှိပါ။ အကောင့်လိုအပ်ပါက Admin ကို ဆက်သွယ်ပါ။
-            </p>
-          </form>
+          )}
+
+          {step === "password" && (
+            <form onSubmit={handleLogin} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <Link to="/forgot-password" className="text-sm text-muted-foreground hover:underline">
+                    Forgot password?
+                  </Link>
+                </div>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={6}
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={loading}
+              >
+                {loading ? "Loading..." : "Sign In"}
+              </Button>
+              {unverified && (
+                <Button type="button" variant="outline" className="w-full" onClick={handleResendVerification} disabled={loading}>
+                  Resend Confirmation Email
+                </Button>
+              )}
+              <p className="text-sm text-muted-foreground text-center">
+                Don't have an account?{" "}
+                <Link to="/signup" className="text-primary hover:underline">
+                  Sign up
+                </Link>
+              </p>
+            </form>
+          )}
         </CardContent>
       </Card>
     </div>
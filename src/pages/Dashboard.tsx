@@ -3,11 +3,19 @@ import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { LogOut, Users, Receipt, FileText, Settings } from "lucide-react";
+import { LogOut, Users, Receipt, FileText, Settings, Building2, ArrowLeftRight, Banknote, LayoutDashboard } from "lucide-react";
+import OverviewTab from "@/components/dashboard/OverviewTab";
 import ClientsTab from "@/components/dashboard/ClientsTab";
 import TransactionsTab from "@/components/dashboard/TransactionsTab";
 import InvoicesTab from "@/components/dashboard/InvoicesTab";
+import RatesTab from "@/components/dashboard/RatesTab";
+import PayoutsTab from "@/components/dashboard/PayoutsTab";
+import SettingsTab from "@/components/dashboard/SettingsTab";
 import AdminDashboard from "@/components/dashboard/AdminDashboard";
+import SubscriptionBanner from "@/components/dashboard/SubscriptionBanner";
+import WorkspaceSwitcher from "@/components/dashboard/WorkspaceSwitcher";
+import { fetchWithAuth, logout } from "@/lib/auth";
+import { AccountStatusContext, type AccountStatus } from "@/hooks/use-account-status";
 import { jwtDecode } from "jwt-decode";
 
 const Dashboard = () => {
@@ -15,6 +23,7 @@ const Dashboard = () => {
   const { toast } = useToast();
   const [loading, setLoading] = useState(true);
   const [isAdmin, setIsAdmin] = useState(false);
+  const [accountStatus, setAccountStatus] = useState<AccountStatus>({ readOnly: false, notice: null, workspace: null });
 
   useEffect(() => {
     const token = localStorage.getItem("authToken");
@@ -36,8 +45,31 @@ const Dashboard = () => {
     setLoading(false);
   }, [navigate]);
 
+  // Whether the subscription has lapsed (read-only), which renewal banner to show and the
+  // user's role in the current workspace
+  useEffect(() => {
+    if (loading || isAdmin) return;
+    const fetchAccountStatus = async () => {
+      try {
+        const response = await fetchWithAuth("/api/auth/session");
+        if (!response.ok) return;
+        const body = await response.json();
+        setAccountStatus({
+          readOnly: Boolean(body.subscription?.readOnly),
+          notice: body.subscription?.notice ?? null,
+          workspace: body.workspace ?? null,
+        });
+      } catch (error: unknown) {
+        // Without it the dashboard shows no banner; the API still refuses writes when read-only
+        console.error("Failed to load subscription status:", error);
+      }
+    };
+    fetchAccountStatus();
+  }, [loading, isAdmin]);
+
   const handleSignOut = async () => {
-    localStorage.removeItem("authToken");
+    // Revokes this session's refresh token so it drops off the session list
+    await logout();
     toast({
       title: "Signed out",
       description: "You have been signed out successfully.",
@@ -66,55 +98,93 @@ const Dashboard = () => {
               <p className="text-xs text-muted-foreground">Admin Dashboard</p>
             </div>
           </div>
-          <Button variant="outline" size="sm" onClick={handleSignOut}>
-            <LogOut className="w-4 h-4 mr-2" />
-            Sign Out
-          </Button>
+          <div className="flex items-center gap-3">
+            {!isAdmin && <WorkspaceSwitcher />}
+            <Button variant="outline" size="sm" onClick={handleSignOut}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign Out
+            </Button>
+          </div>
         </div>
       </header>
 
-      <main className="container mx-auto px-4 py-8">
-        <Tabs defaultValue={isAdmin ? "admin" : "clients"} className="space-y-6">
-          <TabsList className="grid w-full max-w-md grid-cols-4">
-            {isAdmin && (
-              <TabsTrigger value="admin" className="flex items-center gap-2">
-                <Settings className="w-4 h-4" />
-                Admin
+      <AccountStatusContext.Provider value={accountStatus}>
+        <main className="container mx-auto px-4 py-8">
+          {!isAdmin && <SubscriptionBanner />}
+          <Tabs defaultValue={isAdmin ? "admin" : "overview"} className="space-y-6">
+            <TabsList className={`grid w-full max-w-5xl ${isAdmin ? "grid-cols-8" : "grid-cols-7"}`}>
+              {isAdmin && (
+                <TabsTrigger value="admin" className="flex items-center gap-2">
+                  <Settings className="w-4 h-4" />
+                  Admin
+                </TabsTrigger>
+              )}
+              <TabsTrigger value="overview" className="flex items-center gap-2">
+                <LayoutDashboard className="w-4 h-4" />
+                Overview
+              </TabsTrigger>
+              <TabsTrigger value="clients" className="flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Clients
               </TabsTrigger>
+              <TabsTrigger value="transactions" className="flex items-center gap-2">
+                <Receipt className="w-4 h-4" />
+                Transactions
+              </TabsTrigger>
+              <TabsTrigger value="invoices" className="flex items-center gap-2">
+                <FileText className="w-4 h-4" />
+                Invoices
+              </TabsTrigger>
+              <TabsTrigger value="payouts" className="flex items-center gap-2">
+                <Banknote className="w-4 h-4" />
+                Payouts
+              </TabsTrigger>
+              <TabsTrigger value="rates" className="flex items-center gap-2">
+                <ArrowLeftRight className="w-4 h-4" />
+                Rates
+              </TabsTrigger>
+              <TabsTrigger value="settings" className="flex items-center gap-2">
+                <Building2 className="w-4 h-4" />
+                Settings
+              </TabsTrigger>
+            </TabsList>
+
+            {isAdmin && (
+              <TabsContent value="admin">
+                <AdminDashboard />
+              </TabsContent>
             )}
-            <TabsTrigger value="clients" className="flex items-center gap-2">
-              <Users className="w-4 h-4" />
-              Clients
-            </TabsTrigger>
-            <TabsTrigger value="transactions" className="flex items-center gap-2">
-              <Receipt className="w-4 h-4" />
-              Transactions
-            </TabsTrigger>
-            <TabsTrigger value="invoices" className="flex items-center gap-2">
-              <FileText className="w-4 h-4" />
-              Invoices
-            </TabsTrigger>
-          </TabsList>
-
-          {isAdmin && (
-            <TabsContent value="admin">
-              <AdminDashboard />
+
+            <TabsContent value="overview">
+              <OverviewTab />
+            </TabsContent>
+
+            <TabsContent value="clients">
+              <ClientsTab />
             </TabsContent>
-          )}
 
-          <TabsContent value="clients">
-            <ClientsTab />
-          </TabsContent>
+            <TabsContent value="transactions">
+              <TransactionsTab />
+            </TabsContent>
 
-          <TabsContent value="transactions">
-            <TransactionsTab />
-          </TabsContent>
+            <TabsContent value="invoices">
+              <InvoicesTab />
+            </TabsContent>
 
-          <TabsContent value="invoices">
-            <InvoicesTab />
-          </TabsContent>
-        </Tabs>
-      </main>
+            <TabsContent value="payouts">
+              <PayoutsTab />
+            </TabsContent>
+
+            <TabsContent value="rates">
+              <RatesTab />
+            </TabsContent>
+
+            <TabsContent value="settings">
+              <SettingsTab />
+            </TabsContent>
+          </Tabs>
+        </main>
+      </AccountStatusContext.Provider>
     </div>
   );
 };
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { register, resendVerificationEmail } from "@/lib/auth";
+import { UserPlus } from "lucide-react";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const Signup = () => {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [registered, setRegistered] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      toast({ title: "Error", description: "Passwords do not match.", variant: "destructive" });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await register(email, password);
+      setRegistered(true);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Sign-up failed.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setLoading(true);
+    try {
+      const body = await resendVerificationEmail(email);
+      toast({ title: "Link sent", description: body?.message });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Could not send the confirmation link.";
+      toast({ title: "Error", description: message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-background to-accent/10 p-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="text-center space-y-2">
+          <div className="mx-auto w-12 h-12 bg-gradient-to-br from-primary to-accent rounded-xl flex items-center justify-center mb-2">
+            <UserPlus className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <CardTitle className="text-2xl font-bold">Create an Account</CardTitle>
+          <CardDescription>
+            {registered ? "Check your inbox" : "Sign up with your email address"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {registered ? (
+            <div className="space-y-4 text-center">
+              <p className="text-sm text-muted-foreground">
+                We sent a confirmation link to {email}. Open it to confirm your address before signing in.
+              </p>
+              <Button variant="outline" className="w-full" onClick={handleResend} disabled={loading}>
+                {loading ? "Sending..." : "Send the Link Again"}
+              </Button>
+              <Button asChild variant="link" className="w-full">
+                <Link to="/auth">Back to sign in</Link>
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={MIN_PASSWORD_LENGTH}
+                />
+                <p className="text-xs text-muted-foreground">At least {MIN_PASSWORD_LENGTH} characters</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm_password">Confirm Password</Label>
+                <Input
+                  id="confirm_password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  minLength={MIN_PASSWORD_LENGTH}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? "Creating account..." : "Sign Up"}
+              </Button>
+              <p className="text-sm text-center">
+                <Link to="/auth" className="text-muted-foreground hover:underline">
+                  Already have an account? Sign in
+                </Link>
+              </p>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Signup;
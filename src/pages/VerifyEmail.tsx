@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { verifyEmail } from "@/lib/auth";
+import { MailCheck } from "lucide-react";
+
+type Status = "verifying" | "verified" | "failed";
+
+const VerifyEmail = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const [status, setStatus] = useState<Status>("verifying");
+  const [message, setMessage] = useState("");
+  // The token works once; StrictMode's double effect run must not spend it twice
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (submitted.current) return;
+    submitted.current = true;
+
+    if (!token) {
+      setStatus("failed");
+      setMessage("This confirmation link is incomplete. Open the link from the email again.");
+      return;
+    }
+
+    verifyEmail(token)
+      .then((body) => {
+        setStatus("verified");
+        setMessage(body?.message || "Email confirmed.");
+      })
+      .catch((error: unknown) => {
+        setStatus("failed");
+        setMessage(error instanceof Error ? error.message : "Email confirmation failed.");
+      });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-background to-accent/10 p-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="text-center space-y-2">
+          <div className="mx-auto w-12 h-12 bg-gradient-to-br from-primary to-accent rounded-xl flex items-center justify-center mb-2">
+            <MailCheck className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <CardTitle className="text-2xl font-bold">Confirm Your Email</CardTitle>
+          <CardDescription>
+            {status === "verifying" ? "Confirming your address..." : status === "verified" ? "All set" : "Something went wrong"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center">
+          {message && <p className="text-sm text-muted-foreground">{message}</p>}
+          {status === "failed" && (
+            <p className="text-xs text-muted-foreground">Sign in to have a new confirmation link sent.</p>
+          )}
+          {status !== "verifying" && (
+            <Button asChild className="w-full">
+              <Link to="/auth">Go to sign in</Link>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VerifyEmail;
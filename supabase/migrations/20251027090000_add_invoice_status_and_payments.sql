@@ -0,0 +1,59 @@
+-- Invoice status lifecycle (draft -> issued -> paid, or void) and payout records
+-- Idempotent: safe to run more than once
+
+ALTER TABLE IF EXISTS public.invoices
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'issued',
+  ADD COLUMN IF NOT EXISTS issued_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS paid_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS voided_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS void_reason TEXT;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'invoices_status_check'
+  ) THEN
+    ALTER TABLE public.invoices
+      ADD CONSTRAINT invoices_status_check
+      CHECK (status IN ('draft', 'issued', 'paid', 'void'));
+  END IF;
+END$$;
+
+-- Existing invoices were issued the moment they were created
+UPDATE public.invoices
+SET issued_at = created_at
+WHERE status = 'issued'
+  AND issued_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_status
+  ON public.invoices (user_id, status);
+
+-- Voided invoices keep their transaction_id, so only one non-void invoice
+-- may exist per transaction (replaces the plain unique index/constraint)
+ALTER TABLE IF EXISTS public.invoices
+  DROP CONSTRAINT IF EXISTS invoices_transaction_unique;
+DROP INDEX IF EXISTS public.idx_invoices_transaction_unique;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_transaction_active_unique
+  ON public.invoices (transaction_id)
+  WHERE status <> 'void';
+
+-- Payouts sent to the client against an invoice
+CREATE TABLE IF NOT EXISTS public.invoice_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'THB',
+  paid_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  method TEXT NOT NULL,
+  reference TEXT,
+  payment_destination JSONB,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice_id
+  ON public.invoice_payments (invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_user_id
+  ON public.invoice_payments (user_id);
@@ -0,0 +1,63 @@
+-- Multi-transaction invoices: one invoice can consolidate several payouts for the same client
+-- Idempotent: safe to run more than once
+
+-- invoices.transaction_id now points at the first line item only
+ALTER TABLE IF EXISTS public.invoices
+  ALTER COLUMN transaction_id DROP NOT NULL;
+
+ALTER TABLE IF EXISTS public.invoices
+  ADD COLUMN IF NOT EXISTS fees NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS payout_currency TEXT NOT NULL DEFAULT 'THB',
+  ADD COLUMN IF NOT EXISTS payout_amount NUMERIC(15,2) NOT NULL DEFAULT 0;
+
+-- A transaction may appear on several invoices over time; the one-active-invoice rule is
+-- enforced by the API across invoice_items, so the per-invoice index is no longer needed
+DROP INDEX IF EXISTS public.idx_invoices_transaction_active_unique;
+
+CREATE TABLE IF NOT EXISTS public.invoice_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE RESTRICT,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  transaction_date DATE,
+  source_platform TEXT,
+  source_platform_payout_id TEXT,
+  incoming_amount_thb NUMERIC(15,2) NOT NULL DEFAULT 0,
+  commission_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  fees NUMERIC(12,2) NOT NULL DEFAULT 0,
+  net_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  exchange_rate_mmk NUMERIC(10,2) NOT NULL DEFAULT 0,
+  payout_currency TEXT NOT NULL DEFAULT 'THB',
+  payout_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (invoice_id, transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_items_invoice_id ON public.invoice_items (invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_items_transaction_id ON public.invoice_items (transaction_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_items_user_id ON public.invoice_items (user_id);
+
+-- Backfill: every existing invoice becomes a single-line invoice
+INSERT INTO public.invoice_items (
+  invoice_id, transaction_id, user_id, position, transaction_date, source_platform,
+  source_platform_payout_id, incoming_amount_thb, commission_amount, fees, net_amount,
+  exchange_rate_mmk, payout_currency, payout_amount
+)
+SELECT
+  i.id, t.id, i.user_id, 0, t.transaction_date, t.source_platform,
+  t.source_platform_payout_id, i.total_amount, i.commission_amount, COALESCE(t.fees, 0), i.net_amount,
+  COALESCE(t.exchange_rate_mmk, 0), COALESCE(t.payout_currency, 'THB'), COALESCE(t.payout_amount, 0)
+FROM public.invoices i
+JOIN public.transactions t ON t.id = i.transaction_id
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.invoice_items ii WHERE ii.invoice_id = i.id
+);
+
+UPDATE public.invoices i
+SET fees = COALESCE(t.fees, 0),
+    payout_currency = COALESCE(t.payout_currency, 'THB'),
+    payout_amount = COALESCE(t.payout_amount, 0)
+FROM public.transactions t
+WHERE t.id = i.transaction_id
+  AND i.payout_amount = 0;
@@ -0,0 +1,36 @@
+-- Per-user business profile used to brand invoice previews and PDFs
+-- Idempotent: safe to run more than once
+
+CREATE TABLE IF NOT EXISTS public.business_profiles (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  business_name TEXT,
+  address TEXT,
+  contact_email TEXT,
+  contact_phone TEXT,
+  watermark_text TEXT,
+  accent_color TEXT NOT NULL DEFAULT '#06b6d4',
+  footer_notes TEXT,
+  logo_data BYTEA,
+  logo_mime_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'business_profiles_accent_color_check'
+  ) THEN
+    ALTER TABLE public.business_profiles
+      ADD CONSTRAINT business_profiles_accent_color_check
+      CHECK (accent_color ~ '^#[0-9a-fA-F]{6}$');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'business_profiles_logo_mime_type_check'
+  ) THEN
+    ALTER TABLE public.business_profiles
+      ADD CONSTRAINT business_profiles_logo_mime_type_check
+      CHECK (logo_mime_type IS NULL OR logo_mime_type IN ('image/png', 'image/jpeg'));
+  END IF;
+END$$;
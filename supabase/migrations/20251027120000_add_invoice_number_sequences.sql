@@ -0,0 +1,26 @@
+-- Per-user invoice number sequences with a configurable prefix/format and optional yearly reset
+-- Idempotent: safe to run more than once
+
+-- One counter row per user; the API locks it (SELECT ... FOR UPDATE) while allocating a number,
+-- so concurrent issues serialize instead of racing on MAX(invoice_number) + 1
+CREATE TABLE IF NOT EXISTS public.invoice_number_sequences (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  prefix TEXT NOT NULL DEFAULT 'INV',
+  number_format TEXT NOT NULL DEFAULT '{PREFIX}-{YYYY}-{SEQ:5}',
+  reset_yearly BOOLEAN NOT NULL DEFAULT true,
+  sequence_year INTEGER,
+  last_value INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Numbers are allocated by the API when an invoice is issued; drafts carry a DRAFT- placeholder
+ALTER TABLE IF EXISTS public.invoices
+  ALTER COLUMN invoice_number DROP DEFAULT;
+
+-- Invoice numbers only need to be unique per subscriber
+ALTER TABLE IF EXISTS public.invoices
+  DROP CONSTRAINT IF EXISTS invoices_invoice_number_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_user_invoice_number_unique
+  ON public.invoices (user_id, invoice_number);
@@ -0,0 +1,112 @@
+-- Credit notes, invoice revisions and frozen invoice snapshots
+-- Idempotent: safe to run more than once
+
+-- Client details as they were when the invoice was issued; line items already hold the
+-- transaction figures, now also the payment destination
+ALTER TABLE IF EXISTS public.invoices
+  ADD COLUMN IF NOT EXISTS client_snapshot JSONB,
+  ADD COLUMN IF NOT EXISTS revises_invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL;
+
+ALTER TABLE IF EXISTS public.invoice_items
+  ADD COLUMN IF NOT EXISTS payment_destination JSONB;
+
+UPDATE public.invoices i
+SET client_snapshot = jsonb_build_object(
+      'id', c.id,
+      'name', c.name,
+      'phone', c.phone,
+      'bank_account', c.bank_account,
+      'commission_percentage', c.commission_percentage,
+      'preferred_payout_currency', c.preferred_payout_currency,
+      'platform_details', c.platform_details
+    )
+FROM public.clients c
+WHERE c.id = i.client_id
+  AND i.client_snapshot IS NULL;
+
+UPDATE public.invoice_items ii
+SET payment_destination = t.payment_destination
+FROM public.transactions t
+WHERE t.id = ii.transaction_id
+  AND ii.payment_destination IS NULL;
+
+-- Credit notes are numbered from their own sequence, kept next to the invoice sequence
+ALTER TABLE IF EXISTS public.invoice_number_sequences
+  ADD COLUMN IF NOT EXISTS document_type TEXT NOT NULL DEFAULT 'invoice';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'invoice_number_sequences_document_type_check'
+  ) THEN
+    ALTER TABLE public.invoice_number_sequences
+      ADD CONSTRAINT invoice_number_sequences_document_type_check
+      CHECK (document_type IN ('invoice', 'credit_note'));
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+      FROM pg_constraint con
+      JOIN pg_attribute att ON att.attrelid = con.conrelid AND att.attnum = ANY(con.conkey)
+     WHERE con.conname = 'invoice_number_sequences_pkey'
+     GROUP BY con.conname
+    HAVING COUNT(*) = 1
+  ) THEN
+    ALTER TABLE public.invoice_number_sequences DROP CONSTRAINT invoice_number_sequences_pkey;
+    ALTER TABLE public.invoice_number_sequences
+      ADD CONSTRAINT invoice_number_sequences_pkey PRIMARY KEY (user_id, document_type);
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS public.credit_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  credit_note_number TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  total_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  commission_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  fees NUMERIC(12,2) NOT NULL DEFAULT 0,
+  net_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  payout_currency TEXT NOT NULL DEFAULT 'THB',
+  payout_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, credit_note_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice_id ON public.credit_notes (invoice_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_user_id ON public.credit_notes (user_id);
+
+CREATE TABLE IF NOT EXISTS public.credit_note_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  credit_note_id UUID NOT NULL REFERENCES public.credit_notes(id) ON DELETE CASCADE,
+  invoice_item_id UUID NOT NULL REFERENCES public.invoice_items(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE RESTRICT,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  incoming_amount_thb NUMERIC(15,2) NOT NULL DEFAULT 0,
+  commission_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  fees NUMERIC(12,2) NOT NULL DEFAULT 0,
+  net_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  exchange_rate_mmk NUMERIC(10,2) NOT NULL DEFAULT 0,
+  payout_currency TEXT NOT NULL DEFAULT 'THB',
+  payout_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_note_items_credit_note_id ON public.credit_note_items (credit_note_id);
+CREATE INDEX IF NOT EXISTS idx_credit_note_items_invoice_item_id ON public.credit_note_items (invoice_item_id);
+
+-- Issued invoices and credit notes keep their lines: a transaction on either cannot be deleted
+ALTER TABLE IF EXISTS public.invoice_items
+  DROP CONSTRAINT IF EXISTS invoice_items_transaction_id_fkey;
+ALTER TABLE IF EXISTS public.invoice_items
+  ADD CONSTRAINT invoice_items_transaction_id_fkey
+  FOREIGN KEY (transaction_id) REFERENCES public.transactions(id) ON DELETE RESTRICT;
+
+ALTER TABLE IF EXISTS public.credit_note_items
+  DROP CONSTRAINT IF EXISTS credit_note_items_transaction_id_fkey;
+ALTER TABLE IF EXISTS public.credit_note_items
+  ADD CONSTRAINT credit_note_items_transaction_id_fkey
+  FOREIGN KEY (transaction_id) REFERENCES public.transactions(id) ON DELETE RESTRICT;
@@ -0,0 +1,52 @@
+-- Dated exchange rates per user and currency pair, plus the implied USD->THB rate of each transaction
+-- Idempotent: safe to run more than once
+
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  base_currency TEXT NOT NULL,
+  quote_currency TEXT NOT NULL,
+  rate NUMERIC(18,6) NOT NULL,
+  effective_date DATE NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual',
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'exchange_rates_pair_check'
+  ) THEN
+    ALTER TABLE public.exchange_rates
+      ADD CONSTRAINT exchange_rates_pair_check
+      CHECK ((base_currency, quote_currency) IN (('THB', 'MMK'), ('USD', 'THB')));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'exchange_rates_rate_check'
+  ) THEN
+    ALTER TABLE public.exchange_rates
+      ADD CONSTRAINT exchange_rates_rate_check
+      CHECK (rate > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'exchange_rates_user_pair_date_key'
+  ) THEN
+    ALTER TABLE public.exchange_rates
+      ADD CONSTRAINT exchange_rates_user_pair_date_key
+      UNIQUE (user_id, base_currency, quote_currency, effective_date);
+  END IF;
+END$$;
+
+-- THB received per USD, derived from the amounts the platform actually paid out;
+-- compared with the USD/THB table rate it shows the platform's FX spread
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS usd_thb_rate NUMERIC(18,6)
+  GENERATED ALWAYS AS (
+    CASE
+      WHEN original_amount_usd > 0 THEN round(incoming_amount_thb / original_amount_usd, 6)
+    END
+  ) STORED;
@@ -0,0 +1,101 @@
+-- Itemized transaction fees, per-client / per-platform fee rules and the fee breakdown on invoice lines
+-- Idempotent: safe to run more than once
+
+CREATE TABLE IF NOT EXISTS public.fee_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  fee_type TEXT NOT NULL,
+  calculation TEXT NOT NULL,
+  -- THB for flat rules, percent of the incoming amount for percentage rules, unused for tiered rules
+  amount NUMERIC(12,4),
+  -- Tiered rules: [{ "up_to": 10000, "calculation": "flat", "amount": 30 }, { "up_to": null, ... }]
+  tiers JSONB,
+  client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+  source_platform TEXT,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fee_rules_user_id ON public.fee_rules(user_id);
+
+CREATE TABLE IF NOT EXISTS public.transaction_fees (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  fee_type TEXT NOT NULL,
+  description TEXT,
+  amount NUMERIC(12,2) NOT NULL,
+  -- 'manual' fees were entered on the transaction; 'rule' fees are recalculated from fee_rules
+  source TEXT NOT NULL DEFAULT 'manual',
+  fee_rule_id UUID REFERENCES public.fee_rules(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_fees_transaction_id ON public.transaction_fees(transaction_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'fee_rules_fee_type_check'
+  ) THEN
+    ALTER TABLE public.fee_rules
+      ADD CONSTRAINT fee_rules_fee_type_check
+      CHECK (fee_type IN ('platform_withdrawal', 'bank_transfer', 'fx', 'other'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'fee_rules_calculation_check'
+  ) THEN
+    ALTER TABLE public.fee_rules
+      ADD CONSTRAINT fee_rules_calculation_check
+      CHECK (
+        (calculation IN ('flat', 'percentage') AND amount IS NOT NULL AND amount >= 0)
+        OR (calculation = 'tiered' AND tiers IS NOT NULL)
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'transaction_fees_fee_type_check'
+  ) THEN
+    ALTER TABLE public.transaction_fees
+      ADD CONSTRAINT transaction_fees_fee_type_check
+      CHECK (fee_type IN ('platform_withdrawal', 'bank_transfer', 'fx', 'other'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'transaction_fees_amount_check'
+  ) THEN
+    ALTER TABLE public.transaction_fees
+      ADD CONSTRAINT transaction_fees_amount_check
+      CHECK (amount >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'transaction_fees_source_check'
+  ) THEN
+    ALTER TABLE public.transaction_fees
+      ADD CONSTRAINT transaction_fees_source_check
+      CHECK (source IN ('manual', 'rule'));
+  END IF;
+END$$;
+
+-- Fee breakdown frozen onto each invoice line when the invoice is issued
+ALTER TABLE public.invoice_items
+  ADD COLUMN IF NOT EXISTS fee_items JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Fees recorded before itemization become a single 'other' fee so totals still add up
+INSERT INTO public.transaction_fees (transaction_id, user_id, fee_type, description, amount, source)
+SELECT t.id, t.user_id, 'other', 'Fees recorded before itemization', t.fees, 'manual'
+  FROM public.transactions t
+ WHERE t.fees > 0
+   AND t.user_id IS NOT NULL
+   AND NOT EXISTS (SELECT 1 FROM public.transaction_fees tf WHERE tf.transaction_id = t.id);
+
+UPDATE public.invoice_items
+   SET fee_items = jsonb_build_array(
+         jsonb_build_object('fee_type', 'other', 'description', 'Fees recorded before itemization', 'amount', fees)
+       )
+ WHERE fees > 0
+   AND fee_items = '[]'::jsonb;
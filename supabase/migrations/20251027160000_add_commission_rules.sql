@@ -0,0 +1,71 @@
+-- Commission schedules per client (per platform, monthly volume tiers, effective-dated) and the rate applied to each transaction
+-- Idempotent: safe to run more than once
+
+CREATE TABLE IF NOT EXISTS public.commission_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  -- One of the client's platform_details names; NULL applies to every platform
+  source_platform TEXT,
+  -- The rule applies once the client's month-to-date incoming THB reaches this amount
+  min_monthly_volume NUMERIC(14,2) NOT NULL DEFAULT 0,
+  commission_percentage NUMERIC(5,2) NOT NULL,
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_rules_client_id ON public.commission_rules(client_id);
+
+-- A later effective_from for the same platform and tier replaces the earlier rate from that date
+CREATE UNIQUE INDEX IF NOT EXISTS commission_rules_schedule_key
+  ON public.commission_rules(client_id, COALESCE(lower(source_platform), ''), min_monthly_volume, effective_from);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'commission_rules_percentage_check'
+  ) THEN
+    ALTER TABLE public.commission_rules
+      ADD CONSTRAINT commission_rules_percentage_check
+      CHECK (commission_percentage >= 0 AND commission_percentage <= 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'commission_rules_volume_check'
+  ) THEN
+    ALTER TABLE public.commission_rules
+      ADD CONSTRAINT commission_rules_volume_check
+      CHECK (min_monthly_volume >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'commission_rules_dates_check'
+  ) THEN
+    ALTER TABLE public.commission_rules
+      ADD CONSTRAINT commission_rules_dates_check
+      CHECK (effective_to IS NULL OR effective_to >= effective_from);
+  END IF;
+END$$;
+
+-- The rate used for each transaction and the rule it came from (NULL rule = the client's default rate).
+-- The label is kept so the basis stays readable after the rule is edited or deleted.
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS commission_percentage NUMERIC(5,2),
+  ADD COLUMN IF NOT EXISTS commission_rule_id UUID REFERENCES public.commission_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS commission_rule_label TEXT;
+
+ALTER TABLE public.invoice_items
+  ADD COLUMN IF NOT EXISTS commission_percentage NUMERIC(5,2),
+  ADD COLUMN IF NOT EXISTS commission_rule_id UUID,
+  ADD COLUMN IF NOT EXISTS commission_rule_label TEXT;
+
+-- Existing transactions were charged the client's single rate
+UPDATE public.transactions t
+   SET commission_percentage = c.commission_percentage,
+       commission_rule_label = 'Client default'
+  FROM public.clients c
+ WHERE c.id = t.client_id
+   AND t.commission_percentage IS NULL;
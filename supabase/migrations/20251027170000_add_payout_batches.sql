@@ -0,0 +1,68 @@
+-- Payout batches: many client payouts sent together, grouped by destination bank, and the paid state of transactions
+-- Idempotent: safe to run more than once
+
+CREATE TABLE IF NOT EXISTS public.payout_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  batch_number TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft',
+  notes TEXT,
+  -- Set when the batch is confirmed as sent
+  paid_at DATE,
+  reference TEXT,
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_batches_user_id ON public.payout_batches(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS payout_batches_user_number_key ON public.payout_batches(user_id, batch_number);
+
+-- One line per transaction, with the destination and amount copied when the batch was built
+CREATE TABLE IF NOT EXISTS public.payout_batch_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_id UUID NOT NULL REFERENCES public.payout_batches(id) ON DELETE CASCADE,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  client_id UUID,
+  client_name TEXT,
+  -- Bank code from the bank file registry (KBZ, AYA, CB, SCB, ...) or OTHER
+  bank_code TEXT NOT NULL,
+  bank_name TEXT,
+  account_number TEXT,
+  account_name TEXT,
+  payout_currency TEXT NOT NULL,
+  payout_amount NUMERIC(14,2) NOT NULL,
+  transaction_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_batch_items_batch_id ON public.payout_batch_items(batch_id);
+-- A transaction can only be paid out by one batch
+CREATE UNIQUE INDEX IF NOT EXISTS payout_batch_items_transaction_key ON public.payout_batch_items(transaction_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'payout_batches_status_check'
+  ) THEN
+    ALTER TABLE public.payout_batches
+      ADD CONSTRAINT payout_batches_status_check
+      CHECK (status IN ('draft', 'confirmed'));
+  END IF;
+
+  -- Payout batches are numbered from their own sequence
+  IF EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'invoice_number_sequences_document_type_check'
+  ) THEN
+    ALTER TABLE public.invoice_number_sequences
+      DROP CONSTRAINT invoice_number_sequences_document_type_check;
+  END IF;
+  ALTER TABLE public.invoice_number_sequences
+    ADD CONSTRAINT invoice_number_sequences_document_type_check
+    CHECK (document_type IN ('invoice', 'credit_note', 'payout_batch'));
+END$$;
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS paid_at DATE,
+  ADD COLUMN IF NOT EXISTS payout_batch_id UUID REFERENCES public.payout_batches(id) ON DELETE SET NULL;
@@ -0,0 +1,9 @@
+-- Fees the business absorbs itself: recorded on the transaction but not charged to the client
+-- Idempotent: safe to run more than once
+
+ALTER TABLE public.fee_rules
+  ADD COLUMN IF NOT EXISTS absorbed BOOLEAN NOT NULL DEFAULT false;
+
+-- Absorbed fees are left out of transactions.fees, so they do not reduce the client's payout
+ALTER TABLE public.transaction_fees
+  ADD COLUMN IF NOT EXISTS absorbed BOOLEAN NOT NULL DEFAULT false;
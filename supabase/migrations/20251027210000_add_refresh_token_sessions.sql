@@ -0,0 +1,30 @@
+-- Sessions: every refresh token belongs to a family (one sign-in and all its rotations), with
+-- the device, IP and last use; reusing a rotated token revokes the whole family
+-- Idempotent: safe to run more than once
+
+CREATE TABLE IF NOT EXISTS public.refresh_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  token VARCHAR(255) NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  revoked BOOLEAN DEFAULT FALSE,
+  UNIQUE(token)
+);
+
+-- Tokens issued before this migration each start their own family
+ALTER TABLE public.refresh_tokens
+  ADD COLUMN IF NOT EXISTS family_id UUID NOT NULL DEFAULT gen_random_uuid(),
+  ADD COLUMN IF NOT EXISTS session_started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS user_agent TEXT,
+  ADD COLUMN IF NOT EXISTS ip_address TEXT,
+  ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE,
+  -- rotated, logout, signed_out, signed_out_everywhere, password_reset, reuse_detected, expired
+  ADD COLUMN IF NOT EXISTS revoked_reason TEXT;
+
+-- Room for signed tokens with more claims than the original VARCHAR(255) allowed
+ALTER TABLE public.refresh_tokens ALTER COLUMN token TYPE TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON public.refresh_tokens (family_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON public.refresh_tokens (user_id);
@@ -0,0 +1,39 @@
+-- Self-service sign-up: email verification, admin approval of new accounts and free trials
+-- Idempotent: safe to run more than once
+
+-- Accounts from before sign-up existed were created by admins, so they count as verified.
+-- The backfill only runs when the column is first added.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+     WHERE table_schema = 'public' AND table_name = 'users' AND column_name = 'email_verified_at'
+  ) THEN
+    ALTER TABLE public.users ADD COLUMN email_verified_at TIMESTAMP WITH TIME ZONE;
+    UPDATE public.users SET email_verified_at = created_at;
+  END IF;
+END $$;
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+-- 'trial': signed up and verified, usable until subscription_end_date without approval
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_subscription_status_check;
+ALTER TABLE public.users
+  ADD CONSTRAINT users_subscription_status_check
+  CHECK (subscription_status IN ('active', 'suspended', 'pending', 'trial'));
+ALTER TABLE public.users ALTER COLUMN subscription_status SET DEFAULT 'pending';
+
+-- Single-use email confirmation tokens; only a SHA-256 hash of each emailed token is stored
+CREATE TABLE IF NOT EXISTS public.email_verification_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_verification_tokens_token_hash ON public.email_verification_tokens (token_hash);
+CREATE INDEX IF NOT EXISTS idx_email_verification_tokens_user_id ON public.email_verification_tokens (user_id);
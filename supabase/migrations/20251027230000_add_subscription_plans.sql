@@ -0,0 +1,75 @@
+-- Subscription plans with limits, plan assignment per user and plan-aware subscription payments
+-- Idempotent: safe to run more than once
+
+CREATE TABLE IF NOT EXISTS public.plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  price NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  billing_period TEXT NOT NULL DEFAULT 'monthly' CHECK (billing_period IN ('monthly', 'yearly')),
+  -- NULL means unlimited
+  max_clients INTEGER CHECK (max_clients IS NULL OR max_clients >= 0),
+  max_invoices_per_month INTEGER CHECK (max_invoices_per_month IS NULL OR max_invoices_per_month >= 0),
+  -- Selling points shown to subscribers, e.g. ["PDF invoices", "Excel exports"]
+  features JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Users without a plan have no limits
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS plan_id UUID REFERENCES public.plans(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_users_plan_id ON public.users (plan_id);
+
+ALTER TABLE public.subscription_payments
+  ADD COLUMN IF NOT EXISTS plan_id UUID REFERENCES public.plans(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS payment_reference VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS recorded_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+-- Counting this month's invoices per user
+CREATE INDEX IF NOT EXISTS idx_invoices_user_id_created_at ON public.invoices (user_id, created_at);
+
+-- A completed payment extends the subscription by the plan's billing period (one month without
+-- a plan) and moves the user onto the paid plan. Only the change to 'completed' counts, so
+-- editing a completed payment does not extend it again.
+CREATE OR REPLACE FUNCTION update_subscription_on_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+    period INTERVAL;
+BEGIN
+    IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+        SELECT CASE WHEN billing_period = 'yearly' THEN INTERVAL '1 year' ELSE INTERVAL '1 month' END
+          INTO period
+          FROM plans
+         WHERE id = NEW.plan_id;
+        period := COALESCE(period, INTERVAL '1 month');
+
+        UPDATE users
+        SET subscription_status = 'active',
+            plan_id = COALESCE(NEW.plan_id, plan_id),
+            approved_at = COALESCE(approved_at, NOW()),
+            last_payment_date = NEW.payment_date,
+            subscription_start_date = CASE
+                WHEN subscription_end_date IS NULL OR subscription_end_date < CURRENT_TIMESTAMP
+                THEN NEW.payment_date
+                ELSE subscription_start_date
+            END,
+            subscription_end_date = CASE
+                WHEN subscription_end_date IS NULL OR subscription_end_date < CURRENT_TIMESTAMP
+                THEN NEW.payment_date + period
+                ELSE subscription_end_date + period
+            END
+        WHERE id = NEW.user_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_subscription_after_payment ON public.subscription_payments;
+CREATE TRIGGER update_subscription_after_payment
+    AFTER INSERT OR UPDATE ON public.subscription_payments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_subscription_on_payment();
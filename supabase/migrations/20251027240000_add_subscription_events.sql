@@ -0,0 +1,22 @@
+-- Log of automatic subscription actions: renewal reminders sent and suspensions after the grace period
+-- Idempotent: safe to run more than once
+
+CREATE TABLE IF NOT EXISTS public.subscription_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  event TEXT NOT NULL CHECK (event IN ('renewal_reminder', 'suspended')),
+  -- The subscription_end_date the event was about
+  subscription_end_date TIMESTAMP,
+  -- Reminders only: how many days before subscription_end_date the reminder was due
+  days_before INTEGER,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One reminder per user, end date and reminder day, however often the job runs
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscription_events_reminder
+  ON public.subscription_events (user_id, subscription_end_date, days_before)
+  WHERE event = 'renewal_reminder';
+
+CREATE INDEX IF NOT EXISTS idx_subscription_events_created_at ON public.subscription_events (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_subscription_events_user_id ON public.subscription_events (user_id);
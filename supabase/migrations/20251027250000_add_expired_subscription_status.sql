@@ -0,0 +1,28 @@
+-- 'expired' subscription status: read-only access once a lapsed subscription's grace period has ended
+-- Idempotent: safe to run more than once
+
+-- 'expired': set by the renewal job after the grace period; the user can sign in and read their
+-- data but not change it until renewed. 'suspended' stays a full lockout set by admins
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_subscription_status_check;
+ALTER TABLE public.users
+  ADD CONSTRAINT users_subscription_status_check
+  CHECK (subscription_status IN ('active', 'suspended', 'pending', 'trial', 'expired'));
+
+-- The job now logs 'expired' where it used to log 'suspended'
+ALTER TABLE public.subscription_events DROP CONSTRAINT IF EXISTS subscription_events_event_check;
+UPDATE public.subscription_events SET event = 'expired' WHERE event = 'suspended';
+ALTER TABLE public.subscription_events
+  ADD CONSTRAINT subscription_events_event_check
+  CHECK (event IN ('renewal_reminder', 'expired'));
+
+-- Accounts the job suspended and nobody renewed since become read-only instead of locked out
+UPDATE public.users u
+   SET subscription_status = 'expired'
+ WHERE u.subscription_status = 'suspended'
+   AND EXISTS (
+     SELECT 1
+       FROM public.subscription_events se
+      WHERE se.user_id = u.id
+        AND se.event = 'expired'
+        AND se.subscription_end_date IS NOT DISTINCT FROM u.subscription_end_date
+   );
@@ -0,0 +1,59 @@
+-- Team workspaces: organizations owning a subscriber's data, their members with roles, and email invitations
+-- Idempotent: safe to run more than once
+
+-- One workspace per subscriber. The owner's account, plan and subscription govern it, and the
+-- data tables keep the owner's id in user_id, so existing data belongs to each owner's workspace
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  owner_id UUID NOT NULL UNIQUE REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'accountant', 'data_entry', 'viewer')),
+  invited_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON public.organization_members (user_id);
+-- Exactly the organization's owner_id holds the owner role
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_members_one_owner
+  ON public.organization_members (organization_id)
+  WHERE role = 'owner';
+
+-- Emailed invitations; only a SHA-256 hash of each token is stored
+CREATE TABLE IF NOT EXISTS public.organization_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('accountant', 'data_entry', 'viewer')),
+  token_hash TEXT NOT NULL,
+  invited_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_invitations_token_hash ON public.organization_invitations (token_hash);
+-- One open invitation per email and workspace
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_invitations_open_email
+  ON public.organization_invitations (organization_id, lower(email))
+  WHERE accepted_at IS NULL;
+
+-- Every existing user owns a workspace named after their business (or email)
+INSERT INTO public.organizations (name, owner_id)
+SELECT COALESCE(NULLIF(trim(bp.business_name), ''), u.email), u.id
+  FROM public.users u
+  LEFT JOIN public.business_profiles bp ON bp.user_id = u.id
+ON CONFLICT (owner_id) DO NOTHING;
+
+INSERT INTO public.organization_members (organization_id, user_id, role)
+SELECT id, owner_id, 'owner'
+  FROM public.organizations
+ON CONFLICT (organization_id, user_id) DO NOTHING;
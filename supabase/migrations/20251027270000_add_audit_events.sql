@@ -0,0 +1,46 @@
+-- Append-only audit log of creates, updates and deletes on clients, transactions, invoices and users, and of sign-in events
+-- Idempotent: safe to run more than once
+
+-- No foreign keys: events outlive the users, workspaces and rows they describe, and rows are never
+-- updated, so actor_email and entity_label keep what was true at the time
+CREATE TABLE IF NOT EXISTS public.audit_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- The workspace whose data changed; NULL for account and sign-in events
+  organization_id UUID,
+  actor_id UUID,
+  actor_email TEXT,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('client', 'transaction', 'invoice', 'user', 'auth')),
+  entity_id UUID,
+  entity_label TEXT,
+  action TEXT NOT NULL,
+  before JSONB,
+  after JSONB,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_organization ON public.audit_events (organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON public.audit_events (entity_type, entity_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor ON public.audit_events (actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON public.audit_events (created_at DESC);
+
+-- Append-only: the table owner could still drop these triggers, the application cannot change history
+CREATE OR REPLACE FUNCTION public.audit_events_append_only()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only: % is not allowed', TG_OP;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_events_no_update_delete ON public.audit_events;
+CREATE TRIGGER audit_events_no_update_delete
+  BEFORE UPDATE OR DELETE ON public.audit_events
+  FOR EACH ROW EXECUTE FUNCTION public.audit_events_append_only();
+
+DROP TRIGGER IF EXISTS audit_events_no_truncate ON public.audit_events;
+CREATE TRIGGER audit_events_no_truncate
+  BEFORE TRUNCATE ON public.audit_events
+  FOR EACH STATEMENT EXECUTE FUNCTION public.audit_events_append_only();